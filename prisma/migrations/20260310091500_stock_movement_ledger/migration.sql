@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "stock_movements_productId_createdAt_idx" ON "stock_movements"("productId", "createdAt");
+
+-- Backfill opening balances so existing quantities reconcile against the ledger
+INSERT INTO "stock_movements" ("id", "productId", "type", "quantity", "reason", "reference", "createdAt")
+SELECT 'opening_' || "id", "id", 'ADJUSTMENT', "quantity", 'OPENING_BALANCE', "sku", CURRENT_TIMESTAMP
+FROM "products"
+WHERE "quantity" <> 0;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "stock_movements" ADD COLUMN     "createdBy" TEXT,
+ADD COLUMN     "notes" TEXT;
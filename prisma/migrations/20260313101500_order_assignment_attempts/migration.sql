@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "AssignmentAttemptOutcome" AS ENUM ('PENDING', 'ACCEPTED', 'REJECTED', 'EXPIRED', 'SUPERSEDED');
+
+-- CreateTable
+CREATE TABLE "order_assignment_attempts" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "officerId" TEXT NOT NULL,
+    "outcome" "AssignmentAttemptOutcome" NOT NULL DEFAULT 'PENDING',
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "respondBy" TIMESTAMP(3),
+    "respondedAt" TIMESTAMP(3),
+    "notes" TEXT,
+
+    CONSTRAINT "order_assignment_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_assignment_attempts_orderId_assignedAt_idx" ON "order_assignment_attempts"("orderId", "assignedAt");
+
+-- CreateIndex
+CREATE INDEX "order_assignment_attempts_officerId_outcome_idx" ON "order_assignment_attempts"("officerId", "outcome");
+
+-- AddForeignKey
+ALTER TABLE "order_assignment_attempts" ADD CONSTRAINT "order_assignment_attempts_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_assignment_attempts" ADD CONSTRAINT "order_assignment_attempts_officerId_fkey" FOREIGN KEY ("officerId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "WholesalerCreditReason" AS ENUM ('OVERPAYMENT');
+
+-- AlterTable
+ALTER TABLE "wholesalers" ADD COLUMN "creditBalance" DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "wholesaler_credit_entries" (
+    "id" TEXT NOT NULL,
+    "wholesalerId" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "reason" "WholesalerCreditReason" NOT NULL,
+    "orderId" TEXT,
+    "paymentId" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wholesaler_credit_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "wholesaler_credit_entries_wholesalerId_createdAt_idx" ON "wholesaler_credit_entries"("wholesalerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "wholesaler_credit_entries" ADD CONSTRAINT "wholesaler_credit_entries_wholesalerId_fkey" FOREIGN KEY ("wholesalerId") REFERENCES "wholesalers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wholesaler_credit_entries" ADD CONSTRAINT "wholesaler_credit_entries_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wholesaler_credit_entries" ADD CONSTRAINT "wholesaler_credit_entries_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "PaymentReconciliationTrigger" AS ENUM ('SCHEDULED', 'MANUAL');
+
+-- CreateEnum
+CREATE TYPE "PaymentReconciliationStatus" AS ENUM ('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "payment_reconciliation_reports" (
+    "id" TEXT NOT NULL,
+    "trigger" "PaymentReconciliationTrigger" NOT NULL,
+    "status" "PaymentReconciliationStatus" NOT NULL DEFAULT 'QUEUED',
+    "triggeredById" TEXT,
+    "ordersChecked" INTEGER NOT NULL DEFAULT 0,
+    "ordersConfirmed" INTEGER NOT NULL DEFAULT 0,
+    "partialPayments" INTEGER NOT NULL DEFAULT 0,
+    "ordersExpired" INTEGER NOT NULL DEFAULT 0,
+    "needsReview" INTEGER NOT NULL DEFAULT 0,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "entries" JSONB NOT NULL DEFAULT '[]',
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_reconciliation_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_reconciliation_reports_createdAt_idx" ON "payment_reconciliation_reports"("createdAt");
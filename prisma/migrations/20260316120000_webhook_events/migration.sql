@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "WebhookEventStatus" AS ENUM ('PENDING', 'PROCESSED', 'FAILED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "webhook_events" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "eventKey" TEXT,
+    "eventType" TEXT,
+    "headers" JSONB NOT NULL,
+    "payload" JSONB NOT NULL,
+    "signatureValid" BOOLEAN NOT NULL,
+    "clientIp" TEXT,
+    "status" "WebhookEventStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "result" JSONB,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_events_eventKey_key" ON "webhook_events"("eventKey");
+
+-- CreateIndex
+CREATE INDEX "webhook_events_status_createdAt_idx" ON "webhook_events"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "webhook_events_eventType_idx" ON "webhook_events"("eventType");
@@ -0,0 +1,94 @@
+-- AlterEnum
+ALTER TYPE "WholesalerCreditReason" ADD VALUE 'REPAYMENT_EXCESS';
+ALTER TYPE "WholesalerCreditReason" ADD VALUE 'VOIDED_CREDIT_INVOICE';
+
+-- CreateEnum
+CREATE TYPE "CreditInvoiceStatus" AS ENUM ('OPEN', 'PAID', 'VOID');
+
+-- CreateEnum
+CREATE TYPE "CreditRepaymentStatus" AS ENUM ('PENDING', 'COMPLETED');
+
+-- AlterTable
+ALTER TABLE "wholesalers" ADD COLUMN "creditLimit" DECIMAL(15,2) NOT NULL DEFAULT 0,
+ADD COLUMN "paymentTermsDays" INTEGER NOT NULL DEFAULT 30;
+
+-- CreateTable
+CREATE TABLE "credit_invoices" (
+    "id" TEXT NOT NULL,
+    "wholesalerId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "amountPaid" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "status" "CreditInvoiceStatus" NOT NULL DEFAULT 'OPEN',
+    "paidAt" TIMESTAMP(3),
+    "voidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "credit_repayments" (
+    "id" TEXT NOT NULL,
+    "wholesalerId" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "transactionReference" TEXT,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "amountPaid" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "status" "CreditRepaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "virtualAccounts" JSONB,
+    "checkoutUrl" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_repayments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "credit_repayment_allocations" (
+    "id" TEXT NOT NULL,
+    "repaymentId" TEXT NOT NULL,
+    "creditInvoiceId" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_repayment_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_invoices_orderId_key" ON "credit_invoices"("orderId");
+
+-- CreateIndex
+CREATE INDEX "credit_invoices_wholesalerId_status_dueDate_idx" ON "credit_invoices"("wholesalerId", "status", "dueDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_repayments_reference_key" ON "credit_repayments"("reference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_repayments_transactionReference_key" ON "credit_repayments"("transactionReference");
+
+-- CreateIndex
+CREATE INDEX "credit_repayments_wholesalerId_createdAt_idx" ON "credit_repayments"("wholesalerId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_repayment_allocations_repaymentId_creditInvoiceId_key" ON "credit_repayment_allocations"("repaymentId", "creditInvoiceId");
+
+-- AddForeignKey
+ALTER TABLE "credit_invoices" ADD CONSTRAINT "credit_invoices_wholesalerId_fkey" FOREIGN KEY ("wholesalerId") REFERENCES "wholesalers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_invoices" ADD CONSTRAINT "credit_invoices_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_repayments" ADD CONSTRAINT "credit_repayments_wholesalerId_fkey" FOREIGN KEY ("wholesalerId") REFERENCES "wholesalers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_repayment_allocations" ADD CONSTRAINT "credit_repayment_allocations_repaymentId_fkey" FOREIGN KEY ("repaymentId") REFERENCES "credit_repayments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_repayment_allocations" ADD CONSTRAINT "credit_repayment_allocations_creditInvoiceId_fkey" FOREIGN KEY ("creditInvoiceId") REFERENCES "credit_invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
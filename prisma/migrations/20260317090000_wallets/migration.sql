@@ -0,0 +1,150 @@
+-- AlterEnum
+ALTER TYPE "PaymentMethod" ADD VALUE 'WALLET';
+
+-- CreateEnum
+CREATE TYPE "WalletTransactionType" AS ENUM ('DEPOSIT', 'REFUND', 'OVERPAYMENT', 'ORDER_PAYMENT');
+
+-- CreateEnum
+CREATE TYPE "LedgerDirection" AS ENUM ('DEBIT', 'CREDIT');
+
+-- CreateEnum
+CREATE TYPE "LedgerAccount" AS ENUM ('WALLET', 'GATEWAY_CLEARING', 'ORDER_RECEIPTS', 'REFUNDS', 'CREDIT_ACCOUNTS');
+
+-- CreateTable
+CREATE TABLE "wallets" (
+    "id" TEXT NOT NULL,
+    "wholesalerId" TEXT NOT NULL,
+    "balance" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "accountReference" TEXT NOT NULL,
+    "reservedAccounts" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "wallets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wallet_transactions" (
+    "id" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "type" "WalletTransactionType" NOT NULL,
+    "direction" "LedgerDirection" NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "balanceAfter" DECIMAL(15,2) NOT NULL,
+    "reference" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "orderId" TEXT,
+    "paymentId" TEXT,
+    "refundId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wallet_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "account" "LedgerAccount" NOT NULL,
+    "walletId" TEXT,
+    "direction" "LedgerDirection" NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallets_wholesalerId_key" ON "wallets"("wholesalerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallets_accountReference_key" ON "wallets"("accountReference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallet_transactions_reference_key" ON "wallet_transactions"("reference");
+
+-- CreateIndex
+CREATE INDEX "wallet_transactions_walletId_createdAt_idx" ON "wallet_transactions"("walletId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_transactionId_idx" ON "ledger_entries"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_account_createdAt_idx" ON "ledger_entries"("account", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_walletId_idx" ON "ledger_entries"("walletId");
+
+-- AddForeignKey
+ALTER TABLE "wallets" ADD CONSTRAINT "wallets_wholesalerId_fkey" FOREIGN KEY ("wholesalerId") REFERENCES "wholesalers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wallet_transactions" ADD CONSTRAINT "wallet_transactions_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "wallets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wallet_transactions" ADD CONSTRAINT "wallet_transactions_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wallet_transactions" ADD CONSTRAINT "wallet_transactions_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wallet_transactions" ADD CONSTRAINT "wallet_transactions_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "refunds"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "wallet_transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "wallets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move store credit into wallets. Every existing entry was a credit, so each
+-- becomes a wallet transaction booked against the account it came from.
+INSERT INTO "wallets" ("id", "wholesalerId", "balance", "accountReference", "createdAt", "updatedAt")
+SELECT 'wal_' || w."id", w."id", w."creditBalance", 'WAL-' || w."id", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "wholesalers" w
+WHERE w."creditBalance" <> 0
+   OR EXISTS (SELECT 1 FROM "wholesaler_credit_entries" e WHERE e."wholesalerId" = w."id");
+
+INSERT INTO "wallet_transactions" ("id", "walletId", "type", "direction", "amount", "balanceAfter", "reference", "description", "orderId", "paymentId", "createdAt")
+SELECT
+    'wtx_' || e."id",
+    'wal_' || e."wholesalerId",
+    (CASE e."reason"
+        WHEN 'VOIDED_CREDIT_INVOICE' THEN 'REFUND'
+        ELSE 'OVERPAYMENT'
+    END)::"WalletTransactionType",
+    'CREDIT'::"LedgerDirection",
+    e."amount",
+    SUM(e."amount") OVER (PARTITION BY e."wholesalerId" ORDER BY e."createdAt", e."id"),
+    'store-credit:' || e."id",
+    COALESCE(e."notes", 'Store credit'),
+    e."orderId",
+    e."paymentId",
+    e."createdAt"
+FROM "wholesaler_credit_entries" e;
+
+INSERT INTO "ledger_entries" ("id", "transactionId", "account", "walletId", "direction", "amount", "createdAt")
+SELECT 'wle_' || e."id" || '_w', 'wtx_' || e."id", 'WALLET'::"LedgerAccount", 'wal_' || e."wholesalerId", 'CREDIT'::"LedgerDirection", e."amount", e."createdAt"
+FROM "wholesaler_credit_entries" e;
+
+INSERT INTO "ledger_entries" ("id", "transactionId", "account", "direction", "amount", "createdAt")
+SELECT
+    'wle_' || e."id" || '_c',
+    'wtx_' || e."id",
+    (CASE e."reason"
+        WHEN 'OVERPAYMENT' THEN 'ORDER_RECEIPTS'
+        WHEN 'REPAYMENT_EXCESS' THEN 'GATEWAY_CLEARING'
+        ELSE 'CREDIT_ACCOUNTS'
+    END)::"LedgerAccount",
+    'DEBIT'::"LedgerDirection",
+    e."amount",
+    e."createdAt"
+FROM "wholesaler_credit_entries" e;
+
+-- DropTable
+DROP TABLE "wholesaler_credit_entries";
+
+-- AlterTable
+ALTER TABLE "wholesalers" DROP COLUMN "creditBalance";
+
+-- DropEnum
+DROP TYPE "WholesalerCreditReason";
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "OrderDocumentType" AS ENUM ('PROFORMA_INVOICE', 'TAX_RECEIPT');
+
+-- CreateTable
+CREATE TABLE "order_documents" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "type" "OrderDocumentType" NOT NULL,
+    "documentNumber" TEXT NOT NULL,
+    "subtotal" DECIMAL(15,2) NOT NULL,
+    "vatRate" DECIMAL(5,2) NOT NULL,
+    "vatAmount" DECIMAL(15,2) NOT NULL,
+    "totalAmount" DECIMAL(15,2) NOT NULL,
+    "fileUrl" TEXT,
+    "filePublicId" TEXT,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "document_sequences" (
+    "key" TEXT NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_sequences_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_documents_documentNumber_key" ON "order_documents"("documentNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_documents_orderId_type_key" ON "order_documents"("orderId", "type");
+
+-- AddForeignKey
+ALTER TABLE "order_documents" ADD CONSTRAINT "order_documents_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,84 @@
+-- CreateEnum
+CREATE TYPE "ShipmentStatus" AS ENUM ('PENDING', 'DISPATCHED', 'IN_TRANSIT', 'DELIVERED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "shipments" (
+    "id" TEXT NOT NULL,
+    "shipmentNumber" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "status" "ShipmentStatus" NOT NULL DEFAULT 'PENDING',
+    "carrier" TEXT,
+    "waybillNumber" TEXT,
+    "driverName" TEXT,
+    "driverPhone" TEXT,
+    "vehicleNumber" TEXT,
+    "notes" TEXT,
+    "receivedBy" TEXT,
+    "proofOfDeliveryUrl" TEXT,
+    "proofOfDeliveryPublicId" TEXT,
+    "signatureUrl" TEXT,
+    "signaturePublicId" TEXT,
+    "dispatchedAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shipments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shipment_items" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+
+    CONSTRAINT "shipment_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shipment_events" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "status" "ShipmentStatus" NOT NULL,
+    "description" TEXT NOT NULL,
+    "location" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recordedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shipment_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shipments_shipmentNumber_key" ON "shipments"("shipmentNumber");
+
+-- CreateIndex
+CREATE INDEX "shipments_orderId_idx" ON "shipments"("orderId");
+
+-- CreateIndex
+CREATE INDEX "shipment_items_orderItemId_idx" ON "shipment_items"("orderItemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shipment_items_shipmentId_orderItemId_key" ON "shipment_items"("shipmentId", "orderItemId");
+
+-- CreateIndex
+CREATE INDEX "shipment_events_shipmentId_occurredAt_idx" ON "shipment_events"("shipmentId", "occurredAt");
+
+-- AddForeignKey
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipment_items" ADD CONSTRAINT "shipment_items_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "shipments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipment_items" ADD CONSTRAINT "shipment_items_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipment_events" ADD CONSTRAINT "shipment_events_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "shipments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipment_events" ADD CONSTRAINT "shipment_events_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
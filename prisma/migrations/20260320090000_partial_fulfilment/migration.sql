@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "RefundDestination" AS ENUM ('ORIGINAL_PAYMENT', 'WALLET');
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "fulfilledQuantity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "shortQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- Items already delivered or unavailable in full
+UPDATE "order_items" SET "fulfilledQuantity" = "quantity" WHERE "status" = 'DELIVERED';
+UPDATE "order_items" SET "shortQuantity" = "quantity" WHERE "status" = 'UNAVAILABLE';
+
+-- AlterTable
+ALTER TABLE "refunds" ADD COLUMN     "destination" "RefundDestination" NOT NULL DEFAULT 'ORIGINAL_PAYMENT';
+
+-- AlterTable
+ALTER TABLE "shipment_items" ADD COLUMN     "quantity" INTEGER;
+
+-- Shipments so far carried whole items
+UPDATE "shipment_items" SET "quantity" = "order_items"."quantity"
+FROM "order_items"
+WHERE "order_items"."id" = "shipment_items"."orderItemId";
+
+ALTER TABLE "shipment_items" ALTER COLUMN "quantity" SET NOT NULL;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "KycStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "KycDocumentType" AS ENUM ('CAC_CERTIFICATE', 'PROOF_OF_ADDRESS', 'DIRECTOR_ID');
+
+-- AlterTable
+ALTER TABLE "wholesalers" ADD COLUMN     "businessAddress" TEXT,
+ADD COLUMN     "businessName" TEXT,
+ADD COLUMN     "cacNumber" TEXT,
+ADD COLUMN     "kycRejectionReason" TEXT,
+ADD COLUMN     "kycReviewedAt" TIMESTAMP(3),
+ADD COLUMN     "kycReviewedBy" TEXT,
+ADD COLUMN     "kycStatus" "KycStatus",
+ADD COLUMN     "kycSubmittedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "kyc_documents" (
+    "id" TEXT NOT NULL,
+    "wholesalerId" TEXT NOT NULL,
+    "type" "KycDocumentType" NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "fileUrl" TEXT NOT NULL,
+    "filePublicId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "kyc_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wholesalers_cacNumber_key" ON "wholesalers"("cacNumber");
+
+-- CreateIndex
+CREATE INDEX "kyc_documents_wholesalerId_idx" ON "kyc_documents"("wholesalerId");
+
+-- AddForeignKey
+ALTER TABLE "kyc_documents" ADD CONSTRAINT "kyc_documents_wholesalerId_fkey" FOREIGN KEY ("wholesalerId") REFERENCES "wholesalers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- Existing sessions hold plaintext refresh tokens outside any family, so
+-- they are ended and everyone signs in again once
+DELETE FROM "user_sessions";
+
+-- DropIndex
+DROP INDEX "user_sessions_token_key";
+
+-- AlterTable
+ALTER TABLE "user_sessions" DROP COLUMN "token",
+ADD COLUMN     "familyId" TEXT NOT NULL,
+ADD COLUMN     "rotatedAt" TIMESTAMP(3),
+ADD COLUMN     "tokenHash" TEXT NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_sessions_tokenHash_key" ON "user_sessions"("tokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_sessions_familyId_key" ON "user_sessions"("familyId");
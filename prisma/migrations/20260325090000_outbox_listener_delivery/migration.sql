@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "outbox_events" ADD COLUMN "listener" TEXT;
+
+-- Split undelivered events into one row per listener
+INSERT INTO "outbox_events" ("id", "eventType", "listener", "aggregateId", "payload", "status", "attempts", "lastError", "createdAt", "updatedAt")
+SELECT "e"."id" || '-' || "l"."listener", "e"."eventType", "l"."listener", "e"."aggregateId", "e"."payload", 'PENDING', 0, NULL, "e"."createdAt", CURRENT_TIMESTAMP
+FROM "outbox_events" "e"
+JOIN (VALUES
+    ('order.confirmed', 'order-assignment'),
+    ('order.confirmed', 'order-confirmation-email'),
+    ('payment.received', 'payment-received-email')
+) AS "l" ("eventType", "listener") ON "l"."eventType" = "e"."eventType"
+WHERE "e"."listener" IS NULL AND "e"."status" <> 'PUBLISHED';
+
+DELETE FROM "outbox_events" WHERE "listener" IS NULL AND "status" <> 'PUBLISHED';
+
+-- Published events were relayed to every listener at once
+UPDATE "outbox_events" SET "listener" = '*' WHERE "listener" IS NULL;
+
+ALTER TABLE "outbox_events" ALTER COLUMN "listener" SET NOT NULL;
@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "payments_monnifyInvoiceRef_key";
+
+-- Payments were keyed on the gateway transaction reference until now
+UPDATE "payments" SET "transactionRef" = "monnifyInvoiceRef" WHERE "transactionRef" IS NULL AND "status" <> 'FAILED';
+
+-- CreateIndex
+CREATE INDEX "payments_monnifyInvoiceRef_idx" ON "payments"("monnifyInvoiceRef");
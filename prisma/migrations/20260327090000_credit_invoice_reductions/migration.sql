@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "credit_invoice_reductions" (
+    "id" TEXT NOT NULL,
+    "creditInvoiceId" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "refunded" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_invoice_reductions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_invoice_reductions_reference_key" ON "credit_invoice_reductions"("reference");
+
+-- CreateIndex
+CREATE INDEX "credit_invoice_reductions_creditInvoiceId_idx" ON "credit_invoice_reductions"("creditInvoiceId");
+
+-- AddForeignKey
+ALTER TABLE "credit_invoice_reductions" ADD CONSTRAINT "credit_invoice_reductions_creditInvoiceId_fkey" FOREIGN KEY ("creditInvoiceId") REFERENCES "credit_invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -1,9 +1,33 @@
 import { Module } from '@nestjs/common';
 import { AdminAuthModule } from './auth/admin-auth.module';
 import { AdminDashboardModule } from './dashboard/admin-dashboard.module';
+import { AdminSystemConfigModule } from './system-config/admin-system-config.module';
+import { AdminOutboxModule } from './outbox/admin-outbox.module';
+import { AdminPaymentReconciliationModule } from './payment-reconciliation/admin-payment-reconciliation.module';
+import { AdminWebhookEventsModule } from './webhook-events/admin-webhook-events.module';
+import { AdminCreditAccountsModule } from './credit-accounts/admin-credit-accounts.module';
+import { AdminWholesalerApplicationsModule } from './wholesaler-applications/admin-wholesaler-applications.module';
 
 @Module({
-  imports: [AdminAuthModule, AdminDashboardModule],
-  exports: [AdminAuthModule, AdminDashboardModule],
+  imports: [
+    AdminAuthModule,
+    AdminDashboardModule,
+    AdminSystemConfigModule,
+    AdminOutboxModule,
+    AdminPaymentReconciliationModule,
+    AdminWebhookEventsModule,
+    AdminCreditAccountsModule,
+    AdminWholesalerApplicationsModule,
+  ],
+  exports: [
+    AdminAuthModule,
+    AdminDashboardModule,
+    AdminSystemConfigModule,
+    AdminOutboxModule,
+    AdminPaymentReconciliationModule,
+    AdminWebhookEventsModule,
+    AdminCreditAccountsModule,
+    AdminWholesalerApplicationsModule,
+  ],
 })
 export class AdminModule {}
@@ -16,6 +16,7 @@ import {
   ApiBody,
 } from '@nestjs/swagger';
 import { UserRole } from '@prisma/client';
+import { ExtractJwt } from 'passport-jwt';
 
 import { AdminAuthService } from './admin-auth.service';
 import { AdminJwtAuthGuard } from './guards/admin-jwt-auth.guard';
@@ -25,15 +26,25 @@ import {
   CurrentAdminId,
 } from './decorators/current-admin.decorator';
 import { AdminRoles } from './decorators/admin-roles.decorator';
+import { UnifiedAuthGuard } from '../../common/guards/unified-auth.guard';
+import { RolesGuard } from '../../modules/auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUserId } from '../../common/decorators/current-user.decorator';
 import {
   AdminLoginDto,
   AdminRefreshTokenDto,
   AdminSeedDto,
+  AdminTwoFactorCodeDto,
+  AdminTwoFactorLoginDto,
 } from './dto/admin-auth.dto';
 import {
   AdminAuthResponseDto,
   AdminProfileDto,
   AdminPermissionsDto,
+  AdminRecoveryCodesDto,
+  AdminTwoFactorChallengeDto,
+  AdminTwoFactorLoginResponseDto,
+  AdminTwoFactorSetupDto,
 } from './dto/admin-response.dto';
 
 @ApiTags('Admin Authentication')
@@ -46,7 +57,7 @@ export class AdminAuthController {
   @ApiOperation({
     summary: 'Admin login',
     description:
-      'Validates admin credentials and issues JWT tokens (access + refresh)',
+      'Validates admin credentials and issues JWT tokens (access + refresh). Accounts with two-factor authentication, or covered by the admin 2FA policy, get a challenge token to complete at login/two-factor instead',
   })
   @ApiBody({ type: AdminLoginDto })
   @ApiResponse({
@@ -54,6 +65,11 @@ export class AdminAuthController {
     description: 'Login successful',
     type: AdminAuthResponseDto,
   })
+  @ApiResponse({
+    status: 200,
+    description: 'Password accepted; a two-factor code is needed',
+    type: AdminTwoFactorChallengeDto,
+  })
   @ApiResponse({
     status: 401,
     description: 'Invalid credentials or account inactive',
@@ -65,17 +81,159 @@ export class AdminAuthController {
   async login(
     @Body() loginDto: AdminLoginDto,
     @Request() req: any,
-  ): Promise<AdminAuthResponseDto> {
+  ): Promise<AdminAuthResponseDto | AdminTwoFactorChallengeDto> {
     return this.adminAuthService.login(loginDto, req);
   }
 
+  @Post('login/two-factor')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete admin login with a two-factor code',
+    description:
+      'Exchanges the challenge token from login and a code from the authenticator app, or a recovery code, for JWT tokens. When the challenge is for setup, the code finishes enrolment and the recovery codes are returned once',
+  })
+  @ApiBody({ type: AdminTwoFactorLoginDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    type: AdminTwoFactorLoginResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid code or invalid or expired challenge',
+  })
+  async loginWithTwoFactor(
+    @Body() loginDto: AdminTwoFactorLoginDto,
+    @Request() req: any,
+  ): Promise<AdminTwoFactorLoginResponseDto> {
+    return this.adminAuthService.loginWithTwoFactor(loginDto, req);
+  }
+
+  @Post('two-factor/setup')
+  @UseGuards(UnifiedAuthGuard, RolesGuard)
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.PROCUREMENT_OFFICER)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({
+    summary: 'Start two-factor setup',
+    description:
+      'Generates a TOTP secret and otpauth URI to add to an authenticator app. Two-factor authentication is turned on once a code is confirmed',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Secret generated',
+    type: AdminTwoFactorSetupDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Two-factor authentication is already enabled',
+  })
+  async startTwoFactorSetup(
+    @CurrentUserId() userId: string,
+  ): Promise<AdminTwoFactorSetupDto> {
+    return this.adminAuthService.startTwoFactorSetup(userId);
+  }
+
+  @Post('two-factor/confirm')
+  @UseGuards(UnifiedAuthGuard, RolesGuard)
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.PROCUREMENT_OFFICER)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({
+    summary: 'Turn on two-factor authentication',
+    description:
+      'Confirms setup with a code from the authenticator app and returns recovery codes. They are only shown once',
+  })
+  @ApiBody({ type: AdminTwoFactorCodeDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication enabled',
+    type: AdminRecoveryCodesDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code, or setup not started',
+  })
+  async enableTwoFactor(
+    @CurrentUserId() userId: string,
+    @Body() codeDto: AdminTwoFactorCodeDto,
+    @Request() req: any,
+  ): Promise<AdminRecoveryCodesDto> {
+    return this.adminAuthService.enableTwoFactor(userId, codeDto.code, req);
+  }
+
+  @Post('two-factor/recovery-codes')
+  @UseGuards(UnifiedAuthGuard, RolesGuard)
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.PROCUREMENT_OFFICER)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({
+    summary: 'Regenerate recovery codes',
+    description:
+      'Replaces all recovery codes with a new set. Requires a code from the authenticator app',
+  })
+  @ApiBody({ type: AdminTwoFactorCodeDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Recovery codes regenerated',
+    type: AdminRecoveryCodesDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code',
+  })
+  async regenerateRecoveryCodes(
+    @CurrentUserId() userId: string,
+    @Body() codeDto: AdminTwoFactorCodeDto,
+    @Request() req: any,
+  ): Promise<AdminRecoveryCodesDto> {
+    return this.adminAuthService.regenerateRecoveryCodes(
+      userId,
+      codeDto.code,
+      req,
+    );
+  }
+
+  @Post('two-factor/disable')
+  @UseGuards(UnifiedAuthGuard, RolesGuard)
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.PROCUREMENT_OFFICER)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({
+    summary: 'Turn off two-factor authentication',
+    description:
+      'Requires a code from the authenticator app. Not allowed while the admin 2FA policy covers the account',
+  })
+  @ApiBody({ type: AdminTwoFactorCodeDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication disabled',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Two-factor authentication is required for admin accounts',
+  })
+  async disableTwoFactor(
+    @CurrentUserId() userId: string,
+    @Body() codeDto: AdminTwoFactorCodeDto,
+    @Request() req: any,
+  ): Promise<{ message: string }> {
+    await this.adminAuthService.disableTwoFactor(userId, codeDto.code, req);
+    return { message: 'Two-factor authentication disabled' };
+  }
+
   @Post('logout')
   @UseGuards(AdminJwtAuthGuard)
   @HttpCode(HttpStatus.OK)
   @ApiBearerAuth('admin-access-token')
   @ApiOperation({
     summary: 'Admin logout',
-    description: 'Invalidates admin session and refresh token',
+    description:
+      'Invalidates admin sessions and refresh tokens and revokes the access token',
   })
   @ApiResponse({
     status: 200,
@@ -89,10 +247,39 @@ export class AdminAuthController {
     @CurrentAdminId() adminId: string,
     @Request() req: any,
   ): Promise<{ message: string }> {
-    await this.adminAuthService.logout(adminId, req);
+    await this.adminAuthService.logout(
+      adminId,
+      ExtractJwt.fromAuthHeaderAsBearerToken()(req),
+      req,
+    );
     return { message: 'Logout successful' };
   }
 
+  @Post('logout-all')
+  @UseGuards(AdminJwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({
+    summary: 'Admin log out everywhere',
+    description:
+      'Ends every admin session and revokes every access and refresh token issued so far, on all devices',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Logged out of all sessions',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or expired token',
+  })
+  async logoutAll(
+    @CurrentAdminId() adminId: string,
+    @Request() req: any,
+  ): Promise<{ message: string }> {
+    await this.adminAuthService.logoutAll(adminId, req);
+    return { message: 'Logged out of all sessions' };
+  }
+
   @Post('refresh')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
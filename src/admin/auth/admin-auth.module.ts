@@ -5,8 +5,10 @@ import { PassportModule } from '@nestjs/passport';
 
 import { AdminAuthService } from './admin-auth.service';
 import { AdminAuthController } from './admin-auth.controller';
+import { TwoFactorService } from './two-factor.service';
 import { PrismaService } from '../../modules/prisma/prisma.service';
 import { AuditService } from '../../modules/audit/audit.service';
+import { RefreshTokenService } from '../../modules/auth/refresh-token.service';
 
 // Strategies
 import { AdminJwtStrategy } from './strategies/admin-jwt.strategy';
@@ -36,6 +38,8 @@ import { AdminRolesGuard } from './guards/admin-roles.guard';
     AdminAuthService,
     PrismaService,
     AuditService,
+    RefreshTokenService,
+    TwoFactorService,
 
     // Strategies
     AdminJwtStrategy,
@@ -4,25 +4,50 @@ import {
   ConflictException,
   NotFoundException,
   BadRequestException,
+  ForbiddenException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
-import { UserRole, UserStatus, AdminAction } from '@prisma/client';
+import { UserRole, UserStatus, AdminAction, Prisma } from '@prisma/client';
 import * as argon2 from 'argon2';
+import { v4 as uuidv4 } from 'uuid';
 
 import { PrismaService } from '../../modules/prisma/prisma.service';
+import { CacheService } from '../../modules/cache/cache.service';
+import {
+  RefreshTokenClaims,
+  RefreshTokenService,
+  SESSION_TTL_SECONDS,
+} from '../../modules/auth/refresh-token.service';
 import { AuditService } from '../../modules/audit/audit.service';
+import { SystemConfigService } from '../../modules/system-config/system-config.service';
 import {
   AdminLoginDto,
   AdminRefreshTokenDto,
   AdminSeedDto,
+  AdminTwoFactorLoginDto,
 } from './dto/admin-auth.dto';
 import {
   AdminAuthResponseDto,
   AdminProfileDto,
   AdminPermissionsDto,
+  AdminRecoveryCodesDto,
+  AdminTwoFactorChallengeDto,
+  AdminTwoFactorLoginResponseDto,
+  AdminTwoFactorSetupDto,
 } from './dto/admin-response.dto';
 import { AdminJwtPayload } from './strategies/admin-jwt.strategy';
+import { TwoFactorService } from './two-factor.service';
+
+type AdminWithProfiles = Prisma.UserGetPayload<{
+  include: { adminProfile: true; procurementOfficerProfile: true };
+}>;
+
+const ADMIN_LOGIN_ROLES = [
+  UserRole.SUPER_ADMIN,
+  UserRole.ADMIN,
+  UserRole.PROCUREMENT_OFFICER,
+];
 
 @Injectable()
 export class AdminAuthService {
@@ -32,6 +57,10 @@ export class AdminAuthService {
 
   constructor(
     private prisma: PrismaService,
+    private cacheService: CacheService,
+    private refreshTokenService: RefreshTokenService,
+    private twoFactorService: TwoFactorService,
+    private systemConfigService: SystemConfigService,
     private jwtService: JwtService,
     private configService: ConfigService,
     private auditService: AuditService,
@@ -49,25 +78,21 @@ export class AdminAuthService {
   }
 
   /**
-   * Admin Login
+   * Admin Login. Accounts with two-factor authentication, or covered by the
+   * 2FA policy, get a challenge to complete with loginWithTwoFactor instead
+   * of tokens.
    */
   async login(
     loginDto: AdminLoginDto,
     request: any,
-  ): Promise<AdminAuthResponseDto> {
+  ): Promise<AdminAuthResponseDto | AdminTwoFactorChallengeDto> {
     const { email, password, role: expectedRole } = loginDto;
 
     // Find admin user with profile (now includes procurement officers)
     const admin = await this.prisma.user.findUnique({
       where: {
         email,
-        role: {
-          in: [
-            UserRole.SUPER_ADMIN,
-            UserRole.ADMIN,
-            UserRole.PROCUREMENT_OFFICER,
-          ],
-        },
+        role: { in: ADMIN_LOGIN_ROLES },
         status: UserStatus.ACTIVE,
       },
       include: {
@@ -166,11 +191,231 @@ export class AdminAuthService {
       throw new UnauthorizedException('Invalid admin credentials');
     }
 
+    // Failed attempts are only reset once every step has passed, so wrong
+    // two-factor codes still lead to the account lock
+    if (admin.twoFactorEnabled) {
+      return this.twoFactorService.createChallenge(admin.id, 'verify');
+    }
+
+    // The policy covers accounts that have not enrolled yet; they set up
+    // two-factor authentication as the second step
+    if (await this.isTwoFactorRequired(admin.role)) {
+      return {
+        ...this.twoFactorService.createChallenge(admin.id, 'setup'),
+        setup: await this.twoFactorService.beginSetup(admin),
+      };
+    }
+
     // Reset failed login attempts on successful login
     await this.resetFailedLoginAttempts(admin.id);
 
-    // Generate tokens
-    const tokens = await this.generateTokens(admin);
+    return this.completeLogin(admin, request);
+  }
+
+  /**
+   * Second login step: exchange the challenge and a code for tokens
+   */
+  async loginWithTwoFactor(
+    loginDto: AdminTwoFactorLoginDto,
+    request: any,
+  ): Promise<AdminTwoFactorLoginResponseDto> {
+    const challenge = await this.twoFactorService.readChallenge(
+      loginDto.challengeToken,
+    );
+
+    const admin = await this.prisma.user.findUnique({
+      where: {
+        id: challenge.sub,
+        role: { in: ADMIN_LOGIN_ROLES },
+        status: UserStatus.ACTIVE,
+      },
+      include: {
+        adminProfile: true,
+        procurementOfficerProfile: true,
+      },
+    });
+
+    if (!admin) {
+      throw new UnauthorizedException('Invalid admin credentials');
+    }
+
+    if (
+      admin.adminProfile?.accountLockUntil &&
+      new Date() < admin.adminProfile.accountLockUntil
+    ) {
+      throw new UnauthorizedException('Admin account is temporarily locked');
+    }
+
+    let recoveryCodes: string[] | null = null;
+    let verified: boolean;
+    if (challenge.purpose === 'setup') {
+      if (!loginDto.code) {
+        throw new BadRequestException(
+          'Enter a code from your authenticator app to finish setup',
+        );
+      }
+      recoveryCodes = await this.twoFactorService.confirmSetup(
+        admin.id,
+        loginDto.code,
+      );
+      verified = recoveryCodes !== null;
+    } else if (loginDto.recoveryCode) {
+      verified = await this.twoFactorService.useRecoveryCode(
+        admin.id,
+        loginDto.recoveryCode,
+      );
+    } else {
+      verified = await this.twoFactorService.verifyCode(
+        admin.id,
+        loginDto.code ?? '',
+      );
+    }
+
+    if (!verified) {
+      await this.handleFailedLogin(admin.id);
+
+      await this.logAdminAuditEvent(
+        admin.id,
+        AdminAction.LOGIN_FAILED,
+        'ADMIN_AUTH',
+        admin.id,
+        request,
+        { email: admin.email, reason: 'Invalid two-factor code' },
+      );
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    await this.twoFactorService.spendChallenge(challenge);
+    await this.resetFailedLoginAttempts(admin.id);
+
+    if (recoveryCodes) {
+      await this.logAdminAuditEvent(
+        admin.id,
+        AdminAction.ENABLE_TWO_FACTOR,
+        'ADMIN_AUTH',
+        admin.id,
+        request,
+        { enrolledAtLogin: true },
+      );
+    }
+
+    const tokens = await this.completeLogin(admin, request, {
+      twoFactor:
+        challenge.purpose === 'verify' && loginDto.recoveryCode
+          ? 'recovery_code'
+          : 'totp',
+    });
+
+    return recoveryCodes ? { ...tokens, recoveryCodes } : tokens;
+  }
+
+  /**
+   * Start two-factor enrolment for a signed-in account
+   */
+  async startTwoFactorSetup(userId: string): Promise<AdminTwoFactorSetupDto> {
+    const user = await this.findAdminOrThrow(userId);
+    return this.twoFactorService.beginSetup(user);
+  }
+
+  /**
+   * Finish two-factor enrolment with the first code from the app
+   */
+  async enableTwoFactor(
+    userId: string,
+    code: string,
+    request: any,
+  ): Promise<AdminRecoveryCodesDto> {
+    const recoveryCodes = await this.twoFactorService.confirmSetup(
+      userId,
+      code,
+    );
+
+    if (!recoveryCodes) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    await this.logAdminAuditEvent(
+      userId,
+      AdminAction.ENABLE_TWO_FACTOR,
+      'ADMIN_AUTH',
+      userId,
+      request,
+    );
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Replace the recovery codes, e.g. when most have been used
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+    request: any,
+  ): Promise<AdminRecoveryCodesDto> {
+    if (!(await this.twoFactorService.verifyCode(userId, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    const recoveryCodes =
+      await this.twoFactorService.regenerateRecoveryCodes(userId);
+
+    await this.logAdminAuditEvent(
+      userId,
+      AdminAction.REGENERATE_RECOVERY_CODES,
+      'ADMIN_AUTH',
+      userId,
+      request,
+    );
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turn two-factor authentication off, unless the 2FA policy covers the
+   * account
+   */
+  async disableTwoFactor(
+    userId: string,
+    code: string,
+    request: any,
+  ): Promise<void> {
+    const user = await this.findAdminOrThrow(userId);
+
+    if (await this.isTwoFactorRequired(user.role)) {
+      throw new ForbiddenException(
+        'Two-factor authentication is required for admin accounts',
+      );
+    }
+
+    if (!(await this.twoFactorService.verifyCode(userId, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    await this.twoFactorService.disable(userId);
+
+    await this.logAdminAuditEvent(
+      userId,
+      AdminAction.DISABLE_TWO_FACTOR,
+      'ADMIN_AUTH',
+      userId,
+      request,
+    );
+  }
+
+  /**
+   * Issue tokens and start a session once every login step has passed
+   */
+  private async completeLogin(
+    admin: AdminWithProfiles,
+    request: any,
+    metadata?: Record<string, string>,
+  ): Promise<AdminAuthResponseDto> {
+    const { email } = admin;
+
+    // Generate tokens; each login starts a new refresh token family
+    const familyId = uuidv4();
+    const tokens = await this.generateTokens(admin, familyId);
 
     // Update last login
     await this.prisma.user.update({
@@ -187,11 +432,17 @@ export class AdminAuthService {
     }
 
     // Create session record
-    await this.createAdminSession(admin.id, tokens.refreshToken, request);
+    await this.refreshTokenService.createSession(
+      admin.id,
+      familyId,
+      tokens.refreshToken,
+      request,
+    );
 
     // Log successful admin login
     await this.auditService.logAuthEvent(admin.id, 'LOGIN', request, {
       email,
+      ...metadata,
     });
 
     return {
@@ -201,7 +452,8 @@ export class AdminAuthService {
   }
 
   /**
-   * Refresh admin tokens
+   * Refresh admin tokens. The refresh token is rotated; presenting one that
+   * was already used revokes its whole session.
    */
   async refreshToken(
     refreshTokenDto: AdminRefreshTokenDto,
@@ -210,19 +462,34 @@ export class AdminAuthService {
     const { refreshToken } = refreshTokenDto;
 
     try {
-      const payload = this.jwtService.verify(refreshToken);
+      const payload = this.jwtService.verify<
+        RefreshTokenClaims & { type?: string }
+      >(refreshToken);
 
       if (payload.type !== 'admin-refresh') {
         throw new UnauthorizedException('Invalid admin refresh token');
       }
 
+      if (await this.cacheService.isTokenRevoked(payload)) {
+        throw new UnauthorizedException('Admin refresh token has been revoked');
+      }
+
+      const session = await this.refreshTokenService.findSession(payload);
+
       const admin = await this.validateAdminById(payload.sub);
       if (!admin) {
         throw new UnauthorizedException('Admin not found');
       }
 
-      // Generate new tokens
-      const tokens = await this.generateTokens(admin);
+      // Generate new tokens and swap in the new refresh token, or revoke
+      // the family on reuse
+      const tokens = await this.generateTokens(admin, session.familyId);
+      await this.refreshTokenService.rotate(
+        session,
+        refreshToken,
+        tokens.refreshToken,
+        request,
+      );
 
       // Log token refresh
       await this.logAdminAuditEvent(
@@ -250,12 +517,24 @@ export class AdminAuthService {
   /**
    * Admin logout
    */
-  async logout(adminId: string, request: any): Promise<void> {
+  async logout(
+    adminId: string,
+    accessToken: string | null,
+    request: any,
+  ): Promise<void> {
     // Invalidate all sessions for this admin
     await this.prisma.userSession.deleteMany({
       where: { userId: adminId },
     });
 
+    // Revoke the access token used to log out
+    const payload = accessToken
+      ? this.jwtService.decode<AdminJwtPayload | null>(accessToken)
+      : null;
+    if (payload?.jti && payload.exp) {
+      await this.cacheService.revokeToken(payload.jti, payload.exp);
+    }
+
     // Log logout
     await this.logAdminAuditEvent(
       adminId,
@@ -266,6 +545,27 @@ export class AdminAuthService {
     );
   }
 
+  /**
+   * Log out everywhere: end every session and revoke every access and
+   * refresh token issued to the admin so far
+   */
+  async logoutAll(adminId: string, request: any): Promise<void> {
+    const { count } = await this.prisma.userSession.deleteMany({
+      where: { userId: adminId },
+    });
+
+    await this.cacheService.revokeUserTokens(adminId, SESSION_TTL_SECONDS);
+
+    await this.logAdminAuditEvent(
+      adminId,
+      AdminAction.LOGOUT,
+      'ADMIN_AUTH',
+      adminId,
+      request,
+      { allSessions: true, sessionsEnded: count },
+    );
+  }
+
   /**
    * Get admin profile
    */
@@ -417,22 +717,31 @@ export class AdminAuthService {
 
   /**
    * Generate JWT tokens
+   * @param familyId - The session's refresh token family
    */
   private async generateTokens(
     admin: any,
+    familyId: string,
   ): Promise<Omit<AdminAuthResponseDto, 'admin'>> {
+    const iatMs = Date.now();
     const payload: AdminJwtPayload = {
       sub: admin.id,
       email: admin.email,
       role: admin.role,
       type: 'admin',
       regions: [], // Admins don't have regional assignments
+      iatMs,
+      jti: uuidv4(),
+      fam: familyId,
     };
 
     const accessToken = this.jwtService.sign(payload as any);
     const refreshToken = this.jwtService.sign({
       sub: admin.id,
       type: 'admin-refresh',
+      fam: familyId,
+      iatMs,
+      jti: uuidv4(),
     } as any);
 
     return {
@@ -482,25 +791,6 @@ export class AdminAuthService {
     });
   }
 
-  /**
-   * Create admin session
-   */
-  private async createAdminSession(
-    adminId: string,
-    refreshToken: string,
-    request: any,
-  ): Promise<void> {
-    await this.prisma.userSession.create({
-      data: {
-        userId: adminId,
-        token: refreshToken,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-        ipAddress: request.ip || null,
-        userAgent: request.get('User-Agent') || null,
-      },
-    });
-  }
-
   /**
    * Transform user to admin profile DTO
    */
@@ -513,6 +803,7 @@ export class AdminAuthService {
       role: admin.role,
       status: admin.status,
       emailVerified: admin.emailVerified,
+      twoFactorEnabled: admin.twoFactorEnabled,
       lastLogin: admin.lastLogin,
       assignedRegions: [], // Admins don't have regional assignments
       permissions: {
@@ -527,6 +818,29 @@ export class AdminAuthService {
     };
   }
 
+  /**
+   * Whether the SUPER_ADMIN's 2FA policy covers this role
+   */
+  private async isTwoFactorRequired(role: UserRole): Promise<boolean> {
+    if (role !== UserRole.ADMIN && role !== UserRole.SUPER_ADMIN) {
+      return false;
+    }
+
+    return this.systemConfigService.get('ADMIN_TWO_FACTOR_REQUIRED');
+  }
+
+  private async findAdminOrThrow(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId, role: { in: ADMIN_LOGIN_ROLES } },
+    });
+
+    if (!user) {
+      throw new NotFoundException('Admin not found');
+    }
+
+    return user;
+  }
+
   /**
    * Log admin audit events
    */
@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import {
   IsEmail,
   IsNotEmpty,
@@ -7,6 +7,8 @@ import {
   IsArray,
   IsOptional,
   IsEnum,
+  Matches,
+  ValidateIf,
 } from 'class-validator';
 import { UserRole } from '@prisma/client';
 
@@ -49,6 +51,45 @@ export class AdminRefreshTokenDto {
   refreshToken: string;
 }
 
+export class AdminTwoFactorCodeDto {
+  @ApiProperty({
+    description: 'Current 6-digit code from the authenticator app',
+    example: '123456',
+  })
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'Code must be 6 digits' })
+  code: string;
+}
+
+export class AdminTwoFactorLoginDto {
+  @ApiProperty({
+    description: 'Challenge token returned by the login step',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Challenge token is required' })
+  challengeToken: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Current 6-digit code from the authenticator app. Required unless a recovery code is given',
+    example: '123456',
+  })
+  @ValidateIf((dto: AdminTwoFactorLoginDto) => !dto.recoveryCode)
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'Code must be 6 digits' })
+  code?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'One of the recovery codes issued at enrolment, for when the authenticator is unavailable. Each works once',
+    example: 'a1b2c-3d4e5',
+  })
+  @IsOptional()
+  @IsString()
+  recoveryCode?: string;
+}
+
 export class AdminSeedDto {
   @ApiProperty({
     description: 'Super Admin email address',
@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { UserRole, UserStatus } from '@prisma/client';
 
 export class AdminProfileDto {
@@ -47,6 +47,12 @@ export class AdminProfileDto {
   })
   emailVerified: boolean;
 
+  @ApiProperty({
+    description: 'Whether two-factor authentication is enabled',
+    example: true,
+  })
+  twoFactorEnabled: boolean;
+
   @ApiProperty({
     description: 'Last login timestamp',
     example: '2023-12-15T10:30:00Z',
@@ -120,6 +126,67 @@ export class AdminAuthResponseDto {
   admin: AdminProfileDto;
 }
 
+export class AdminTwoFactorSetupDto {
+  @ApiProperty({
+    description: 'Base32 secret for manual entry in the authenticator app',
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+  })
+  secret: string;
+
+  @ApiProperty({
+    description: 'otpauth:// URI to show as a QR code',
+    example:
+      'otpauth://totp/Jooav%20ERP%3Aadmin%40jooav.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Jooav%20ERP&algorithm=SHA1&digits=6&period=30',
+  })
+  otpauthUri: string;
+}
+
+export class AdminTwoFactorChallengeDto {
+  @ApiProperty({
+    description: 'Always true; the login needs a second step',
+    example: true,
+  })
+  twoFactorRequired: true;
+
+  @ApiProperty({
+    description:
+      'Short-lived token to send with the code to POST /admin/auth/login/two-factor',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  challengeToken: string;
+
+  @ApiProperty({
+    description: 'Challenge token lifetime in seconds',
+    example: 300,
+  })
+  expiresIn: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Present when two-factor authentication is required but not yet set up. Add it to an authenticator app and send the first code to finish enrolment',
+    type: () => AdminTwoFactorSetupDto,
+  })
+  setup?: AdminTwoFactorSetupDto;
+}
+
+export class AdminRecoveryCodesDto {
+  @ApiProperty({
+    description:
+      'Single-use recovery codes. Shown once; any earlier codes stop working',
+    example: ['a1b2c-3d4e5', 'f6a7b-8c9d0'],
+  })
+  recoveryCodes: string[];
+}
+
+export class AdminTwoFactorLoginResponseDto extends AdminAuthResponseDto {
+  @ApiPropertyOptional({
+    description:
+      'Issued when this login finished two-factor enrolment. Shown once',
+    example: ['a1b2c-3d4e5', 'f6a7b-8c9d0'],
+  })
+  recoveryCodes?: string[];
+}
+
 export class AdminPermissionsDto {
   @ApiProperty({
     description: 'Admin role in the platform',
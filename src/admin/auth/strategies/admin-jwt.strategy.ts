@@ -4,6 +4,7 @@ import { ConfigService } from '@nestjs/config';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { UserRole } from '@prisma/client';
 import { AdminAuthService } from '../admin-auth.service';
+import { CacheService } from '../../../modules/cache/cache.service';
 
 export interface AdminJwtPayload {
   sub: string; // admin user id
@@ -12,7 +13,10 @@ export interface AdminJwtPayload {
   type: 'admin'; // Distinguish admin tokens from regular user tokens
   regions?: string[]; // Assigned regions
   iat?: number;
+  iatMs?: number; // Issue time in milliseconds, for revocation cut-offs
   exp?: number;
+  jti?: string; // JWT ID for token revocation
+  fam?: string; // Refresh token family of the session
 }
 
 @Injectable()
@@ -20,6 +24,7 @@ export class AdminJwtStrategy extends PassportStrategy(Strategy, 'admin-jwt') {
   constructor(
     private configService: ConfigService,
     private adminAuthService: AdminAuthService,
+    private cacheService: CacheService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -61,6 +66,11 @@ export class AdminJwtStrategy extends PassportStrategy(Strategy, 'admin-jwt') {
       }
     }
 
+    // Check if token was revoked by a logout on any instance
+    if (await this.cacheService.isTokenRevoked(payload)) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
+
     return admin;
   }
 }
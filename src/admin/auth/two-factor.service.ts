@@ -0,0 +1,373 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Prisma, User } from '@prisma/client';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+
+import { PrismaService } from '../../modules/prisma/prisma.service';
+import { CacheService } from '../../modules/cache/cache.service';
+import { hashToken } from '../../common/utils/token.util';
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from '../../common/utils/totp.util';
+import {
+  AdminTwoFactorChallengeDto,
+  AdminTwoFactorSetupDto,
+} from './dto/admin-response.dto';
+
+const CHALLENGE_TOKEN_TYPE = 'admin-2fa-challenge';
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * What the second login step does: check a code for an enrolled account, or
+ * finish enrolment for one the 2FA policy covers
+ */
+export type TwoFactorChallengePurpose = 'verify' | 'setup';
+
+export interface TwoFactorChallengeClaims {
+  sub: string;
+  type: typeof CHALLENGE_TOKEN_TYPE;
+  purpose: TwoFactorChallengePurpose;
+  jti: string;
+  iat?: number;
+  iatMs?: number;
+  exp?: number;
+}
+
+type TwoFactorUser = Pick<
+  User,
+  'id' | 'email' | 'twoFactorEnabled' | 'twoFactorSecret'
+>;
+
+/**
+ * TOTP two-factor authentication for admin and procurement logins.
+ *
+ * Secrets are stored encrypted since codes are computed from them; recovery
+ * codes are stored hashed and work once. Logins by enrolled accounts get a
+ * short-lived challenge token that is exchanged, with a code, for the real
+ * tokens.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly issuer: string;
+  private readonly encryptionKey: Buffer;
+  private readonly challengeSecret: string;
+
+  constructor(
+    private prisma: PrismaService,
+    private cacheService: CacheService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) {
+    const jwtSecret =
+      this.configService.get<string>('security.jwtSecret') || 'your-secret-key';
+
+    this.issuer =
+      this.configService.get<string>('security.twoFactorIssuer') || 'Jooav ERP';
+    this.encryptionKey = createHash('sha256')
+      .update(
+        this.configService.get<string>('security.twoFactorEncryptionKey') ||
+          jwtSecret,
+      )
+      .digest();
+    // Signed with a different secret so a challenge token can never pass as
+    // an access token
+    this.challengeSecret = `${jwtSecret}:${CHALLENGE_TOKEN_TYPE}`;
+  }
+
+  /**
+   * Generate a new secret for the user to add to their authenticator app.
+   * It takes effect once a code from it is confirmed.
+   * @throws BadRequestException if two-factor authentication is already on
+   */
+  async beginSetup(user: TwoFactorUser): Promise<AdminTwoFactorSetupDto> {
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorSecret: this.encrypt(secret),
+        twoFactorLastUsedStep: null,
+      },
+    });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, this.issuer),
+    };
+  }
+
+  /**
+   * Turn two-factor authentication on with the first code from the app
+   * @returns New recovery codes, or null if the code is wrong
+   * @throws BadRequestException if setup was not started or is already done
+   */
+  async confirmSetup(userId: string, code: string): Promise<string[] | null> {
+    const user = await this.findUser(userId);
+
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    if (!user.twoFactorSecret) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+
+    if (!(await this.acceptCode(user, code))) {
+      return null;
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: true, twoFactorEnabledAt: new Date() },
+      });
+
+      return this.replaceRecoveryCodes(tx, userId);
+    });
+  }
+
+  /**
+   * Check a code from the authenticator app. Each code is accepted once.
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const user = await this.findUser(userId);
+
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    return this.acceptCode(user, code);
+  }
+
+  /**
+   * Spend one of the user's recovery codes
+   */
+  async useRecoveryCode(
+    userId: string,
+    recoveryCode: string,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.twoFactorRecoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: hashToken(this.normaliseRecoveryCode(recoveryCode)),
+        usedAt: null,
+        user: { twoFactorEnabled: true },
+      },
+      data: { usedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Issue a fresh set of recovery codes; the old ones stop working
+   */
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    return this.prisma.$transaction((tx) =>
+      this.replaceRecoveryCodes(tx, userId),
+    );
+  }
+
+  /**
+   * Turn two-factor authentication off and forget the secret
+   */
+  async disable(userId: string): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastUsedStep: null,
+        },
+      }),
+      this.prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    ]);
+  }
+
+  /**
+   * Issue the token a login exchanges for real tokens once the code checks
+   * out
+   */
+  createChallenge(
+    userId: string,
+    purpose: TwoFactorChallengePurpose,
+  ): AdminTwoFactorChallengeDto {
+    const claims: TwoFactorChallengeClaims = {
+      sub: userId,
+      type: CHALLENGE_TOKEN_TYPE,
+      purpose,
+      jti: uuidv4(),
+      iatMs: Date.now(),
+    };
+
+    const challengeToken = this.jwtService.sign(claims, {
+      secret: this.challengeSecret,
+      expiresIn: CHALLENGE_TTL_SECONDS,
+    });
+
+    return {
+      twoFactorRequired: true,
+      challengeToken,
+      expiresIn: CHALLENGE_TTL_SECONDS,
+    };
+  }
+
+  /**
+   * Read a challenge token that has not expired or been used
+   * @throws UnauthorizedException otherwise
+   */
+  async readChallenge(
+    challengeToken: string,
+  ): Promise<TwoFactorChallengeClaims> {
+    let claims: TwoFactorChallengeClaims;
+    try {
+      claims = this.jwtService.verify<TwoFactorChallengeClaims>(
+        challengeToken,
+        { secret: this.challengeSecret },
+      );
+    } catch {
+      throw new UnauthorizedException(
+        'Invalid or expired two-factor challenge',
+      );
+    }
+
+    if (
+      claims.type !== CHALLENGE_TOKEN_TYPE ||
+      (await this.cacheService.isTokenRevoked(claims))
+    ) {
+      throw new UnauthorizedException(
+        'Invalid or expired two-factor challenge',
+      );
+    }
+
+    return claims;
+  }
+
+  /**
+   * Mark a challenge as used so it cannot log in a second time
+   */
+  async spendChallenge(claims: TwoFactorChallengeClaims): Promise<void> {
+    if (claims.exp) {
+      await this.cacheService.revokeToken(claims.jti, claims.exp);
+    }
+  }
+
+  private async findUser(userId: string): Promise<TwoFactorUser> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        twoFactorEnabled: true,
+        twoFactorSecret: true,
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  private async acceptCode(
+    user: TwoFactorUser,
+    code: string,
+  ): Promise<boolean> {
+    const step = verifyTotp(this.decrypt(user.twoFactorSecret!), code);
+    if (step === null) {
+      return false;
+    }
+
+    // Claim the time step so the same code cannot be replayed
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [
+          { twoFactorLastUsedStep: null },
+          { twoFactorLastUsedStep: { lt: step } },
+        ],
+      },
+      data: { twoFactorLastUsedStep: step },
+    });
+
+    return count > 0;
+  }
+
+  private async replaceRecoveryCodes(
+    tx: Prisma.TransactionClient,
+    userId: string,
+  ): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+
+    await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+    await tx.twoFactorRecoveryCode.createMany({
+      data: codes.map((code) => ({
+        userId,
+        codeHash: hashToken(this.normaliseRecoveryCode(code)),
+      })),
+    });
+
+    return codes;
+  }
+
+  // Accept codes typed without the dash or in upper case
+  private normaliseRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  private encrypt(value: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const encrypted = Buffer.concat([
+      cipher.update(value, 'utf8'),
+      cipher.final(),
+    ]);
+
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map((part) => part.toString('base64'))
+      .join('.');
+  }
+
+  private decrypt(payload: string): string {
+    const [iv, authTag, encrypted] = payload
+      .split('.')
+      .map((part) => Buffer.from(part, 'base64'));
+
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { UnifiedAuthGuard } from '../../common/guards/unified-auth.guard';
+import { RolesGuard } from '../../modules/auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUserId } from '../../common/decorators/current-user.decorator';
+import { AuditLog } from '../../common/decorators/audit-log.decorator';
+import { SuccessResponse } from '../../common/dto';
+import { ResponseMessages } from '../../common/utils/response-messages.util';
+import { CreditAccountService } from '../../modules/credit/credit-account.service';
+import {
+  CreditAccountResponseDto,
+  CreditStatementQueryDto,
+  CreditStatementResponseDto,
+  UpdateCreditAccountDto,
+} from '../../modules/credit/dto/credit-account.dto';
+
+@ApiTags('Admin Credit Accounts')
+@Controller('admin/credit-accounts')
+@UseGuards(UnifiedAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+@ApiBearerAuth('admin-access-token')
+export class AdminCreditAccountsController {
+  constructor(private readonly creditAccountService: CreditAccountService) {}
+
+  @Get(':wholesalerId')
+  @ApiOperation({
+    summary: 'Get a wholesaler credit account (Admin only)',
+    description:
+      'Credit limit, payment terms, outstanding balance and 30/60/90-day aging',
+  })
+  @ApiParam({ name: 'wholesalerId', description: 'Wholesaler user ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Credit account retrieved successfully',
+    type: CreditAccountResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Wholesaler not found',
+  })
+  async getAccount(@Param('wholesalerId') wholesalerId: string) {
+    const account = await this.creditAccountService.getAccount(wholesalerId);
+
+    return new SuccessResponse(
+      'Credit account retrieved successfully',
+      account,
+    );
+  }
+
+  @Put(':wholesalerId')
+  @ApiOperation({
+    summary: 'Set a wholesaler credit limit and terms (Admin only)',
+    description:
+      'A limit above 0 lets the wholesaler confirm orders on credit. New terms apply to orders confirmed afterwards',
+  })
+  @ApiParam({ name: 'wholesalerId', description: 'Wholesaler user ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Credit account updated successfully',
+    type: CreditAccountResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Wholesaler not found',
+  })
+  @AuditLog({ action: 'UPDATE', resource: 'credit_account' })
+  async updateAccount(
+    @Param('wholesalerId') wholesalerId: string,
+    @Body() dto: UpdateCreditAccountDto,
+    @CurrentUserId() userId: string,
+  ) {
+    const account = await this.creditAccountService.updateAccount(
+      wholesalerId,
+      dto,
+      userId,
+    );
+
+    return new SuccessResponse(
+      ResponseMessages.updated('Credit account', wholesalerId),
+      account,
+    );
+  }
+
+  @Get(':wholesalerId/statement')
+  @ApiOperation({
+    summary: 'Get a wholesaler credit statement (Admin only)',
+    description:
+      'Open invoices and every charge, repayment and cancellation in the period with a running balance. Defaults to the last 30 days',
+  })
+  @ApiParam({ name: 'wholesalerId', description: 'Wholesaler user ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Credit statement retrieved successfully',
+    type: CreditStatementResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Wholesaler not found',
+  })
+  async getStatement(
+    @Param('wholesalerId') wholesalerId: string,
+    @Query() query: CreditStatementQueryDto,
+  ) {
+    const statement = await this.creditAccountService.getStatement(
+      wholesalerId,
+      query,
+    );
+
+    return new SuccessResponse(
+      'Credit statement retrieved successfully',
+      statement,
+    );
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { AdminCreditAccountsController } from './admin-credit-accounts.controller';
+import { CreditModule } from '../../modules/credit/credit.module';
+
+@Module({
+  imports: [CreditModule],
+  controllers: [AdminCreditAccountsController],
+})
+export class AdminCreditAccountsModule {}
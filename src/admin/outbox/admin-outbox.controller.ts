@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { UnifiedAuthGuard } from '../../common/guards/unified-auth.guard';
+import { RolesGuard } from '../../modules/auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { SuccessResponse } from '../../common/dto';
+import { ResponseMessages } from '../../common/utils/response-messages.util';
+import { OutboxService } from '../../modules/outbox/outbox.service';
+import {
+  OutboxEventResponseDto,
+  OutboxQueryDto,
+} from '../../modules/outbox/dto';
+
+@ApiTags('Admin Outbox')
+@Controller('admin/outbox')
+@UseGuards(UnifiedAuthGuard, RolesGuard)
+@Roles(UserRole.SUPER_ADMIN)
+@ApiBearerAuth('admin-access-token')
+export class AdminOutboxController {
+  constructor(private readonly outboxService: OutboxService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List outbox events (Super Admin only)',
+    description:
+      'Inspect relayed and pending events. Use status=failed for the dead-letter view',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Outbox events retrieved successfully',
+    type: [OutboxEventResponseDto],
+  })
+  async findAll(@Query() query: OutboxQueryDto) {
+    const result = await this.outboxService.findAll(query);
+
+    return new SuccessResponse(
+      ResponseMessages.foundItems(
+        result.data.length,
+        'outbox event',
+        result.meta.totalItems,
+      ),
+      result,
+    );
+  }
+
+  @Post(':id/replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replay an outbox event (Super Admin only)',
+    description:
+      'Queue a failed or stuck event for delivery again. Listeners may see it more than once',
+  })
+  @ApiParam({ name: 'id', description: 'Outbox event ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Outbox event queued for replay',
+    type: OutboxEventResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Event has already been published',
+  })
+  async replay(@Param('id') id: string) {
+    const outboxEvent = await this.outboxService.replay(id);
+
+    return new SuccessResponse(
+      ResponseMessages.operationSuccess(
+        'replay',
+        'Outbox event',
+        outboxEvent.eventType,
+      ),
+      outboxEvent,
+    );
+  }
+}
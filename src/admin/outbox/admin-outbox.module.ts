@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { AdminOutboxController } from './admin-outbox.controller';
+import { OutboxModule } from '../../modules/outbox/outbox.module';
+
+@Module({
+  imports: [OutboxModule],
+  controllers: [AdminOutboxController],
+})
+export class AdminOutboxModule {}
@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { UnifiedAuthGuard } from '../../common/guards/unified-auth.guard';
+import { RolesGuard } from '../../modules/auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUserId } from '../../common/decorators/current-user.decorator';
+import { SuccessResponse } from '../../common/dto';
+import { ResponseMessages } from '../../common/utils/response-messages.util';
+import { PaymentReconciliationService } from '../../modules/order/payment-reconciliation.service';
+import {
+  PaymentReconciliationReportQueryDto,
+  PaymentReconciliationReportResponseDto,
+} from '../../modules/order/dto/payment-reconciliation.dto';
+
+@ApiTags('Admin Payment Reconciliation')
+@Controller('admin/payment-reconciliation')
+@UseGuards(UnifiedAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+@ApiBearerAuth('admin-access-token')
+export class AdminPaymentReconciliationController {
+  constructor(
+    private readonly reconciliationService: PaymentReconciliationService,
+  ) {}
+
+  @Get('reports')
+  @ApiOperation({
+    summary: 'List payment reconciliation reports (Admin only)',
+    description:
+      'Reports from scheduled and manual sweeps of PENDING_PAYMENT orders, newest first',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reconciliation reports retrieved successfully',
+    type: [PaymentReconciliationReportResponseDto],
+  })
+  async findAll(@Query() query: PaymentReconciliationReportQueryDto) {
+    const result = await this.reconciliationService.findAll(query);
+
+    return new SuccessResponse(
+      ResponseMessages.foundItems(
+        result.data.length,
+        'reconciliation report',
+        result.meta.totalItems,
+      ),
+      result,
+    );
+  }
+
+  @Get('reports/:id')
+  @ApiOperation({ summary: 'Get a payment reconciliation report (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reconciliation report retrieved successfully',
+    type: PaymentReconciliationReportResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Reconciliation report not found',
+  })
+  async findOne(@Param('id') id: string) {
+    const report = await this.reconciliationService.findOne(id);
+
+    return new SuccessResponse(
+      'Reconciliation report retrieved successfully',
+      report,
+    );
+  }
+
+  @Post('run')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Run payment reconciliation now (Admin only)',
+    description:
+      'Queue a sweep outside the schedule. Poll the returned report until it is COMPLETED',
+  })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'Reconciliation queued',
+    type: PaymentReconciliationReportResponseDto,
+  })
+  async run(@CurrentUserId() userId: string) {
+    const report = await this.reconciliationService.queueRun(userId);
+
+    return new SuccessResponse('Payment reconciliation queued', report);
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { AdminPaymentReconciliationController } from './admin-payment-reconciliation.controller';
+import { OrderModule } from '../../modules/order/order.module';
+
+@Module({
+  imports: [OrderModule],
+  controllers: [AdminPaymentReconciliationController],
+})
+export class AdminPaymentReconciliationModule {}
@@ -0,0 +1,111 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpStatus,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import type { Request } from 'express';
+import type { User } from '@prisma/client';
+import { UnifiedAuthGuard } from '../../common/guards/unified-auth.guard';
+import { RolesGuard } from '../../modules/auth/guards/roles.guard';
+import {
+  AdminPermissionsGuard,
+  RequireAdminPermissions,
+} from '../../common/guards/admin-permissions.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { SuccessResponse } from '../../common/dto';
+import { ResponseMessages } from '../../common/utils/response-messages.util';
+import { SystemConfigService } from '../../modules/system-config/system-config.service';
+import {
+  SystemConfigEntryDto,
+  UpdateSystemConfigDto,
+} from '../../modules/system-config/dto';
+
+@ApiTags('Admin System Config')
+@Controller('admin/system-config')
+@UseGuards(UnifiedAuthGuard, RolesGuard, AdminPermissionsGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+@ApiBearerAuth('admin-access-token')
+export class AdminSystemConfigController {
+  constructor(private readonly systemConfigService: SystemConfigService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get runtime system configuration',
+    description:
+      'Returns every runtime setting with its effective value, default and source (database, environment or default)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'System configuration retrieved successfully',
+    type: [SystemConfigEntryDto],
+  })
+  async getConfig() {
+    const config = await this.systemConfigService.getAll();
+
+    return new SuccessResponse(
+      ResponseMessages.foundItems(config.length, 'system setting'),
+      config,
+    );
+  }
+
+  @Put()
+  @RequireAdminPermissions('canModifySystemConfig')
+  @ApiOperation({
+    summary: 'Update runtime system configuration',
+    description:
+      'Update one or more settings. Changes take effect immediately and are recorded in the admin audit log',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'System configuration updated successfully',
+    type: [SystemConfigEntryDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'A value failed validation',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Missing canModifySystemConfig permission, or not a SUPER_ADMIN when changing ADMIN_TWO_FACTOR_REQUIRED',
+  })
+  async updateConfig(
+    @Body() updateDto: UpdateSystemConfigDto,
+    @CurrentUser() admin: User,
+    @Req() req: Request,
+  ) {
+    // Admins must not be able to lift a 2FA policy that applies to them
+    if (
+      updateDto.ADMIN_TWO_FACTOR_REQUIRED !== undefined &&
+      admin.role !== UserRole.SUPER_ADMIN
+    ) {
+      throw new ForbiddenException(
+        'Only a SUPER_ADMIN can change ADMIN_TWO_FACTOR_REQUIRED',
+      );
+    }
+
+    const config = await this.systemConfigService.update(
+      updateDto,
+      admin.id,
+      req,
+    );
+
+    return new SuccessResponse(
+      ResponseMessages.operationSuccess('update', 'System config'),
+      config,
+    );
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { AdminSystemConfigController } from './admin-system-config.controller';
+import { AdminPermissionsGuard } from '../../common/guards/admin-permissions.guard';
+
+@Module({
+  controllers: [AdminSystemConfigController],
+  providers: [AdminPermissionsGuard],
+})
+export class AdminSystemConfigModule {}
@@ -0,0 +1,115 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { UnifiedAuthGuard } from '../../common/guards/unified-auth.guard';
+import { RolesGuard } from '../../modules/auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { SuccessResponse } from '../../common/dto';
+import { ResponseMessages } from '../../common/utils/response-messages.util';
+import { WebhookEventService } from '../../modules/order/webhook-event.service';
+import {
+  WebhookEventQueryDto,
+  WebhookEventResponseDto,
+} from '../../modules/order/dto/webhook-event.dto';
+
+@ApiTags('Admin Webhook Events')
+@Controller('admin/webhook-events')
+@UseGuards(UnifiedAuthGuard, RolesGuard)
+@Roles(UserRole.SUPER_ADMIN)
+@ApiBearerAuth('admin-access-token')
+export class AdminWebhookEventsController {
+  constructor(private readonly webhookEventService: WebhookEventService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List payment webhook events (Super Admin only)',
+    description:
+      'Inspect webhooks as received. Use status=failed for events that need a replay and status=rejected for requests that failed verification',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Webhook events retrieved successfully',
+    type: [WebhookEventResponseDto],
+  })
+  async findAll(@Query() query: WebhookEventQueryDto) {
+    const result = await this.webhookEventService.findAll(query);
+
+    return new SuccessResponse(
+      ResponseMessages.foundItems(
+        result.data.length,
+        'webhook event',
+        result.meta.totalItems,
+      ),
+      result,
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get a payment webhook event (Super Admin only)',
+    description: 'Raw headers and body, signature result and handler outcome',
+  })
+  @ApiParam({ name: 'id', description: 'Webhook event ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Webhook event retrieved successfully',
+    type: WebhookEventResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Webhook event not found',
+  })
+  async findOne(@Param('id') id: string) {
+    const webhookEvent = await this.webhookEventService.findOne(id);
+
+    return new SuccessResponse(
+      'Webhook event retrieved successfully',
+      webhookEvent,
+    );
+  }
+
+  @Post(':id/replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replay a payment webhook event (Super Admin only)',
+    description:
+      'Queue a failed or stuck event for processing again. Handlers skip work they have already applied',
+  })
+  @ApiParam({ name: 'id', description: 'Webhook event ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Webhook event queued for replay',
+    type: WebhookEventResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Event has already been processed or failed verification',
+  })
+  async replay(@Param('id') id: string) {
+    const webhookEvent = await this.webhookEventService.replay(id);
+
+    return new SuccessResponse(
+      ResponseMessages.operationSuccess(
+        'replay',
+        'Webhook event',
+        webhookEvent.eventType ?? webhookEvent.id,
+      ),
+      webhookEvent,
+    );
+  }
+}
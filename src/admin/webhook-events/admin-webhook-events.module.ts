@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { AdminWebhookEventsController } from './admin-webhook-events.controller';
+import { OrderModule } from '../../modules/order/order.module';
+
+@Module({
+  imports: [OrderModule],
+  controllers: [AdminWebhookEventsController],
+})
+export class AdminWebhookEventsModule {}
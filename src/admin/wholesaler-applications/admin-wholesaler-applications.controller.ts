@@ -0,0 +1,182 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import type { Request } from 'express';
+import { UnifiedAuthGuard } from '../../common/guards/unified-auth.guard';
+import { RolesGuard } from '../../modules/auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUserId } from '../../common/decorators/current-user.decorator';
+import { SuccessResponse } from '../../common/dto';
+import { ResponseMessages } from '../../common/utils/response-messages.util';
+import { WholesalerOnboardingService } from '../../modules/onboarding/wholesaler-onboarding.service';
+import {
+  RejectWholesalerApplicationDto,
+  WholesalerApplicationQueryDto,
+  WholesalerApplicationResponseDto,
+} from '../../modules/onboarding/dto/wholesaler-application.dto';
+
+@ApiTags('Admin Wholesaler Applications')
+@Controller('admin/wholesaler-applications')
+@UseGuards(UnifiedAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+@ApiBearerAuth('admin-access-token')
+export class AdminWholesalerApplicationsController {
+  constructor(
+    private readonly wholesalerOnboardingService: WholesalerOnboardingService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List wholesaler applications (Admin only)',
+    description:
+      'The approval queue, oldest first. Defaults to PENDING; use status=approved or status=rejected for decided applications',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Applications retrieved successfully',
+    type: [WholesalerApplicationResponseDto],
+  })
+  async findAll(
+    @Query() query: WholesalerApplicationQueryDto,
+    @CurrentUserId() adminId: string,
+  ) {
+    const result = await this.wholesalerOnboardingService.findApplications(
+      query,
+      adminId,
+    );
+
+    return new SuccessResponse(
+      ResponseMessages.foundItems(
+        result.data.length,
+        'application',
+        result.meta.totalItems,
+      ),
+      result,
+    );
+  }
+
+  @Get(':userId')
+  @ApiOperation({
+    summary: 'Get a wholesaler application (Admin only)',
+    description: 'Business details and links to the uploaded KYC documents',
+  })
+  @ApiParam({ name: 'userId', description: 'Applicant user ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Application retrieved successfully',
+    type: WholesalerApplicationResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Application not found',
+  })
+  async findOne(
+    @Param('userId') userId: string,
+    @CurrentUserId() adminId: string,
+  ) {
+    const application = await this.wholesalerOnboardingService.findApplication(
+      userId,
+      adminId,
+    );
+
+    return new SuccessResponse(
+      'Application retrieved successfully',
+      application,
+    );
+  }
+
+  @Post(':userId/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Approve a wholesaler application (Admin only)',
+    description:
+      'Activates the account and emails the applicant. Recorded in the admin audit log',
+  })
+  @ApiParam({ name: 'userId', description: 'Applicant user ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Application approved',
+    type: WholesalerApplicationResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Application already decided',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Application not found',
+  })
+  async approve(
+    @Param('userId') userId: string,
+    @CurrentUserId() adminId: string,
+    @Req() req: Request,
+  ) {
+    const application = await this.wholesalerOnboardingService.approve(
+      userId,
+      adminId,
+      req,
+    );
+
+    return new SuccessResponse(
+      `Application for ${application.businessName} approved`,
+      application,
+    );
+  }
+
+  @Post(':userId/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reject a wholesaler application (Admin only)',
+    description:
+      'Deactivates the account and emails the applicant the reason. Recorded in the admin audit log',
+  })
+  @ApiParam({ name: 'userId', description: 'Applicant user ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Application rejected',
+    type: WholesalerApplicationResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Application already decided',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Application not found',
+  })
+  async reject(
+    @Param('userId') userId: string,
+    @Body() rejectDto: RejectWholesalerApplicationDto,
+    @CurrentUserId() adminId: string,
+    @Req() req: Request,
+  ) {
+    const application = await this.wholesalerOnboardingService.reject(
+      userId,
+      rejectDto,
+      adminId,
+      req,
+    );
+
+    return new SuccessResponse(
+      `Application for ${application.businessName} rejected`,
+      application,
+    );
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { AdminWholesalerApplicationsController } from './admin-wholesaler-applications.controller';
+import { OnboardingModule } from '../../modules/onboarding/onboarding.module';
+
+@Module({
+  imports: [OnboardingModule],
+  controllers: [AdminWholesalerApplicationsController],
+})
+export class AdminWholesalerApplicationsModule {}
@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ThrottlerModule } from '@nestjs/throttler';
+import { EventEmitterModule } from '@nestjs/event-emitter';
 import { TerminusModule } from '@nestjs/terminus';
 import { APP_FILTER, APP_INTERCEPTOR, APP_PIPE } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
@@ -23,6 +24,7 @@ import {
   sentryConfig,
   emailConfig,
   monnifyConfig,
+  paymentConfig,
   validationSchema,
 } from './config';
 
@@ -37,6 +39,8 @@ import { LoggerService } from './common/utils/logger.service';
 import { AuditService } from './modules/audit/audit.service';
 import { StartupValidationService } from './config/startup-validation.service';
 import { CacheModule } from './modules/cache/cache.module';
+import { SystemConfigModule } from './modules/system-config/system-config.module';
+import { EventsModule } from './modules/events/events.module';
 import { EmailModule } from './modules/email/email.module';
 
 // Modules
@@ -54,6 +58,10 @@ import { ProductModule } from './modules/product/product.module';
 import { PackSizeModule } from './modules/pack-size/pack-size.module';
 import { PackTypeModule } from './modules/pack-type/pack-type.module';
 import { OrderModule } from './modules/order/order.module';
+import { InventoryModule } from './modules/inventory/inventory.module';
+import { RegionModule } from './modules/region/region.module';
+import { CreditModule } from './modules/credit/credit.module';
+import { WalletModule } from './modules/wallet/wallet.module';
 import { SentryModule } from '@sentry/nestjs/setup';
 
 @Module({
@@ -75,6 +83,7 @@ import { SentryModule } from '@sentry/nestjs/setup';
         sentryConfig,
         emailConfig,
         monnifyConfig,
+        paymentConfig,
       ],
       validationSchema,
       validationOptions: {
@@ -106,8 +115,13 @@ import { SentryModule } from '@sentry/nestjs/setup';
     // Health checks
     TerminusModule,
 
+    // Domain events (email notifications subscribe to these)
+    EventEmitterModule.forRoot(),
+
     // Feature modules
     CacheModule,
+    SystemConfigModule,
+    EventsModule,
     EmailModule,
     PrismaModule,
     AuthModule,
@@ -123,6 +137,10 @@ import { SentryModule } from '@sentry/nestjs/setup';
     PackSizeModule,
     PackTypeModule,
     OrderModule,
+    InventoryModule,
+    RegionModule,
+    CreditModule,
+    WalletModule,
   ],
   controllers: [AppController, HealthController],
   providers: [
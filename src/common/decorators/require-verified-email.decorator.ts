@@ -0,0 +1,15 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const REQUIRE_VERIFIED_EMAIL_KEY = 'requireVerifiedEmail';
+
+/**
+ * Decorator to block wholesalers who have not verified their email address.
+ * Enforced by VerifiedEmailGuard; other roles are not affected.
+ *
+ * @example
+ * @UseGuards(UnifiedAuthGuard, RolesGuard, VerifiedEmailGuard)
+ * @RequireVerifiedEmail()
+ * function createOrder() {}
+ */
+export const RequireVerifiedEmail = () =>
+  SetMetadata(REQUIRE_VERIFIED_EMAIL_KEY, true);
@@ -0,0 +1,42 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { User, UserRole } from '@prisma/client';
+import { REQUIRE_VERIFIED_EMAIL_KEY } from '../decorators/require-verified-email.decorator';
+
+@Injectable()
+export class VerifiedEmailGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requireVerified = this.reflector.getAllAndOverride<boolean>(
+      REQUIRE_VERIFIED_EMAIL_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requireVerified) {
+      return true;
+    }
+
+    const { user } = context
+      .switchToHttp()
+      .getRequest<{ user?: Pick<User, 'role' | 'emailVerified'> }>();
+
+    if (!user) {
+      throw new ForbiddenException('User not authenticated');
+    }
+
+    // Only wholesalers place and pay for orders in their own name
+    if (user.role === UserRole.WHOLESALER && !user.emailVerified) {
+      throw new ForbiddenException(
+        'Please verify your email address before placing or paying for orders',
+      );
+    }
+
+    return true;
+  }
+}
@@ -10,6 +10,7 @@ import { Observable, of } from 'rxjs';
 import { tap } from 'rxjs/operators';
 import { Request } from 'express';
 import { CacheService } from '../../modules/cache/cache.service';
+import { SystemConfigService } from '../../modules/system-config/system-config.service';
 import { CacheOptions, CACHE_OPTIONS_KEY } from '../decorators/cache.decorator';
 
 @Injectable()
@@ -19,6 +20,7 @@ export class CacheInterceptor implements NestInterceptor {
   constructor(
     private readonly cacheService: CacheService,
     private readonly reflector: Reflector,
+    private readonly systemConfigService: SystemConfigService,
   ) {}
 
   async intercept(
@@ -52,7 +54,9 @@ export class CacheInterceptor implements NestInterceptor {
       return next.handle().pipe(
         tap(async (data) => {
           try {
-            const ttl = cacheOptions.ttl || 300; // Default 5 minutes
+            const ttl =
+              cacheOptions.ttl ||
+              (await this.systemConfigService.get('CACHE_DEFAULT_TTL_SECONDS'));
 
             if (cacheOptions.tags && cacheOptions.tags.length > 0) {
               // Use tag-based caching
@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -27,3 +28,31 @@ export function generatePasswordResetToken(hoursValid: number = 24): {
     expiresAt,
   };
 }
+
+/**
+ * Generate an email verification token with expiry date
+ * @param hoursValid - Number of hours the token should be valid for (default: 48)
+ * @returns Object with token and expiry date
+ */
+export function generateEmailVerificationToken(hoursValid: number = 48): {
+  token: string;
+  expiresAt: Date;
+} {
+  const token = generateSecureToken();
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + hoursValid);
+
+  return {
+    token,
+    expiresAt,
+  };
+}
+
+/**
+ * Hash a token for storage so a database leak does not expose usable tokens
+ * @param token - The token as issued to the client
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
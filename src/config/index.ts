@@ -7,6 +7,7 @@ import { swaggerConfig, swaggerConfigSchema } from './swagger.config';
 import { loggingConfig, loggingConfigSchema } from './logging.config';
 import { emailConfig, emailConfigSchema } from './email.config';
 import { monnifyConfig, monnifyConfigSchema } from './monnify.config';
+import { paymentConfig, paymentConfigSchema } from './payment.config';
 import cloudinaryConfig from './cloudinary.config';
 import sentryConfig from './sentry.config';
 
@@ -20,6 +21,7 @@ export { redisConfig };
 export { swaggerConfig };
 export { emailConfig };
 export { monnifyConfig };
+export { paymentConfig };
 export { default as sentryConfig } from './sentry.config';
 
 // Cloudinary validation schema
@@ -49,6 +51,7 @@ export const validationSchema = Joi.object({
   ...loggingConfigSchema,
   ...emailConfigSchema,
   ...monnifyConfigSchema,
+  ...paymentConfigSchema,
   ...cloudinaryConfigSchema,
   ...sentryConfigSchema,
 });
@@ -63,6 +66,7 @@ export const configurations = [
   loggingConfig,
   emailConfig,
   monnifyConfig,
+  paymentConfig,
   cloudinaryConfig,
   sentryConfig,
 ];
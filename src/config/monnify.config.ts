@@ -21,9 +21,22 @@ export const monnifyConfig = registerAs('monnify', () => ({
 // Monnify configuration validation schema
 export const monnifyConfigSchema = {
   MONNIFY_BASE_URL: Joi.string().uri().default('https://sandbox.monnify.com'),
-  MONNIFY_API_KEY: Joi.string().required(),
-  MONNIFY_SECRET_KEY: Joi.string().required(),
-  MONNIFY_CONTRACT_CODE: Joi.string().required(),
+  // Not needed when the mock gateway is selected
+  MONNIFY_API_KEY: Joi.string().when('PAYMENT_GATEWAY', {
+    is: 'mock',
+    then: Joi.optional(),
+    otherwise: Joi.required(),
+  }),
+  MONNIFY_SECRET_KEY: Joi.string().when('PAYMENT_GATEWAY', {
+    is: 'mock',
+    then: Joi.optional(),
+    otherwise: Joi.required(),
+  }),
+  MONNIFY_CONTRACT_CODE: Joi.string().when('PAYMENT_GATEWAY', {
+    is: 'mock',
+    then: Joi.optional(),
+    otherwise: Joi.required(),
+  }),
   MONNIFY_ENVIRONMENT: Joi.string()
     .valid('sandbox', 'production')
     .default('sandbox'),
@@ -0,0 +1,29 @@
+import { registerAs } from '@nestjs/config';
+import * as Joi from 'joi';
+import type { PaymentGatewayName } from '../modules/payment/interfaces/payment-gateway.interface';
+
+export interface PaymentConfig {
+  gateway: PaymentGatewayName;
+  mockWebhookSecret: string;
+}
+
+export const paymentConfig = registerAs(
+  'payment',
+  (): PaymentConfig => ({
+    gateway: (process.env.PAYMENT_GATEWAY as PaymentGatewayName) || 'monnify',
+    mockWebhookSecret:
+      process.env.MOCK_PAYMENT_WEBHOOK_SECRET || 'mock-webhook-secret',
+  }),
+);
+
+// Payment gateway validation schema
+export const paymentConfigSchema = {
+  PAYMENT_GATEWAY: Joi.string()
+    .valid('monnify', 'mock')
+    .default('monnify')
+    .when('NODE_ENV', {
+      is: 'production',
+      then: Joi.valid('monnify'),
+    }),
+  MOCK_PAYMENT_WEBHOOK_SECRET: Joi.string().default('mock-webhook-secret'),
+};
@@ -6,6 +6,9 @@ export const securityConfig = registerAs('security', () => ({
   jwtExpiresIn: process.env.JWT_EXPIRES_IN || '1d',
   throttleTtl: parseInt(process.env.THROTTLE_TTL || '60000', 10) || 60000,
   throttleLimit: parseInt(process.env.THROTTLE_LIMIT || '10', 10) || 10,
+  twoFactorIssuer: process.env.TWO_FACTOR_ISSUER || 'Jooav ERP',
+  // Falls back to the JWT secret when not set
+  twoFactorEncryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY,
 }));
 
 export const securityConfigSchema = {
@@ -13,6 +16,8 @@ export const securityConfigSchema = {
   JWT_EXPIRES_IN: Joi.string().default('1d'),
   THROTTLE_TTL: Joi.number().positive().default(60000),
   THROTTLE_LIMIT: Joi.number().positive().default(10),
+  TWO_FACTOR_ISSUER: Joi.string().default('Jooav ERP'),
+  TWO_FACTOR_ENCRYPTION_KEY: Joi.string().min(32).optional(),
 };
 
 export interface SecurityConfig {
@@ -20,4 +25,6 @@ export interface SecurityConfig {
   jwtExpiresIn: string;
   throttleTtl: number;
   throttleLimit: number;
+  twoFactorIssuer: string;
+  twoFactorEncryptionKey?: string;
 }
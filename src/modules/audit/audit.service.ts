@@ -130,7 +130,8 @@ export class AuditService {
       | 'LOGOUT'
       | 'LOGIN_FAILED'
       | 'PASSWORD_CHANGED'
-      | 'REGISTER',
+      | 'REGISTER'
+      | 'EMAIL_VERIFIED',
     req?: any,
     metadata?: any,
   ): Promise<void> {
@@ -10,13 +10,18 @@ import {
   Patch,
   Delete,
   Param,
+  UploadedFiles,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import { ExtractJwt } from 'passport-jwt';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
   ApiBody,
+  ApiConsumes,
 } from '@nestjs/swagger';
 
 import { AuthService } from './auth.service';
@@ -37,9 +42,12 @@ import {
   RefreshTokenDto,
   ForgotPasswordDto,
   ResetPasswordDto,
+  RequestEmailVerificationDto,
+  VerifyEmailDto,
 } from './dto/auth.dto';
 import {
   AuthResponseDto,
+  RegistrationResponseDto,
   UserProfileDto,
   TokenValidationDto,
   SessionDto,
@@ -47,6 +55,7 @@ import {
 import { UserRole } from '@prisma/client';
 import { SuccessResponse } from '../../common/dto/api-response.dto';
 import type { User } from '@prisma/client';
+import type { KycDocumentFiles } from '../onboarding/types/onboarding.types';
 
 @ApiTags('Authentication')
 @Controller('auth')
@@ -76,26 +85,96 @@ export class AuthController {
 
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
-  @ApiOperation({ summary: 'User registration' })
-  @ApiBody({ type: RegisterDto })
+  @ApiOperation({
+    summary: 'Wholesaler business registration',
+    description:
+      'Registers the business with its KYC documents. The account is PENDING_APPROVAL and cannot log in until an admin approves it; the applicant is emailed the decision',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        email: { type: 'string', example: 'user@jooav.com' },
+        username: { type: 'string' },
+        password: { type: 'string', example: 'Password123!' },
+        firstName: { type: 'string', example: 'John' },
+        lastName: { type: 'string', example: 'Doe' },
+        phone: { type: 'string' },
+        businessName: { type: 'string', example: 'Okafor Stores Ltd' },
+        cacNumber: { type: 'string', example: 'RC1234567' },
+        businessAddress: {
+          type: 'string',
+          example: '12 Allen Avenue, Ikeja, Lagos',
+        },
+        regionId: { type: 'string' },
+        cacCertificate: {
+          type: 'string',
+          format: 'binary',
+          description: 'CAC certificate (PDF, JPEG, PNG or WebP, max 5MB)',
+        },
+        proofOfAddress: {
+          type: 'string',
+          format: 'binary',
+          description: 'Utility bill or tenancy agreement',
+        },
+        directorId: {
+          type: 'string',
+          format: 'binary',
+          description: 'Government-issued ID of the owner or a director',
+        },
+      },
+      required: [
+        'email',
+        'password',
+        'firstName',
+        'lastName',
+        'businessName',
+        'cacNumber',
+        'businessAddress',
+        'cacCertificate',
+      ],
+    },
+  })
   @ApiResponse({
     status: 201,
-    description: 'Registration successful',
-    type: AuthResponseDto,
+    description: 'Registration received and awaiting approval',
+    type: RegistrationResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid registration data or documents',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'User or CAC registration number already exists',
   })
-  @ApiResponse({ status: 400, description: 'Invalid registration data' })
-  @ApiResponse({ status: 409, description: 'User already exists' })
   @AuditLog({
     action: 'REGISTER',
     resource: 'AUTH',
     includeRequestBody: true,
   })
+  @UseInterceptors(
+    FileFieldsInterceptor([
+      { name: 'cacCertificate', maxCount: 1 },
+      { name: 'proofOfAddress', maxCount: 1 },
+      { name: 'directorId', maxCount: 1 },
+    ]),
+  )
   async register(
     @Body() registerDto: RegisterDto,
+    @UploadedFiles() files: KycDocumentFiles,
     @Request() req: any,
-  ): Promise<SuccessResponse<AuthResponseDto>> {
-    const result = await this.authService.register(registerDto, req);
-    return new SuccessResponse('User registered successfully', result);
+  ): Promise<SuccessResponse<RegistrationResponseDto>> {
+    const result = await this.authService.register(
+      registerDto,
+      files ?? {},
+      req,
+    );
+    return new SuccessResponse(
+      'Registration received; your account is awaiting approval',
+      result,
+    );
   }
 
   @Post('refresh')
@@ -123,17 +202,47 @@ export class AuthController {
   @UseGuards(UnifiedAuthGuard)
   @HttpCode(HttpStatus.OK)
   @ApiBearerAuth('access-token')
-  @ApiOperation({ summary: 'User logout' })
+  @ApiOperation({
+    summary: 'User logout',
+    description:
+      'Revokes the access token and ends the session for the given refresh token, or every session if none is given',
+  })
   @ApiResponse({ status: 200, description: 'Logout successful' })
   @AuditLog({ action: 'LOGOUT', resource: 'AUTH' })
   async logout(
-    @Body() body: { refreshToken: string },
+    @Body() body: { refreshToken?: string },
     @CurrentUserId() userId: string,
+    @Request() req: any,
   ): Promise<SuccessResponse<any>> {
-    const result = await this.authService.logout(body.refreshToken, userId);
+    const result = await this.authService.logout(
+      userId,
+      ExtractJwt.fromAuthHeaderAsBearerToken()(req),
+      body?.refreshToken,
+      req,
+    );
     return new SuccessResponse('User logged out successfully', result);
   }
 
+  @Post('logout-all')
+  @UseGuards(UnifiedAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: 'Log out everywhere',
+    description:
+      'Ends every session and revokes every access token issued to the user so far, on all devices',
+  })
+  @ApiResponse({ status: 200, description: 'Logged out of all sessions' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @AuditLog({ action: 'LOGOUT_ALL', resource: 'AUTH' })
+  async logoutAll(
+    @CurrentUserId() userId: string,
+    @Request() req: any,
+  ): Promise<SuccessResponse<any>> {
+    const result = await this.authService.logoutAll(userId, req);
+    return new SuccessResponse('Logged out of all sessions', result);
+  }
+
   @Get('profile')
   @UseGuards(UnifiedAuthGuard)
   @ApiBearerAuth('access-token')
@@ -145,7 +254,12 @@ export class AuthController {
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   getProfile(@CurrentUser() user: User): UserProfileDto {
-    const { password, ...userWithoutPassword } = user;
+    const {
+      password,
+      twoFactorSecret,
+      twoFactorLastUsedStep,
+      ...userWithoutPassword
+    } = user;
     return userWithoutPassword as UserProfileDto;
   }
 
@@ -280,4 +394,60 @@ export class AuthController {
     const result = await this.authService.resetPassword(resetPasswordDto, req);
     return new SuccessResponse('Password reset successfully', result);
   }
+
+  @Post('verify-email/request')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Request email verification',
+    description:
+      'Send a new verification link to an unverified account. Earlier links stop working. A link is sent automatically on registration',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Verification email sent if the account needs one',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid email format' })
+  @ApiBody({ type: RequestEmailVerificationDto })
+  async requestEmailVerification(
+    @Body() requestDto: RequestEmailVerificationDto,
+  ): Promise<SuccessResponse<any>> {
+    const result = await this.authService.requestEmailVerification(requestDto);
+    return new SuccessResponse('Verification instructions sent', result);
+  }
+
+  @Post('verify-email/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm email verification',
+    description:
+      'Verify the email address using the token from the verification link. Each token works once',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Email verified successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  @ApiBody({ type: VerifyEmailDto })
+  async confirmEmailVerification(
+    @Body() verifyEmailDto: VerifyEmailDto,
+    @Request() req: any,
+  ): Promise<SuccessResponse<any>> {
+    const result = await this.authService.confirmEmailVerification(
+      verifyEmailDto,
+      req,
+    );
+    return new SuccessResponse('Email verified successfully', result);
+  }
 }
@@ -4,10 +4,12 @@ import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 
 import { AuthService } from './auth.service';
+import { RefreshTokenService } from './refresh-token.service';
 import { AuthController } from './auth.controller';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditService } from '../audit/audit.service';
 import { EmailModule } from '../email/email.module';
+import { OnboardingModule } from '../onboarding/onboarding.module';
 
 // Strategies
 import { LocalStrategy } from './strategies/local.strategy';
@@ -23,6 +25,7 @@ import { RolesGuard } from './guards/roles.guard';
   imports: [
     ConfigModule,
     EmailModule,
+    OnboardingModule,
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -38,6 +41,7 @@ import { RolesGuard } from './guards/roles.guard';
   controllers: [AuthController],
   providers: [
     AuthService,
+    RefreshTokenService,
     PrismaService,
     AuditService,
 
@@ -53,6 +57,7 @@ import { RolesGuard } from './guards/roles.guard';
   ],
   exports: [
     AuthService,
+    RefreshTokenService,
     JwtAuthGuard,
     LocalAuthGuard,
     RolesGuard,
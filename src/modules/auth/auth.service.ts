@@ -8,14 +8,28 @@ import {
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
-import { UserRole, UserStatus, User } from '@prisma/client';
+import { KycStatus, UserRole, UserStatus, User } from '@prisma/client';
 import * as argon2 from 'argon2';
 import { v4 as uuidv4 } from 'uuid';
 
 import { PrismaService } from '../prisma/prisma.service';
-import { generatePasswordResetToken } from '../../common/utils/token.util';
+import { CacheService } from '../cache/cache.service';
+import {
+  RefreshTokenClaims,
+  RefreshTokenService,
+  SESSION_TTL_SECONDS,
+} from './refresh-token.service';
+import {
+  generateEmailVerificationToken,
+  generatePasswordResetToken,
+  hashToken,
+} from '../../common/utils/token.util';
 import { AuditService } from '../audit/audit.service';
 import { EmailService } from '../email/services/email.service';
+import { EmailEvent } from '../email/types/email.types';
+import { DomainEventsService } from '../events/domain-events.service';
+import { WholesalerOnboardingService } from '../onboarding/wholesaler-onboarding.service';
+import { KycDocumentFiles } from '../onboarding/types/onboarding.types';
 import { JwtPayload } from './strategies/jwt.strategy';
 import {
   LoginDto,
@@ -23,13 +37,19 @@ import {
   ChangePasswordDto,
   ForgotPasswordDto,
   ResetPasswordDto,
+  RequestEmailVerificationDto,
+  VerifyEmailDto,
 } from './dto/auth.dto';
 import {
   AuthResponseDto,
+  RegistrationResponseDto,
   UserProfileDto,
   TokenValidationDto,
 } from './dto/auth-response.dto';
 
+// Matches the expiry quoted in the email-verification template
+const EMAIL_VERIFICATION_EXPIRY_HOURS = 48;
+
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
@@ -41,14 +61,17 @@ export class AuthService {
     parallelism: 1,
     type: argon2.argon2id,
   };
-  private readonly blacklistedTokens = new Set<string>();
 
   constructor(
     private prisma: PrismaService,
+    private cacheService: CacheService,
+    private refreshTokenService: RefreshTokenService,
     private jwtService: JwtService,
     private configService: ConfigService,
     private auditService: AuditService,
     private emailService: EmailService,
+    private domainEventsService: DomainEventsService,
+    private wholesalerOnboardingService: WholesalerOnboardingService,
   ) {
     this.jwtSecret =
       this.configService.get('security.jwtSecret') || 'your-secret-key';
@@ -69,7 +92,23 @@ export class AuthService {
       include: { profile: true },
     });
 
-    if (!user || user.status !== UserStatus.ACTIVE) {
+    if (!user) {
+      return null;
+    }
+
+    // Applicants learn their account is under review, but only once they
+    // have proved who they are
+    if (user.status === UserStatus.PENDING_APPROVAL) {
+      const isPasswordValid = await argon2.verify(user.password, password);
+      if (isPasswordValid) {
+        throw new UnauthorizedException(
+          'Your business account is awaiting approval.',
+        );
+      }
+      return null;
+    }
+
+    if (user.status !== UserStatus.ACTIVE) {
       return null;
     }
 
@@ -130,10 +169,17 @@ export class AuthService {
       throw new UnauthorizedException('Access denied - Invalid credentials.');
     }
 
-    const tokens = await this.generateTokens(user);
+    // Each login starts a new refresh token family
+    const familyId = uuidv4();
+    const tokens = await this.generateTokens(user, familyId);
 
     // Create user session
-    await this.createUserSession(user.id, tokens.refreshToken, request);
+    await this.refreshTokenService.createSession(
+      user.id,
+      familyId,
+      tokens.refreshToken,
+      request,
+    );
 
     // Log successful login
     await this.auditService.logAuthEvent(user.id, 'LOGIN', request, {
@@ -147,12 +193,16 @@ export class AuthService {
   }
 
   /**
-   * Register new user
+   * Register a wholesaler business. The account waits in PENDING_APPROVAL
+   * until an admin has reviewed the KYC documents, so no tokens are issued.
    */
   async register(
     registerDto: RegisterDto,
+    files: KycDocumentFiles,
     request?: any,
-  ): Promise<AuthResponseDto> {
+  ): Promise<RegistrationResponseDto> {
+    const cacNumber = registerDto.cacNumber.replace(/[\s-]/g, '').toUpperCase();
+
     // Check if user already exists
     const existingUser = await this.prisma.user.findFirst({
       where: {
@@ -171,112 +221,188 @@ export class AuthService {
       throw new ConflictException(`User with this ${field} already exists`);
     }
 
+    const existingBusiness = await this.prisma.wholesaler.findUnique({
+      where: { cacNumber },
+    });
+
+    if (existingBusiness) {
+      throw new ConflictException(
+        'A business with this CAC registration number is already registered',
+      );
+    }
+
+    if (registerDto.regionId) {
+      const region = await this.prisma.region.findFirst({
+        where: { id: registerDto.regionId, isActive: true },
+      });
+
+      if (!region) {
+        throw new BadRequestException('Region not found');
+      }
+    }
+
+    const documents = await this.wholesalerOnboardingService.uploadDocuments(
+      files,
+      cacNumber,
+    );
+
     // Hash password
     const hashedPassword = await this.hashPassword(registerDto.password);
-    // Create user
-    const user = await this.prisma.user.create({
-      data: {
-        email: registerDto.email.toLowerCase(),
-        username: registerDto.username?.toLowerCase(),
-        password: hashedPassword,
-        firstName: registerDto.firstName,
-        lastName: registerDto.lastName,
-        phone: registerDto.phone,
-        role: UserRole.WHOLESALER, // Default role
-        status: UserStatus.ACTIVE,
-        profile: {
-          create: {
-            // Initialize empty profile
+
+    let user: User;
+    try {
+      user = await this.prisma.user.create({
+        data: {
+          email: registerDto.email.toLowerCase(),
+          username: registerDto.username?.toLowerCase(),
+          password: hashedPassword,
+          firstName: registerDto.firstName,
+          lastName: registerDto.lastName,
+          phone: registerDto.phone,
+          role: UserRole.WHOLESALER, // Default role
+          status: UserStatus.PENDING_APPROVAL,
+          profile: {
+            create: {
+              // Initialize empty profile
+            },
+          },
+          wholesalerProfile: {
+            create: {
+              regionId: registerDto.regionId,
+              businessName: registerDto.businessName,
+              cacNumber,
+              businessAddress: registerDto.businessAddress,
+              kycStatus: KycStatus.PENDING,
+              kycSubmittedAt: new Date(),
+              kycDocuments: { create: documents },
+            },
           },
         },
-      },
-      include: { profile: true },
-    });
-
-    const tokens = await this.generateTokens(user);
-
-    // Create user session
-    await this.createUserSession(user.id, tokens.refreshToken, request);
+      });
+    } catch (error) {
+      // A concurrent registration took the email or CAC number
+      await this.wholesalerOnboardingService.discardDocuments(documents);
+      throw error;
+    }
 
     // Log registration
     await this.auditService.logAuthEvent(user.id, 'REGISTER', request, {
       email: user.email,
+      businessName: registerDto.businessName,
+      cacNumber,
     });
 
-    return {
-      ...tokens,
-      user: this.transformUserToProfile(user),
-    };
+    this.domainEventsService.publish(EmailEvent.USER_REGISTERED, {
+      user: this.domainEventsService.toUserEventData(user),
+    });
+
+    try {
+      await this.sendEmailVerification(user);
+    } catch (error) {
+      // The applicant can ask for another link from the verify-email endpoint
+      this.logger.error(
+        `Failed to send verification email to ${user.email}: ${error.message}`,
+      );
+    }
+
+    return { user: this.transformUserToProfile(user) };
   }
 
   /**
-   * Refresh access token
+   * Refresh access token. The refresh token is rotated; presenting one that
+   * was already used revokes its whole session.
    */
   async refreshToken(
     refreshToken: string,
     request?: any,
   ): Promise<AuthResponseDto> {
     try {
-      const payload = this.jwtService.verify(refreshToken, {
+      const payload = this.jwtService.verify<
+        RefreshTokenClaims & { tokenType?: string }
+      >(refreshToken, {
         secret: this.jwtSecret,
       });
 
-      const user = await this.validateUserById(payload.sub);
-      if (!user) {
+      if (payload.tokenType !== 'refresh') {
         throw new UnauthorizedException('Invalid refresh token');
       }
 
       // Verify session exists
-      const session = await this.prisma.userSession.findFirst({
-        where: {
-          userId: user.id,
-          token: refreshToken,
-          expiresAt: { gt: new Date() },
-        },
-      });
+      const session = await this.refreshTokenService.findSession(payload);
 
-      if (!session) {
-        throw new UnauthorizedException('Invalid or expired refresh token');
+      const user = await this.validateUserById(payload.sub);
+      if (!user) {
+        throw new UnauthorizedException('Invalid refresh token');
       }
 
-      const tokens = await this.generateTokens(user);
+      const tokens = await this.generateTokens(user, session.familyId);
 
-      // Update session with new refresh token
-      await this.prisma.userSession.update({
-        where: { id: session.id },
-        data: {
-          token: tokens.refreshToken,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-        },
-      });
+      // Swap in the new refresh token, or revoke the family on reuse
+      await this.refreshTokenService.rotate(
+        session,
+        refreshToken,
+        tokens.refreshToken,
+        request,
+      );
 
       return {
         ...tokens,
         user: this.transformUserToProfile(user),
       };
     } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        throw error;
+      }
       throw new UnauthorizedException('Invalid refresh token');
     }
   }
 
   /**
-   * Logout user and invalidate tokens
+   * Logout user and invalidate tokens. Ends the session for the given
+   * refresh token, or every session if none is given.
    */
-  async logout(userId: string, tokenId?: string, request?: any): Promise<void> {
-    // Invalidate all user sessions
+  async logout(
+    userId: string,
+    accessToken: string | null,
+    refreshToken?: string,
+    request?: any,
+  ): Promise<void> {
     await this.prisma.userSession.deleteMany({
-      where: { userId },
+      where: {
+        userId,
+        ...(refreshToken && { tokenHash: hashToken(refreshToken) }),
+      },
     });
 
-    // Add token to blacklist if provided
-    if (tokenId) {
-      this.blacklistedTokens.add(tokenId);
+    // Revoke the access token used to log out
+    const payload = accessToken
+      ? this.jwtService.decode<JwtPayload | null>(accessToken)
+      : null;
+    if (payload?.jti && payload.exp) {
+      await this.cacheService.revokeToken(payload.jti, payload.exp);
     }
 
     // Log logout
     await this.auditService.logAuthEvent(userId, 'LOGOUT', request);
   }
 
+  /**
+   * Log out everywhere: end every session and revoke every access token
+   * issued to the user so far
+   */
+  async logoutAll(userId: string, request?: any): Promise<void> {
+    const { count } = await this.prisma.userSession.deleteMany({
+      where: { userId },
+    });
+
+    await this.cacheService.revokeUserTokens(userId, SESSION_TTL_SECONDS);
+
+    await this.auditService.logAuthEvent(userId, 'LOGOUT', request, {
+      allSessions: true,
+      sessionsEnded: count,
+    });
+  }
+
   /**
    * Change user password
    */
@@ -355,19 +481,27 @@ export class AuthService {
 
   /**
    * Generate JWT tokens for user
+   * @param familyId - The session's refresh token family
    */
-  private async generateTokens(user: User): Promise<{
+  private async generateTokens(
+    user: User,
+    familyId: string,
+  ): Promise<{
     accessToken: string;
     refreshToken: string;
     expiresIn: number;
     tokenType: string;
   }> {
     const jwtId = uuidv4();
+    const iatMs = Date.now();
 
     const payload: JwtPayload = {
       sub: user.id,
       email: user.email,
       role: user.role,
+      iatMs,
+      jti: jwtId,
+      fam: familyId,
     };
 
     const accessToken = this.jwtService.sign(payload as any);
@@ -375,6 +509,9 @@ export class AuthService {
     const refreshToken = this.jwtService.sign({
       sub: user.id,
       tokenType: 'refresh',
+      fam: familyId,
+      iatMs,
+      jti: uuidv4(),
     } as any);
 
     return {
@@ -396,38 +533,15 @@ export class AuthService {
    * Transform user entity to profile DTO
    */
   private transformUserToProfile(user: User): UserProfileDto {
-    const { password, ...userWithoutPassword } = user;
+    const {
+      password,
+      twoFactorSecret,
+      twoFactorLastUsedStep,
+      ...userWithoutPassword
+    } = user;
     return userWithoutPassword as UserProfileDto;
   }
 
-  /**
-   * Create user session
-   */
-  private async createUserSession(
-    userId: string,
-    refreshToken: string,
-    request?: any,
-  ): Promise<void> {
-    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-    await this.prisma.userSession.create({
-      data: {
-        userId,
-        token: refreshToken,
-        expiresAt,
-        ipAddress: request?.ip,
-        userAgent: request?.get('User-Agent'),
-      },
-    });
-  }
-
-  /**
-   * Check if token is blacklisted
-   */
-  async isTokenBlacklisted(tokenId: string): Promise<boolean> {
-    return this.blacklistedTokens.has(tokenId);
-  }
-
   /**
    * Validate token and return user info
    */
@@ -437,8 +551,8 @@ export class AuthService {
         secret: this.jwtSecret,
       });
 
-      // Check if token is blacklisted
-      if (payload.jti && this.blacklistedTokens.has(payload.jti)) {
+      // Check if token has been revoked
+      if (await this.cacheService.isTokenRevoked(payload)) {
         return { valid: false };
       }
 
@@ -463,6 +577,14 @@ export class AuthService {
   async getUserSessions(userId: string) {
     return this.prisma.userSession.findMany({
       where: { userId },
+      select: {
+        id: true,
+        expiresAt: true,
+        rotatedAt: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+      },
       orderBy: { createdAt: 'desc' },
     });
   }
@@ -508,46 +630,36 @@ export class AuthService {
     }
 
     // Generate reset token
-    const { token: resetToken, expiresAt } = generatePasswordResetToken(1); // 1 hour expiry
-
-    // Invalidate any existing reset tokens for this email
-    await this.prisma.passwordReset.updateMany({
-      where: {
-        email: email.toLowerCase(),
-        used: false,
-        expiresAt: { gt: new Date() },
-      },
-      data: { used: true },
-    });
+    const expiresInHours = 1;
+    const { token: resetToken, expiresAt } =
+      generatePasswordResetToken(expiresInHours);
 
-    // Create new password reset record
-    await this.prisma.passwordReset.create({
-      data: {
-        email: email.toLowerCase(),
-        token: resetToken,
-        expiresAt,
-      },
-    });
+    await this.prisma.$transaction([
+      // Invalidate any existing reset tokens for this email
+      this.prisma.passwordReset.updateMany({
+        where: {
+          email: email.toLowerCase(),
+          used: false,
+          expiresAt: { gt: new Date() },
+        },
+        data: { used: true },
+      }),
+      // Create new password reset record
+      this.prisma.passwordReset.create({
+        data: {
+          email: email.toLowerCase(),
+          token: resetToken,
+          expiresAt,
+        },
+      }),
+    ]);
 
     // Send password reset email
-    const resetUrl = `${this.configService.get('email.baseUrl')}/reset-password?token=${resetToken}`;
-
-    try {
-      await this.emailService.sendTemplateEmail({
-        to: email,
-        templateAlias: 'password-reset',
-        variables: {
-          USER_NAME: user.firstName
-            ? `${user.firstName} ${user.lastName || ''}`.trim()
-            : user.email,
-          resetUrl,
-          expiresIn: '1 hour',
-        },
-      });
-    } catch (error) {
-      this.logger.error('Failed to send password reset email:', error);
-      // Don't throw error to avoid revealing if email exists
-    }
+    this.domainEventsService.publish(EmailEvent.PASSWORD_RESET, {
+      user: this.domainEventsService.toUserEventData(user),
+      resetToken,
+      expiresInHours,
+    });
 
     // Log password reset request
     await this.auditService.logAuthEvent(user.id, 'PASSWORD_CHANGED', request, {
@@ -651,4 +763,115 @@ export class AuthService {
         'Password has been reset successfully. Please log in with your new password.',
     };
   }
+
+  /**
+   * Send a new email verification link. Applicants can verify while their
+   * account is still awaiting approval.
+   */
+  async requestEmailVerification(
+    requestDto: RequestEmailVerificationDto,
+  ): Promise<{ message: string }> {
+    const message =
+      'If the email belongs to an unverified account, a verification link has been sent.';
+
+    const user = await this.prisma.user.findUnique({
+      where: { email: requestDto.email.toLowerCase() },
+    });
+
+    // Don't reveal if email exists or is already verified
+    if (
+      !user ||
+      user.emailVerified ||
+      (user.status !== UserStatus.ACTIVE &&
+        user.status !== UserStatus.PENDING_APPROVAL)
+    ) {
+      return { message };
+    }
+
+    await this.sendEmailVerification(user);
+
+    return { message };
+  }
+
+  /**
+   * Mark the user's email as verified using a token from the verification link
+   */
+  async confirmEmailVerification(
+    verifyEmailDto: VerifyEmailDto,
+    request?: any,
+  ): Promise<{ message: string }> {
+    const verification = await this.prisma.emailVerification.findFirst({
+      where: {
+        token: verifyEmailDto.token,
+        usedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      include: { user: true },
+    });
+
+    // A token is only good for the address it was sent to
+    if (!verification || verification.user.email !== verification.email) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    const { count } = await this.prisma.$transaction(async (tx) => {
+      // Claim the token so a concurrent request cannot use it again
+      const claimed = await tx.emailVerification.updateMany({
+        where: { id: verification.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (claimed.count > 0) {
+        await tx.user.update({
+          where: { id: verification.userId },
+          data: { emailVerified: true },
+        });
+      }
+
+      return claimed;
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    await this.auditService.logAuthEvent(
+      verification.userId,
+      'EMAIL_VERIFIED',
+      request,
+      { email: verification.email },
+    );
+
+    return { message: 'Your email address has been verified.' };
+  }
+
+  /**
+   * Issue a verification token, replacing any the user still holds, and
+   * email the link
+   */
+  private async sendEmailVerification(user: User): Promise<void> {
+    const { token, expiresAt } = generateEmailVerificationToken(
+      EMAIL_VERIFICATION_EXPIRY_HOURS,
+    );
+
+    await this.prisma.$transaction([
+      this.prisma.emailVerification.updateMany({
+        where: { userId: user.id, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      this.prisma.emailVerification.create({
+        data: {
+          userId: user.id,
+          email: user.email,
+          token,
+          expiresAt,
+        },
+      }),
+    ]);
+
+    this.domainEventsService.publish(EmailEvent.EMAIL_VERIFICATION, {
+      user: this.domainEventsService.toUserEventData(user),
+      verificationToken: token,
+    });
+  }
 }
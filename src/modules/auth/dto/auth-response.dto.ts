@@ -115,6 +115,15 @@ export class AuthResponseDto {
   user: UserProfileDto;
 }
 
+export class RegistrationResponseDto {
+  @ApiProperty({
+    description:
+      'User information; the account stays PENDING_APPROVAL until an admin reviews it',
+    type: () => UserProfileDto,
+  })
+  user: UserProfileDto;
+}
+
 export class TokenValidationDto {
   @ApiProperty({
     description: 'Token validity status',
@@ -143,18 +152,19 @@ export class SessionDto {
   })
   id: string;
 
-  @ApiProperty({
-    description: 'Session token',
-    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
-  })
-  token: string;
-
   @ApiProperty({
     description: 'Session expiration time',
     example: '2023-12-09T10:30:00Z',
   })
   expiresAt: Date;
 
+  @ApiProperty({
+    description: 'When the refresh token was last rotated',
+    example: '2023-12-08T22:30:00Z',
+    nullable: true,
+  })
+  rotatedAt: Date | null;
+
   @ApiProperty({
     description: 'IP address',
     example: '192.168.1.1',
@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import {
   IsEmail,
   IsString,
@@ -72,6 +72,44 @@ export class RegisterDto {
   @IsOptional()
   @IsString()
   phone?: string;
+
+  @ApiProperty({
+    description: 'Registered business name',
+    example: 'Okafor Stores Ltd',
+  })
+  @IsString()
+  @MinLength(2, { message: 'Business name must be at least 2 characters long' })
+  @MaxLength(150, { message: 'Business name cannot exceed 150 characters' })
+  businessName: string;
+
+  @ApiProperty({
+    description: 'CAC registration number (RC, BN or IT number)',
+    example: 'RC1234567',
+  })
+  @IsString()
+  @Matches(/^((RC|BN|IT)[\s-]?)?\d{4,8}$/i, {
+    message: 'Please provide a valid CAC registration number, e.g. RC1234567',
+  })
+  cacNumber: string;
+
+  @ApiProperty({
+    description: 'Business address',
+    example: '12 Allen Avenue, Ikeja, Lagos',
+  })
+  @IsString()
+  @MinLength(10, {
+    message: 'Business address must be at least 10 characters long',
+  })
+  @MaxLength(255, { message: 'Business address cannot exceed 255 characters' })
+  businessAddress: string;
+
+  @ApiPropertyOptional({
+    description: 'Region the business operates in',
+    example: 'region_uuid',
+  })
+  @IsOptional()
+  @IsString()
+  regionId?: string;
 }
 
 export class ChangePasswordDto {
@@ -130,6 +168,15 @@ export class RefreshTokenDto {
   refreshToken: string;
 }
 
+export class RequestEmailVerificationDto {
+  @ApiProperty({
+    description: 'Email address to send the verification link to',
+    example: 'user@jooav.com',
+  })
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  email: string;
+}
+
 export class VerifyEmailDto {
   @ApiProperty({
     description: 'Email verification token',
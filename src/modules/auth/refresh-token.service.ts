@@ -0,0 +1,142 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { UserSession } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheService } from '../cache/cache.service';
+import { AuditService } from '../audit/audit.service';
+import { hashToken } from '../../common/utils/token.util';
+
+// Sessions last 7 days from their last refresh, which outlives any token
+// issued to them
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Claims every refresh token carries, for users and admins alike
+ */
+export interface RefreshTokenClaims {
+  sub: string;
+  fam?: string; // Token family, one per session
+  jti?: string;
+  iat?: number;
+  iatMs?: number; // Issue time in milliseconds, for revocation cut-offs
+  exp?: number;
+}
+
+/**
+ * Rotating refresh tokens for user and admin sessions.
+ *
+ * Each login starts a token family stored as one UserSession holding the
+ * hash of the family's current refresh token. Every refresh swaps in a new
+ * token, so presenting one that was already swapped out means it has been
+ * copied. The whole family is then revoked and the reuse audited.
+ */
+@Injectable()
+export class RefreshTokenService {
+  private readonly logger = new Logger(RefreshTokenService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private cacheService: CacheService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Store the first refresh token of a new family
+   */
+  async createSession(
+    userId: string,
+    familyId: string,
+    refreshToken: string,
+    request?: any,
+  ): Promise<void> {
+    await this.prisma.userSession.create({
+      data: {
+        userId,
+        familyId,
+        tokenHash: hashToken(refreshToken),
+        expiresAt: new Date(Date.now() + SESSION_TTL_SECONDS * 1000),
+        ipAddress: request?.ip || null,
+        userAgent: request?.get('User-Agent') || null,
+      },
+    });
+  }
+
+  /**
+   * Find the live session a refresh token belongs to
+   * @throws UnauthorizedException if the family has ended or expired
+   */
+  async findSession(claims: RefreshTokenClaims): Promise<UserSession> {
+    const session = claims.fam
+      ? await this.prisma.userSession.findUnique({
+          where: { familyId: claims.fam },
+        })
+      : null;
+
+    if (
+      !session ||
+      session.userId !== claims.sub ||
+      session.expiresAt <= new Date()
+    ) {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+
+    return session;
+  }
+
+  /**
+   * Swap the presented refresh token for the next one in its family
+   * @throws UnauthorizedException if the presented token was already used;
+   * the family is revoked first
+   */
+  async rotate(
+    session: UserSession,
+    presentedToken: string,
+    nextToken: string,
+    request?: any,
+  ): Promise<void> {
+    // Only the current token matches, so two uses of one token cannot both win
+    const { count } = await this.prisma.userSession.updateMany({
+      where: { id: session.id, tokenHash: hashToken(presentedToken) },
+      data: {
+        tokenHash: hashToken(nextToken),
+        rotatedAt: new Date(),
+        expiresAt: new Date(Date.now() + SESSION_TTL_SECONDS * 1000),
+      },
+    });
+
+    if (count === 0) {
+      await this.revokeFamily(session, request);
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+  }
+
+  /**
+   * End a session and revoke every access token issued to its family
+   */
+  private async revokeFamily(
+    session: UserSession,
+    request?: any,
+  ): Promise<void> {
+    await this.prisma.userSession.deleteMany({ where: { id: session.id } });
+    await this.cacheService.revokeTokenFamily(
+      session.familyId,
+      SESSION_TTL_SECONDS,
+    );
+
+    this.logger.warn(
+      `Refresh token reuse detected for user ${session.userId}; session ${session.id} revoked`,
+    );
+
+    await this.auditService.logSecurityEvent(
+      'REFRESH_TOKEN_REUSE',
+      'AUTH',
+      session.userId,
+      request,
+      {
+        sessionId: session.id,
+        familyId: session.familyId,
+        sessionIpAddress: session.ipAddress,
+        sessionUserAgent: session.userAgent,
+      },
+    );
+  }
+}
@@ -3,14 +3,17 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ConfigService } from '@nestjs/config';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { AuthService } from '../auth.service';
+import { CacheService } from '../../cache/cache.service';
 
 export interface JwtPayload {
   sub: string; // user id
   email: string;
   role: string;
   iat?: number;
+  iatMs?: number; // Issue time in milliseconds, for revocation cut-offs
   exp?: number;
   jti?: string; // JWT ID for token tracking
+  fam?: string; // Refresh token family of the session
 }
 
 @Injectable()
@@ -18,6 +21,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private configService: ConfigService,
     private authService: AuthService,
+    private cacheService: CacheService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -45,14 +49,9 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       }
     }
 
-    // Check if token is blacklisted (for logout functionality)
-    if (payload.jti) {
-      const isBlacklisted = await this.authService.isTokenBlacklisted(
-        payload.jti,
-      );
-      if (isBlacklisted) {
-        throw new UnauthorizedException('Token has been revoked');
-      }
+    // Check if token was revoked by a logout on any instance
+    if (await this.cacheService.isTokenRevoked(payload)) {
+      throw new UnauthorizedException('Token has been revoked');
     }
 
     return user;
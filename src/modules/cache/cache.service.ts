@@ -3,6 +3,10 @@ import { ConfigService } from '@nestjs/config';
 import { Redis } from '@upstash/redis';
 import IORedis from 'ioredis';
 
+const REVOKED_TOKEN_PREFIX = 'auth:revoked:';
+const REVOKED_USER_TOKENS_PREFIX = 'auth:revoked-before:';
+const REVOKED_TOKEN_FAMILY_PREFIX = 'auth:revoked-family:';
+
 @Injectable()
 export class CacheService implements OnModuleInit {
   private readonly logger = new Logger(CacheService.name);
@@ -476,4 +480,81 @@ export class CacheService implements OnModuleInit {
       return [];
     }
   }
+
+  // Access token revocation, shared by every instance
+
+  /**
+   * Revoke a single access token by its JWT ID. The entry lives only as long
+   * as the token would have.
+   * @param expiresAt - The token's `exp` claim, in seconds
+   */
+  async revokeToken(jti: string, expiresAt: number): Promise<void> {
+    const ttl = expiresAt - Math.floor(Date.now() / 1000);
+    if (ttl <= 0) {
+      return;
+    }
+
+    await this.set(`${REVOKED_TOKEN_PREFIX}${jti}`, true, { ex: ttl });
+  }
+
+  /**
+   * Revoke every token issued to a user up to now, to the millisecond
+   * @param ttl - Seconds to keep the cut-off; at least the longest token lifetime
+   */
+  async revokeUserTokens(userId: string, ttl: number): Promise<void> {
+    await this.set(`${REVOKED_USER_TOKENS_PREFIX}${userId}`, Date.now(), {
+      ex: ttl,
+    });
+  }
+
+  /**
+   * Revoke every token issued to a session's refresh token family
+   * @param ttl - Seconds to keep the entry; at least the longest token lifetime
+   */
+  async revokeTokenFamily(familyId: string, ttl: number): Promise<void> {
+    await this.set(`${REVOKED_TOKEN_FAMILY_PREFIX}${familyId}`, true, {
+      ex: ttl,
+    });
+  }
+
+  /**
+   * Whether a token was revoked on its own, with its family or by a log out
+   * everywhere.
+   * Fails open like the rest of the cache if Redis is unreachable.
+   */
+  async isTokenRevoked(token: {
+    sub: string;
+    jti?: string;
+    fam?: string;
+    iat?: number;
+    iatMs?: number;
+  }): Promise<boolean> {
+    if (
+      token.jti &&
+      (await this.exists(`${REVOKED_TOKEN_PREFIX}${token.jti}`))
+    ) {
+      return true;
+    }
+
+    if (
+      token.fam &&
+      (await this.exists(`${REVOKED_TOKEN_FAMILY_PREFIX}${token.fam}`))
+    ) {
+      return true;
+    }
+
+    const revokedAt = await this.get<number>(
+      `${REVOKED_USER_TOKENS_PREFIX}${token.sub}`,
+    );
+
+    if (revokedAt === null) {
+      return false;
+    }
+
+    // Cut-offs and tokens from before millisecond precision carry whole seconds
+    const cutOff = revokedAt < 1e12 ? revokedAt * 1000 : revokedAt;
+    const issuedAt = token.iatMs ?? (token.iat ? token.iat * 1000 : null);
+
+    return issuedAt !== null && issuedAt < cutOff;
+  }
 }
@@ -0,0 +1,122 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { CreditAccountService } from './credit-account.service';
+import {
+  CreateCreditRepaymentDto,
+  CreditAccountResponseDto,
+  CreditRepaymentResponseDto,
+  CreditStatementQueryDto,
+  CreditStatementResponseDto,
+} from './dto/credit-account.dto';
+import { SuccessResponse } from '../../common/dto/api-response.dto';
+import { CurrentUserId } from '../../common/decorators/current-user.decorator';
+import { UnifiedAuthGuard } from '../../common/guards/unified-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+
+@ApiTags('Credit Accounts')
+@Controller('credit-accounts')
+@UseGuards(UnifiedAuthGuard, RolesGuard)
+@Roles(UserRole.WHOLESALER)
+@ApiBearerAuth('access-token')
+export class CreditAccountController {
+  constructor(private readonly creditAccountService: CreditAccountService) {}
+
+  @Get('me')
+  @ApiOperation({
+    summary: 'Get my credit account',
+    description:
+      'Credit limit, payment terms, outstanding balance, available credit and 30/60/90-day aging',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Credit account retrieved successfully',
+    type: CreditAccountResponseDto,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Wholesaler access required' })
+  async getAccount(
+    @CurrentUserId() userId: string,
+  ): Promise<SuccessResponse<CreditAccountResponseDto>> {
+    const account = await this.creditAccountService.getAccount(userId);
+    return new SuccessResponse(
+      'Credit account retrieved successfully',
+      account,
+    );
+  }
+
+  @Get('me/statement')
+  @ApiOperation({
+    summary: 'Get my credit statement',
+    description:
+      'Open invoices and every charge, repayment and cancellation in the period with a running balance. Defaults to the last 30 days',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Credit statement retrieved successfully',
+    type: CreditStatementResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid date range' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Wholesaler access required' })
+  async getStatement(
+    @CurrentUserId() userId: string,
+    @Query() query: CreditStatementQueryDto,
+  ): Promise<SuccessResponse<CreditStatementResponseDto>> {
+    const statement = await this.creditAccountService.getStatement(
+      userId,
+      query,
+    );
+    return new SuccessResponse(
+      'Credit statement retrieved successfully',
+      statement,
+    );
+  }
+
+  @Post('me/repayments')
+  @ApiOperation({
+    summary: 'Repay credit',
+    description:
+      'Creates a payment invoice for all or part of the outstanding balance. The transfer settles the oldest-due invoices first',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Repayment initiated successfully',
+    type: CreditRepaymentResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Nothing owed, or amount exceeds the outstanding balance',
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Wholesaler access required' })
+  async initiateRepayment(
+    @CurrentUserId() userId: string,
+    @Body() dto: CreateCreditRepaymentDto,
+  ): Promise<SuccessResponse<CreditRepaymentResponseDto>> {
+    const repayment = await this.creditAccountService.initiateRepayment(
+      userId,
+      dto,
+    );
+    return new SuccessResponse(
+      `Repayment ${repayment.reference} of ${repayment.amount.toFixed(2)} initiated`,
+      repayment,
+    );
+  }
+}
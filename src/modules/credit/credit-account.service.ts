@@ -0,0 +1,878 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CreditInvoice,
+  CreditInvoiceStatus,
+  CreditRepayment,
+  CreditRepaymentStatus,
+  LedgerAccount,
+  Order,
+  Prisma,
+  UserRole,
+  WalletTransactionType,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { WalletService } from '../wallet/wallet.service';
+import { SystemConfigService } from '../system-config/system-config.service';
+import {
+  CreateInvoiceResponse,
+  MonnifyWebhookData,
+  PAYMENT_GATEWAY,
+} from '../payment/interfaces/payment-gateway.interface';
+import type { PaymentGateway } from '../payment/interfaces/payment-gateway.interface';
+import {
+  CreateCreditRepaymentDto,
+  CreditAccountResponseDto,
+  CreditAgingDto,
+  CreditInvoiceResponseDto,
+  CreditRepaymentResponseDto,
+  CreditStatementEntryDto,
+  CreditStatementQueryDto,
+  CreditStatementResponseDto,
+  UpdateCreditAccountDto,
+} from './dto/credit-account.dto';
+import {
+  CREDIT_AGING_BUCKETS,
+  CREDIT_REPAYMENT_REFERENCE_PREFIX,
+  CREDIT_STATEMENT_ENTRY_TYPES,
+  CreditAgingBucket,
+} from './types/credit.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statements cover this many days when no start date is given
+const DEFAULT_STATEMENT_DAYS = 30;
+
+type OpenCreditInvoice = CreditInvoice & { order: { orderNumber: string } };
+
+const wholesalerWalletInclude = {
+  wallet: { select: { balance: true } },
+} satisfies Prisma.WholesalerInclude;
+
+type WholesalerWithWallet = Prisma.WholesalerGetPayload<{
+  include: typeof wholesalerWalletInclude;
+}>;
+
+/**
+ * Credit accounts for wholesalers who buy on terms.
+ *
+ * Admins set a credit limit and payment terms per wholesaler. Orders
+ * confirmed on credit open an invoice due after the terms, and repayments
+ * made through the payment gateway settle the oldest invoices first.
+ */
+@Injectable()
+export class CreditAccountService {
+  private readonly logger = new Logger(CreditAccountService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    @Inject(PAYMENT_GATEWAY)
+    private readonly paymentGateway: PaymentGateway,
+    private readonly configService: ConfigService,
+    private readonly systemConfigService: SystemConfigService,
+    private readonly walletService: WalletService,
+  ) {}
+
+  /**
+   * Credit limit, balance and aging for a wholesaler
+   * @param wholesalerUserId - The wholesaler's user ID
+   */
+  async getAccount(
+    wholesalerUserId: string,
+  ): Promise<CreditAccountResponseDto> {
+    await this.findWholesalerUser(wholesalerUserId);
+
+    const wholesaler = await this.prismaService.wholesaler.findUnique({
+      where: { userId: wholesalerUserId },
+      include: wholesalerWalletInclude,
+    });
+    const openInvoices = wholesaler
+      ? await this.getOpenInvoices(wholesaler.id)
+      : [];
+
+    return this.toAccountResponse(wholesalerUserId, wholesaler, openInvoices);
+  }
+
+  /**
+   * Set a wholesaler's credit limit or payment terms
+   */
+  async updateAccount(
+    wholesalerUserId: string,
+    dto: UpdateCreditAccountDto,
+    adminId: string,
+  ): Promise<CreditAccountResponseDto> {
+    await this.findWholesalerUser(wholesalerUserId);
+
+    const wholesaler = await this.prismaService.wholesaler.upsert({
+      where: { userId: wholesalerUserId },
+      create: { userId: wholesalerUserId, ...dto },
+      update: dto,
+    });
+
+    this.logger.log(
+      `Credit account for wholesaler ${wholesalerUserId} set to limit ${wholesaler.creditLimit.toFixed(2)}, ${wholesaler.paymentTermsDays}-day terms by ${adminId}`,
+    );
+
+    return this.getAccount(wholesalerUserId);
+  }
+
+  /**
+   * Charge an order to the wholesaler's credit account. Call inside the
+   * transaction that confirms the order.
+   * @throws BadRequestException if credit is not enabled or the limit would be exceeded
+   */
+  async reserveCredit(
+    tx: Prisma.TransactionClient,
+    order: Pick<Order, 'id' | 'orderNumber' | 'wholesalerId'>,
+    amount: Prisma.Decimal,
+  ): Promise<CreditInvoice> {
+    const profile = await tx.wholesaler.findUnique({
+      where: { userId: order.wholesalerId },
+      select: { id: true },
+    });
+
+    if (!profile) {
+      throw new BadRequestException(
+        'Pay-on-terms is not enabled for this wholesaler',
+      );
+    }
+
+    // Lock the wholesaler row so concurrent orders cannot both use the same credit
+    const wholesaler = await tx.wholesaler.update({
+      where: { id: profile.id },
+      data: { updatedAt: new Date() },
+    });
+
+    if (wholesaler.creditLimit.lte(0)) {
+      throw new BadRequestException(
+        'Pay-on-terms is not enabled for this wholesaler',
+      );
+    }
+
+    const outstandingBalance = await this.getOutstandingBalance(
+      wholesaler.id,
+      tx,
+    );
+    const availableCredit = wholesaler.creditLimit.minus(outstandingBalance);
+
+    if (amount.gt(availableCredit)) {
+      throw new BadRequestException(
+        `Insufficient credit: ${Prisma.Decimal.max(availableCredit, 0).toFixed(2)} available, ${amount.toFixed(2)} required`,
+      );
+    }
+
+    const invoice = await tx.creditInvoice.create({
+      data: {
+        wholesalerId: wholesaler.id,
+        orderId: order.id,
+        amount,
+        dueDate: new Date(Date.now() + wholesaler.paymentTermsDays * DAY_MS),
+      },
+    });
+
+    this.logger.log(
+      `Order ${order.orderNumber} charged ${amount.toFixed(2)} on credit for wholesaler ${order.wholesalerId}, due ${invoice.dueDate.toISOString()}`,
+    );
+
+    return invoice;
+  }
+
+  /**
+   * Write off the credit invoice of a cancelled order. Anything already
+   * repaid towards it goes to the wholesaler's wallet. Call inside the
+   * transaction that cancels the order.
+   */
+  async voidInvoiceForOrder(
+    tx: Prisma.TransactionClient,
+    order: Pick<Order, 'id' | 'orderNumber' | 'wholesalerId'>,
+  ): Promise<void> {
+    const invoice = await tx.creditInvoice.findUnique({
+      where: { orderId: order.id },
+    });
+
+    if (!invoice || invoice.status === CreditInvoiceStatus.VOID) {
+      return;
+    }
+
+    await tx.creditInvoice.update({
+      where: { id: invoice.id },
+      data: { status: CreditInvoiceStatus.VOID, voidedAt: new Date() },
+    });
+
+    if (invoice.amountPaid.gt(0)) {
+      await this.walletService.credit(tx, order.wholesalerId, {
+        type: WalletTransactionType.REFUND,
+        amount: invoice.amountPaid,
+        counterAccount: LedgerAccount.CREDIT_ACCOUNTS,
+        reference: `credit-invoice-void:${invoice.id}`,
+        description: `Repaid towards cancelled order ${order.orderNumber}`,
+        orderId: order.id,
+      });
+    }
+
+    this.logger.log(
+      `Credit invoice for order ${order.orderNumber} voided; ${invoice.amountPaid.toFixed(2)} moved to wallet`,
+    );
+  }
+
+  /**
+   * Take goods that will not be delivered off an order's credit invoice.
+   * Anything already repaid beyond the new amount goes to the wholesaler's
+   * wallet. Call inside the transaction that records the shortfall.
+   * @param reference - Idempotency key for the wallet posting
+   */
+  async reduceInvoiceForOrder(
+    tx: Prisma.TransactionClient,
+    order: Pick<Order, 'id' | 'orderNumber' | 'wholesalerId'>,
+    amount: Prisma.Decimal,
+    reference: string,
+  ): Promise<void> {
+    const existing = await tx.creditInvoice.findUnique({
+      where: { orderId: order.id },
+    });
+
+    if (!existing || existing.status === CreditInvoiceStatus.VOID) {
+      return;
+    }
+
+    // Lock the invoice so a concurrent repayment allocates against the new amount
+    const invoice = await tx.creditInvoice.update({
+      where: { id: existing.id },
+      data: { updatedAt: new Date() },
+    });
+
+    const newAmount = Prisma.Decimal.max(invoice.amount.minus(amount), 0);
+    const excess = Prisma.Decimal.max(invoice.amountPaid.minus(newAmount), 0);
+    const amountPaid = invoice.amountPaid.minus(excess);
+    const settled = amountPaid.gte(newAmount);
+
+    // The statement shows the reduction and the refund as their own entries
+    await tx.creditInvoiceReduction.create({
+      data: {
+        creditInvoiceId: invoice.id,
+        reference,
+        amount: invoice.amount.minus(newAmount),
+        refunded: excess,
+      },
+    });
+
+    await tx.creditInvoice.update({
+      where: { id: invoice.id },
+      data: {
+        amount: newAmount,
+        amountPaid,
+        status: settled ? CreditInvoiceStatus.PAID : invoice.status,
+        paidAt: settled ? (invoice.paidAt ?? new Date()) : invoice.paidAt,
+      },
+    });
+
+    if (excess.gt(0)) {
+      await this.walletService.credit(tx, order.wholesalerId, {
+        type: WalletTransactionType.REFUND,
+        amount: excess,
+        counterAccount: LedgerAccount.CREDIT_ACCOUNTS,
+        reference,
+        description: `Repaid towards goods not delivered on order ${order.orderNumber}`,
+        orderId: order.id,
+      });
+    }
+
+    this.logger.log(
+      `Credit invoice for order ${order.orderNumber} reduced by ${amount.toFixed(2)}; ${excess.toFixed(2)} moved to wallet`,
+    );
+  }
+
+  /**
+   * Create a gateway invoice the wholesaler pays to settle their balance
+   * @param wholesalerUserId - The wholesaler's user ID
+   */
+  async initiateRepayment(
+    wholesalerUserId: string,
+    dto: CreateCreditRepaymentDto,
+  ): Promise<CreditRepaymentResponseDto> {
+    const user = await this.findWholesalerUser(wholesalerUserId);
+
+    const wholesaler = await this.prismaService.wholesaler.findUnique({
+      where: { userId: wholesalerUserId },
+      select: { id: true },
+    });
+    const outstandingBalance = wholesaler
+      ? await this.getOutstandingBalance(wholesaler.id)
+      : new Prisma.Decimal(0);
+
+    if (!wholesaler || outstandingBalance.lte(0)) {
+      throw new BadRequestException('There is no outstanding credit to repay');
+    }
+
+    const amount =
+      dto.amount !== undefined
+        ? new Prisma.Decimal(dto.amount)
+        : outstandingBalance;
+
+    if (amount.gt(outstandingBalance)) {
+      throw new BadRequestException(
+        `Repayment cannot exceed the outstanding balance of ${outstandingBalance.toFixed(2)}`,
+      );
+    }
+
+    const reference = this.generateRepaymentReference();
+    const paymentExpiryMinutes = await this.systemConfigService.get(
+      'PAYMENT_EXPIRY_MINUTES',
+    );
+
+    const invoiceData = {
+      amount: amount.toNumber(),
+      invoiceReference: reference,
+      customerName: `${user.firstName} ${user.lastName}`,
+      customerEmail: user.email,
+      description: `Credit account repayment ${reference}`,
+      contractCode: this.configService.get('MONNIFY_CONTRACT_CODE'),
+      currencyCode: 'NGN',
+      expiryDate: new Date(Date.now() + paymentExpiryMinutes * 60 * 1000),
+      paymentMethods: ['ACCOUNT_TRANSFER', 'CARD'],
+      redirectUrl:
+        this.configService.get('APP_BASE_URL') +
+        `/credit/repayments/${reference}/success`,
+    };
+
+    let invoice: CreateInvoiceResponse;
+    try {
+      invoice = await this.paymentGateway.createInvoice(invoiceData);
+    } catch (error) {
+      this.logger.error(
+        `Failed to create repayment invoice for wholesaler ${wholesalerUserId}: ${error.message}`,
+        error.stack,
+      );
+      throw new BadRequestException('Failed to initiate repayment');
+    }
+
+    const repayment = await this.prismaService.creditRepayment.create({
+      data: {
+        wholesalerId: wholesaler.id,
+        reference,
+        amount,
+        virtualAccounts: [
+          {
+            accountNumber: invoice.responseBody.accountNumber,
+            accountName: invoice.responseBody.accountName,
+            bankCode: invoice.responseBody.bankCode,
+            bankName: invoice.responseBody.bankName,
+          },
+        ],
+        checkoutUrl: invoice.responseBody.checkoutUrl,
+        expiresAt: new Date(invoice.responseBody.expiryDate.replace(' ', 'T')),
+        createdById: wholesalerUserId,
+      },
+    });
+
+    this.logger.log(
+      `Credit repayment ${reference} of ${amount.toFixed(2)} initiated for wholesaler ${wholesalerUserId}`,
+    );
+
+    return this.toRepaymentResponse(repayment);
+  }
+
+  /**
+   * Apply a successful transfer against a repayment invoice, settling the
+   * oldest-due credit invoices first. Anything beyond the outstanding
+   * balance goes to the wholesaler's wallet.
+   */
+  async handleRepaymentTransaction(eventData: MonnifyWebhookData) {
+    const repayment = await this.prismaService.creditRepayment.findUnique({
+      where: { reference: eventData.paymentReference },
+    });
+
+    if (!repayment) {
+      this.logger.warn(
+        `Credit repayment not found for reference: ${eventData.paymentReference} (transaction: ${eventData.transactionReference})`,
+      );
+      return { success: false, message: 'Credit repayment not found' };
+    }
+
+    const result = await this.prismaService.$transaction(async (tx) => {
+      // Lock the repayment row so a resent webhook waits and then sees it applied
+      const current = await tx.creditRepayment.update({
+        where: { id: repayment.id },
+        data: { updatedAt: new Date() },
+      });
+
+      if (current.status === CreditRepaymentStatus.COMPLETED) {
+        return { applied: false as const, current };
+      }
+
+      // Lock the wholesaler row; new credit orders read the same balance
+      const wholesaler = await tx.wholesaler.update({
+        where: { id: current.wholesalerId },
+        data: { updatedAt: new Date() },
+      });
+
+      const paidAt = eventData.paidOn ? new Date(eventData.paidOn) : new Date();
+      const amountPaid = new Prisma.Decimal(eventData.amountPaid || 0);
+      let remaining = amountPaid;
+
+      const openInvoices = await this.getOpenInvoices(current.wholesalerId, tx);
+      for (const invoice of openInvoices) {
+        if (remaining.lte(0)) break;
+
+        const outstanding = invoice.amount.minus(invoice.amountPaid);
+        const allocated = Prisma.Decimal.min(outstanding, remaining);
+        const settled = allocated.eq(outstanding);
+
+        await tx.creditInvoice.update({
+          where: { id: invoice.id },
+          data: {
+            amountPaid: { increment: allocated },
+            ...(settled && { status: CreditInvoiceStatus.PAID, paidAt }),
+          },
+        });
+
+        await tx.creditRepaymentAllocation.create({
+          data: {
+            repaymentId: current.id,
+            creditInvoiceId: invoice.id,
+            amount: allocated,
+          },
+        });
+
+        remaining = remaining.minus(allocated);
+      }
+
+      if (remaining.gt(0)) {
+        await this.walletService.credit(tx, wholesaler.userId, {
+          type: WalletTransactionType.OVERPAYMENT,
+          amount: remaining,
+          counterAccount: LedgerAccount.GATEWAY_CLEARING,
+          reference: `repayment-excess:${current.reference}`,
+          description: `Repayment ${current.reference} beyond the outstanding credit balance`,
+        });
+      }
+
+      const updated = await tx.creditRepayment.update({
+        where: { id: current.id },
+        data: {
+          status: CreditRepaymentStatus.COMPLETED,
+          amountPaid,
+          transactionReference: eventData.transactionReference,
+          paidAt,
+        },
+      });
+
+      return { applied: true as const, current: updated, excess: remaining };
+    });
+
+    if (!result.applied) {
+      // A second transfer into a settled repayment invoice needs a person to look at it
+      if (
+        result.current.transactionReference !== eventData.transactionReference
+      ) {
+        this.logger.warn(
+          `Credit repayment ${repayment.reference} already settled by ${result.current.transactionReference}; transaction ${eventData.transactionReference} not applied`,
+        );
+        return {
+          success: false,
+          message: 'Credit repayment already settled by another transaction',
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Credit repayment already processed',
+        processed: false,
+      };
+    }
+
+    this.logger.log(
+      `Credit repayment ${repayment.reference} of ${result.current.amountPaid.toFixed(2)} applied${result.excess.gt(0) ? `; ${result.excess.toFixed(2)} added to wallet` : ''}`,
+    );
+
+    return {
+      success: true,
+      message: 'Credit repayment processed successfully',
+      data: {
+        reference: repayment.reference,
+        amount: Number(result.current.amountPaid),
+        transactionReference: eventData.transactionReference,
+      },
+    };
+  }
+
+  /**
+   * Account summary, open invoices and the movements on the balance over a
+   * period
+   * @param wholesalerUserId - The wholesaler's user ID
+   */
+  async getStatement(
+    wholesalerUserId: string,
+    query: CreditStatementQueryDto,
+  ): Promise<CreditStatementResponseDto> {
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(to.getTime() - DEFAULT_STATEMENT_DAYS * DAY_MS);
+
+    if (from > to) {
+      throw new BadRequestException(
+        'Statement start date must be before its end date',
+      );
+    }
+
+    await this.findWholesalerUser(wholesalerUserId);
+
+    const wholesaler = await this.prismaService.wholesaler.findUnique({
+      where: { userId: wholesalerUserId },
+      include: wholesalerWalletInclude,
+    });
+
+    if (!wholesaler) {
+      return {
+        account: this.toAccountResponse(wholesalerUserId, null, []),
+        from,
+        to,
+        openingBalance: 0,
+        closingBalance: 0,
+        openInvoices: [],
+        entries: [],
+      };
+    }
+
+    const now = new Date();
+    const [openInvoices, openingBalance, entries] = await Promise.all([
+      this.getOpenInvoices(wholesaler.id),
+      this.getBalanceAt(wholesaler.id, from),
+      this.getStatementEntries(wholesaler.id, from, to),
+    ]);
+
+    // Running balance from the opening balance
+    let balance = openingBalance;
+    const statementEntries: CreditStatementEntryDto[] = entries.map((entry) => {
+      balance = balance.plus(entry.debit).minus(entry.credit);
+      return {
+        ...entry,
+        debit: Number(entry.debit),
+        credit: Number(entry.credit),
+        balance: Number(balance),
+      };
+    });
+
+    return {
+      account: this.toAccountResponse(
+        wholesalerUserId,
+        wholesaler,
+        openInvoices,
+        now,
+      ),
+      from,
+      to,
+      openingBalance: Number(openingBalance),
+      closingBalance: Number(balance),
+      openInvoices: openInvoices.map((invoice) =>
+        this.toInvoiceResponse(invoice, now),
+      ),
+      entries: statementEntries,
+    };
+  }
+
+  /**
+   * Balance owed on credit invoices that are still open
+   */
+  private async getOutstandingBalance(
+    wholesalerId: string,
+    db: Prisma.TransactionClient = this.prismaService,
+  ): Promise<Prisma.Decimal> {
+    const { _sum } = await db.creditInvoice.aggregate({
+      where: { wholesalerId, status: CreditInvoiceStatus.OPEN },
+      _sum: { amount: true, amountPaid: true },
+    });
+
+    return (_sum.amount ?? new Prisma.Decimal(0)).minus(_sum.amountPaid ?? 0);
+  }
+
+  /**
+   * Open invoices in the order repayments settle them: oldest due first
+   */
+  private async getOpenInvoices(
+    wholesalerId: string,
+    db: Prisma.TransactionClient = this.prismaService,
+  ): Promise<OpenCreditInvoice[]> {
+    return db.creditInvoice.findMany({
+      where: { wholesalerId, status: CreditInvoiceStatus.OPEN },
+      include: { order: { select: { orderNumber: true } } },
+      orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Balance owed just before the given time: charges less repayments,
+   * reductions and the unpaid part of voided invoices, plus repayments
+   * moved out to the wallet when an invoice was reduced
+   */
+  private async getBalanceAt(
+    wholesalerId: string,
+    at: Date,
+  ): Promise<Prisma.Decimal> {
+    const [charges, chargeReductions, repayments, reductions, voids] =
+      await Promise.all([
+        this.prismaService.creditInvoice.aggregate({
+          where: { wholesalerId, createdAt: { lt: at } },
+          _sum: { amount: true },
+        }),
+        // Invoice amounts are net of reductions; charges are not
+        this.prismaService.creditInvoiceReduction.aggregate({
+          where: { creditInvoice: { wholesalerId, createdAt: { lt: at } } },
+          _sum: { amount: true },
+        }),
+        this.prismaService.creditRepaymentAllocation.aggregate({
+          where: { creditInvoice: { wholesalerId }, createdAt: { lt: at } },
+          _sum: { amount: true },
+        }),
+        this.prismaService.creditInvoiceReduction.aggregate({
+          where: { creditInvoice: { wholesalerId }, createdAt: { lt: at } },
+          _sum: { amount: true, refunded: true },
+        }),
+        this.prismaService.creditInvoice.aggregate({
+          where: { wholesalerId, voidedAt: { lt: at } },
+          _sum: { amount: true, amountPaid: true },
+        }),
+      ]);
+
+    return new Prisma.Decimal(charges._sum.amount ?? 0)
+      .plus(chargeReductions._sum.amount ?? 0)
+      .minus(repayments._sum.amount ?? 0)
+      .minus(reductions._sum.amount ?? 0)
+      .plus(reductions._sum.refunded ?? 0)
+      .minus(voids._sum.amount ?? 0)
+      .plus(voids._sum.amountPaid ?? 0);
+  }
+
+  /**
+   * Charges, repayments, reductions and voids within the period, oldest
+   * first
+   */
+  private async getStatementEntries(
+    wholesalerId: string,
+    from: Date,
+    to: Date,
+  ): Promise<
+    (Omit<CreditStatementEntryDto, 'debit' | 'credit' | 'balance'> & {
+      debit: Prisma.Decimal;
+      credit: Prisma.Decimal;
+    })[]
+  > {
+    const period = { gte: from, lte: to };
+    const zero = new Prisma.Decimal(0);
+
+    const [charges, allocations, reductions, voids] = await Promise.all([
+      this.prismaService.creditInvoice.findMany({
+        where: { wholesalerId, createdAt: period },
+        include: {
+          order: { select: { orderNumber: true } },
+          reductions: { select: { amount: true } },
+        },
+      }),
+      this.prismaService.creditRepaymentAllocation.findMany({
+        where: { creditInvoice: { wholesalerId }, createdAt: period },
+        include: { repayment: { select: { reference: true } } },
+      }),
+      this.prismaService.creditInvoiceReduction.findMany({
+        where: { creditInvoice: { wholesalerId }, createdAt: period },
+        include: {
+          creditInvoice: {
+            select: { order: { select: { orderNumber: true } } },
+          },
+        },
+      }),
+      this.prismaService.creditInvoice.findMany({
+        where: { wholesalerId, voidedAt: period },
+        include: { order: { select: { orderNumber: true } } },
+      }),
+    ]);
+
+    // A repayment is one entry however many invoices it settled
+    const repayments = new Map<
+      string,
+      { date: Date; reference: string; amount: Prisma.Decimal }
+    >();
+    for (const allocation of allocations) {
+      const entry = repayments.get(allocation.repaymentId);
+      if (entry) {
+        entry.amount = entry.amount.plus(allocation.amount);
+      } else {
+        repayments.set(allocation.repaymentId, {
+          date: allocation.createdAt,
+          reference: allocation.repayment.reference,
+          amount: allocation.amount,
+        });
+      }
+    }
+
+    return [
+      ...charges.map((invoice) => ({
+        date: invoice.createdAt,
+        type: CREDIT_STATEMENT_ENTRY_TYPES.CHARGE,
+        reference: invoice.order.orderNumber,
+        description: `Order ${invoice.order.orderNumber} due ${invoice.dueDate.toISOString().slice(0, 10)}`,
+        debit: invoice.reductions.reduce(
+          (total, reduction) => total.plus(reduction.amount),
+          invoice.amount,
+        ),
+        credit: zero,
+      })),
+      ...[...repayments.values()].map((repayment) => ({
+        date: repayment.date,
+        type: CREDIT_STATEMENT_ENTRY_TYPES.REPAYMENT,
+        reference: repayment.reference,
+        description: `Repayment ${repayment.reference}`,
+        debit: zero,
+        credit: repayment.amount,
+      })),
+      ...reductions.map((reduction) => ({
+        date: reduction.createdAt,
+        type: CREDIT_STATEMENT_ENTRY_TYPES.REDUCTION,
+        reference: reduction.creditInvoice.order.orderNumber,
+        description: `Goods not delivered on order ${reduction.creditInvoice.order.orderNumber}`,
+        debit: zero,
+        credit: reduction.amount,
+      })),
+      ...reductions
+        .filter((reduction) => reduction.refunded.gt(0))
+        .map((reduction) => ({
+          date: reduction.createdAt,
+          type: CREDIT_STATEMENT_ENTRY_TYPES.REFUND,
+          reference: reduction.creditInvoice.order.orderNumber,
+          description: `Repaid towards goods not delivered on order ${reduction.creditInvoice.order.orderNumber}, moved to wallet`,
+          debit: reduction.refunded,
+          credit: zero,
+        })),
+      ...voids.map((invoice) => ({
+        date: invoice.voidedAt as Date,
+        type: CREDIT_STATEMENT_ENTRY_TYPES.VOID,
+        reference: invoice.order.orderNumber,
+        description: `Order ${invoice.order.orderNumber} cancelled`,
+        debit: zero,
+        credit: invoice.amount.minus(invoice.amountPaid),
+      })),
+    ].sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private async findWholesalerUser(userId: string) {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        role: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+      },
+    });
+
+    if (!user || user.role !== UserRole.WHOLESALER) {
+      throw new NotFoundException('Wholesaler not found');
+    }
+
+    return user;
+  }
+
+  private generateRepaymentReference(): string {
+    const timestamp = Date.now().toString().slice(-7);
+    const random = Math.floor(Math.random() * 1000)
+      .toString()
+      .padStart(3, '0');
+    return `${CREDIT_REPAYMENT_REFERENCE_PREFIX}${timestamp}${random}`;
+  }
+
+  private daysPastDue(dueDate: Date, now: Date): number {
+    return Math.max(
+      0,
+      Math.floor((now.getTime() - dueDate.getTime()) / DAY_MS),
+    );
+  }
+
+  private toAccountResponse(
+    wholesalerUserId: string,
+    wholesaler: WholesalerWithWallet | null,
+    openInvoices: OpenCreditInvoice[],
+    now: Date = new Date(),
+  ): CreditAccountResponseDto {
+    const aging = Object.fromEntries(
+      CREDIT_AGING_BUCKETS.map(({ key }) => [key, new Prisma.Decimal(0)]),
+    ) as Record<CreditAgingBucket, Prisma.Decimal>;
+    let outstandingBalance = new Prisma.Decimal(0);
+    let overdueBalance = new Prisma.Decimal(0);
+
+    for (const invoice of openInvoices) {
+      const outstanding = invoice.amount.minus(invoice.amountPaid);
+      const daysPastDue = this.daysPastDue(invoice.dueDate, now);
+      const bucket = CREDIT_AGING_BUCKETS.find(
+        ({ minDays, maxDays }) =>
+          daysPastDue >= minDays && daysPastDue <= maxDays,
+      );
+
+      outstandingBalance = outstandingBalance.plus(outstanding);
+      if (daysPastDue > 0) {
+        overdueBalance = overdueBalance.plus(outstanding);
+      }
+      if (bucket) {
+        aging[bucket.key] = aging[bucket.key].plus(outstanding);
+      }
+    }
+
+    const creditLimit = wholesaler?.creditLimit ?? new Prisma.Decimal(0);
+
+    return {
+      wholesalerId: wholesalerUserId,
+      creditLimit: Number(creditLimit),
+      paymentTermsDays: wholesaler?.paymentTermsDays ?? 0,
+      outstandingBalance: Number(outstandingBalance),
+      availableCredit: Number(
+        Prisma.Decimal.max(creditLimit.minus(outstandingBalance), 0),
+      ),
+      overdueBalance: Number(overdueBalance),
+      openInvoices: openInvoices.length,
+      walletBalance: Number(wholesaler?.wallet?.balance ?? 0),
+      aging: Object.fromEntries(
+        Object.entries(aging).map(([key, amount]) => [key, Number(amount)]),
+      ) as unknown as CreditAgingDto,
+    };
+  }
+
+  private toInvoiceResponse(
+    invoice: OpenCreditInvoice,
+    now: Date,
+  ): CreditInvoiceResponseDto {
+    return {
+      id: invoice.id,
+      orderNumber: invoice.order.orderNumber,
+      amount: Number(invoice.amount),
+      amountPaid: Number(invoice.amountPaid),
+      outstandingAmount: Number(invoice.amount.minus(invoice.amountPaid)),
+      dueDate: invoice.dueDate,
+      daysPastDue: this.daysPastDue(invoice.dueDate, now),
+      status: invoice.status,
+      createdAt: invoice.createdAt,
+    };
+  }
+
+  private toRepaymentResponse(
+    repayment: CreditRepayment,
+  ): CreditRepaymentResponseDto {
+    return {
+      id: repayment.id,
+      reference: repayment.reference,
+      amount: Number(repayment.amount),
+      amountPaid: Number(repayment.amountPaid),
+      status: repayment.status,
+      virtualAccounts: repayment.virtualAccounts,
+      checkoutUrl: repayment.checkoutUrl,
+      expiresAt: repayment.expiresAt,
+      paidAt: repayment.paidAt,
+      createdAt: repayment.createdAt,
+    };
+  }
+}
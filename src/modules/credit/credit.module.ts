@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { CreditAccountController } from './credit-account.controller';
+import { CreditAccountService } from './credit-account.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PaymentModule } from '../payment/payment.module';
+import { WalletModule } from '../wallet/wallet.module';
+
+@Module({
+  imports: [PrismaModule, ConfigModule, PaymentModule, WalletModule],
+  controllers: [CreditAccountController],
+  providers: [CreditAccountService],
+  exports: [CreditAccountService],
+})
+export class CreditModule {}
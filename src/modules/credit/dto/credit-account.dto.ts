@@ -0,0 +1,255 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { CreditInvoiceStatus, CreditRepaymentStatus } from '@prisma/client';
+import { CREDIT_STATEMENT_ENTRY_TYPES } from '../types/credit.types';
+import type { CreditStatementEntryType } from '../types/credit.types';
+
+export class UpdateCreditAccountDto {
+  @ApiPropertyOptional({
+    description:
+      'Most the wholesaler may owe at once. 0 turns pay-on-terms off; existing invoices stay payable',
+    example: 5000000,
+    minimum: 0,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  creditLimit?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Days after confirmation that a credit invoice falls due. Applies to orders confirmed from now on',
+    example: 30,
+    minimum: 0,
+    maximum: 365,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  paymentTermsDays?: number;
+}
+
+export class CreateCreditRepaymentDto {
+  @ApiPropertyOptional({
+    description: 'Amount to repay. Defaults to the full outstanding balance',
+    example: 250000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+}
+
+export class CreditStatementQueryDto {
+  @ApiPropertyOptional({
+    description: 'Statement start date. Defaults to 30 days before the end',
+    example: '2026-01-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Statement end date. Defaults to now',
+    example: '2026-01-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class CreditAgingDto {
+  @ApiProperty({ description: 'Not yet due', example: 150000 })
+  current: number;
+
+  @ApiProperty({ description: '1-30 days past due', example: 80000 })
+  days1To30: number;
+
+  @ApiProperty({ description: '31-60 days past due', example: 0 })
+  days31To60: number;
+
+  @ApiProperty({ description: '61-90 days past due', example: 0 })
+  days61To90: number;
+
+  @ApiProperty({ description: 'More than 90 days past due', example: 0 })
+  over90: number;
+}
+
+export class CreditAccountResponseDto {
+  @ApiProperty({ description: 'Wholesaler user ID', example: 'user_uuid' })
+  wholesalerId: string;
+
+  @ApiProperty({ example: 5000000 })
+  creditLimit: number;
+
+  @ApiProperty({ example: 30 })
+  paymentTermsDays: number;
+
+  @ApiProperty({
+    description: 'Unpaid balance across open credit invoices',
+    example: 230000,
+  })
+  outstandingBalance: number;
+
+  @ApiProperty({
+    description: 'Credit left for new orders',
+    example: 4770000,
+  })
+  availableCredit: number;
+
+  @ApiProperty({ description: 'Part of the balance past due', example: 80000 })
+  overdueBalance: number;
+
+  @ApiProperty({ description: 'Open credit invoices', example: 3 })
+  openInvoices: number;
+
+  @ApiProperty({
+    description:
+      'Wallet balance, which holds overpayments and excess repayments; separate from the credit limit',
+    example: 0,
+  })
+  walletBalance: number;
+
+  @ApiProperty({ type: CreditAgingDto })
+  aging: CreditAgingDto;
+}
+
+export class CreditInvoiceResponseDto {
+  @ApiProperty({ description: 'Credit invoice ID' })
+  id: string;
+
+  @ApiProperty({ example: 'JOO-1234567890' })
+  orderNumber: string;
+
+  @ApiProperty({ example: 150000 })
+  amount: number;
+
+  @ApiProperty({ example: 50000 })
+  amountPaid: number;
+
+  @ApiProperty({ example: 100000 })
+  outstandingAmount: number;
+
+  @ApiProperty()
+  dueDate: Date;
+
+  @ApiProperty({
+    description: 'Days past the due date; 0 if not yet due',
+    example: 12,
+  })
+  daysPastDue: number;
+
+  @ApiProperty({ enum: CreditInvoiceStatus, example: CreditInvoiceStatus.OPEN })
+  status: CreditInvoiceStatus;
+
+  @ApiProperty({ description: 'When the order was confirmed on credit' })
+  createdAt: Date;
+}
+
+export class CreditStatementEntryDto {
+  @ApiProperty({ example: '2026-01-15T10:00:00.000Z' })
+  date: Date;
+
+  @ApiProperty({
+    enum: Object.values(CREDIT_STATEMENT_ENTRY_TYPES),
+    example: CREDIT_STATEMENT_ENTRY_TYPES.CHARGE,
+  })
+  type: CreditStatementEntryType;
+
+  @ApiProperty({
+    description: 'Order number, or repayment reference',
+    example: 'JOO-1234567890',
+  })
+  reference: string;
+
+  @ApiProperty({ example: 'Order JOO-1234567890 due 2026-02-14' })
+  description: string;
+
+  @ApiProperty({ description: 'Added to the balance', example: 150000 })
+  debit: number;
+
+  @ApiProperty({ description: 'Taken off the balance', example: 0 })
+  credit: number;
+
+  @ApiProperty({ description: 'Balance after this entry', example: 230000 })
+  balance: number;
+}
+
+export class CreditStatementResponseDto {
+  @ApiProperty({ type: CreditAccountResponseDto })
+  account: CreditAccountResponseDto;
+
+  @ApiProperty()
+  from: Date;
+
+  @ApiProperty()
+  to: Date;
+
+  @ApiProperty({ example: 80000 })
+  openingBalance: number;
+
+  @ApiProperty({ example: 230000 })
+  closingBalance: number;
+
+  @ApiProperty({
+    description: 'Invoices still owed, oldest due first',
+    type: [CreditInvoiceResponseDto],
+  })
+  openInvoices: CreditInvoiceResponseDto[];
+
+  @ApiProperty({ type: [CreditStatementEntryDto] })
+  entries: CreditStatementEntryDto[];
+}
+
+export class CreditRepaymentResponseDto {
+  @ApiProperty({ description: 'Repayment ID' })
+  id: string;
+
+  @ApiProperty({
+    description: 'Gateway invoice reference',
+    example: 'CRP-1234567890',
+  })
+  reference: string;
+
+  @ApiProperty({ example: 230000 })
+  amount: number;
+
+  @ApiProperty({ example: 0 })
+  amountPaid: number;
+
+  @ApiProperty({
+    enum: CreditRepaymentStatus,
+    example: CreditRepaymentStatus.PENDING,
+  })
+  status: CreditRepaymentStatus;
+
+  @ApiPropertyOptional({
+    description: 'Accounts the wholesaler can transfer to',
+    nullable: true,
+  })
+  virtualAccounts: unknown;
+
+  @ApiPropertyOptional({ nullable: true })
+  checkoutUrl: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  expiresAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  paidAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
@@ -0,0 +1,5 @@
+export * from './credit-account.service';
+export * from './credit-account.controller';
+export * from './credit.module';
+export * from './types/credit.types';
+export * from './dto/credit-account.dto';
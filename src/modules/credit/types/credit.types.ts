@@ -0,0 +1,25 @@
+// Gateway invoice references for credit repayments start with this, so
+// payment webhooks can be told apart from order payments
+export const CREDIT_REPAYMENT_REFERENCE_PREFIX = 'CRP-';
+
+// Days past due, inclusive, that each aging bucket covers
+export const CREDIT_AGING_BUCKETS = [
+  { key: 'current', minDays: 0, maxDays: 0 },
+  { key: 'days1To30', minDays: 1, maxDays: 30 },
+  { key: 'days31To60', minDays: 31, maxDays: 60 },
+  { key: 'days61To90', minDays: 61, maxDays: 90 },
+  { key: 'over90', minDays: 91, maxDays: Infinity },
+] as const;
+
+export type CreditAgingBucket = (typeof CREDIT_AGING_BUCKETS)[number]['key'];
+
+export const CREDIT_STATEMENT_ENTRY_TYPES = {
+  CHARGE: 'CHARGE', // Order confirmed on credit
+  REPAYMENT: 'REPAYMENT', // Repayment allocated to invoices
+  VOID: 'VOID', // Order cancelled; its unpaid balance is written off
+  REDUCTION: 'REDUCTION', // Goods not delivered taken off an invoice
+  REFUND: 'REFUND', // Repaid beyond a reduced invoice; moved to the wallet
+} as const;
+
+export type CreditStatementEntryType =
+  (typeof CREDIT_STATEMENT_ENTRY_TYPES)[keyof typeof CREDIT_STATEMENT_ENTRY_TYPES];
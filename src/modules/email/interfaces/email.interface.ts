@@ -1,5 +1,11 @@
 import { EmailTemplateAlias, EmailPriority } from '../types/email.types';
 
+// Fetched by the provider from path; not supported in batch sends
+export interface EmailAttachment {
+  filename: string;
+  path: string;
+}
+
 export interface EmailRequest {
   from?: string;
   to: string | string[];
@@ -10,6 +16,7 @@ export interface EmailRequest {
   variables: Record<string, string | number | undefined>;
   priority?: EmailPriority;
   metadata?: Record<string, any>;
+  attachments?: EmailAttachment[];
 }
 
 export interface BatchEmailRequest extends EmailRequest {
@@ -41,6 +48,7 @@ export interface TemplateEmailRequest {
   replyTo?: string | string[];
   templateAlias: EmailTemplateAlias;
   variables: Record<string, string | number | undefined>;
+  attachments?: EmailAttachment[];
   options?: {
     headers?: Record<string, string>;
     tags?: Array<{ name: string; value: string }>;
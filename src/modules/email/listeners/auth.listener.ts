@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
 import { NotificationService } from '../services/notification.service';
 import { EmailEvent } from '../types/email.types';
+import type { DomainEventPayload } from '../../events/types/domain-events.types';
 
 @Injectable()
 export class AuthEmailListener {
@@ -10,7 +11,9 @@ export class AuthEmailListener {
   constructor(private readonly notificationService: NotificationService) {}
 
   @OnEvent(EmailEvent.USER_REGISTERED)
-  async handleUserRegistration(payload: { user: any }) {
+  async handleUserRegistration(
+    payload: DomainEventPayload<EmailEvent.USER_REGISTERED>,
+  ) {
     try {
       await this.notificationService.notifyWelcome(payload.user);
       this.logger.log(
@@ -25,10 +28,9 @@ export class AuthEmailListener {
   }
 
   @OnEvent(EmailEvent.EMAIL_VERIFICATION)
-  async handleEmailVerification(payload: {
-    user: any;
-    verificationToken: string;
-  }) {
+  async handleEmailVerification(
+    payload: DomainEventPayload<EmailEvent.EMAIL_VERIFICATION>,
+  ) {
     try {
       await this.notificationService.notifyEmailVerification(
         payload.user,
@@ -46,11 +48,14 @@ export class AuthEmailListener {
   }
 
   @OnEvent(EmailEvent.PASSWORD_RESET)
-  async handlePasswordReset(payload: { user: any; resetToken: string }) {
+  async handlePasswordReset(
+    payload: DomainEventPayload<EmailEvent.PASSWORD_RESET>,
+  ) {
     try {
       await this.notificationService.notifyPasswordReset(
         payload.user,
         payload.resetToken,
+        payload.expiresInHours,
       );
       this.logger.log(
         `Password reset email event handled for user: ${payload.user.email}`,
@@ -63,8 +68,49 @@ export class AuthEmailListener {
     }
   }
 
+  @OnEvent(EmailEvent.WHOLESALER_APPROVED)
+  async handleWholesalerApproved(
+    payload: DomainEventPayload<EmailEvent.WHOLESALER_APPROVED>,
+  ) {
+    try {
+      await this.notificationService.notifyWholesalerApproved(
+        payload.user,
+        payload.businessName,
+      );
+      this.logger.log(
+        `Wholesaler approval email event handled for user: ${payload.user.email}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to handle wholesaler approval email event: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  @OnEvent(EmailEvent.WHOLESALER_REJECTED)
+  async handleWholesalerRejected(
+    payload: DomainEventPayload<EmailEvent.WHOLESALER_REJECTED>,
+  ) {
+    try {
+      await this.notificationService.notifyWholesalerRejected(
+        payload.user,
+        payload.businessName,
+        payload.reason,
+      );
+      this.logger.log(
+        `Wholesaler rejection email event handled for user: ${payload.user.email}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to handle wholesaler rejection email event: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
   @OnEvent(EmailEvent.LOGIN_ALERT)
-  async handleLoginAlert(payload: { user: any; loginInfo: any }) {
+  async handleLoginAlert(payload: DomainEventPayload<EmailEvent.LOGIN_ALERT>) {
     try {
       // TODO: Implement login alert notification if needed
       this.logger.log(
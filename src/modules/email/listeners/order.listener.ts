@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
 import { NotificationService } from '../services/notification.service';
 import { EmailEvent } from '../types/email.types';
+import type { DomainEventPayload } from '../../events/types/domain-events.types';
 
 @Injectable()
 export class OrderEmailListener {
@@ -9,23 +10,12 @@ export class OrderEmailListener {
 
   constructor(private readonly notificationService: NotificationService) {}
 
-  @OnEvent(EmailEvent.ORDER_CONFIRMED)
-  async handleOrderConfirmation(payload: { order: any }) {
-    try {
-      await this.notificationService.notifyOrderConfirmation(payload.order);
-      this.logger.log(
-        `Order confirmation email event handled for order: ${payload.order.orderNumber}`,
-      );
-    } catch (error) {
-      this.logger.error(
-        `Failed to handle order confirmation email event: ${error.message}`,
-        error.stack,
-      );
-    }
-  }
+  // ORDER_CONFIRMED is emailed by the order module once the receipt is issued
 
   @OnEvent(EmailEvent.ORDER_ASSIGNED)
-  async handleOrderAssignment(payload: { order: any; officer: any }) {
+  async handleOrderAssignment(
+    payload: DomainEventPayload<EmailEvent.ORDER_ASSIGNED>,
+  ) {
     try {
       await this.notificationService.notifyOrderAssignment(
         payload.order,
@@ -43,7 +33,9 @@ export class OrderEmailListener {
   }
 
   @OnEvent(EmailEvent.ORDER_COMPLETED)
-  async handleOrderCompletion(payload: { order: any }) {
+  async handleOrderCompletion(
+    payload: DomainEventPayload<EmailEvent.ORDER_COMPLETED>,
+  ) {
     try {
       await this.notificationService.notifyOrderCompletion(payload.order);
       this.logger.log(
@@ -58,11 +50,9 @@ export class OrderEmailListener {
   }
 
   @OnEvent(EmailEvent.ORDER_STATUS_CHANGED)
-  async handleOrderStatusChange(payload: {
-    order: any;
-    previousStatus: string;
-    newStatus: string;
-  }) {
+  async handleOrderStatusChange(
+    payload: DomainEventPayload<EmailEvent.ORDER_STATUS_CHANGED>,
+  ) {
     try {
       // Handle specific status changes that require notifications
       if (payload.newStatus === 'COMPLETED') {
@@ -2,6 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
 import { NotificationService } from '../services/notification.service';
 import { EmailEvent } from '../types/email.types';
+import type { DomainEventPayload } from '../../events/types/domain-events.types';
+import { outboxChannel } from '../../outbox/types/outbox.types';
 
 @Injectable()
 export class SystemEmailListener {
@@ -10,10 +12,9 @@ export class SystemEmailListener {
   constructor(private readonly notificationService: NotificationService) {}
 
   @OnEvent(EmailEvent.SYSTEM_MAINTENANCE)
-  async handleSystemMaintenance(payload: {
-    users: any[];
-    maintenanceDetails: any;
-  }) {
+  async handleSystemMaintenance(
+    payload: DomainEventPayload<EmailEvent.SYSTEM_MAINTENANCE>,
+  ) {
     try {
       await this.notificationService.notifySystemMaintenance(
         payload.users,
@@ -31,11 +32,9 @@ export class SystemEmailListener {
   }
 
   @OnEvent(EmailEvent.BULK_NOTIFICATION)
-  async handleBulkNotification(payload: {
-    users: any[];
-    templateAlias: string;
-    variables: Record<string, any>;
-  }) {
+  async handleBulkNotification(
+    payload: DomainEventPayload<EmailEvent.BULK_NOTIFICATION>,
+  ) {
     try {
       // TODO: Implement generic bulk notification handling
       this.logger.log(
@@ -49,8 +48,14 @@ export class SystemEmailListener {
     }
   }
 
-  @OnEvent(EmailEvent.PAYMENT_RECEIVED)
-  async handlePaymentReceived(payload: { order: any; payment: any }) {
+  // Relayed from the outbox; errors propagate so the relay retries
+  @OnEvent(
+    outboxChannel(EmailEvent.PAYMENT_RECEIVED, 'payment-received-email'),
+    { suppressErrors: false },
+  )
+  async handlePaymentReceived(
+    payload: DomainEventPayload<EmailEvent.PAYMENT_RECEIVED>,
+  ) {
     try {
       // Payment confirmation is typically handled as part of order confirmation
       this.logger.log(
@@ -61,15 +66,14 @@ export class SystemEmailListener {
         `Failed to handle payment received email event: ${error.message}`,
         error.stack,
       );
+      throw error;
     }
   }
 
   @OnEvent(EmailEvent.PAYMENT_FAILED)
-  async handlePaymentFailed(payload: {
-    order: any;
-    payment: any;
-    reason: string;
-  }) {
+  async handlePaymentFailed(
+    payload: DomainEventPayload<EmailEvent.PAYMENT_FAILED>,
+  ) {
     try {
       // TODO: Implement payment failed notification if needed
       this.logger.log(
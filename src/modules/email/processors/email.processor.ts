@@ -31,6 +31,7 @@ export class EmailProcessor {
         replyTo: data.replyTo,
         templateAlias: data.templateAlias,
         variables: data.variables,
+        attachments: data.attachments,
         options: data.metadata
           ? { headers: { 'X-Metadata': JSON.stringify(data.metadata) } }
           : undefined,
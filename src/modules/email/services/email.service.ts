@@ -65,6 +65,7 @@ export class EmailService {
           id: request.templateAlias,
           variables: this.filterUndefinedValues(request.variables),
         },
+        attachments: request.attachments,
         headers: request.options?.headers,
         tags: request.options?.tags,
       });
@@ -3,6 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import { EmailService } from './email.service';
 import {
   BatchEmailRequest,
+  EmailAttachment,
   QueueEmailRequest,
 } from '../interfaces/email.interface';
 import {
@@ -11,22 +12,21 @@ import {
   OrderEmailVariables,
   AuthEmailVariables,
   AssignmentEmailVariables,
+  AssignmentEscalationEmailVariables,
 } from '../types/email.types';
 import { EmailConfig } from '../../../config/email.config';
 
-// Define types for your entities (these should come from your actual entities)
+// Shapes match the domain event payloads in events/types/domain-events.types
 interface Order {
   id: string;
   orderNumber: string;
   totalAmount: number;
-  createdAt: Date;
+  createdAt: Date | string;
   items: Array<{ id: string }>;
   wholesaler: {
-    user: {
-      firstName: string;
-      lastName: string;
-      email: string;
-    };
+    firstName: string;
+    lastName: string;
+    email: string;
   };
 }
 
@@ -37,6 +37,15 @@ interface User {
   email: string;
 }
 
+interface AssignmentEscalation {
+  orderNumber: string;
+  totalAmount: number;
+  wholesalerName: string;
+  attempts: number;
+  lastOfficerName: string;
+  reason: string;
+}
+
 interface MaintenanceInfo {
   scheduledDate: string;
   estimatedDuration: string;
@@ -57,22 +66,27 @@ export class NotificationService {
 
   /**
    * Send order confirmation notification
+   * @param attachments - Files for the customer's copy, e.g. the tax receipt
    */
-  async notifyOrderConfirmation(order: Order): Promise<void> {
+  async notifyOrderConfirmation(
+    order: Order,
+    attachments?: EmailAttachment[],
+  ): Promise<void> {
     const notifications: BatchEmailRequest[] = [
       // Customer notification
       {
         templateAlias: EMAIL_TEMPLATES.ORDER_CONFIRMATION,
-        to: [order.wholesaler.user.email],
+        to: [order.wholesaler.email],
         variables: {
-          CUSTOMER_NAME: order.wholesaler.user.firstName,
+          CUSTOMER_NAME: order.wholesaler.firstName,
           ORDER_NUMBER: order.orderNumber,
           ORDER_TOTAL: order.totalAmount.toLocaleString(),
-          ORDER_DATE: order.createdAt.toLocaleDateString(),
+          ORDER_DATE: new Date(order.createdAt).toLocaleDateString(),
           ITEMS_COUNT: order.items.length,
           VIEW_ORDER_URL: `${this.emailConfig.baseUrl}/orders/${order.orderNumber}`,
         } as OrderEmailVariables,
         priority: EmailPriority.HIGH,
+        attachments,
       },
       // Admin notification
       {
@@ -80,7 +94,7 @@ export class NotificationService {
         to: ['admin@jooav.com', 'orders@jooav.com'],
         variables: {
           ORDER_NUMBER: order.orderNumber,
-          CUSTOMER_NAME: `${order.wholesaler.user.firstName} ${order.wholesaler.user.lastName}`,
+          CUSTOMER_NAME: `${order.wholesaler.firstName} ${order.wholesaler.lastName}`,
           ORDER_TOTAL: order.totalAmount.toLocaleString(),
           ADMIN_ORDER_URL: `${this.emailConfig.baseUrl}/admin/orders/${order.orderNumber}`,
         },
@@ -88,7 +102,17 @@ export class NotificationService {
       },
     ];
 
-    await this.emailService.queueBatchEmails(notifications, EmailPriority.HIGH);
+    if (attachments?.length) {
+      // Batch sends cannot carry attachments
+      for (const notification of notifications) {
+        await this.emailService.queueEmail(notification);
+      }
+    } else {
+      await this.emailService.queueBatchEmails(
+        notifications,
+        EmailPriority.HIGH,
+      );
+    }
     this.logger.log(
       `Order confirmation notifications queued for order: ${order.orderNumber}`,
     );
@@ -107,7 +131,7 @@ export class NotificationService {
       variables: {
         OFFICER_NAME: procurementOfficer.firstName,
         ORDER_NUMBER: order.orderNumber,
-        WHOLESALER_NAME: `${order.wholesaler.user.firstName} ${order.wholesaler.user.lastName}`,
+        WHOLESALER_NAME: `${order.wholesaler.firstName} ${order.wholesaler.lastName}`,
         ORDER_TOTAL: order.totalAmount.toLocaleString(),
         ITEMS_COUNT: order.items.length,
         ASSIGNMENT_URL: `${this.emailConfig.baseUrl}/orders/${order.orderNumber}/process`,
@@ -121,17 +145,56 @@ export class NotificationService {
     );
   }
 
+  /**
+   * Alert admins that an order could not be placed with a procurement officer
+   */
+  async notifyAssignmentEscalation(
+    admins: User[],
+    escalation: AssignmentEscalation,
+  ): Promise<void> {
+    if (admins.length === 0) {
+      this.logger.warn(
+        `No admins to notify about assignment escalation for order: ${escalation.orderNumber}`,
+      );
+      return;
+    }
+
+    const emailRequest: QueueEmailRequest = {
+      templateAlias: EMAIL_TEMPLATES.ADMIN_ASSIGNMENT_ALERT,
+      to: admins.map((admin) => admin.email),
+      variables: {
+        ORDER_NUMBER: escalation.orderNumber,
+        WHOLESALER_NAME: escalation.wholesalerName,
+        ORDER_TOTAL: escalation.totalAmount.toLocaleString(),
+        ATTEMPTS: escalation.attempts,
+        LAST_OFFICER_NAME: escalation.lastOfficerName,
+        ESCALATION_REASON: escalation.reason,
+        ADMIN_ORDER_URL: `${this.emailConfig.baseUrl}/admin/orders/${escalation.orderNumber}`,
+      } as AssignmentEscalationEmailVariables,
+      priority: EmailPriority.HIGH,
+    };
+
+    await this.emailService.queueEmail(emailRequest);
+    this.logger.log(
+      `Assignment escalation queued for order: ${escalation.orderNumber} to ${admins.length} admin(s)`,
+    );
+  }
+
   /**
    * Send password reset notification
    */
-  async notifyPasswordReset(user: User, resetToken: string): Promise<void> {
+  async notifyPasswordReset(
+    user: User,
+    resetToken: string,
+    expiresInHours = 24,
+  ): Promise<void> {
     const emailRequest: QueueEmailRequest = {
       templateAlias: EMAIL_TEMPLATES.PASSWORD_RESET,
       to: [user.email],
       variables: {
         USER_NAME: user.firstName,
-        RESET_LINK: `${this.emailConfig.baseUrl}/reset?token=${resetToken}`,
-        EXPIRY_TIME: '24 hours',
+        RESET_LINK: `${this.emailConfig.baseUrl}/reset-password?token=${resetToken}`,
+        EXPIRY_TIME: `${expiresInHours} hour${expiresInHours === 1 ? '' : 's'}`,
       } as AuthEmailVariables,
       priority: EmailPriority.HIGH,
     };
@@ -160,6 +223,55 @@ export class NotificationService {
     this.logger.log(`Welcome notification queued for user: ${user.email}`);
   }
 
+  /**
+   * Tell an applicant their business account has been approved
+   */
+  async notifyWholesalerApproved(
+    user: User,
+    businessName: string,
+  ): Promise<void> {
+    const emailRequest: QueueEmailRequest = {
+      templateAlias: EMAIL_TEMPLATES.WHOLESALER_APPROVED,
+      to: [user.email],
+      variables: {
+        USER_NAME: user.firstName,
+        BUSINESS_NAME: businessName,
+        LOGIN_URL: `${this.emailConfig.baseUrl}/login`,
+      },
+      priority: EmailPriority.HIGH,
+    };
+
+    await this.emailService.queueEmail(emailRequest);
+    this.logger.log(
+      `Wholesaler approval notification queued for user: ${user.email}`,
+    );
+  }
+
+  /**
+   * Tell an applicant why their business account was not approved
+   */
+  async notifyWholesalerRejected(
+    user: User,
+    businessName: string,
+    reason: string,
+  ): Promise<void> {
+    const emailRequest: QueueEmailRequest = {
+      templateAlias: EMAIL_TEMPLATES.WHOLESALER_REJECTED,
+      to: [user.email],
+      variables: {
+        USER_NAME: user.firstName,
+        BUSINESS_NAME: businessName,
+        REJECTION_REASON: reason,
+      },
+      priority: EmailPriority.HIGH,
+    };
+
+    await this.emailService.queueEmail(emailRequest);
+    this.logger.log(
+      `Wholesaler rejection notification queued for user: ${user.email}`,
+    );
+  }
+
   /**
    * Send email verification notification
    */
@@ -190,12 +302,12 @@ export class NotificationService {
   async notifyOrderCompletion(order: Order): Promise<void> {
     const emailRequest: QueueEmailRequest = {
       templateAlias: EMAIL_TEMPLATES.ORDER_COMPLETION,
-      to: [order.wholesaler.user.email],
+      to: [order.wholesaler.email],
       variables: {
-        CUSTOMER_NAME: order.wholesaler.user.firstName,
+        CUSTOMER_NAME: order.wholesaler.firstName,
         ORDER_NUMBER: order.orderNumber,
         ORDER_TOTAL: order.totalAmount.toLocaleString(),
-        ORDER_DATE: order.createdAt.toLocaleDateString(),
+        ORDER_DATE: new Date(order.createdAt).toLocaleDateString(),
         ITEMS_COUNT: order.items.length,
         VIEW_ORDER_URL: `${this.emailConfig.baseUrl}/orders/${order.orderNumber}`,
       } as OrderEmailVariables,
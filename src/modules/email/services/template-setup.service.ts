@@ -42,8 +42,11 @@ export class TemplateSetupService {
       this.createOrderAssignmentTemplate(),
       this.createWelcomeTemplate(),
       this.createEmailVerificationTemplate(),
+      this.createWholesalerApprovedTemplate(),
+      this.createWholesalerRejectedTemplate(),
       this.createOrderCompletionTemplate(),
       this.createAdminNewOrderTemplate(),
+      this.createAdminAssignmentAlertTemplate(),
       this.createSystemMaintenanceTemplate(),
     ];
 
@@ -388,6 +391,116 @@ export class TemplateSetupService {
     };
   }
 
+  /**
+   * Wholesaler approved template
+   */
+  private createWholesalerApprovedTemplate(): TemplateDefinition {
+    return {
+      name: 'Wholesaler Approved Template',
+      alias: EMAIL_TEMPLATES.WHOLESALER_APPROVED,
+      subject: 'Your business account is approved - JOOAV ERP',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <title>Account Approved</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { text-align: center; margin-bottom: 30px; border-bottom: 2px solid #2563eb; padding-bottom: 20px; }
+            .logo { color: #2563eb; font-size: 28px; font-weight: bold; }
+            .content { margin: 20px 0; }
+            .button { display: inline-block; background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; text-align: center; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <div class="logo">JOOAV ERP</div>
+            </div>
+            
+            <div class="content">
+              <h2>You're approved!</h2>
+              <p>Hello {{{USER_NAME}}},</p>
+              <p>We have reviewed the documents for {{{BUSINESS_NAME}}} and your account is now active. You can log in and start placing orders.</p>
+              
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="{{{LOGIN_URL}}}" class="button">Log In</a>
+              </div>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      variables: [
+        { key: 'USER_NAME', type: 'string', fallbackValue: 'User' },
+        {
+          key: 'BUSINESS_NAME',
+          type: 'string',
+          fallbackValue: 'your business',
+        },
+        { key: 'LOGIN_URL', type: 'string', fallbackValue: '#' },
+      ],
+    };
+  }
+
+  /**
+   * Wholesaler rejected template
+   */
+  private createWholesalerRejectedTemplate(): TemplateDefinition {
+    return {
+      name: 'Wholesaler Rejected Template',
+      alias: EMAIL_TEMPLATES.WHOLESALER_REJECTED,
+      subject: 'Update on your business account - JOOAV ERP',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <title>Account Not Approved</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { text-align: center; margin-bottom: 30px; border-bottom: 2px solid #2563eb; padding-bottom: 20px; }
+            .logo { color: #2563eb; font-size: 28px; font-weight: bold; }
+            .content { margin: 20px 0; }
+            .reason { background: #fef2f2; border: 1px solid #fecaca; border-radius: 8px; padding: 20px; margin: 20px 0; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <div class="logo">JOOAV ERP</div>
+            </div>
+            
+            <div class="content">
+              <h2>We couldn't approve your account</h2>
+              <p>Hello {{{USER_NAME}}},</p>
+              <p>We have reviewed the application for {{{BUSINESS_NAME}}} and are unable to approve it at this time.</p>
+              
+              <div class="reason">
+                <p style="margin: 0;"><strong>Reason:</strong> {{{REJECTION_REASON}}}</p>
+              </div>
+              
+              <p>If you believe this is a mistake or can provide the missing information, please reply to this email.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      variables: [
+        { key: 'USER_NAME', type: 'string', fallbackValue: 'User' },
+        {
+          key: 'BUSINESS_NAME',
+          type: 'string',
+          fallbackValue: 'your business',
+        },
+        { key: 'REJECTION_REASON', type: 'string', fallbackValue: '' },
+      ],
+    };
+  }
+
   /**
    * Order completion template
    */
@@ -508,6 +621,69 @@ export class TemplateSetupService {
     };
   }
 
+  /**
+   * Admin assignment escalation template
+   */
+  private createAdminAssignmentAlertTemplate(): TemplateDefinition {
+    return {
+      name: 'Admin Assignment Escalation',
+      alias: EMAIL_TEMPLATES.ADMIN_ASSIGNMENT_ALERT,
+      subject: 'Order #{{{ORDER_NUMBER}}} needs manual assignment',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <title>Assignment Escalation</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { text-align: center; margin-bottom: 30px; border-bottom: 2px solid #dc2626; padding-bottom: 20px; }
+            .logo { color: #dc2626; font-size: 28px; font-weight: bold; }
+            .content { margin: 20px 0; }
+            .order-alert { background: #fef2f2; border: 1px solid #fecaca; border-radius: 8px; padding: 20px; margin: 20px 0; }
+            .button { display: inline-block; background: #dc2626; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; text-align: center; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <div class="logo">JOOAV ERP - Admin Alert</div>
+            </div>
+            
+            <div class="content">
+              <h2>Order #{{{ORDER_NUMBER}}} is unassigned</h2>
+              <p>No procurement officer accepted this order after {{{ATTEMPTS}}} attempt(s). Please assign it manually.</p>
+              
+              <div class="order-alert">
+                <h3 style="margin-top: 0; color: #dc2626;">Escalation Details</h3>
+                <p><strong>Order Number:</strong> {{{ORDER_NUMBER}}}</p>
+                <p><strong>Customer:</strong> {{{WHOLESALER_NAME}}}</p>
+                <p><strong>Total Amount:</strong> ₦{{{ORDER_TOTAL}}}</p>
+                <p><strong>Last Officer:</strong> {{{LAST_OFFICER_NAME}}}</p>
+                <p><strong>Reason:</strong> {{{ESCALATION_REASON}}}</p>
+              </div>
+              
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="{{{ADMIN_ORDER_URL}}}" class="button">Assign in Admin Panel</a>
+              </div>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      variables: [
+        { key: 'ORDER_NUMBER', type: 'string', fallbackValue: 'ORD-001' },
+        { key: 'WHOLESALER_NAME', type: 'string', fallbackValue: 'Customer' },
+        { key: 'ORDER_TOTAL', type: 'string', fallbackValue: '0' },
+        { key: 'ATTEMPTS', type: 'number', fallbackValue: 0 },
+        { key: 'LAST_OFFICER_NAME', type: 'string', fallbackValue: 'N/A' },
+        { key: 'ESCALATION_REASON', type: 'string', fallbackValue: '' },
+        { key: 'ADMIN_ORDER_URL', type: 'string', fallbackValue: '#' },
+      ],
+    };
+  }
+
   /**
    * System maintenance template
    */
@@ -5,6 +5,8 @@ export const EMAIL_TEMPLATES = {
   EMAIL_VERIFICATION: 'email-verification',
   PASSWORD_RESET: 'password-reset',
   LOGIN_ALERT: 'login-alert',
+  WHOLESALER_APPROVED: 'wholesaler-approved',
+  WHOLESALER_REJECTED: 'wholesaler-rejected',
 
   // Order templates
   ORDER_CONFIRMATION: 'order-confirmation',
@@ -31,6 +33,8 @@ export enum EmailEvent {
   EMAIL_VERIFICATION = 'auth.email_verification',
   PASSWORD_RESET = 'auth.password_reset',
   LOGIN_ALERT = 'auth.login_alert',
+  WHOLESALER_APPROVED = 'auth.wholesaler_approved',
+  WHOLESALER_REJECTED = 'auth.wholesaler_rejected',
 
   // Order Events
   ORDER_CONFIRMED = 'order.confirmed',
@@ -85,3 +89,16 @@ export interface AssignmentEmailVariables extends Record<
   ITEMS_COUNT: number;
   ASSIGNMENT_URL: string;
 }
+
+export interface AssignmentEscalationEmailVariables extends Record<
+  string,
+  string | number
+> {
+  ORDER_NUMBER: string;
+  WHOLESALER_NAME: string;
+  ORDER_TOTAL: string;
+  ATTEMPTS: number;
+  LAST_OFFICER_NAME: string;
+  ESCALATION_REASON: string;
+  ADMIN_ORDER_URL: string;
+}
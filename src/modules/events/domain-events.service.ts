@@ -0,0 +1,45 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { User } from '@prisma/client';
+import {
+  DomainEventName,
+  DomainEventPayload,
+  UserEventData,
+} from './types/domain-events.types';
+
+/**
+ * Typed wrapper around the application event emitter.
+ *
+ * Publish only once the data the event describes has been committed;
+ * listeners send emails and must never see state that may still roll back.
+ */
+@Injectable()
+export class DomainEventsService {
+  private readonly logger = new Logger(DomainEventsService.name);
+
+  constructor(private readonly eventEmitter: EventEmitter2) {}
+
+  publish<E extends DomainEventName>(
+    event: E,
+    payload: DomainEventPayload<E>,
+  ): void {
+    try {
+      this.eventEmitter.emit(event, payload);
+    } catch (error) {
+      // A failing listener must not fail the request that committed the change
+      this.logger.error(`Failed to publish ${event}: ${error.message}`);
+    }
+  }
+
+  toUserEventData(
+    user: Pick<User, 'id' | 'email' | 'firstName' | 'lastName' | 'role'>,
+  ): UserEventData {
+    return {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName ?? '',
+      lastName: user.lastName ?? '',
+      role: user.role,
+    };
+  }
+}
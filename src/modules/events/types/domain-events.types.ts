@@ -0,0 +1,105 @@
+import { OrderStatus, UserRole } from '@prisma/client';
+import { EmailEvent } from '../../email/types/email.types';
+
+/*
+ * Payloads are plain JSON (ISO dates, numeric amounts) so they can be
+ * serialised without losing information.
+ */
+
+export interface UserEventData {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: UserRole;
+}
+
+export interface OrderEventData {
+  id: string;
+  orderNumber: string;
+  status: OrderStatus;
+  totalAmount: number;
+  createdAt: string;
+  items: Array<{ id: string }>;
+  wholesaler: UserEventData;
+}
+
+export interface PaymentEventData {
+  transactionReference: string;
+  amount: number;
+  paymentMethod: string | null;
+  paidAt: string;
+}
+
+export interface DomainEventPayloads {
+  [EmailEvent.USER_REGISTERED]: { user: UserEventData };
+  [EmailEvent.EMAIL_VERIFICATION]: {
+    user: UserEventData;
+    verificationToken: string;
+  };
+  [EmailEvent.PASSWORD_RESET]: {
+    user: UserEventData;
+    resetToken: string;
+    expiresInHours: number;
+  };
+  [EmailEvent.LOGIN_ALERT]: {
+    user: UserEventData;
+    loginInfo: Record<string, unknown>;
+  };
+  [EmailEvent.WHOLESALER_APPROVED]: {
+    user: UserEventData;
+    businessName: string;
+  };
+  [EmailEvent.WHOLESALER_REJECTED]: {
+    user: UserEventData;
+    businessName: string;
+    reason: string;
+  };
+  [EmailEvent.ORDER_CONFIRMED]: { order: OrderEventData };
+  [EmailEvent.ORDER_ASSIGNED]: {
+    order: OrderEventData;
+    officer: UserEventData;
+  };
+  [EmailEvent.ORDER_STATUS_CHANGED]: {
+    order: OrderEventData;
+    previousStatus: OrderStatus;
+    newStatus: OrderStatus;
+  };
+  [EmailEvent.ORDER_COMPLETED]: { order: OrderEventData };
+  [EmailEvent.PAYMENT_RECEIVED]: {
+    order: OrderEventData;
+    payment: PaymentEventData;
+  };
+  [EmailEvent.PAYMENT_FAILED]: {
+    order: OrderEventData;
+    payment: PaymentEventData;
+    reason: string;
+  };
+  [EmailEvent.SYSTEM_MAINTENANCE]: {
+    users: UserEventData[];
+    maintenanceDetails: {
+      scheduledDate: string;
+      estimatedDuration: string;
+      reason: string;
+    };
+  };
+  [EmailEvent.BULK_NOTIFICATION]: {
+    users: UserEventData[];
+    templateAlias: string;
+    variables: Record<string, string | number>;
+  };
+}
+
+export type DomainEventName = keyof DomainEventPayloads;
+
+export type DomainEventPayload<E extends DomainEventName> =
+  DomainEventPayloads[E];
+
+// Events whose payload is built around an order snapshot
+export type OrderDomainEventName = {
+  [E in DomainEventName]: DomainEventPayloads[E] extends {
+    order: OrderEventData;
+  }
+    ? E
+    : never;
+}[DomainEventName];
@@ -0,0 +1,5 @@
+export * from './stock-movement.dto';
+export * from './stock-receipt.dto';
+export * from './stock-adjustment.dto';
+export * from './wholesaler-inventory.dto';
+export * from './reorder-suggestion.dto';
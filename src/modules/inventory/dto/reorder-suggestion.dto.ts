@@ -0,0 +1,138 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ReorderSuggestionQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Include items predicted to run out within this many days, in addition to LOW_STOCK and OUT_OF_STOCK items',
+    default: 14,
+    minimum: 1,
+    maximum: 90,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  horizonDays?: number = 14;
+
+  @ApiPropertyOptional({
+    description: 'Days of consumption the suggested quantity should cover',
+    default: 30,
+    minimum: 1,
+    maximum: 180,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(180)
+  coverDays?: number = 30;
+}
+
+export class ConvertReorderSuggestionsDto extends ReorderSuggestionQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Only include these SKUs from the suggestions. All suggestions are used when omitted',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  productSkus?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Delivery address for the draft order',
+    example: {
+      address: '45 Broad Street, Lagos Island',
+      city: 'Lagos',
+      state: 'Lagos State',
+      contactName: 'Wholesale Business Owner',
+      contactPhone: '+234801234567',
+    },
+  })
+  @IsOptional()
+  deliveryAddress?: any;
+
+  @ApiPropertyOptional({ description: 'Notes for the draft order' })
+  @IsOptional()
+  @IsString()
+  customerNotes?: string;
+}
+
+export class ReorderSuggestionItemDto {
+  @ApiProperty({ description: 'Inventory item ID' })
+  inventoryId: string;
+
+  @ApiProperty({ description: 'Product ID to order' })
+  productId: string;
+
+  @ApiProperty({ description: 'Product name' })
+  productName: string;
+
+  @ApiProperty({ description: 'Product SKU' })
+  productSku: string;
+
+  @ApiProperty({ description: 'Units currently in stock' })
+  currentStock: number;
+
+  @ApiProperty({ description: 'Low stock threshold' })
+  minStock: number;
+
+  @ApiPropertyOptional({ description: 'Average units consumed per day' })
+  consumptionRate: number | null;
+
+  @ApiPropertyOptional({ description: 'Predicted run-out date' })
+  predictedRunOut: Date | null;
+
+  @ApiProperty({ description: 'Suggested order quantity' })
+  suggestedQuantity: number;
+
+  @ApiProperty({ description: 'Current unit price' })
+  unitPrice: number;
+
+  @ApiProperty({ description: 'suggestedQuantity x unitPrice' })
+  lineTotal: number;
+
+  @ApiProperty({
+    description: 'Why the item is suggested',
+    example: 'LOW_STOCK',
+  })
+  reason: string;
+}
+
+export class SkippedReorderItemDto {
+  @ApiProperty({ description: 'Product SKU' })
+  productSku: string;
+
+  @ApiProperty({ description: 'Product name' })
+  productName: string;
+
+  @ApiProperty({ description: 'Why the item cannot be reordered' })
+  reason: string;
+}
+
+export class ReorderSuggestionsResponseDto {
+  @ApiProperty({ type: [ReorderSuggestionItemDto] })
+  items: ReorderSuggestionItemDto[];
+
+  @ApiProperty({ type: [SkippedReorderItemDto] })
+  skipped: SkippedReorderItemDto[];
+
+  @ApiProperty({ description: 'Estimated order total' })
+  estimatedTotal: number;
+
+  @ApiProperty({
+    description: 'Ready-to-submit payload for POST /orders',
+    example: { items: [{ productId: 'cuid_product_id', quantity: 40 }] },
+  })
+  draftOrder: { items: { productId: string; quantity: number }[] };
+}
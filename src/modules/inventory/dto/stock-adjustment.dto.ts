@@ -0,0 +1,79 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { StockMovementResponseDto } from './stock-movement.dto';
+
+export enum StockAdjustmentType {
+  DAMAGE = 'DAMAGE',
+  SHRINKAGE = 'SHRINKAGE',
+  COUNT_CORRECTION = 'COUNT_CORRECTION',
+}
+
+export class CreateStockAdjustmentDto {
+  @ApiProperty({
+    description: 'Product being adjusted',
+    example: 'cuid_example_product_id',
+  })
+  @IsString()
+  @IsNotEmpty()
+  productId: string;
+
+  @ApiProperty({
+    description: 'Kind of adjustment',
+    enum: StockAdjustmentType,
+    example: StockAdjustmentType.DAMAGE,
+  })
+  @IsEnum(StockAdjustmentType)
+  type: StockAdjustmentType;
+
+  @ApiProperty({
+    description:
+      'For DAMAGE and SHRINKAGE, the units written off. For COUNT_CORRECTION, the physically counted quantity on hand.',
+    example: 5,
+    minimum: 0,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Why the adjustment is being made',
+    example: 'Water damage in bay 3',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiPropertyOptional({
+    description: 'Supporting document reference, e.g. stock count sheet',
+    example: 'COUNT-2026-03',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  reference?: string;
+}
+
+export class StockAdjustmentResponseDto {
+  @ApiProperty({ description: 'Product ID' })
+  productId: string;
+
+  @ApiProperty({ description: 'Quantity before the adjustment' })
+  previousQuantity: number;
+
+  @ApiProperty({ description: 'Quantity after the adjustment' })
+  newQuantity: number;
+
+  @ApiProperty({ type: StockMovementResponseDto })
+  movement: StockMovementResponseDto;
+}
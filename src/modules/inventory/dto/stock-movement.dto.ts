@@ -0,0 +1,149 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { StockMovementType } from '@prisma/client';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+
+export class StockMovementQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Filter by movement type',
+    enum: StockMovementType,
+    example: StockMovementType.OUT,
+  })
+  @IsOptional()
+  @IsEnum(StockMovementType)
+  type?: StockMovementType;
+
+  @ApiPropertyOptional({
+    description: 'Filter by reference (e.g. order number)',
+    example: 'JOO-20260305-0001',
+  })
+  @IsOptional()
+  @IsString()
+  reference?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only movements created on or after this date',
+    example: '2026-01-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only movements created on or before this date',
+    example: '2026-12-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class StockMovementResponseDto {
+  @ApiProperty({ description: 'Movement ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Product ID' })
+  productId: string;
+
+  @ApiProperty({ description: 'Movement type', enum: StockMovementType })
+  type: StockMovementType;
+
+  @ApiProperty({
+    description:
+      'Quantity moved. Positive for IN/OUT, signed delta for ADJUSTMENT',
+    example: 20,
+  })
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Reason code for the movement',
+    example: 'ORDER_RESERVATION',
+  })
+  reason: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Reference of the document that caused the movement',
+    example: 'JOO-20260305-0001',
+  })
+  reference: string | null;
+
+  @ApiPropertyOptional({ description: 'Free-text notes for the movement' })
+  notes: string | null;
+
+  @ApiPropertyOptional({ description: 'User who recorded the movement' })
+  createdBy: string | null;
+
+  @ApiProperty({ description: 'When the movement was recorded' })
+  createdAt: Date;
+}
+
+export class ReconcileStockDto {
+  @ApiPropertyOptional({
+    description: 'Products to reconcile. Reconciles all products when omitted',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  productIds?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Overwrite product quantity with the ledger balance where drift is found',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value.toLowerCase() === 'true';
+    }
+    return Boolean(value);
+  })
+  apply?: boolean = false;
+}
+
+export class StockDriftDto {
+  @ApiProperty({ description: 'Product ID' })
+  productId: string;
+
+  @ApiProperty({ description: 'Product name' })
+  name: string;
+
+  @ApiProperty({ description: 'Product SKU' })
+  sku: string;
+
+  @ApiProperty({ description: 'Quantity currently stored on the product' })
+  recordedQuantity: number;
+
+  @ApiProperty({ description: 'Quantity recomputed from the stock ledger' })
+  ledgerQuantity: number;
+
+  @ApiProperty({ description: 'recordedQuantity - ledgerQuantity' })
+  drift: number;
+
+  @ApiProperty({ description: 'Whether the product quantity was corrected' })
+  corrected: boolean;
+}
+
+export class StockReconciliationResultDto {
+  @ApiProperty({ description: 'Number of products checked' })
+  productsChecked: number;
+
+  @ApiProperty({ description: 'Number of products with drift' })
+  driftCount: number;
+
+  @ApiProperty({ description: 'Whether corrections were applied' })
+  applied: boolean;
+
+  @ApiProperty({ type: [StockDriftDto] })
+  drifts: StockDriftDto[];
+}
@@ -0,0 +1,79 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { StockMovementResponseDto } from './stock-movement.dto';
+
+export class StockReceiptItemDto {
+  @ApiProperty({
+    description: 'Product being received',
+    example: 'cuid_example_product_id',
+  })
+  @IsString()
+  @IsNotEmpty()
+  productId: string;
+
+  @ApiProperty({ description: 'Units received', example: 120, minimum: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateStockReceiptDto {
+  @ApiProperty({
+    description: 'Manufacturer the goods were received from',
+    example: 'cuid_example_manufacturer_id',
+  })
+  @IsString()
+  @IsNotEmpty()
+  manufacturerId: string;
+
+  @ApiProperty({
+    description: 'Delivery note, waybill or supplier invoice number',
+    example: 'GRN-2026-0042',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  reference: string;
+
+  @ApiPropertyOptional({
+    description: 'Notes about the delivery',
+    example: 'Two cartons arrived with torn wrapping',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+
+  @ApiProperty({ type: [StockReceiptItemDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => StockReceiptItemDto)
+  items: StockReceiptItemDto[];
+}
+
+export class StockReceiptResponseDto {
+  @ApiProperty({ description: 'Receipt reference' })
+  reference: string;
+
+  @ApiProperty({ description: 'Manufacturer ID' })
+  manufacturerId: string;
+
+  @ApiProperty({ description: 'Total units received across all lines' })
+  totalQuantity: number;
+
+  @ApiProperty({ type: [StockMovementResponseDto] })
+  movements: StockMovementResponseDto[];
+}
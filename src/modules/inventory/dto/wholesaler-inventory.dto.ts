@@ -0,0 +1,150 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { InventoryMovementType, InventoryStatus } from '@prisma/client';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+
+// Movements a wholesaler can record against their own stock
+export const WHOLESALER_OUTGOING_MOVEMENT_TYPES = [
+  InventoryMovementType.OUTBOUND,
+  InventoryMovementType.DAMAGED,
+  InventoryMovementType.EXPIRED,
+] as const;
+
+export type WholesalerOutgoingMovementType =
+  (typeof WHOLESALER_OUTGOING_MOVEMENT_TYPES)[number];
+
+export class WholesalerInventoryQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Filter by stock status',
+    enum: InventoryStatus,
+    example: InventoryStatus.LOW_STOCK,
+  })
+  @IsOptional()
+  @IsEnum(InventoryStatus)
+  status?: InventoryStatus;
+}
+
+export class RecordInventoryMovementDto {
+  @ApiProperty({
+    description: 'SKU of the product in your inventory',
+    example: 'COCA-COLA-ORIGINAL-50CL-PET',
+  })
+  @IsString()
+  @IsNotEmpty()
+  productSku: string;
+
+  @ApiProperty({
+    description: 'OUTBOUND for sales/usage, DAMAGED or EXPIRED for write-offs',
+    enum: WHOLESALER_OUTGOING_MOVEMENT_TYPES,
+    example: InventoryMovementType.OUTBOUND,
+  })
+  @IsIn(WHOLESALER_OUTGOING_MOVEMENT_TYPES)
+  type: WholesalerOutgoingMovementType;
+
+  @ApiProperty({ description: 'Units leaving stock', example: 12, minimum: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Reason or note for the movement',
+    example: 'Sale',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reason?: string;
+}
+
+export class UpdateInventoryLevelsDto {
+  @ApiPropertyOptional({
+    description: 'Stock level at or below which the item is LOW_STOCK',
+    example: 20,
+    minimum: 0,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minStock?: number;
+
+  @ApiPropertyOptional({
+    description: 'Maximum stock level you want to hold',
+    example: 200,
+    minimum: 0,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  maxStock?: number;
+}
+
+export class InventoryItemResponseDto {
+  @ApiProperty({ description: 'Inventory item ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Product name' })
+  productName: string;
+
+  @ApiProperty({ description: 'Product SKU' })
+  productSku: string;
+
+  @ApiProperty({ description: 'Units currently in stock' })
+  currentStock: number;
+
+  @ApiProperty({ description: 'Low stock threshold' })
+  minStock: number;
+
+  @ApiPropertyOptional({ description: 'Maximum stock level' })
+  maxStock: number | null;
+
+  @ApiProperty({ description: 'Stock status', enum: InventoryStatus })
+  status: InventoryStatus;
+
+  @ApiPropertyOptional({ description: 'Last time stock was delivered' })
+  lastDeliveryDate: Date | null;
+
+  @ApiPropertyOptional({ description: 'Predicted run-out date' })
+  predictedRunOut: Date | null;
+
+  @ApiPropertyOptional({ description: 'Average units consumed per day' })
+  consumptionRate: number | null;
+
+  @ApiProperty({ description: 'Last update time' })
+  updatedAt: Date;
+}
+
+export class InventoryMovementResponseDto {
+  @ApiProperty({ description: 'Movement ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Inventory item ID' })
+  inventoryId: string;
+
+  @ApiProperty({ description: 'Movement type', enum: InventoryMovementType })
+  type: InventoryMovementType;
+
+  @ApiProperty({ description: 'Units moved' })
+  quantity: number;
+
+  @ApiPropertyOptional({ description: 'Reason for the movement' })
+  reason: string | null;
+
+  @ApiPropertyOptional({ description: 'Order that delivered the stock' })
+  orderId: string | null;
+
+  @ApiProperty({ description: 'When the movement was recorded' })
+  createdAt: Date;
+}
@@ -0,0 +1,8 @@
+export * from './inventory.service';
+export * from './inventory-forecast.service';
+export * from './stock-ledger.service';
+export * from './wholesaler-inventory.service';
+export * from './inventory.controller';
+export * from './inventory.module';
+export * from './types/inventory.types';
+export * from './dto';
@@ -0,0 +1,291 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import {
+  Inventory,
+  InventoryMovementType,
+  InventoryStatus,
+  Prisma,
+  ProductStatus,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SystemConfigService } from '../system-config/system-config.service';
+import {
+  ReorderSuggestionItemDto,
+  ReorderSuggestionQueryDto,
+  ReorderSuggestionsResponseDto,
+  SkippedReorderItemDto,
+} from './dto';
+import {
+  CONSUMPTION_FORECAST,
+  INVENTORY_JOBS,
+  INVENTORY_QUEUE,
+} from './types/inventory.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Forecasts wholesaler consumption and proposes reorders.
+ *
+ * A nightly job turns OUTBOUND movement history into an exponentially
+ * weighted daily consumption rate per SKU, which drives predictedRunOut
+ * and the reorder suggestions.
+ */
+@Injectable()
+export class InventoryForecastService implements OnModuleInit {
+  private readonly logger = new Logger(InventoryForecastService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @InjectQueue(INVENTORY_QUEUE) private readonly inventoryQueue: Queue,
+    private readonly systemConfigService: SystemConfigService,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      // Fixed jobId keeps a single repeatable job across restarts
+      await this.inventoryQueue.add(
+        INVENTORY_JOBS.COMPUTE_CONSUMPTION_RATES,
+        {},
+        {
+          jobId: INVENTORY_JOBS.COMPUTE_CONSUMPTION_RATES,
+          repeat: { cron: CONSUMPTION_FORECAST.CRON },
+          removeOnComplete: 5,
+          removeOnFail: 5,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule consumption forecast job: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Recompute consumptionRate and predictedRunOut for every inventory item
+   */
+  async recomputeConsumptionRates(): Promise<{
+    processed: number;
+    updated: number;
+  }> {
+    const today = Math.floor(Date.now() / DAY_MS);
+    const historyStartDay = today - CONSUMPTION_FORECAST.HISTORY_DAYS;
+    const since = new Date(historyStartDay * DAY_MS);
+    const until = new Date(today * DAY_MS);
+
+    let processed = 0;
+    let updated = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const batch: Pick<
+        Inventory,
+        'id' | 'currentStock' | 'createdAt' | 'consumptionRate'
+      >[] = await this.prisma.inventory.findMany({
+        take: CONSUMPTION_FORECAST.BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        orderBy: { id: 'asc' },
+        select: {
+          id: true,
+          currentStock: true,
+          createdAt: true,
+          consumptionRate: true,
+        },
+      });
+
+      if (batch.length === 0) break;
+      cursor = batch[batch.length - 1].id;
+
+      // Only whole days are used; today's partial sales would drag the rate down
+      const movements = await this.prisma.inventoryMovement.findMany({
+        where: {
+          inventoryId: { in: batch.map((item) => item.id) },
+          type: InventoryMovementType.OUTBOUND,
+          createdAt: { gte: since, lt: until },
+        },
+        select: { inventoryId: true, quantity: true, createdAt: true },
+      });
+
+      const dailyTotals = new Map<string, Map<number, number>>();
+      for (const movement of movements) {
+        const day = Math.floor(movement.createdAt.getTime() / DAY_MS);
+        const totals =
+          dailyTotals.get(movement.inventoryId) ?? new Map<number, number>();
+        totals.set(day, (totals.get(day) ?? 0) + movement.quantity);
+        dailyTotals.set(movement.inventoryId, totals);
+      }
+
+      for (const item of batch) {
+        const firstDay = Math.max(
+          historyStartDay,
+          Math.floor(item.createdAt.getTime() / DAY_MS),
+        );
+        const rate = this.ewmaDailyRate(
+          dailyTotals.get(item.id) ?? new Map<number, number>(),
+          firstDay,
+          today - 1,
+        );
+
+        const consumptionRate =
+          rate === null ? null : Math.round(rate * 100) / 100;
+        const predictedRunOut =
+          consumptionRate && consumptionRate > 0
+            ? new Date(
+                Date.now() + (item.currentStock / consumptionRate) * DAY_MS,
+              )
+            : null;
+
+        await this.prisma.inventory.update({
+          where: { id: item.id },
+          data: {
+            consumptionRate:
+              consumptionRate === null
+                ? null
+                : new Prisma.Decimal(consumptionRate),
+            predictedRunOut,
+          },
+        });
+
+        processed++;
+        if (Number(item.consumptionRate ?? -1) !== (consumptionRate ?? -1)) {
+          updated++;
+        }
+      }
+    }
+
+    this.logger.log(
+      `Consumption rates recomputed for ${processed} inventory item(s); ${updated} changed`,
+    );
+
+    return { processed, updated };
+  }
+
+  /**
+   * Propose a draft order for items that are low, out of stock or about to run out
+   */
+  async getReorderSuggestions(
+    userId: string,
+    query: ReorderSuggestionQueryDto,
+  ): Promise<ReorderSuggestionsResponseDto> {
+    const { horizonDays = 14, coverDays = 30 } = query;
+    const horizon = new Date(Date.now() + horizonDays * DAY_MS);
+
+    const candidates = await this.prisma.inventory.findMany({
+      where: {
+        wholesaler: { userId },
+        status: { not: InventoryStatus.DISCONTINUED },
+        OR: [
+          {
+            status: {
+              in: [InventoryStatus.LOW_STOCK, InventoryStatus.OUT_OF_STOCK],
+            },
+          },
+          { predictedRunOut: { lte: horizon } },
+        ],
+      },
+      orderBy: [{ predictedRunOut: 'asc' }, { productName: 'asc' }],
+    });
+
+    const minQuantity = await this.systemConfigService.get(
+      'MIN_ORDER_ITEM_QUANTITY',
+    );
+    const products = await this.prisma.product.findMany({
+      where: {
+        sku: { in: candidates.map((item) => item.productSku) },
+        deletedAt: null,
+        status: ProductStatus.LIVE,
+      },
+      select: { id: true, sku: true, quantity: true, price: true },
+    });
+
+    const items: ReorderSuggestionItemDto[] = [];
+    const skipped: SkippedReorderItemDto[] = [];
+
+    for (const item of candidates) {
+      const product = products.find((p) => p.sku === item.productSku);
+      if (!product) {
+        skipped.push({
+          productSku: item.productSku,
+          productName: item.productName,
+          reason: 'Product is no longer available to order',
+        });
+        continue;
+      }
+
+      if (product.quantity < minQuantity) {
+        skipped.push({
+          productSku: item.productSku,
+          productName: item.productName,
+          reason: `Only ${product.quantity} units available; minimum order is ${minQuantity}`,
+        });
+        continue;
+      }
+
+      const rate =
+        item.consumptionRate !== null ? Number(item.consumptionRate) : null;
+      const targetStock = Math.max(
+        item.maxStock ?? 0,
+        rate ? Math.ceil(rate * coverDays) + item.minStock : item.minStock * 2,
+      );
+      const suggestedQuantity = Math.min(
+        Math.max(targetStock - item.currentStock, minQuantity),
+        product.quantity,
+      );
+      const unitPrice = Number(product.price ?? 0);
+
+      items.push({
+        inventoryId: item.id,
+        productId: product.id,
+        productName: item.productName,
+        productSku: item.productSku,
+        currentStock: item.currentStock,
+        minStock: item.minStock,
+        consumptionRate: rate,
+        predictedRunOut: item.predictedRunOut,
+        suggestedQuantity,
+        unitPrice,
+        lineTotal: suggestedQuantity * unitPrice,
+        reason:
+          item.status === InventoryStatus.IN_STOCK
+            ? `RUNS_OUT_WITHIN_${horizonDays}_DAYS`
+            : item.status,
+      });
+    }
+
+    return {
+      items,
+      skipped,
+      estimatedTotal: items.reduce((sum, item) => sum + item.lineTotal, 0),
+      draftOrder: {
+        items: items.map((item) => ({
+          productId: item.productId,
+          quantity: item.suggestedQuantity,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Exponentially weighted average of daily consumption between two day indexes (inclusive),
+   * bias-corrected so short histories are not pulled towards zero
+   */
+  private ewmaDailyRate(
+    dailyTotals: Map<number, number>,
+    firstDay: number,
+    lastDay: number,
+  ): number | null {
+    if (lastDay < firstDay) {
+      return null;
+    }
+
+    const alpha = CONSUMPTION_FORECAST.SMOOTHING_FACTOR;
+    let rate = 0;
+    let days = 0;
+    for (let day = firstDay; day <= lastDay; day++) {
+      rate = alpha * (dailyTotals.get(day) ?? 0) + (1 - alpha) * rate;
+      days++;
+    }
+
+    return rate / (1 - Math.pow(1 - alpha, days));
+  }
+}
@@ -0,0 +1,310 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { StockLedgerService } from './stock-ledger.service';
+import { InventoryService } from './inventory.service';
+import { WholesalerInventoryService } from './wholesaler-inventory.service';
+import { InventoryForecastService } from './inventory-forecast.service';
+import {
+  CreateStockAdjustmentDto,
+  CreateStockReceiptDto,
+  InventoryItemResponseDto,
+  InventoryMovementResponseDto,
+  ReconcileStockDto,
+  RecordInventoryMovementDto,
+  ReorderSuggestionQueryDto,
+  ReorderSuggestionsResponseDto,
+  StockAdjustmentResponseDto,
+  StockReceiptResponseDto,
+  StockReconciliationResultDto,
+  UpdateInventoryLevelsDto,
+  WholesalerInventoryQueryDto,
+} from './dto';
+import { SuccessResponse } from '../../common/dto/api-response.dto';
+import { PaginatedResponse } from '../../common/dto/paginated-response.dto';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { ResponseMessages } from '../../common/utils/response-messages.util';
+import { CurrentUserId } from '../../common/decorators/current-user.decorator';
+import { UnifiedAuthGuard } from '../../common/guards/unified-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { AuditLog } from '../../common/decorators/audit-log.decorator';
+import { UserRole } from '../../common/enums';
+
+@ApiTags('Inventory')
+@Controller('inventory')
+@UseGuards(UnifiedAuthGuard, RolesGuard)
+@ApiBearerAuth('access-token')
+@ApiBearerAuth('admin-access-token')
+export class InventoryController {
+  constructor(
+    private readonly inventoryService: InventoryService,
+    private readonly stockLedgerService: StockLedgerService,
+    private readonly wholesalerInventoryService: WholesalerInventoryService,
+    private readonly inventoryForecastService: InventoryForecastService,
+  ) {}
+
+  @Get('reorder-suggestions')
+  @Roles(UserRole.WHOLESALER)
+  @ApiOperation({
+    summary: 'Get reorder suggestions',
+    description:
+      'Proposes a draft order for items that are low, out of stock or predicted to run out soon, sized from your consumption rate. Submit it with POST /orders/reorder.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reorder suggestions generated successfully',
+    type: ReorderSuggestionsResponseDto,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Wholesaler access required' })
+  async getReorderSuggestions(
+    @CurrentUserId() userId: string,
+    @Query() query: ReorderSuggestionQueryDto,
+  ): Promise<SuccessResponse<ReorderSuggestionsResponseDto>> {
+    const result = await this.inventoryForecastService.getReorderSuggestions(
+      userId,
+      query,
+    );
+    return new SuccessResponse(
+      result.items.length > 0
+        ? `${result.items.length} product(s) suggested for reorder`
+        : 'Nothing needs reordering right now',
+      result,
+    );
+  }
+
+  @Get('stock')
+  @Roles(UserRole.WHOLESALER)
+  @ApiOperation({
+    summary: 'List my stock',
+    description:
+      'List the products you hold, with LOW_STOCK/OUT_OF_STOCK status computed against your minimum stock level.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Stock retrieved successfully',
+    type: PaginatedResponse,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Wholesaler access required' })
+  async listStock(
+    @CurrentUserId() userId: string,
+    @Query() query: WholesalerInventoryQueryDto,
+  ): Promise<SuccessResponse<PaginatedResponse<InventoryItemResponseDto>>> {
+    const result = await this.wholesalerInventoryService.listStock(
+      userId,
+      query,
+    );
+    return new SuccessResponse(
+      ResponseMessages.foundItems(
+        result.data.length,
+        'inventory item',
+        result.meta.totalItems,
+      ),
+      result,
+    );
+  }
+
+  @Post('stock/movements')
+  @Roles(UserRole.WHOLESALER)
+  @ApiOperation({
+    summary: 'Record a stock movement',
+    description:
+      'Record sales (OUTBOUND), damaged or expired goods against your stock.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Movement recorded successfully',
+    type: InventoryItemResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Insufficient stock' })
+  @ApiNotFoundResponse({ description: 'No inventory for this SKU' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Wholesaler access required' })
+  async recordStockMovement(
+    @CurrentUserId() userId: string,
+    @Body() dto: RecordInventoryMovementDto,
+  ): Promise<SuccessResponse<InventoryItemResponseDto>> {
+    const item = await this.wholesalerInventoryService.recordMovement(
+      userId,
+      dto,
+    );
+    return new SuccessResponse(
+      `${dto.type} movement of ${dto.quantity} units recorded for ${item.productName}`,
+      item,
+    );
+  }
+
+  @Patch('stock/:inventoryId')
+  @Roles(UserRole.WHOLESALER)
+  @ApiOperation({
+    summary: 'Update stock thresholds',
+    description: 'Set the minimum and maximum stock levels for an item.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Thresholds updated successfully',
+    type: InventoryItemResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Inventory item not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Wholesaler access required' })
+  async updateStockLevels(
+    @CurrentUserId() userId: string,
+    @Param('inventoryId') inventoryId: string,
+    @Body() dto: UpdateInventoryLevelsDto,
+  ): Promise<SuccessResponse<InventoryItemResponseDto>> {
+    const item = await this.wholesalerInventoryService.updateLevels(
+      userId,
+      inventoryId,
+      dto,
+    );
+    return new SuccessResponse(
+      ResponseMessages.updated('Inventory item', item.productName),
+      item,
+    );
+  }
+
+  @Get('stock/:inventoryId/movements')
+  @Roles(UserRole.WHOLESALER)
+  @ApiOperation({
+    summary: 'Get stock movements for an item',
+    description: 'Deliveries, sales and write-offs for one inventory item.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Movements retrieved successfully',
+    type: PaginatedResponse,
+  })
+  @ApiNotFoundResponse({ description: 'Inventory item not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Wholesaler access required' })
+  async getStockItemMovements(
+    @CurrentUserId() userId: string,
+    @Param('inventoryId') inventoryId: string,
+    @Query() query: PaginationDto,
+  ): Promise<SuccessResponse<PaginatedResponse<InventoryMovementResponseDto>>> {
+    const result = await this.wholesalerInventoryService.getMovements(
+      userId,
+      inventoryId,
+      query,
+    );
+    return new SuccessResponse(
+      ResponseMessages.foundItems(
+        result.data.length,
+        'movement',
+        result.meta.totalItems,
+      ),
+      result,
+    );
+  }
+
+  @Post('receipts')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Record goods received',
+    description:
+      'Receive stock from a manufacturer against one or more of its products. Each line is posted to the stock ledger as an IN movement.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Goods receipt recorded successfully',
+    type: StockReceiptResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid lines or products from another manufacturer',
+  })
+  @ApiNotFoundResponse({ description: 'Manufacturer or product not found' })
+  @ApiConflictResponse({ description: 'Receipt reference already recorded' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Admin access required' })
+  async receiveGoods(
+    @Body() dto: CreateStockReceiptDto,
+    @CurrentUserId() userId: string,
+    @Request() req: any,
+  ): Promise<SuccessResponse<StockReceiptResponseDto>> {
+    const result = await this.inventoryService.receiveGoods(dto, userId, req);
+    return new SuccessResponse(
+      `Goods receipt '${result.reference}' recorded: ${result.totalQuantity} units received`,
+      result,
+    );
+  }
+
+  @Post('adjustments')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Adjust product stock',
+    description:
+      'Write off damaged or missing stock, or correct the quantity after a physical count. A reason is always required.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Stock adjusted successfully',
+    type: StockAdjustmentResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid adjustment' })
+  @ApiNotFoundResponse({ description: 'Product not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Admin access required' })
+  async adjustStock(
+    @Body() dto: CreateStockAdjustmentDto,
+    @CurrentUserId() userId: string,
+    @Request() req: any,
+  ): Promise<SuccessResponse<StockAdjustmentResponseDto>> {
+    const result = await this.inventoryService.adjustStock(dto, userId, req);
+    return new SuccessResponse(
+      `Stock adjusted from ${result.previousQuantity} to ${result.newQuantity}`,
+      result,
+    );
+  }
+
+  @Post('reconcile')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Reconcile product stock against the ledger',
+    description:
+      'Recomputes each product quantity from its stock movements and reports drift. Set apply=true to reset drifted products to the ledger balance.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reconciliation completed',
+    type: StockReconciliationResultDto,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Admin access required' })
+  @AuditLog({ action: 'RECONCILE', resource: 'inventory' })
+  async reconcile(
+    @Body() dto: ReconcileStockDto,
+  ): Promise<SuccessResponse<StockReconciliationResultDto>> {
+    const result = await this.stockLedgerService.reconcile(dto);
+    return new SuccessResponse(
+      result.driftCount > 0
+        ? `Found stock drift on ${result.driftCount} of ${result.productsChecked} product(s)`
+        : `No stock drift found across ${result.productsChecked} product(s)`,
+      result,
+    );
+  }
+}
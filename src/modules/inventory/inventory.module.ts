@@ -0,0 +1,55 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { InventoryController } from './inventory.controller';
+import { InventoryService } from './inventory.service';
+import { InventoryForecastService } from './inventory-forecast.service';
+import { StockLedgerService } from './stock-ledger.service';
+import { WholesalerInventoryService } from './wholesaler-inventory.service';
+import { InventoryProcessor } from './processors/inventory.processor';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuditModule } from '../audit/audit.module';
+import { INVENTORY_QUEUE } from './types/inventory.types';
+
+@Module({
+  imports: [
+    PrismaModule,
+    AuditModule,
+    BullModule.registerQueueAsync({
+      name: INVENTORY_QUEUE,
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        redis: {
+          host: configService.get<string>('REDIS_HOST'),
+          port: configService.get<number>('REDIS_PORT'),
+          password: configService.get<string>('REDIS_PASSWORD'),
+        },
+        defaultJobOptions: {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: 10,
+          removeOnFail: 5,
+        },
+      }),
+      inject: [ConfigService],
+    }),
+  ],
+  controllers: [InventoryController],
+  providers: [
+    InventoryService,
+    InventoryForecastService,
+    StockLedgerService,
+    WholesalerInventoryService,
+    InventoryProcessor,
+  ],
+  exports: [
+    InventoryService,
+    InventoryForecastService,
+    StockLedgerService,
+    WholesalerInventoryService,
+  ],
+})
+export class InventoryModule {}
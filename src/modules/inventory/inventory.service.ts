@@ -0,0 +1,280 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { StockMovementType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { CacheInvalidationService } from '../cache/cache-invalidation.service';
+import { StockLedgerService } from './stock-ledger.service';
+import {
+  CreateStockAdjustmentDto,
+  CreateStockReceiptDto,
+  StockAdjustmentResponseDto,
+  StockAdjustmentType,
+  StockReceiptResponseDto,
+} from './dto';
+import { STOCK_MOVEMENT_REASONS } from './types/inventory.types';
+
+@Injectable()
+export class InventoryService {
+  private readonly logger = new Logger(InventoryService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly stockLedgerService: StockLedgerService,
+    private readonly auditService: AuditService,
+    private readonly cacheInvalidationService: CacheInvalidationService,
+  ) {}
+
+  /**
+   * Record goods received from a manufacturer against one or more products
+   */
+  async receiveGoods(
+    dto: CreateStockReceiptDto,
+    userId: string,
+    request?: any,
+  ): Promise<StockReceiptResponseDto> {
+    const { manufacturerId, reference, notes, items } = dto;
+
+    const manufacturer = await this.prisma.manufacturer.findFirst({
+      where: { id: manufacturerId, deletedAt: null },
+      select: { id: true, name: true },
+    });
+
+    if (!manufacturer) {
+      throw new NotFoundException(
+        `Manufacturer with ID ${manufacturerId} not found`,
+      );
+    }
+
+    const productIds = items.map((item) => item.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new BadRequestException(
+        'Each product can only appear once per receipt',
+      );
+    }
+
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: productIds }, deletedAt: null },
+      select: { id: true, name: true, manufacturerId: true },
+    });
+
+    const missing = productIds.filter(
+      (id) => !products.some((product) => product.id === id),
+    );
+    if (missing.length > 0) {
+      throw new NotFoundException(`Products not found: ${missing.join(', ')}`);
+    }
+
+    const foreign = products.filter(
+      (product) => product.manufacturerId !== manufacturerId,
+    );
+    if (foreign.length > 0) {
+      throw new BadRequestException(
+        `Products do not belong to ${manufacturer.name}: ${foreign
+          .map((product) => product.name)
+          .join(', ')}`,
+      );
+    }
+
+    const { movements, previousQuantities } = await this.prisma.$transaction(
+      async (tx) => {
+        // Lock the products, in a fixed order, so quantities and the
+        // duplicate check below see any receipt posted concurrently
+        const previousQuantities = new Map<string, number>();
+        for (const productId of [...productIds].sort()) {
+          const locked = await tx.product.update({
+            where: { id: productId },
+            data: { updatedAt: new Date() },
+            select: { quantity: true },
+          });
+          previousQuantities.set(productId, locked.quantity);
+        }
+
+        // Guard against the same delivery being posted twice
+        const alreadyReceived = await tx.stockMovement.findFirst({
+          where: {
+            reason: STOCK_MOVEMENT_REASONS.GOODS_RECEIVED,
+            reference,
+            product: { manufacturerId },
+          },
+          select: { id: true },
+        });
+
+        if (alreadyReceived) {
+          throw new ConflictException(
+            `Goods receipt ${reference} has already been recorded for ${manufacturer.name}`,
+          );
+        }
+
+        const created: StockReceiptResponseDto['movements'] = [];
+        for (const item of items) {
+          created.push(
+            await this.stockLedgerService.recordMovement(
+              {
+                productId: item.productId,
+                type: StockMovementType.IN,
+                quantity: item.quantity,
+                reason: STOCK_MOVEMENT_REASONS.GOODS_RECEIVED,
+                reference,
+                notes,
+                createdBy: userId,
+              },
+              tx,
+            ),
+          );
+        }
+        return { movements: created, previousQuantities };
+      },
+    );
+
+    await this.auditService.logDataChange(
+      userId,
+      'RECEIVE_STOCK',
+      'INVENTORY',
+      reference,
+      items.map((item) => ({
+        productId: item.productId,
+        quantity: previousQuantities.get(item.productId),
+      })),
+      {
+        manufacturerId,
+        notes,
+        items: items.map((item) => ({
+          productId: item.productId,
+          received: item.quantity,
+          quantity: previousQuantities.get(item.productId)! + item.quantity,
+        })),
+      },
+      request,
+    );
+
+    await this.invalidateStockCaches(productIds);
+
+    const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0);
+    this.logger.log(
+      `Goods receipt ${reference} recorded: ${totalQuantity} units across ${items.length} product(s) from ${manufacturer.name}`,
+    );
+
+    return { reference, manufacturerId, totalQuantity, movements };
+  }
+
+  /**
+   * Adjust stock for damage, shrinkage or a physical count correction
+   */
+  async adjustStock(
+    dto: CreateStockAdjustmentDto,
+    userId: string,
+    request?: any,
+  ): Promise<StockAdjustmentResponseDto> {
+    const { productId, type, quantity, reason, reference } = dto;
+
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, deletedAt: null },
+      select: { id: true, name: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    const details = {
+      reason: STOCK_MOVEMENT_REASONS[type],
+      reference,
+      notes: reason,
+      createdBy: userId,
+    };
+
+    const { movement, previousQuantity } = await this.prisma.$transaction(
+      async (tx) => {
+        // Lock the product so the checks below use its current quantity
+        const { quantity: previousQuantity } = await tx.product.update({
+          where: { id: productId },
+          data: { updatedAt: new Date() },
+          select: { quantity: true },
+        });
+
+        if (type === StockAdjustmentType.COUNT_CORRECTION) {
+          return {
+            movement: await this.stockLedgerService.adjustTo(
+              productId,
+              quantity,
+              details,
+              tx,
+            ),
+            previousQuantity,
+          };
+        }
+
+        if (quantity === 0) {
+          throw new BadRequestException(
+            `${type} adjustments must write off at least one unit`,
+          );
+        }
+
+        if (quantity > previousQuantity) {
+          throw new BadRequestException(
+            `Cannot write off ${quantity} units of ${product.name}; only ${previousQuantity} in stock`,
+          );
+        }
+
+        return {
+          movement: await this.stockLedgerService.recordMovement(
+            {
+              productId,
+              type: StockMovementType.ADJUSTMENT,
+              quantity: -quantity,
+              ...details,
+            },
+            tx,
+          ),
+          previousQuantity,
+        };
+      },
+    );
+
+    if (!movement) {
+      throw new BadRequestException(
+        `Counted quantity matches the recorded quantity (${previousQuantity}); nothing to adjust`,
+      );
+    }
+
+    const newQuantity = previousQuantity + movement.quantity;
+
+    await this.auditService.logDataChange(
+      userId,
+      'ADJUST_STOCK',
+      'INVENTORY',
+      productId,
+      { quantity: previousQuantity },
+      { quantity: newQuantity, type, reason, reference },
+      request,
+    );
+
+    await this.invalidateStockCaches([productId]);
+
+    this.logger.log(
+      `Stock adjustment (${type}) on ${product.name}: ${previousQuantity} -> ${newQuantity}`,
+    );
+
+    return {
+      productId,
+      previousQuantity,
+      newQuantity,
+      movement,
+    };
+  }
+
+  private async invalidateStockCaches(productIds: string[]): Promise<void> {
+    await Promise.all(
+      productIds.map((id) =>
+        this.cacheInvalidationService.invalidateProduct(id),
+      ),
+    );
+    await this.cacheInvalidationService.invalidateProducts();
+  }
+}
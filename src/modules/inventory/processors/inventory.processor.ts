@@ -0,0 +1,26 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import type { Job } from 'bull';
+import { InventoryForecastService } from '../inventory-forecast.service';
+import { INVENTORY_JOBS, INVENTORY_QUEUE } from '../types/inventory.types';
+
+@Processor(INVENTORY_QUEUE)
+export class InventoryProcessor {
+  private readonly logger = new Logger(InventoryProcessor.name);
+
+  constructor(private readonly forecastService: InventoryForecastService) {}
+
+  @Process(INVENTORY_JOBS.COMPUTE_CONSUMPTION_RATES)
+  async handleComputeConsumptionRates(job: Job) {
+    try {
+      this.logger.log(`Processing consumption forecast job: ${job.id}`);
+      return await this.forecastService.recomputeConsumptionRates();
+    } catch (error) {
+      this.logger.error(
+        `Consumption forecast job failed: ${job.id} - ${error.message}`,
+        error.stack,
+      );
+      throw error; // Let Bull handle retries
+    }
+  }
+}
@@ -0,0 +1,338 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, StockMovement, StockMovementType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaginatedResponse } from '../../common/dto/paginated-response.dto';
+import {
+  ReconcileStockDto,
+  StockDriftDto,
+  StockMovementQueryDto,
+  StockMovementResponseDto,
+  StockReconciliationResultDto,
+} from './dto';
+import {
+  STOCK_MOVEMENT_REASONS,
+  StockLineItem,
+  StockMovementDetails,
+  StockMovementInput,
+} from './types/inventory.types';
+
+/**
+ * Single entry point for every change to Product.quantity.
+ *
+ * Each change writes a StockMovement row and updates the product quantity
+ * in the same transaction, so the ledger always explains the stored quantity.
+ * Callers that already run inside a transaction pass their client in.
+ */
+@Injectable()
+export class StockLedgerService {
+  private readonly logger = new Logger(StockLedgerService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Record a stock movement and apply it to the product quantity
+   */
+  async recordMovement(
+    input: StockMovementInput,
+    tx?: Prisma.TransactionClient,
+  ): Promise<StockMovement> {
+    if (!tx) {
+      return this.prisma.$transaction((client) =>
+        this.recordMovement(input, client),
+      );
+    }
+
+    const delta = this.toDelta(input.type, input.quantity);
+
+    await tx.product.update({
+      where: { id: input.productId },
+      data: { quantity: { increment: delta } },
+    });
+
+    const movement = await tx.stockMovement.create({
+      data: {
+        productId: input.productId,
+        type: input.type,
+        quantity: input.quantity,
+        reason: input.reason,
+        reference: input.reference,
+        notes: input.notes,
+        createdBy: input.createdBy,
+      },
+    });
+
+    this.logger.debug(
+      `Stock ${input.type} of ${input.quantity} for product ${input.productId} (${input.reason}${input.reference ? `, ${input.reference}` : ''})`,
+    );
+
+    return movement;
+  }
+
+  /**
+   * Set a product to an absolute quantity by recording the difference as an ADJUSTMENT.
+   * Returns null when the quantity is unchanged.
+   */
+  async adjustTo(
+    productId: string,
+    newQuantity: number,
+    details: StockMovementDetails,
+    tx?: Prisma.TransactionClient,
+  ): Promise<StockMovement | null> {
+    const client = tx ?? this.prisma;
+    const product = await client.product.findUnique({
+      where: { id: productId },
+      select: { quantity: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    const delta = newQuantity - product.quantity;
+    if (delta === 0) {
+      return null;
+    }
+
+    return this.recordMovement(
+      {
+        productId,
+        type: StockMovementType.ADJUSTMENT,
+        quantity: delta,
+        ...details,
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Reserve stock for order items (OUT movements referenced by order number)
+   */
+  async reserveForOrder(
+    items: StockLineItem[],
+    orderNumber: string,
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    for (const item of items) {
+      await this.recordMovement(
+        {
+          productId: item.productId,
+          type: StockMovementType.OUT,
+          quantity: item.quantity,
+          reason: STOCK_MOVEMENT_REASONS.ORDER_RESERVATION,
+          reference: orderNumber,
+        },
+        tx,
+      );
+    }
+  }
+
+  /**
+   * Return previously reserved stock for order items (IN movements referenced by order number)
+   */
+  async releaseForOrder(
+    items: StockLineItem[],
+    orderNumber: string,
+    reason: string,
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    for (const item of items) {
+      await this.recordMovement(
+        {
+          productId: item.productId,
+          type: StockMovementType.IN,
+          quantity: item.quantity,
+          reason,
+          reference: orderNumber,
+        },
+        tx,
+      );
+    }
+  }
+
+  /**
+   * List stock movements for a product
+   */
+  async getProductMovements(
+    productId: string,
+    query: StockMovementQueryDto,
+  ): Promise<PaginatedResponse<StockMovementResponseDto>> {
+    const { page = 1, limit = 10, type, reference, from, to } = query;
+
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    const where: Prisma.StockMovementWhereInput = {
+      productId,
+      ...(type && { type }),
+      ...(reference && { reference }),
+      ...((from || to) && {
+        createdAt: {
+          ...(from && { gte: new Date(from) }),
+          ...(to && { lte: new Date(to) }),
+        },
+      }),
+    };
+
+    const [movements, total] = await Promise.all([
+      this.prisma.stockMovement.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.stockMovement.count({ where }),
+    ]);
+
+    return new PaginatedResponse(movements, page, limit, total);
+  }
+
+  /**
+   * Recompute product quantities from the ledger and report drift.
+   * When apply is set, drifted products are reset to their ledger balance.
+   */
+  async reconcile(
+    dto: ReconcileStockDto,
+  ): Promise<StockReconciliationResultDto> {
+    const { productIds, apply = false } = dto;
+
+    if (productIds && productIds.length === 0) {
+      throw new BadRequestException('productIds cannot be empty');
+    }
+
+    const products = await this.prisma.product.findMany({
+      where: {
+        deletedAt: null,
+        ...(productIds && { id: { in: productIds } }),
+      },
+      select: { id: true, name: true, sku: true, quantity: true },
+    });
+
+    const ledgerBalances = await this.getLedgerBalances(
+      products.map((p) => p.id),
+    );
+
+    const drifts: StockDriftDto[] = [];
+    for (const product of products) {
+      const ledgerQuantity = ledgerBalances.get(product.id) ?? 0;
+      const drift = product.quantity - ledgerQuantity;
+      if (drift === 0) continue;
+
+      drifts.push({
+        productId: product.id,
+        name: product.name,
+        sku: product.sku,
+        recordedQuantity: product.quantity,
+        ledgerQuantity,
+        drift,
+        corrected: false,
+      });
+    }
+
+    if (apply && drifts.length > 0) {
+      await this.prisma.$transaction(async (tx) => {
+        // Lock each product, in a fixed order, and re-read its quantity and
+        // ledger balance so movements recorded since the scan are kept
+        const sorted = [...drifts].sort((a, b) =>
+          a.productId.localeCompare(b.productId),
+        );
+        for (const d of sorted) {
+          const { quantity } = await tx.product.update({
+            where: { id: d.productId },
+            data: { updatedAt: new Date() },
+            select: { quantity: true },
+          });
+          const ledgerQuantity =
+            (await this.getLedgerBalances([d.productId], tx)).get(
+              d.productId,
+            ) ?? 0;
+
+          if (quantity !== ledgerQuantity) {
+            await tx.product.update({
+              where: { id: d.productId },
+              data: { quantity: ledgerQuantity },
+            });
+          }
+
+          d.recordedQuantity = quantity;
+          d.ledgerQuantity = ledgerQuantity;
+          d.drift = quantity - ledgerQuantity;
+          d.corrected = true;
+        }
+      });
+
+      this.logger.warn(
+        `Corrected stock drift on ${drifts.length} product(s) from ledger`,
+      );
+    }
+
+    return {
+      productsChecked: products.length,
+      driftCount: drifts.length,
+      applied: apply,
+      drifts,
+    };
+  }
+
+  /**
+   * Net quantity the ledger holds for each product
+   */
+  private async getLedgerBalances(
+    productIds: string[],
+    db: Prisma.TransactionClient = this.prisma,
+  ): Promise<Map<string, number>> {
+    const totals = await db.stockMovement.groupBy({
+      by: ['productId', 'type'],
+      where: { productId: { in: productIds } },
+      _sum: { quantity: true },
+    });
+
+    const ledgerBalances = new Map<string, number>();
+    for (const total of totals) {
+      const sum = total._sum.quantity ?? 0;
+      const current = ledgerBalances.get(total.productId) ?? 0;
+      ledgerBalances.set(
+        total.productId,
+        current + (total.type === StockMovementType.OUT ? -sum : sum),
+      );
+    }
+
+    return ledgerBalances;
+  }
+
+  private toDelta(type: StockMovementType, quantity: number): number {
+    if (!Number.isInteger(quantity)) {
+      throw new BadRequestException(
+        'Stock movement quantity must be an integer',
+      );
+    }
+
+    switch (type) {
+      case StockMovementType.IN:
+      case StockMovementType.OUT:
+        if (quantity <= 0) {
+          throw new BadRequestException(
+            `${type} stock movement quantity must be positive`,
+          );
+        }
+        return type === StockMovementType.IN ? quantity : -quantity;
+      case StockMovementType.ADJUSTMENT:
+        if (quantity === 0) {
+          throw new BadRequestException(
+            'Stock adjustment quantity cannot be zero',
+          );
+        }
+        return quantity;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { StockMovementType } from '@prisma/client';
+
+// Stock movement reason codes written to StockMovement.reason
+export const STOCK_MOVEMENT_REASONS = {
+  OPENING_BALANCE: 'OPENING_BALANCE',
+  PRODUCT_CREATED: 'PRODUCT_CREATED',
+  BULK_UPLOAD: 'BULK_UPLOAD',
+  MANUAL_ADJUSTMENT: 'MANUAL_ADJUSTMENT',
+  GOODS_RECEIVED: 'GOODS_RECEIVED',
+  DAMAGE: 'DAMAGE',
+  SHRINKAGE: 'SHRINKAGE',
+  COUNT_CORRECTION: 'COUNT_CORRECTION',
+  ORDER_RESERVATION: 'ORDER_RESERVATION',
+  ORDER_CANCELLATION: 'ORDER_CANCELLATION',
+  ORDER_ITEM_CANCELLATION: 'ORDER_ITEM_CANCELLATION',
+  PAYMENT_EXPIRED: 'PAYMENT_EXPIRED',
+} as const;
+
+export type StockMovementReason =
+  (typeof STOCK_MOVEMENT_REASONS)[keyof typeof STOCK_MOVEMENT_REASONS];
+
+export interface StockMovementInput {
+  productId: string;
+  type: StockMovementType;
+  // Always positive for IN/OUT; signed delta for ADJUSTMENT
+  quantity: number;
+  reason: string;
+  reference?: string;
+  notes?: string;
+  createdBy?: string;
+}
+
+export type StockMovementDetails = Pick<
+  StockMovementInput,
+  'reason' | 'reference' | 'notes' | 'createdBy'
+>;
+
+export interface StockLineItem {
+  productId: string;
+  quantity: number;
+}
+
+export interface DeliveredStockInput {
+  // Order.wholesalerId references the wholesaler's user record
+  wholesalerUserId: string;
+  orderId: string;
+  productName: string;
+  productSku: string;
+  quantity: number;
+}
+
+// Bull queue for inventory background jobs
+export const INVENTORY_QUEUE = 'inventory';
+
+export const INVENTORY_JOBS = {
+  COMPUTE_CONSUMPTION_RATES: 'compute-consumption-rates',
+} as const;
+
+// Forecasting parameters
+export const CONSUMPTION_FORECAST = {
+  // Nightly at 02:00
+  CRON: '0 2 * * *',
+  // Days of OUTBOUND history considered
+  HISTORY_DAYS: 90,
+  // EWMA smoothing factor; roughly a 14-day span (2 / (14 + 1))
+  SMOOTHING_FACTOR: 2 / 15,
+  BATCH_SIZE: 100,
+} as const;
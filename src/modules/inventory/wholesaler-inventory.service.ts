@@ -0,0 +1,328 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Inventory,
+  InventoryMovementType,
+  InventoryStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaginatedResponse } from '../../common/dto/paginated-response.dto';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import {
+  InventoryItemResponseDto,
+  InventoryMovementResponseDto,
+  RecordInventoryMovementDto,
+  UpdateInventoryLevelsDto,
+  WholesalerInventoryQueryDto,
+} from './dto';
+import { DeliveredStockInput } from './types/inventory.types';
+
+/**
+ * Tracks stock held by wholesalers after delivery.
+ *
+ * Inventory rows are keyed by (wholesaler, product SKU). Deliveries are posted
+ * automatically when an order item is marked DELIVERED; wholesalers record
+ * their own sales and write-offs.
+ */
+@Injectable()
+export class WholesalerInventoryService {
+  private readonly logger = new Logger(WholesalerInventoryService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Derive stock status from the current level and the low-stock threshold
+   */
+  static computeStatus(
+    currentStock: number,
+    minStock: number,
+    currentStatus?: InventoryStatus,
+  ): InventoryStatus {
+    if (currentStatus === InventoryStatus.DISCONTINUED) {
+      return InventoryStatus.DISCONTINUED;
+    }
+    if (currentStock <= 0) {
+      return InventoryStatus.OUT_OF_STOCK;
+    }
+    if (currentStock <= minStock) {
+      return InventoryStatus.LOW_STOCK;
+    }
+    return InventoryStatus.IN_STOCK;
+  }
+
+  /**
+   * Post a delivered order item into the wholesaler's inventory as an INBOUND movement
+   */
+  async recordDelivery(
+    input: DeliveredStockInput,
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    const wholesaler = await tx.wholesaler.upsert({
+      where: { userId: input.wholesalerUserId },
+      create: { userId: input.wholesalerUserId },
+      update: {},
+      select: { id: true },
+    });
+
+    const now = new Date();
+
+    // Increment in place so concurrent deliveries of the same SKU both count
+    const updated = await tx.inventory.upsert({
+      where: {
+        wholesalerId_productSku: {
+          wholesalerId: wholesaler.id,
+          productSku: input.productSku,
+        },
+      },
+      create: {
+        wholesalerId: wholesaler.id,
+        productName: input.productName,
+        productSku: input.productSku,
+        currentStock: input.quantity,
+        status: WholesalerInventoryService.computeStatus(input.quantity, 0),
+        lastDeliveryDate: now,
+      },
+      update: {
+        productName: input.productName,
+        currentStock: { increment: input.quantity },
+        lastDeliveryDate: now,
+      },
+    });
+
+    const status = WholesalerInventoryService.computeStatus(
+      updated.currentStock,
+      updated.minStock,
+      updated.status,
+    );
+    const inventory =
+      status === updated.status
+        ? updated
+        : await tx.inventory.update({
+            where: { id: updated.id },
+            data: { status },
+          });
+
+    await tx.inventoryMovement.create({
+      data: {
+        inventoryId: inventory.id,
+        type: InventoryMovementType.INBOUND,
+        quantity: input.quantity,
+        reason: 'Delivery',
+        orderId: input.orderId,
+      },
+    });
+
+    this.logger.log(
+      `Posted ${input.quantity} units of ${input.productSku} to wholesaler ${input.wholesalerUserId} inventory from order ${input.orderId}`,
+    );
+  }
+
+  /**
+   * List the wholesaler's stock
+   */
+  async listStock(
+    userId: string,
+    query: WholesalerInventoryQueryDto,
+  ): Promise<PaginatedResponse<InventoryItemResponseDto>> {
+    const { page = 1, limit = 10, search, status } = query;
+
+    const where: Prisma.InventoryWhereInput = {
+      wholesaler: { userId },
+      ...(status && { status }),
+      ...(search && {
+        OR: [
+          { productName: { contains: search, mode: 'insensitive' } },
+          { productSku: { contains: search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.inventory.findMany({
+        where,
+        orderBy: [{ status: 'desc' }, { productName: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.inventory.count({ where }),
+    ]);
+
+    return new PaginatedResponse(
+      items.map((item) => this.toResponse(item)),
+      page,
+      limit,
+      total,
+    );
+  }
+
+  /**
+   * Record a sale, usage or write-off against the wholesaler's stock
+   */
+  async recordMovement(
+    userId: string,
+    dto: RecordInventoryMovementDto,
+  ): Promise<InventoryItemResponseDto> {
+    const inventory = await this.findOwnedBySku(userId, dto.productSku);
+
+    if (dto.quantity > inventory.currentStock) {
+      throw new BadRequestException(
+        `Cannot record ${dto.quantity} units of ${inventory.productName}; only ${inventory.currentStock} in stock`,
+      );
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      // Conditional decrement so concurrent movements cannot oversell
+      const { count } = await tx.inventory.updateMany({
+        where: { id: inventory.id, currentStock: { gte: dto.quantity } },
+        data: { currentStock: { decrement: dto.quantity } },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException(
+          `Insufficient stock for ${inventory.productName}`,
+        );
+      }
+
+      await tx.inventoryMovement.create({
+        data: {
+          inventoryId: inventory.id,
+          type: dto.type,
+          quantity: dto.quantity,
+          reason: dto.reason,
+        },
+      });
+
+      const current = await tx.inventory.findUniqueOrThrow({
+        where: { id: inventory.id },
+      });
+
+      return tx.inventory.update({
+        where: { id: inventory.id },
+        data: {
+          status: WholesalerInventoryService.computeStatus(
+            current.currentStock,
+            current.minStock,
+            current.status,
+          ),
+        },
+      });
+    });
+
+    return this.toResponse(updated);
+  }
+
+  /**
+   * Update the low/high stock thresholds for an inventory item
+   */
+  async updateLevels(
+    userId: string,
+    inventoryId: string,
+    dto: UpdateInventoryLevelsDto,
+  ): Promise<InventoryItemResponseDto> {
+    const inventory = await this.findOwned(userId, inventoryId);
+
+    const minStock = dto.minStock ?? inventory.minStock;
+    const maxStock = dto.maxStock ?? inventory.maxStock;
+
+    if (maxStock !== null && maxStock < minStock) {
+      throw new BadRequestException('maxStock cannot be lower than minStock');
+    }
+
+    const updated = await this.prisma.inventory.update({
+      where: { id: inventoryId },
+      data: {
+        minStock,
+        maxStock,
+        status: WholesalerInventoryService.computeStatus(
+          inventory.currentStock,
+          minStock,
+          inventory.status,
+        ),
+      },
+    });
+
+    return this.toResponse(updated);
+  }
+
+  /**
+   * List movements for one of the wholesaler's inventory items
+   */
+  async getMovements(
+    userId: string,
+    inventoryId: string,
+    query: PaginationDto,
+  ): Promise<PaginatedResponse<InventoryMovementResponseDto>> {
+    const { page = 1, limit = 10 } = query;
+    await this.findOwned(userId, inventoryId);
+
+    const [movements, total] = await Promise.all([
+      this.prisma.inventoryMovement.findMany({
+        where: { inventoryId },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.inventoryMovement.count({ where: { inventoryId } }),
+    ]);
+
+    return new PaginatedResponse(movements, page, limit, total);
+  }
+
+  private async findOwned(
+    userId: string,
+    inventoryId: string,
+  ): Promise<Inventory> {
+    const inventory = await this.prisma.inventory.findFirst({
+      where: { id: inventoryId, wholesaler: { userId } },
+    });
+
+    if (!inventory) {
+      throw new NotFoundException(`Inventory item ${inventoryId} not found`);
+    }
+
+    return inventory;
+  }
+
+  private async findOwnedBySku(
+    userId: string,
+    productSku: string,
+  ): Promise<Inventory> {
+    const inventory = await this.prisma.inventory.findFirst({
+      where: { productSku, wholesaler: { userId } },
+    });
+
+    if (!inventory) {
+      throw new NotFoundException(
+        `No inventory found for product SKU ${productSku}`,
+      );
+    }
+
+    return inventory;
+  }
+
+  private toResponse(item: Inventory): InventoryItemResponseDto {
+    return {
+      id: item.id,
+      productName: item.productName,
+      productSku: item.productSku,
+      currentStock: item.currentStock,
+      minStock: item.minStock,
+      maxStock: item.maxStock,
+      status: WholesalerInventoryService.computeStatus(
+        item.currentStock,
+        item.minStock,
+        item.status,
+      ),
+      lastDeliveryDate: item.lastDeliveryDate,
+      predictedRunOut: item.predictedRunOut,
+      consumptionRate:
+        item.consumptionRate !== null ? Number(item.consumptionRate) : null,
+      updatedAt: item.updatedAt,
+    };
+  }
+}
@@ -166,6 +166,7 @@ export class ManufacturerController {
   })
   async findAll(
     @Query() queryDto: ManufacturerQueryDto,
+    @CurrentUserId() currentUserId: string,
   ): Promise<SuccessResponse<PaginatedResponse<ManufacturerResponseDto>>> {
     // Create proper pagination DTO
     const paginationDto = new PaginationDto();
@@ -194,6 +195,7 @@ export class ManufacturerController {
       filtersDto,
       includesDto,
       sortingDto,
+      currentUserId,
     );
 
     return new SuccessResponse(
@@ -636,6 +638,7 @@ export class ManufacturerController {
   })
   async getDeletedManufacturers(
     @Query() queryDto: ManufacturerQueryDto,
+    @CurrentUserId() currentUserId: string,
   ): Promise<
     SuccessResponse<
       PaginatedResponse<
@@ -656,6 +659,7 @@ export class ManufacturerController {
     const result = await this.manufacturerService.getDeletedManufacturers(
       paginationDto,
       filtersDto,
+      currentUserId,
     );
 
     return new SuccessResponse(
@@ -4,9 +4,10 @@ import { ManufacturerController } from './manufacturer.controller';
 import { ManufacturerService } from './manufacturer.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { AuditModule } from '../audit/audit.module';
+import { RegionModule } from '../region/region.module';
 
 @Module({
-  imports: [PrismaModule, AuditModule],
+  imports: [PrismaModule, AuditModule, RegionModule],
   controllers: [ManufacturerController],
   providers: [ManufacturerService],
   exports: [ManufacturerService],
@@ -7,6 +7,7 @@ import {
 import { ManufacturerStatus } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditService } from '../audit/audit.service';
+import { RegionService } from '../region/region.service';
 import { StringUtils } from '../../common/utils/helpers.utils';
 import {
   CreateManufacturerDto,
@@ -22,6 +23,7 @@ export class ManufacturerService {
   constructor(
     private prisma: PrismaService,
     private auditService: AuditService,
+    private regionService: RegionService,
   ) {}
 
   /**
@@ -117,6 +119,7 @@ export class ManufacturerService {
       sortBy?: 'name' | 'createdAt' | 'updatedAt' | 'status';
       sortOrder?: 'asc' | 'desc';
     },
+    currentUserId?: string,
   ): Promise<PaginatedResponse<ManufacturerResponseDto>> {
     const { page = 1, limit = 10 } = paginationDto;
     const skip = (page - 1) * limit;
@@ -138,6 +141,8 @@ export class ManufacturerService {
       where.status = filters.status;
     }
 
+    await this.applyRegionScope(where, currentUserId);
+
     // Build dynamic include object
     const includeObject: any = {
       _count: {
@@ -881,6 +886,7 @@ export class ManufacturerService {
     filters?: {
       search?: string;
     },
+    currentUserId?: string,
   ): Promise<
     PaginatedResponse<
       ManufacturerResponseDto & {
@@ -903,6 +909,8 @@ export class ManufacturerService {
       ];
     }
 
+    await this.applyRegionScope(where, currentUserId);
+
     const [manufacturers, total] = await Promise.all([
       this.prisma.manufacturer.findMany({
         where,
@@ -1024,4 +1032,21 @@ export class ManufacturerService {
       failed: results.filter((r) => !r.success).length,
     };
   }
+
+  /**
+   * Restrict a manufacturer query to the regions of a region-scoped ADMIN
+   */
+  private async applyRegionScope(
+    where: any,
+    currentUserId?: string,
+  ): Promise<void> {
+    if (!currentUserId) {
+      return;
+    }
+
+    const regionIds = await this.regionService.getAdminRegionIds(currentUserId);
+    if (regionIds) {
+      where.regionId = { in: regionIds };
+    }
+  }
 }
@@ -0,0 +1,110 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { KycDocumentType, KycStatus, UserStatus } from '@prisma/client';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+
+export class WholesalerApplicationQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    enum: KycStatus,
+    description:
+      'Filter by review status (case-insensitive). Defaults to PENDING, the approval queue',
+    example: 'pending',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      return value.toUpperCase();
+    }
+    return value;
+  })
+  @IsEnum(KycStatus)
+  status?: KycStatus;
+}
+
+export class RejectWholesalerApplicationDto {
+  @ApiProperty({
+    description: 'Sent to the applicant',
+    example: 'The CAC certificate is not legible; please upload a clear scan',
+  })
+  @IsString()
+  @MinLength(10)
+  @MaxLength(500)
+  reason: string;
+}
+
+export class KycDocumentResponseDto {
+  @ApiProperty({ description: 'Document ID' })
+  id: string;
+
+  @ApiProperty({
+    enum: KycDocumentType,
+    example: KycDocumentType.CAC_CERTIFICATE,
+  })
+  type: KycDocumentType;
+
+  @ApiProperty({ example: 'cac-certificate.pdf' })
+  fileName: string;
+
+  @ApiProperty({ description: 'Where the document can be viewed' })
+  fileUrl: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class WholesalerApplicationResponseDto {
+  @ApiProperty({ description: 'Wholesaler user ID' })
+  userId: string;
+
+  @ApiProperty({ example: 'ada@okaforstores.ng' })
+  email: string;
+
+  @ApiProperty({ example: 'Ada' })
+  firstName: string | null;
+
+  @ApiProperty({ example: 'Okafor' })
+  lastName: string | null;
+
+  @ApiPropertyOptional({ nullable: true, example: '+2348012345678' })
+  phone: string | null;
+
+  @ApiProperty({ enum: UserStatus, example: UserStatus.PENDING_APPROVAL })
+  accountStatus: UserStatus;
+
+  @ApiProperty({ example: 'Okafor Stores Ltd' })
+  businessName: string | null;
+
+  @ApiProperty({ description: 'CAC registration number', example: 'RC1234567' })
+  cacNumber: string | null;
+
+  @ApiProperty({ example: '12 Allen Avenue, Ikeja, Lagos' })
+  businessAddress: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  regionId: string | null;
+
+  @ApiProperty({ enum: KycStatus, example: KycStatus.PENDING })
+  kycStatus: KycStatus | null;
+
+  @ApiProperty()
+  submittedAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  reviewedAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Admin user ID' })
+  reviewedBy: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  rejectionReason: string | null;
+
+  @ApiProperty({ type: [KycDocumentResponseDto] })
+  documents: KycDocumentResponseDto[];
+}
@@ -0,0 +1,4 @@
+export * from './wholesaler-onboarding.service';
+export * from './onboarding.module';
+export * from './types/onboarding.types';
+export * from './dto/wholesaler-application.dto';
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { WholesalerOnboardingService } from './wholesaler-onboarding.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { StorageModule } from '../storage/storage.module';
+import { RegionModule } from '../region/region.module';
+
+@Module({
+  imports: [PrismaModule, StorageModule, RegionModule],
+  providers: [WholesalerOnboardingService],
+  exports: [WholesalerOnboardingService],
+})
+export class OnboardingModule {}
@@ -0,0 +1,37 @@
+import { KycDocumentType } from '@prisma/client';
+
+// Cloudinary folder for documents uploaded with onboarding applications
+export const KYC_DOCUMENT_FOLDER = 'kyc-documents';
+
+// Scans and photos; CAC certificates usually arrive as PDFs
+export const KYC_DOCUMENT_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+];
+
+export const KYC_DOCUMENT_MAX_BYTES = 5 * 1024 * 1024;
+
+// Multipart field for each document type
+export const KYC_DOCUMENT_FIELDS: Record<
+  keyof KycDocumentFiles,
+  KycDocumentType
+> = {
+  cacCertificate: KycDocumentType.CAC_CERTIFICATE,
+  proofOfAddress: KycDocumentType.PROOF_OF_ADDRESS,
+  directorId: KycDocumentType.DIRECTOR_ID,
+};
+
+export interface KycDocumentFiles {
+  cacCertificate?: Express.Multer.File[];
+  proofOfAddress?: Express.Multer.File[];
+  directorId?: Express.Multer.File[];
+}
+
+export interface UploadedKycDocument {
+  type: KycDocumentType;
+  fileName: string;
+  fileUrl: string;
+  filePublicId: string;
+}
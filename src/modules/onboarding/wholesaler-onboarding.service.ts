@@ -0,0 +1,424 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  AdminAction,
+  KycStatus,
+  Prisma,
+  ResourceType,
+  UserStatus,
+} from '@prisma/client';
+import type { Request } from 'express';
+import { PrismaService } from '../prisma/prisma.service';
+import { CloudinaryService } from '../storage/cloudinary.service';
+import { RegionService } from '../region/region.service';
+import { DomainEventsService } from '../events/domain-events.service';
+import { EmailEvent } from '../email/types/email.types';
+import { PaginatedResponse } from '../../common/dto/paginated-response.dto';
+import {
+  RejectWholesalerApplicationDto,
+  WholesalerApplicationQueryDto,
+  WholesalerApplicationResponseDto,
+} from './dto/wholesaler-application.dto';
+import {
+  KYC_DOCUMENT_FIELDS,
+  KYC_DOCUMENT_FOLDER,
+  KYC_DOCUMENT_MAX_BYTES,
+  KYC_DOCUMENT_MIME_TYPES,
+  KycDocumentFiles,
+  UploadedKycDocument,
+} from './types/onboarding.types';
+
+const applicationInclude = {
+  user: {
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      phone: true,
+      role: true,
+      status: true,
+    },
+  },
+  kycDocuments: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.WholesalerInclude;
+
+type WholesalerApplication = Prisma.WholesalerGetPayload<{
+  include: typeof applicationInclude;
+}>;
+
+/**
+ * Onboarding for wholesaler businesses.
+ *
+ * Applicants register with their business details and KYC documents and
+ * wait in PENDING_APPROVAL. Admins work through the queue and approve the
+ * account, which activates it, or reject it with a reason the applicant is
+ * emailed. Every decision goes to the admin audit log.
+ */
+@Injectable()
+export class WholesalerOnboardingService {
+  private readonly logger = new Logger(WholesalerOnboardingService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly cloudinaryService: CloudinaryService,
+    private readonly regionService: RegionService,
+    private readonly domainEventsService: DomainEventsService,
+  ) {}
+
+  /**
+   * Check and store the documents sent with an application. Nothing is kept
+   * if any upload fails.
+   * @throws BadRequestException if the CAC certificate is missing or a file
+   * is not an accepted type or size
+   */
+  async uploadDocuments(
+    files: KycDocumentFiles,
+    cacNumber: string,
+  ): Promise<UploadedKycDocument[]> {
+    if (!files.cacCertificate?.length) {
+      throw new BadRequestException('A CAC certificate is required');
+    }
+
+    const entries = (
+      Object.keys(KYC_DOCUMENT_FIELDS) as (keyof KycDocumentFiles)[]
+    ).flatMap((field) =>
+      (files[field] ?? []).map((file) => ({
+        type: KYC_DOCUMENT_FIELDS[field],
+        file,
+      })),
+    );
+
+    for (const { file } of entries) {
+      if (!KYC_DOCUMENT_MIME_TYPES.includes(file.mimetype)) {
+        throw new BadRequestException(
+          `${file.originalname} is ${file.mimetype}; upload a PDF, JPEG, PNG or WebP file`,
+        );
+      }
+
+      if (file.size > KYC_DOCUMENT_MAX_BYTES) {
+        throw new BadRequestException(
+          `${file.originalname} is larger than ${KYC_DOCUMENT_MAX_BYTES / (1024 * 1024)}MB`,
+        );
+      }
+    }
+
+    const uploaded: UploadedKycDocument[] = [];
+    try {
+      for (const { type, file } of entries) {
+        const result = await this.cloudinaryService.uploadFile(file.buffer, {
+          folder: KYC_DOCUMENT_FOLDER,
+          publicId: `${cacNumber}-${type.toLowerCase()}-${Date.now()}`,
+          resourceType: 'auto',
+          tags: ['kyc'],
+        });
+
+        uploaded.push({
+          type,
+          fileName: file.originalname,
+          fileUrl: result.secureUrl,
+          filePublicId: result.publicId,
+        });
+      }
+    } catch (error) {
+      await this.discardDocuments(uploaded);
+      throw new BadRequestException(
+        `Failed to upload KYC documents: ${error.message}`,
+      );
+    }
+
+    return uploaded;
+  }
+
+  /**
+   * Remove uploaded documents whose application was never saved
+   */
+  async discardDocuments(documents: UploadedKycDocument[]): Promise<void> {
+    if (documents.length === 0) {
+      return;
+    }
+
+    try {
+      await this.cloudinaryService.deleteMultipleFiles(
+        documents.map((document) => document.filePublicId),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to remove ${documents.length} orphaned KYC document(s): ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Applications by review status, oldest first so the queue is worked in
+   * order. Region-scoped admins only see applicants in their regions.
+   */
+  async findApplications(
+    query: WholesalerApplicationQueryDto,
+    adminId: string,
+  ): Promise<PaginatedResponse<WholesalerApplicationResponseDto>> {
+    const { page = 1, limit = 10, search, status = KycStatus.PENDING } = query;
+
+    const where: Prisma.WholesalerWhereInput = {
+      kycStatus: status,
+      ...(await this.regionFilter(adminId)),
+      ...(search && {
+        OR: [
+          { businessName: { contains: search, mode: 'insensitive' } },
+          { cacNumber: { contains: search, mode: 'insensitive' } },
+          { user: { email: { contains: search, mode: 'insensitive' } } },
+        ],
+      }),
+    };
+
+    const [applications, total] = await Promise.all([
+      this.prismaService.wholesaler.findMany({
+        where,
+        include: applicationInclude,
+        orderBy: { kycSubmittedAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prismaService.wholesaler.count({ where }),
+    ]);
+
+    return new PaginatedResponse(
+      applications.map((application) => this.toResponse(application)),
+      page,
+      limit,
+      total,
+    );
+  }
+
+  async findApplication(
+    userId: string,
+    adminId: string,
+  ): Promise<WholesalerApplicationResponseDto> {
+    return this.toResponse(await this.findApplicationOrThrow(userId, adminId));
+  }
+
+  /**
+   * Activate an applicant's account
+   * @param userId - The applicant's user ID
+   */
+  async approve(
+    userId: string,
+    adminId: string,
+    request?: Request,
+  ): Promise<WholesalerApplicationResponseDto> {
+    const application = await this.findApplicationOrThrow(userId, adminId);
+
+    const approved = await this.prismaService.$transaction(async (tx) => {
+      await this.lockPendingApplication(tx, application.id);
+
+      const reviewedAt = new Date();
+      await tx.user.update({
+        where: { id: userId },
+        data: { status: UserStatus.ACTIVE },
+      });
+
+      const updated = await tx.wholesaler.update({
+        where: { id: application.id },
+        data: {
+          kycStatus: KycStatus.APPROVED,
+          kycReviewedAt: reviewedAt,
+          kycReviewedBy: adminId,
+          kycRejectionReason: null,
+        },
+        include: applicationInclude,
+      });
+
+      await tx.adminAuditLog.create({
+        data: {
+          adminId,
+          action: AdminAction.APPROVE_WHOLESALER,
+          resource: ResourceType.WHOLESALER,
+          resourceId: userId,
+          regionId: application.regionId,
+          oldData: {
+            status: UserStatus.PENDING_APPROVAL,
+            kycStatus: KycStatus.PENDING,
+          },
+          newData: { status: UserStatus.ACTIVE, kycStatus: KycStatus.APPROVED },
+          metadata: {
+            businessName: application.businessName,
+            cacNumber: application.cacNumber,
+          },
+          ipAddress: request?.ip || null,
+          userAgent: request?.get('User-Agent') || null,
+        },
+      });
+
+      return updated;
+    });
+
+    this.domainEventsService.publish(EmailEvent.WHOLESALER_APPROVED, {
+      user: this.domainEventsService.toUserEventData(approved.user),
+      businessName: approved.businessName ?? '',
+    });
+
+    this.logger.log(
+      `Wholesaler ${approved.businessName} (${userId}) approved by ${adminId}`,
+    );
+
+    return this.toResponse(approved);
+  }
+
+  /**
+   * Turn an application down. The account is deactivated and the applicant
+   * is told why.
+   * @param userId - The applicant's user ID
+   */
+  async reject(
+    userId: string,
+    rejectDto: RejectWholesalerApplicationDto,
+    adminId: string,
+    request?: Request,
+  ): Promise<WholesalerApplicationResponseDto> {
+    const application = await this.findApplicationOrThrow(userId, adminId);
+
+    const rejected = await this.prismaService.$transaction(async (tx) => {
+      await this.lockPendingApplication(tx, application.id);
+
+      await tx.user.update({
+        where: { id: userId },
+        data: { status: UserStatus.DEACTIVATED },
+      });
+
+      const updated = await tx.wholesaler.update({
+        where: { id: application.id },
+        data: {
+          kycStatus: KycStatus.REJECTED,
+          kycReviewedAt: new Date(),
+          kycReviewedBy: adminId,
+          kycRejectionReason: rejectDto.reason,
+        },
+        include: applicationInclude,
+      });
+
+      await tx.adminAuditLog.create({
+        data: {
+          adminId,
+          action: AdminAction.REJECT_WHOLESALER,
+          resource: ResourceType.WHOLESALER,
+          resourceId: userId,
+          regionId: application.regionId,
+          oldData: {
+            status: UserStatus.PENDING_APPROVAL,
+            kycStatus: KycStatus.PENDING,
+          },
+          newData: {
+            status: UserStatus.DEACTIVATED,
+            kycStatus: KycStatus.REJECTED,
+          },
+          metadata: {
+            businessName: application.businessName,
+            cacNumber: application.cacNumber,
+            reason: rejectDto.reason,
+          },
+          ipAddress: request?.ip || null,
+          userAgent: request?.get('User-Agent') || null,
+        },
+      });
+
+      return updated;
+    });
+
+    this.domainEventsService.publish(EmailEvent.WHOLESALER_REJECTED, {
+      user: this.domainEventsService.toUserEventData(rejected.user),
+      businessName: rejected.businessName ?? '',
+      reason: rejectDto.reason,
+    });
+
+    this.logger.log(
+      `Wholesaler ${rejected.businessName} (${userId}) rejected by ${adminId}: ${rejectDto.reason}`,
+    );
+
+    return this.toResponse(rejected);
+  }
+
+  /**
+   * Lock the application so two admins cannot decide it at once
+   * @throws BadRequestException if it has already been decided
+   */
+  private async lockPendingApplication(
+    tx: Prisma.TransactionClient,
+    wholesalerId: string,
+  ): Promise<void> {
+    const current = await tx.wholesaler.update({
+      where: { id: wholesalerId },
+      data: { updatedAt: new Date() },
+      select: { kycStatus: true, user: { select: { status: true } } },
+    });
+
+    if (
+      current.kycStatus !== KycStatus.PENDING ||
+      current.user.status !== UserStatus.PENDING_APPROVAL
+    ) {
+      throw new BadRequestException(
+        `Application has already been ${current.kycStatus?.toLowerCase() ?? 'decided'}`,
+      );
+    }
+  }
+
+  private async findApplicationOrThrow(
+    userId: string,
+    adminId: string,
+  ): Promise<WholesalerApplication> {
+    const application = await this.prismaService.wholesaler.findFirst({
+      where: {
+        userId,
+        kycStatus: { not: null },
+        ...(await this.regionFilter(adminId)),
+      },
+      include: applicationInclude,
+    });
+
+    if (!application) {
+      throw new NotFoundException('Wholesaler application not found');
+    }
+
+    return application;
+  }
+
+  // Region-scoped ADMINs only see applicants in their regions
+  private async regionFilter(
+    adminId: string,
+  ): Promise<Prisma.WholesalerWhereInput> {
+    const regionIds = await this.regionService.getAdminRegionIds(adminId);
+    return regionIds ? { regionId: { in: regionIds } } : {};
+  }
+
+  private toResponse(
+    application: WholesalerApplication,
+  ): WholesalerApplicationResponseDto {
+    return {
+      userId: application.userId,
+      email: application.user.email,
+      firstName: application.user.firstName,
+      lastName: application.user.lastName,
+      phone: application.user.phone,
+      accountStatus: application.user.status,
+      businessName: application.businessName,
+      cacNumber: application.cacNumber,
+      businessAddress: application.businessAddress,
+      regionId: application.regionId,
+      kycStatus: application.kycStatus,
+      submittedAt: application.kycSubmittedAt,
+      reviewedAt: application.kycReviewedAt,
+      reviewedBy: application.kycReviewedBy,
+      rejectionReason: application.kycRejectionReason,
+      documents: application.kycDocuments.map((document) => ({
+        id: document.id,
+        type: document.type,
+        fileName: document.fileName,
+        fileUrl: document.fileUrl,
+        createdAt: document.createdAt,
+      })),
+    };
+  }
+}
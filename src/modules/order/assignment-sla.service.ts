@@ -0,0 +1,95 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { ConfigService } from '@nestjs/config';
+import type { Queue } from 'bull';
+import {
+  ASSIGNMENT_SLA_DEFAULTS,
+  AcceptanceTimeoutJobData,
+  ORDER_ASSIGNMENT_JOBS,
+  ORDER_ASSIGNMENT_QUEUE,
+} from './types/assignment.types';
+
+/**
+ * Schedules and cancels the per-assignment acceptance timers.
+ *
+ * Each assignment attempt gets one delayed job keyed by the attempt ID. The
+ * processor re-checks the attempt before acting, so cancelling is best effort.
+ */
+@Injectable()
+export class AssignmentSlaService {
+  private readonly logger = new Logger(AssignmentSlaService.name);
+
+  constructor(
+    @InjectQueue(ORDER_ASSIGNMENT_QUEUE)
+    private readonly assignmentQueue: Queue,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Minutes an officer has to accept or reject an assignment
+   */
+  get acceptanceWindowMinutes(): number {
+    return parseInt(
+      this.configService.get(
+        'ASSIGNMENT_ACCEPTANCE_SLA_MINUTES',
+        `${ASSIGNMENT_SLA_DEFAULTS.ACCEPTANCE_WINDOW_MINUTES}`,
+      ),
+    );
+  }
+
+  /**
+   * Failed attempts (rejections and timeouts) before admins are alerted
+   */
+  get maxAttempts(): number {
+    return parseInt(
+      this.configService.get(
+        'MAX_REASSIGN_ATTEMPTS',
+        `${ASSIGNMENT_SLA_DEFAULTS.MAX_ATTEMPTS}`,
+      ),
+    );
+  }
+
+  /**
+   * Deadline for an assignment made now
+   */
+  respondByFrom(assignedAt: Date): Date {
+    return new Date(
+      assignedAt.getTime() + this.acceptanceWindowMinutes * 60 * 1000,
+    );
+  }
+
+  async schedule(
+    data: AcceptanceTimeoutJobData,
+    respondBy: Date,
+  ): Promise<void> {
+    try {
+      await this.assignmentQueue.add(
+        ORDER_ASSIGNMENT_JOBS.ACCEPTANCE_TIMEOUT,
+        data,
+        {
+          jobId: this.jobId(data.attemptId),
+          delay: Math.max(respondBy.getTime() - Date.now(), 0),
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule acceptance timeout for order ${data.orderNumber}: ${error.message}`,
+      );
+    }
+  }
+
+  async cancel(attemptId: string): Promise<void> {
+    try {
+      const job = await this.assignmentQueue.getJob(this.jobId(attemptId));
+      await job?.remove();
+    } catch (error) {
+      this.logger.warn(
+        `Failed to cancel acceptance timeout for attempt ${attemptId}: ${error.message}`,
+      );
+    }
+  }
+
+  private jobId(attemptId: string): string {
+    return `${ORDER_ASSIGNMENT_JOBS.ACCEPTANCE_TIMEOUT}:${attemptId}`;
+  }
+}
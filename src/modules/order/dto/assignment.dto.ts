@@ -56,6 +56,79 @@ export class AssignmentResponseDto {
   reason?: string;
 }
 
+export class AssignmentScoreComponentDto {
+  @ApiProperty({
+    description: 'Criterion being scored',
+    enum: ['region', 'specialization', 'workload', 'orderValue'],
+    example: 'region',
+  })
+  criterion: 'region' | 'specialization' | 'workload' | 'orderValue';
+
+  @ApiProperty({ description: 'Points awarded', example: 40 })
+  score: number;
+
+  @ApiProperty({
+    description: 'Maximum points for this criterion',
+    example: 40,
+  })
+  maxScore: number;
+
+  @ApiProperty({
+    description: 'Why the points were awarded',
+    example: "Officer is in the wholesaler's region",
+  })
+  detail: string;
+}
+
+export class AssignmentScoreDto {
+  @ApiProperty({
+    description: 'Strategy that ranked the officers',
+    enum: ['availability_based', 'region_aware'],
+    example: 'region_aware',
+  })
+  strategy: 'availability_based' | 'region_aware';
+
+  @ApiProperty({ description: 'User ID of the chosen officer' })
+  officerId: string;
+
+  @ApiProperty({ description: 'Name of the chosen officer' })
+  officerName: string;
+
+  @ApiProperty({
+    description: 'Total score of the chosen officer',
+    example: 82.5,
+  })
+  totalScore: number;
+
+  @ApiProperty({
+    description: 'Per-criterion breakdown',
+    type: [AssignmentScoreComponentDto],
+  })
+  components: AssignmentScoreComponentDto[];
+
+  @ApiProperty({
+    description: 'Active procurement officers considered',
+    example: 6,
+  })
+  candidatesConsidered: number;
+
+  @ApiProperty({
+    description:
+      'Officers that passed availability, capacity and order value limits',
+    example: 3,
+  })
+  candidatesEligible: number;
+
+  @ApiPropertyOptional({
+    description: 'Score of the next best officer',
+    example: 61,
+  })
+  runnerUpScore?: number;
+
+  @ApiProperty({ description: 'When the officers were scored' })
+  scoredAt: string;
+}
+
 export class AssignmentStatusDto {
   @ApiProperty({
     description: 'Success status',
@@ -80,6 +153,7 @@ export class AssignmentStatusDto {
     respondedAt?: Date;
     assignmentNotes?: string;
     responseReason?: string;
+    scoring?: AssignmentScoreDto;
   };
 }
 
@@ -167,10 +241,10 @@ export class AutoAssignmentConfigDto {
 
   @ApiProperty({
     description: 'Auto-assignment strategy',
-    enum: ['availability_based'],
-    example: 'availability_based',
+    enum: ['availability_based', 'region_aware'],
+    example: 'region_aware',
   })
-  strategy: 'availability_based';
+  strategy: 'availability_based' | 'region_aware';
 
   @ApiProperty({
     description:
@@ -12,6 +12,7 @@ import {
   IsDateString,
   IsInt,
   IsIn,
+  IsBoolean,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { OrderStatus, OrderItemStatus } from '@prisma/client';
@@ -78,12 +79,13 @@ export class OrderItemDto {
   productId: string;
 
   @ApiProperty({
-    description: 'Quantity to order',
+    description:
+      'Quantity to order. Must meet the MIN_ORDER_ITEM_QUANTITY system setting',
     example: 50,
-    minimum: 10,
+    minimum: 1,
   })
   @IsNumber()
-  @Min(10)
+  @Min(1)
   quantity: number;
 
   @ApiProperty({
@@ -229,7 +231,15 @@ export class ListOrdersQueryDto {
 // New DTOs for payment initiation
 
 export class InitiatePaymentDto {
-  // Currently empty - could be extended in future for payment preferences
+  @ApiProperty({
+    description:
+      'Pay from the wallet balance first; any remainder is invoiced through the gateway',
+    example: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  useWallet?: boolean;
 }
 
 export class PaymentResponseDto {
@@ -264,6 +274,41 @@ export class PaymentResponseDto {
     checkoutUrl: string;
     expiryDate: string;
     invoiceReference: string;
+    // Set when the wallet paid some or all of the order; with nothing left
+    // due the order is already confirmed and no invoice is created
+    amountPaidFromWallet?: number;
+    amountDue?: number;
+  };
+}
+
+export class CreditConfirmationResponseDto {
+  @ApiProperty({
+    description: 'Success status',
+    example: true,
+  })
+  success: boolean;
+
+  @ApiProperty({
+    description: 'Response message',
+    example: 'Order confirmed on credit',
+  })
+  message: string;
+
+  @ApiProperty({
+    description: 'Confirmed order and the credit invoice raised for it',
+  })
+  data: {
+    order: {
+      id: string;
+      orderNumber: string;
+      totalAmount: number;
+      status: string;
+    };
+    creditInvoice: {
+      id: string;
+      amount: number;
+      dueDate: string;
+    };
   };
 }
 
@@ -27,6 +27,27 @@ export class OrderItemResponseDto {
   status: string;
 }
 
+export class OrderPaymentSummaryDto {
+  @ApiProperty({
+    description: 'Total received across payments for the order',
+    example: 150000,
+  })
+  amountPaid: number;
+
+  @ApiProperty({
+    description: 'Still to be paid before the order is confirmed',
+    example: 0,
+  })
+  outstandingAmount: number;
+
+  @ApiProperty({
+    description:
+      'Received beyond the order total and credited to the wholesaler',
+    example: 0,
+  })
+  overpaidAmount: number;
+}
+
 export class OrderResponseDto {
   @ApiProperty({ description: 'Order ID' })
   id: string;
@@ -75,4 +96,9 @@ export class OrderResponseDto {
 
   @ApiProperty({ description: 'Order items', type: [OrderItemResponseDto] })
   items: OrderItemResponseDto[];
+  @ApiProperty({
+    description: 'Paid and outstanding amounts',
+    type: OrderPaymentSummaryDto,
+  })
+  paymentSummary: OrderPaymentSummaryDto;
 }
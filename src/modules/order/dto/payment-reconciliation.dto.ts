@@ -0,0 +1,134 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import {
+  PaymentReconciliationStatus,
+  PaymentReconciliationTrigger,
+} from '@prisma/client';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+import { PAYMENT_RECONCILIATION_OUTCOMES } from '../types/payment-reconciliation.types';
+import type { PaymentReconciliationOutcome } from '../types/payment-reconciliation.types';
+
+export class PaymentReconciliationReportQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    enum: PaymentReconciliationStatus,
+    description: 'Filter by run status (case-insensitive)',
+    example: 'completed',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      return value.toUpperCase();
+    }
+    return value;
+  })
+  @IsEnum(PaymentReconciliationStatus)
+  status?: PaymentReconciliationStatus;
+
+  @ApiPropertyOptional({
+    enum: PaymentReconciliationTrigger,
+    description: 'Filter by what started the run (case-insensitive)',
+    example: 'manual',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      return value.toUpperCase();
+    }
+    return value;
+  })
+  @IsEnum(PaymentReconciliationTrigger)
+  trigger?: PaymentReconciliationTrigger;
+}
+
+export class PaymentReconciliationEntryDto {
+  @ApiProperty({ description: 'Order number', example: 'JOO-1234567890' })
+  orderNumber: string;
+
+  @ApiProperty({
+    description: 'What the sweep did with the order',
+    enum: Object.values(PAYMENT_RECONCILIATION_OUTCOMES),
+    example: PAYMENT_RECONCILIATION_OUTCOMES.CONFIRMED,
+  })
+  outcome: PaymentReconciliationOutcome;
+
+  @ApiPropertyOptional({
+    description: 'Payment recorded from the gateway invoice',
+    example: 25000,
+  })
+  amountRecorded?: number;
+
+  @ApiPropertyOptional({
+    description: 'Why the order needs review or could not be reconciled',
+    example: 'Invoice expired with 10000.00 of 25000.00 paid',
+  })
+  message?: string;
+}
+
+export class PaymentReconciliationReportResponseDto {
+  @ApiProperty({ description: 'Report ID' })
+  id: string;
+
+  @ApiProperty({
+    enum: PaymentReconciliationTrigger,
+    example: PaymentReconciliationTrigger.SCHEDULED,
+  })
+  trigger: PaymentReconciliationTrigger;
+
+  @ApiProperty({
+    enum: PaymentReconciliationStatus,
+    example: PaymentReconciliationStatus.COMPLETED,
+  })
+  status: PaymentReconciliationStatus;
+
+  @ApiPropertyOptional({
+    description: 'Admin who queued a manual run',
+    nullable: true,
+  })
+  triggeredById: string | null;
+
+  @ApiProperty({ description: 'PENDING_PAYMENT orders checked', example: 12 })
+  ordersChecked: number;
+
+  @ApiProperty({
+    description: 'Orders confirmed from a missed payment',
+    example: 1,
+  })
+  ordersConfirmed: number;
+
+  @ApiProperty({
+    description: 'Missed payments that left the order short',
+    example: 0,
+  })
+  partialPayments: number;
+
+  @ApiProperty({ description: 'Orders expired unpaid', example: 3 })
+  ordersExpired: number;
+
+  @ApiProperty({ description: 'Orders left for an admin', example: 0 })
+  needsReview: number;
+
+  @ApiProperty({ description: 'Orders that could not be checked', example: 0 })
+  failures: number;
+
+  @ApiProperty({
+    description: 'Orders the sweep changed or could not settle',
+    type: [PaymentReconciliationEntryDto],
+  })
+  entries: PaymentReconciliationEntryDto[];
+
+  @ApiPropertyOptional({
+    description: 'Why the run itself failed',
+    nullable: true,
+  })
+  error: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  startedAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  completedAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
@@ -0,0 +1,114 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { RefundDestination, RefundStatus } from '@prisma/client';
+
+export class CreateRefundDto {
+  @ApiProperty({
+    description: 'Why the money is being returned',
+    example: 'Items unavailable from supplier',
+  })
+  @IsString()
+  @MinLength(3, { message: 'Refund reason must be at least 3 characters' })
+  @MaxLength(255)
+  reason: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Order item IDs to refund for their undelivered units: short units, or everything not delivered for cancelled items. Omit to refund everything not yet refunded (order must be cancelled)',
+    example: ['order_item_uuid_1', 'order_item_uuid_2'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsString({ each: true })
+  itemIds?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Where the money goes. WALLET credits the wholesaler wallet at once instead of going back through the gateway',
+    enum: RefundDestination,
+    default: RefundDestination.ORIGINAL_PAYMENT,
+  })
+  @IsOptional()
+  @IsEnum(RefundDestination)
+  destination?: RefundDestination;
+}
+
+export class RefundItemResponseDto {
+  @ApiProperty({ description: 'Order item ID', example: 'order_item_uuid' })
+  orderItemId: string;
+
+  @ApiProperty({ description: 'Amount refunded for the item', example: 12500 })
+  amount: number;
+}
+
+export class RefundResponseDto {
+  @ApiProperty({ description: 'Refund ID', example: 'refund_uuid' })
+  id: string;
+
+  @ApiProperty({
+    description: 'Reference shared with Monnify',
+    example: 'RF-JOO-1234567890',
+  })
+  refundReference: string;
+
+  @ApiProperty({ description: 'Order number', example: 'JOO-1234567890' })
+  orderNumber: string;
+
+  @ApiProperty({
+    description: 'Monnify transaction being refunded',
+    example: 'MNFY|20240101|000001',
+  })
+  transactionReference: string;
+
+  @ApiProperty({ description: 'Refund amount', example: 25000 })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Refund reason',
+    example: 'Items unavailable from supplier',
+  })
+  reason: string;
+
+  @ApiProperty({
+    description: 'Refund status',
+    enum: RefundStatus,
+    example: RefundStatus.PENDING,
+  })
+  status: RefundStatus;
+
+  @ApiProperty({
+    enum: RefundDestination,
+    example: RefundDestination.ORIGINAL_PAYMENT,
+  })
+  destination: RefundDestination;
+
+  @ApiProperty({
+    description: 'Items covered by a partial refund; empty for full refunds',
+    type: [RefundItemResponseDto],
+  })
+  items: RefundItemResponseDto[];
+
+  @ApiPropertyOptional({
+    description: 'Why Monnify rejected the refund',
+    example: 'Insufficient balance',
+  })
+  failureReason: string | null;
+
+  @ApiProperty({ description: 'When the refund was requested' })
+  createdAt: Date;
+
+  @ApiPropertyOptional({ description: 'When Monnify completed the refund' })
+  completedAt: Date | null;
+}
@@ -0,0 +1,259 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { OrderItemStatus, ShipmentStatus } from '@prisma/client';
+
+export class ShipmentCarrierDto {
+  @ApiPropertyOptional({
+    description: 'Logistics company, or own fleet',
+    example: 'GIG Logistics',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  carrier?: string;
+
+  @ApiPropertyOptional({
+    description: 'Carrier waybill or tracking number',
+    example: 'GIG-2026-004512',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  waybillNumber?: string;
+
+  @ApiPropertyOptional({ example: 'Musa Ibrahim' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  driverName?: string;
+
+  @ApiPropertyOptional({ example: '+2348012345678' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  driverPhone?: string;
+
+  @ApiPropertyOptional({ example: 'LSD-123-XY' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  vehicleNumber?: string;
+}
+
+export class ShipmentItemDto {
+  @ApiProperty({ description: 'Order item ID', example: 'order_item_uuid' })
+  @IsString()
+  orderItemId: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Units to send. Defaults to every unit not yet delivered, short or on another shipment',
+    example: 30,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  quantity?: number;
+}
+
+export class CreateShipmentDto extends ShipmentCarrierDto {
+  @ApiProperty({
+    description: 'READY order items to send together',
+    type: [ShipmentItemDto],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ShipmentItemDto)
+  items: ShipmentItemDto[];
+
+  @ApiPropertyOptional({
+    description: 'Handling or delivery instructions',
+    example: 'Call the store manager on arrival',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class DispatchShipmentDto extends ShipmentCarrierDto {
+  @ApiPropertyOptional({
+    description: 'When the carrier collected the shipment. Defaults to now',
+    example: '2026-03-19T09:30:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  dispatchedAt?: string;
+
+  @ApiPropertyOptional({ example: 'Ikeja warehouse' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  location?: string;
+}
+
+export class CreateShipmentEventDto {
+  @ApiProperty({
+    description: 'Progress update shown on the tracking timeline',
+    example: 'Arrived at Ibadan hub',
+  })
+  @IsString()
+  @MinLength(3)
+  @MaxLength(255)
+  description: string;
+
+  @ApiPropertyOptional({ example: 'Ibadan' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  location?: string;
+
+  @ApiPropertyOptional({
+    description: 'When it happened. Defaults to now',
+    example: '2026-03-19T14:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  occurredAt?: string;
+}
+
+// Sent as multipart/form-data alongside the proof files
+export class DeliverShipmentDto {
+  @ApiProperty({
+    description: 'Name of the person who received the goods',
+    example: 'Chinedu Okafor',
+  })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  receivedBy: string;
+
+  @ApiPropertyOptional({
+    description: 'When the goods were handed over. Defaults to now',
+    example: '2026-03-20T11:15:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  deliveredAt?: string;
+
+  @ApiPropertyOptional({ example: '12 Allen Avenue, Ikeja' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  location?: string;
+}
+
+export class ShipmentReasonDto {
+  @ApiProperty({
+    description: 'Shown on the tracking timeline',
+    example: 'Store closed; customer unreachable',
+  })
+  @IsString()
+  @MinLength(3)
+  @MaxLength(255)
+  reason: string;
+}
+
+export class ShipmentItemResponseDto {
+  @ApiProperty({ description: 'Order item ID', example: 'order_item_uuid' })
+  orderItemId: string;
+
+  @ApiProperty({ example: 'Indomie Chicken 70g' })
+  productName: string;
+
+  @ApiProperty({ description: 'Units on this shipment', example: 50 })
+  quantity: number;
+
+  @ApiProperty({ enum: OrderItemStatus, example: OrderItemStatus.SHIPPED })
+  status: OrderItemStatus;
+}
+
+export class ShipmentEventResponseDto {
+  @ApiProperty({ enum: ShipmentStatus, example: ShipmentStatus.IN_TRANSIT })
+  status: ShipmentStatus;
+
+  @ApiProperty({ example: 'Arrived at Ibadan hub' })
+  description: string;
+
+  @ApiPropertyOptional({ nullable: true, example: 'Ibadan' })
+  location: string | null;
+
+  @ApiProperty()
+  occurredAt: Date;
+}
+
+export class ShipmentResponseDto {
+  @ApiProperty({ description: 'Shipment ID' })
+  id: string;
+
+  @ApiProperty({ example: 'SHP-JOO-1234567890-1' })
+  shipmentNumber: string;
+
+  @ApiProperty({ example: 'JOO-1234567890' })
+  orderNumber: string;
+
+  @ApiProperty({ enum: ShipmentStatus, example: ShipmentStatus.DISPATCHED })
+  status: ShipmentStatus;
+
+  @ApiPropertyOptional({ nullable: true })
+  carrier: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  waybillNumber: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  driverName: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  driverPhone: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  vehicleNumber: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  notes: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  dispatchedAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  deliveredAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  receivedBy: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Photo taken at handover',
+    nullable: true,
+  })
+  proofOfDeliveryUrl: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  signatureUrl: string | null;
+
+  @ApiProperty({ type: [ShipmentItemResponseDto] })
+  items: ShipmentItemResponseDto[];
+
+  @ApiProperty({
+    description: 'Tracking timeline, oldest first',
+    type: [ShipmentEventResponseDto],
+  })
+  events: ShipmentEventResponseDto[];
+
+  @ApiProperty()
+  createdAt: Date;
+}
@@ -0,0 +1,67 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { OrderItemStatus, RefundDestination } from '@prisma/client';
+import { RefundResponseDto } from './refund.dto';
+
+export class RecordShortfallDto {
+  @ApiProperty({
+    description:
+      'Units that will not be supplied. Cannot include units already delivered or on an active shipment',
+    example: 5,
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Why the units cannot be supplied; used as the refund reason',
+    example: 'Supplier only had 45 cartons',
+  })
+  @IsString()
+  @MinLength(3)
+  @MaxLength(255)
+  reason: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Where the refund for a paid order goes. Credit orders have their invoice reduced instead',
+    enum: RefundDestination,
+    default: RefundDestination.ORIGINAL_PAYMENT,
+  })
+  @IsOptional()
+  @IsEnum(RefundDestination)
+  refundDestination?: RefundDestination;
+}
+
+export class ShortfallResponseDto {
+  @ApiProperty({ description: 'Order item ID', example: 'order_item_uuid' })
+  orderItemId: string;
+
+  @ApiProperty({ example: 50 })
+  quantity: number;
+
+  @ApiProperty({ description: 'Units delivered so far', example: 20 })
+  fulfilledQuantity: number;
+
+  @ApiProperty({ description: 'Units that will not be supplied', example: 5 })
+  shortQuantity: number;
+
+  @ApiProperty({ enum: OrderItemStatus, example: OrderItemStatus.READY })
+  status: OrderItemStatus;
+
+  @ApiProperty({
+    description:
+      'Refunds issued for the shortfall, one per payment drawn on. Empty for unpaid or credit orders, or if the refund could not be created and needs to be retried',
+    type: [RefundResponseDto],
+  })
+  refunds: RefundResponseDto[];
+}
@@ -0,0 +1,99 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { WebhookEventStatus } from '@prisma/client';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+
+export class WebhookEventQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    enum: WebhookEventStatus,
+    description: 'Filter by processing status (case-insensitive)',
+    example: 'failed',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      return value.toUpperCase();
+    }
+    return value;
+  })
+  @IsEnum(WebhookEventStatus)
+  status?: WebhookEventStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by gateway event type',
+    example: 'SUCCESSFUL_TRANSACTION',
+  })
+  @IsOptional()
+  @IsString()
+  eventType?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by the gateway that sent the event',
+    example: 'monnify',
+  })
+  @IsOptional()
+  @IsString()
+  provider?: string;
+}
+
+export class WebhookEventResponseDto {
+  @ApiProperty({ description: 'Webhook event ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Gateway that sent it', example: 'monnify' })
+  provider: string;
+
+  @ApiPropertyOptional({
+    description: 'Identifies resends of the same notification',
+    example: 'monnify:SUCCESSFUL_TRANSACTION:MNFY|20240101|000001',
+    nullable: true,
+  })
+  eventKey: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Gateway event type',
+    example: 'SUCCESSFUL_TRANSACTION',
+    nullable: true,
+  })
+  eventType: string | null;
+
+  @ApiProperty({ description: 'Request headers as received' })
+  headers: unknown;
+
+  @ApiProperty({ description: 'Request body as received' })
+  payload: unknown;
+
+  @ApiProperty({ description: 'Whether the IP and signature checks passed' })
+  signatureValid: boolean;
+
+  @ApiPropertyOptional({ nullable: true })
+  clientIp: string | null;
+
+  @ApiProperty({ enum: WebhookEventStatus, example: WebhookEventStatus.FAILED })
+  status: WebhookEventStatus;
+
+  @ApiProperty({ description: 'Processing attempts so far', example: 5 })
+  attempts: number;
+
+  @ApiPropertyOptional({
+    description: 'Error from the last attempt, or why the request was rejected',
+    nullable: true,
+  })
+  lastError: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Handler outcome from the last attempt',
+    nullable: true,
+  })
+  result: unknown;
+
+  @ApiPropertyOptional({ nullable: true })
+  processedAt: Date | null;
+
+  @ApiProperty({ description: 'When the webhook was received' })
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
@@ -0,0 +1,52 @@
+import { Prisma, ProcurementOfficerStatus } from '@prisma/client';
+
+export const ASSIGNMENT_STRATEGY = 'ASSIGNMENT_STRATEGY';
+
+export type AssignmentStrategyName = 'availability_based' | 'region_aware';
+
+/**
+ * What the strategy needs to know about the order being assigned
+ */
+export interface AssignmentContext {
+  orderNumber: string;
+  totalAmount: Prisma.Decimal;
+  wholesalerRegionId: string | null;
+  categories: string[];
+}
+
+/**
+ * A procurement officer that passed the hard eligibility checks
+ */
+export interface OfficerCandidate {
+  userId: string;
+  firstName: string | null;
+  lastName: string | null;
+  regionId: string | null;
+  specializations: string[];
+  maxOrderValue: Prisma.Decimal | null;
+  maxActiveOrders: number;
+  activeOrdersCount: number;
+  availabilityStatus: ProcurementOfficerStatus;
+}
+
+export interface AssignmentScoreComponent {
+  criterion: 'region' | 'specialization' | 'workload' | 'orderValue';
+  score: number;
+  maxScore: number;
+  detail: string;
+}
+
+export interface OfficerScore {
+  candidate: OfficerCandidate;
+  totalScore: number;
+  components: AssignmentScoreComponent[];
+}
+
+/**
+ * Ranks eligible officers for an order. Higher totalScore wins; ties are
+ * broken by the caller.
+ */
+export interface AssignmentStrategy {
+  readonly name: AssignmentStrategyName;
+  score(context: AssignmentContext, candidate: OfficerCandidate): OfficerScore;
+}
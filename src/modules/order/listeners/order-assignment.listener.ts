@@ -0,0 +1,32 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { OrderService } from '../order.service';
+import { EmailEvent } from '../../email/types/email.types';
+import type { DomainEventPayload } from '../../events/types/domain-events.types';
+import { outboxChannel } from '../../outbox/types/outbox.types';
+
+@Injectable()
+export class OrderAssignmentListener {
+  private readonly logger = new Logger(OrderAssignmentListener.name);
+
+  constructor(private readonly orderService: OrderService) {}
+
+  // Errors propagate so the outbox relay retries the event
+  @OnEvent(outboxChannel(EmailEvent.ORDER_CONFIRMED, 'order-assignment'), {
+    suppressErrors: false,
+  })
+  async handleOrderConfirmed(
+    payload: DomainEventPayload<EmailEvent.ORDER_CONFIRMED>,
+  ) {
+    const assignment = await this.orderService.autoAssignOrder(
+      payload.order.orderNumber,
+      'outbox',
+    );
+
+    if (assignment) {
+      this.logger.log(
+        `Auto-assignment triggered for order ${payload.order.orderNumber}`,
+      );
+    }
+  }
+}
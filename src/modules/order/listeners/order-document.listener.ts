@@ -0,0 +1,63 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { OrderDocumentService } from '../order-document.service';
+import { NotificationService } from '../../email/services/notification.service';
+import { EmailEvent } from '../../email/types/email.types';
+import type { DomainEventPayload } from '../../events/types/domain-events.types';
+import { outboxChannel } from '../../outbox/types/outbox.types';
+
+@Injectable()
+export class OrderDocumentListener {
+  private readonly logger = new Logger(OrderDocumentListener.name);
+
+  constructor(
+    private readonly orderDocumentService: OrderDocumentService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  // Issues the tax receipt and sends the confirmation email with it attached.
+  // The email still goes out without the receipt if issuing fails; the
+  // wholesaler can download it later. Email errors propagate so the outbox
+  // relay retries the email.
+  @OnEvent(
+    outboxChannel(EmailEvent.ORDER_CONFIRMED, 'order-confirmation-email'),
+    { suppressErrors: false },
+  )
+  async handleOrderConfirmed(
+    payload: DomainEventPayload<EmailEvent.ORDER_CONFIRMED>,
+  ) {
+    let receiptUrl: string | null = null;
+    let receiptNumber: string | null = null;
+
+    try {
+      const receipt = await this.orderDocumentService.issueReceipt(
+        payload.order.id,
+      );
+      receiptUrl = receipt.fileUrl;
+      receiptNumber = receipt.documentNumber;
+    } catch (error) {
+      this.logger.error(
+        `Failed to issue receipt for order ${payload.order.orderNumber}: ${error.message}`,
+        error.stack,
+      );
+    }
+
+    try {
+      await this.notificationService.notifyOrderConfirmation(
+        payload.order,
+        receiptUrl && receiptNumber
+          ? [{ filename: `${receiptNumber}.pdf`, path: receiptUrl }]
+          : undefined,
+      );
+      this.logger.log(
+        `Order confirmation email event handled for order: ${payload.order.orderNumber}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to handle order confirmation email event: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+}
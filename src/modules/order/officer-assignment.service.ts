@@ -0,0 +1,199 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  AssignmentStatus,
+  OrderStatus,
+  ProcurementOfficerStatus,
+  UserStatus,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  ASSIGNMENT_STRATEGY,
+  AssignmentContext,
+  OfficerCandidate,
+  OfficerScore,
+} from './interfaces/assignment-strategy.interface';
+import type { AssignmentStrategy } from './interfaces/assignment-strategy.interface';
+import { AssignmentScoreDto } from './dto/assignment.dto';
+
+export interface OfficerSelection {
+  officer: OfficerCandidate;
+  score: AssignmentScoreDto;
+}
+
+/**
+ * Picks the procurement officer for an order.
+ *
+ * Hard limits (active account, AVAILABLE status, maxActiveOrders and
+ * maxOrderValue) decide who is eligible; the configured strategy ranks the
+ * rest and its breakdown is kept so admins can see why an officer was chosen.
+ */
+@Injectable()
+export class OfficerAssignmentService {
+  private readonly logger = new Logger(OfficerAssignmentService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    @Inject(ASSIGNMENT_STRATEGY)
+    private readonly strategy: AssignmentStrategy,
+  ) {}
+
+  /**
+   * Select the best eligible officer for an order, or null if nobody qualifies
+   * @param excludeUserIds - Officers to skip (e.g., those who rejected or let the order expire)
+   */
+  async selectOfficer(
+    orderNumber: string,
+    excludeUserIds: string[] = [],
+  ): Promise<OfficerSelection | null> {
+    const context = await this.buildContext(orderNumber);
+    const candidates = await this.loadCandidates(excludeUserIds);
+
+    const eligible = candidates.filter((candidate) => {
+      if (candidate.availabilityStatus !== ProcurementOfficerStatus.AVAILABLE) {
+        return false;
+      }
+      if (candidate.activeOrdersCount >= candidate.maxActiveOrders) {
+        return false;
+      }
+      if (
+        candidate.maxOrderValue &&
+        candidate.maxOrderValue.gt(0) &&
+        context.totalAmount.gt(candidate.maxOrderValue)
+      ) {
+        return false;
+      }
+      return true;
+    });
+
+    if (eligible.length === 0) {
+      this.logger.warn(
+        `No eligible procurement officers for order ${orderNumber} (${candidates.length} considered)`,
+      );
+      return null;
+    }
+
+    const ranked = eligible
+      .map((candidate) => this.strategy.score(context, candidate))
+      .sort((a, b) => this.compare(a, b));
+
+    const best = ranked[0];
+
+    return {
+      officer: best.candidate,
+      score: {
+        strategy: this.strategy.name,
+        officerId: best.candidate.userId,
+        officerName: `${best.candidate.firstName} ${best.candidate.lastName}`,
+        totalScore: best.totalScore,
+        components: best.components,
+        candidatesConsidered: candidates.length,
+        candidatesEligible: eligible.length,
+        runnerUpScore: ranked[1]?.totalScore,
+        scoredAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  private async buildContext(orderNumber: string): Promise<AssignmentContext> {
+    const order = await this.prismaService.order.findUniqueOrThrow({
+      where: { orderNumber },
+      select: {
+        orderNumber: true,
+        totalAmount: true,
+        wholesaler: {
+          select: { wholesalerProfile: { select: { regionId: true } } },
+        },
+        items: {
+          select: {
+            product: {
+              select: {
+                subcategory: {
+                  select: { category: { select: { name: true } } },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const categories = [
+      ...new Set(
+        order.items.flatMap((item) =>
+          item.product.subcategory
+            ? [item.product.subcategory.category.name]
+            : [],
+        ),
+      ),
+    ];
+
+    return {
+      orderNumber: order.orderNumber,
+      totalAmount: order.totalAmount,
+      wholesalerRegionId: order.wholesaler.wholesalerProfile?.regionId ?? null,
+      categories,
+    };
+  }
+
+  private async loadCandidates(
+    excludeUserIds: string[],
+  ): Promise<OfficerCandidate[]> {
+    const officers =
+      await this.prismaService.procurementOfficerProfile.findMany({
+        where: {
+          user: { status: UserStatus.ACTIVE },
+          ...(excludeUserIds.length > 0 && {
+            userId: { notIn: excludeUserIds },
+          }),
+        },
+        include: {
+          user: {
+            select: {
+              firstName: true,
+              lastName: true,
+              _count: {
+                select: {
+                  assignedOrders: {
+                    where: {
+                      status: {
+                        in: [OrderStatus.ASSIGNED, OrderStatus.IN_PROGRESS],
+                      },
+                      assignmentStatus: {
+                        in: [
+                          AssignmentStatus.PENDING_ACCEPTANCE,
+                          AssignmentStatus.ACCEPTED,
+                        ],
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+
+    return officers.map((officer) => ({
+      userId: officer.userId,
+      firstName: officer.user.firstName,
+      lastName: officer.user.lastName,
+      regionId: officer.regionId,
+      specializations: officer.specializations,
+      maxOrderValue: officer.maxOrderValue,
+      maxActiveOrders: officer.maxActiveOrders || 5, // Default to 5 if not set
+      activeOrdersCount: officer.user._count.assignedOrders,
+      availabilityStatus: officer.availabilityStatus,
+    }));
+  }
+
+  // Highest score first, then least busy, then user ID for consistency
+  private compare(a: OfficerScore, b: OfficerScore): number {
+    if (a.totalScore !== b.totalScore) {
+      return b.totalScore - a.totalScore;
+    }
+    if (a.candidate.activeOrdersCount !== b.candidate.activeOrdersCount) {
+      return a.candidate.activeOrdersCount - b.candidate.activeOrdersCount;
+    }
+    return a.candidate.userId.localeCompare(b.candidate.userId);
+  }
+}
@@ -0,0 +1,509 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  OrderDocument,
+  OrderDocumentType,
+  OrderStatus,
+  PaymentStatus,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import PDFDocument from 'pdfkit';
+import { PrismaService } from '../prisma/prisma.service';
+import { CloudinaryService } from '../storage/cloudinary.service';
+import { SystemConfigService } from '../system-config/system-config.service';
+import {
+  InvoiceIssuer,
+  ORDER_DOCUMENT_FOLDER,
+  ORDER_DOCUMENT_PREFIXES,
+  OrderDocumentFile,
+  PROFORMA_ORDER_STATUSES,
+  TAX_RECEIPT_SEQUENCE_DIGITS,
+} from './types/order-document.types';
+
+const orderDocumentInclude = {
+  items: {
+    include: { product: { select: { name: true } } },
+    orderBy: { createdAt: 'asc' },
+  },
+  wholesaler: {
+    select: { firstName: true, lastName: true, email: true, phone: true },
+  },
+  payments: {
+    where: { status: PaymentStatus.COMPLETED },
+    orderBy: { paidAt: 'asc' },
+  },
+  creditInvoice: { select: { dueDate: true } },
+} satisfies Prisma.OrderInclude;
+
+type OrderForDocument = Prisma.OrderGetPayload<{
+  include: typeof orderDocumentInclude;
+}>;
+
+/**
+ * Proforma invoices and tax receipts for orders.
+ *
+ * Unpaid orders get a proforma, refreshed from the order each time it is
+ * requested. Once an order is confirmed it gets a tax receipt with the next
+ * number in a gapless yearly series; its figures are fixed when issued and
+ * the PDF is rendered from them, so the stored copy and any later download
+ * match. PDFs are kept in Cloudinary; storage failures do not block issuing.
+ */
+@Injectable()
+export class OrderDocumentService {
+  private readonly logger = new Logger(OrderDocumentService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly cloudinaryService: CloudinaryService,
+    private readonly configService: ConfigService,
+    private readonly systemConfigService: SystemConfigService,
+  ) {}
+
+  /**
+   * The current invoice for an order: a proforma while it awaits payment,
+   * its tax receipt after that
+   * @throws BadRequestException for an order cancelled before it was paid
+   */
+  async getInvoicePdf(
+    orderNumber: string,
+    userId: string,
+  ): Promise<OrderDocumentFile> {
+    const order = await this.findViewableOrder(orderNumber, userId);
+
+    let document: OrderDocument;
+    if (PROFORMA_ORDER_STATUSES.includes(order.status)) {
+      document = await this.upsertProforma(order);
+    } else if (order.status === OrderStatus.CANCELLED) {
+      const receipt = await this.prismaService.orderDocument.findUnique({
+        where: {
+          orderId_type: {
+            orderId: order.id,
+            type: OrderDocumentType.TAX_RECEIPT,
+          },
+        },
+      });
+      if (!receipt) {
+        throw new BadRequestException(
+          'This order was cancelled before payment and has no invoice',
+        );
+      }
+      document = receipt;
+    } else {
+      document = await this.findOrCreateReceipt(order.id);
+    }
+
+    const content = await this.render(document, order);
+
+    // Proformas change with the order, so their stored copy is replaced
+    if (
+      document.type === OrderDocumentType.PROFORMA_INVOICE ||
+      !document.fileUrl
+    ) {
+      await this.store(document, content);
+    }
+
+    return { filename: `${document.documentNumber}.pdf`, content };
+  }
+
+  /**
+   * Issue the tax receipt for a confirmed order and store its PDF. Safe to
+   * call again; the existing receipt is returned.
+   */
+  async issueReceipt(orderId: string): Promise<OrderDocument> {
+    const document = await this.findOrCreateReceipt(orderId);
+
+    if (document.fileUrl) {
+      return document;
+    }
+
+    const order = await this.prismaService.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: orderDocumentInclude,
+    });
+
+    const content = await this.render(document, order);
+    return (await this.store(document, content)) ?? document;
+  }
+
+  private async findOrCreateReceipt(orderId: string): Promise<OrderDocument> {
+    return this.prismaService.$transaction(async (tx) => {
+      // Lock the order so concurrent requests cannot take two numbers
+      const order = await tx.order.update({
+        where: { id: orderId },
+        data: { updatedAt: new Date() },
+        select: {
+          id: true,
+          orderNumber: true,
+          status: true,
+          totalAmount: true,
+        },
+      });
+
+      const existing = await tx.orderDocument.findUnique({
+        where: {
+          orderId_type: { orderId, type: OrderDocumentType.TAX_RECEIPT },
+        },
+      });
+      if (existing) {
+        return existing;
+      }
+
+      if (
+        PROFORMA_ORDER_STATUSES.includes(order.status) ||
+        order.status === OrderStatus.CANCELLED
+      ) {
+        throw new BadRequestException(
+          `Order ${order.orderNumber} has not been confirmed; no receipt can be issued`,
+        );
+      }
+
+      const issuedAt = new Date();
+      const year = issuedAt.getFullYear();
+      const sequence = await tx.documentSequence.upsert({
+        where: { key: `${OrderDocumentType.TAX_RECEIPT}:${year}` },
+        create: {
+          key: `${OrderDocumentType.TAX_RECEIPT}:${year}`,
+          lastValue: 1,
+        },
+        update: { lastValue: { increment: 1 } },
+      });
+
+      const document = await tx.orderDocument.create({
+        data: {
+          orderId,
+          type: OrderDocumentType.TAX_RECEIPT,
+          documentNumber: `${ORDER_DOCUMENT_PREFIXES.TAX_RECEIPT}${year}-${String(sequence.lastValue).padStart(TAX_RECEIPT_SEQUENCE_DIGITS, '0')}`,
+          ...(await this.vatBreakdown(order.totalAmount)),
+          issuedAt,
+        },
+      });
+
+      this.logger.log(
+        `Issued tax receipt ${document.documentNumber} for order ${order.orderNumber}`,
+      );
+
+      return document;
+    });
+  }
+
+  private async upsertProforma(
+    order: OrderForDocument,
+  ): Promise<OrderDocument> {
+    const figures = {
+      ...(await this.vatBreakdown(order.totalAmount)),
+      issuedAt: new Date(),
+    };
+
+    return this.prismaService.orderDocument.upsert({
+      where: {
+        orderId_type: {
+          orderId: order.id,
+          type: OrderDocumentType.PROFORMA_INVOICE,
+        },
+      },
+      create: {
+        orderId: order.id,
+        type: OrderDocumentType.PROFORMA_INVOICE,
+        documentNumber: `${ORDER_DOCUMENT_PREFIXES.PROFORMA_INVOICE}${order.orderNumber}`,
+        ...figures,
+      },
+      update: figures,
+    });
+  }
+
+  /**
+   * Order prices include VAT, so the tax is taken out of the total
+   */
+  private async vatBreakdown(totalAmount: Prisma.Decimal) {
+    const vatRate = new Prisma.Decimal(
+      await this.systemConfigService.get('VAT_RATE_PERCENT'),
+    );
+    const vatAmount = totalAmount
+      .times(vatRate)
+      .dividedBy(vatRate.plus(100))
+      .toDecimalPlaces(2);
+
+    return {
+      subtotal: totalAmount.minus(vatAmount),
+      vatRate,
+      vatAmount,
+      totalAmount,
+    };
+  }
+
+  /**
+   * Upload a rendered document, overwriting any earlier copy
+   * @returns The updated document, or null if the upload failed
+   */
+  private async store(
+    document: OrderDocument,
+    content: Buffer,
+  ): Promise<OrderDocument | null> {
+    try {
+      const upload = await this.cloudinaryService.uploadFile(content, {
+        folder: ORDER_DOCUMENT_FOLDER,
+        publicId: `${document.documentNumber}.pdf`,
+        resourceType: 'raw',
+        tags: ['order-document', document.type.toLowerCase()],
+      });
+
+      return await this.prismaService.orderDocument.update({
+        where: { id: document.id },
+        data: { fileUrl: upload.secureUrl, filePublicId: upload.publicId },
+      });
+    } catch (error) {
+      // The PDF can always be rendered again from the stored figures
+      this.logger.warn(
+        `Failed to store ${document.documentNumber}: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  private async findViewableOrder(
+    orderNumber: string,
+    userId: string,
+  ): Promise<OrderForDocument> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const order = await this.prismaService.order.findUnique({
+      where: { orderNumber },
+      include: orderDocumentInclude,
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (user.role === UserRole.WHOLESALER && order.wholesalerId !== userId) {
+      throw new ForbiddenException('You can only view your own orders');
+    }
+
+    if (
+      user.role === UserRole.PROCUREMENT_OFFICER &&
+      order.assignedProcurementOfficerId !== userId
+    ) {
+      throw new ForbiddenException('You can only view orders assigned to you');
+    }
+
+    return order;
+  }
+
+  private render(
+    document: OrderDocument,
+    order: OrderForDocument,
+  ): Promise<Buffer> {
+    const issuer = this.getIssuer();
+    const isReceipt = document.type === OrderDocumentType.TAX_RECEIPT;
+    // A receipt shows what had been paid when it was issued
+    const payments = isReceipt
+      ? order.payments.filter(
+          (payment) => payment.paidAt && payment.paidAt <= document.issuedAt,
+        )
+      : order.payments;
+    const amountPaid = payments.reduce(
+      (sum, payment) => sum.plus(payment.amount),
+      new Prisma.Decimal(0),
+    );
+    const balanceDue = Prisma.Decimal.max(
+      document.totalAmount.minus(amountPaid),
+      0,
+    );
+
+    return new Promise((resolve, reject) => {
+      const pdf = new PDFDocument({
+        size: 'A4',
+        margin: 50,
+        info: {
+          Title: `${isReceipt ? 'Tax receipt' : 'Proforma invoice'} ${document.documentNumber}`,
+          Author: issuer.name,
+          CreationDate: document.issuedAt,
+        },
+      });
+      const chunks: Buffer[] = [];
+      pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+      pdf.on('end', () => resolve(Buffer.concat(chunks)));
+      pdf.on('error', reject);
+
+      const left = pdf.page.margins.left;
+      const width = pdf.page.width - left - pdf.page.margins.right;
+
+      // Seller and document heading
+      pdf.font('Helvetica-Bold').fontSize(18).text(issuer.name);
+      pdf.font('Helvetica').fontSize(9);
+      if (issuer.address) pdf.text(issuer.address);
+      if (issuer.tin) pdf.text(`TIN: ${issuer.tin}`);
+      pdf.moveDown();
+
+      pdf
+        .font('Helvetica-Bold')
+        .fontSize(14)
+        .text(isReceipt ? 'TAX RECEIPT' : 'PROFORMA INVOICE');
+      pdf.font('Helvetica').fontSize(10);
+      pdf.text(`Number: ${document.documentNumber}`);
+      pdf.text(`Date: ${this.formatDate(document.issuedAt)}`);
+      pdf.text(`Order: ${order.orderNumber}`);
+      pdf.text(`Order date: ${this.formatDate(order.orderDate)}`);
+      pdf.moveDown();
+
+      // Customer
+      pdf.font('Helvetica-Bold').text('Bill to');
+      pdf.font('Helvetica');
+      pdf.text(`${order.wholesaler.firstName} ${order.wholesaler.lastName}`);
+      pdf.text(order.wholesaler.email);
+      if (order.wholesaler.phone) pdf.text(order.wholesaler.phone);
+      const address = this.formatAddress(order.deliveryAddress);
+      if (address) pdf.text(`Deliver to: ${address}`);
+      pdf.moveDown();
+
+      // Line items
+      const columns = [
+        { label: 'Item', x: left, width: width * 0.5, align: 'left' },
+        {
+          label: 'Qty',
+          x: left + width * 0.5,
+          width: width * 0.1,
+          align: 'right',
+        },
+        {
+          label: 'Unit price',
+          x: left + width * 0.6,
+          width: width * 0.2,
+          align: 'right',
+        },
+        {
+          label: 'Amount',
+          x: left + width * 0.8,
+          width: width * 0.2,
+          align: 'right',
+        },
+      ] as const;
+      const row = (cells: string[], bold = false) => {
+        if (pdf.y > pdf.page.height - pdf.page.margins.bottom - 40) {
+          pdf.addPage();
+        }
+        const y = pdf.y;
+        pdf.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+        const heights = cells.map((cell, index) => {
+          pdf.text(cell, columns[index].x, y, {
+            width: columns[index].width,
+            align: columns[index].align,
+          });
+          return pdf.y - y;
+        });
+        pdf.x = left;
+        pdf.y = y + Math.max(...heights) + 4;
+      };
+
+      row(
+        columns.map((column) => column.label),
+        true,
+      );
+      pdf
+        .moveTo(left, pdf.y)
+        .lineTo(left + width, pdf.y)
+        .stroke();
+      pdf.moveDown(0.3);
+      for (const item of order.items) {
+        row([
+          item.product.name,
+          String(item.quantity),
+          this.formatAmount(item.unitPrice),
+          this.formatAmount(item.lineTotal),
+        ]);
+      }
+      pdf
+        .moveTo(left, pdf.y)
+        .lineTo(left + width, pdf.y)
+        .stroke();
+      pdf.moveDown(0.3);
+
+      // Totals
+      const total = (label: string, amount: Prisma.Decimal, bold = false) =>
+        row(['', '', label, this.formatAmount(amount)], bold);
+      total('Subtotal (excl. VAT)', document.subtotal);
+      total(`VAT (${document.vatRate.toString()}%)`, document.vatAmount);
+      total('Total', document.totalAmount, true);
+      pdf.moveDown();
+
+      // Payments
+      if (payments.length > 0) {
+        pdf.font('Helvetica-Bold').text('Payments', left);
+        pdf.font('Helvetica');
+        for (const payment of payments) {
+          pdf.text(
+            `${payment.paidAt ? this.formatDate(payment.paidAt) : '-'}  ${payment.paymentMethod ?? 'PAYMENT'}  ${payment.transactionRef ?? payment.monnifyInvoiceRef}  NGN ${this.formatAmount(payment.amount)}`,
+          );
+        }
+        pdf.moveDown(0.5);
+      }
+      total('Amount paid', amountPaid);
+      total(isReceipt ? 'Balance due' : 'Amount due', balanceDue, true);
+      pdf.moveDown();
+
+      pdf.font('Helvetica').fontSize(8);
+      if (isReceipt && order.creditInvoice && balanceDue.gt(0)) {
+        pdf.text(
+          `Supplied on credit terms; the balance is due by ${this.formatDate(order.creditInvoice.dueDate)}.`,
+          left,
+        );
+      }
+      pdf.text(
+        isReceipt
+          ? `Amounts in NGN. Prices include VAT at ${document.vatRate.toString()}%.`
+          : 'This proforma is not a tax invoice. Amounts in NGN; prices include VAT. A tax receipt is issued once payment is confirmed.',
+        left,
+      );
+
+      pdf.end();
+    });
+  }
+
+  private getIssuer(): InvoiceIssuer {
+    return {
+      name: this.configService.get<string>('INVOICE_COMPANY_NAME', 'JOOAV'),
+      address: this.configService.get<string>('INVOICE_COMPANY_ADDRESS'),
+      tin: this.configService.get<string>('INVOICE_COMPANY_TIN'),
+    };
+  }
+
+  private formatAddress(address: Prisma.JsonValue): string | null {
+    if (typeof address === 'string') {
+      return address.trim() || null;
+    }
+
+    if (!address || typeof address !== 'object' || Array.isArray(address)) {
+      return null;
+    }
+
+    const parts = Object.values(address).filter(
+      (value): value is string => typeof value === 'string' && !!value.trim(),
+    );
+    return parts.length > 0 ? parts.join(', ') : null;
+  }
+
+  private formatAmount(amount: Prisma.Decimal): string {
+    return Number(amount).toLocaleString('en-NG', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
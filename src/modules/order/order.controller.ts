@@ -11,10 +11,15 @@ import {
   UseGuards,
   HttpStatus,
   Logger,
-  BadRequestException,
   Headers,
   Req,
+  Res,
+  Inject,
+  UploadedFiles,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
 import {
   ApiTags,
   ApiOperation,
@@ -24,9 +29,16 @@ import {
   ApiQuery,
   ApiNotFoundResponse,
   ApiForbiddenResponse,
+  ApiConsumes,
+  ApiBody,
 } from '@nestjs/swagger';
 import { OrderService } from './order.service';
-import { MonnifyService } from '../payment/monnify.service';
+import { RefundService } from './refund.service';
+import { WebhookEventService } from './webhook-event.service';
+import { OrderDocumentService } from './order-document.service';
+import { ShipmentService } from './shipment.service';
+import { PAYMENT_GATEWAY } from '../payment/interfaces/payment-gateway.interface';
+import type { PaymentGateway } from '../payment/interfaces/payment-gateway.interface';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
@@ -43,10 +55,23 @@ import {
   ListOrdersQueryDto,
   InitiatePaymentDto,
   PaymentResponseDto,
+  CreditConfirmationResponseDto,
   DraftOrderResponseDto,
 } from './dto/create-order.dto';
 import { UpdateOrderDto } from './dto/update-order.dto';
+import { ConvertReorderSuggestionsDto } from '../inventory/dto';
 import { WebhookResponseDto } from './dto/webhook.dto';
+import { CreateRefundDto, RefundResponseDto } from './dto/refund.dto';
+import { RecordShortfallDto, ShortfallResponseDto } from './dto/shortfall.dto';
+import {
+  CreateShipmentDto,
+  CreateShipmentEventDto,
+  DeliverShipmentDto,
+  DispatchShipmentDto,
+  ShipmentReasonDto,
+  ShipmentResponseDto,
+} from './dto/shipment.dto';
+import type { ShipmentProofFiles } from './types/shipment.types';
 import { SuccessResponse } from '../../common/dto/api-response.dto';
 import {
   AssignOrderDto,
@@ -58,11 +83,13 @@ import {
   AvailabilityStatusDto,
 } from './dto/assignment.dto';
 import { UnifiedAuthGuard } from '../../common/guards/unified-auth.guard';
+import { VerifiedEmailGuard } from '../../common/guards/verified-email.guard';
+import { RequireVerifiedEmail } from '../../common/decorators/require-verified-email.decorator';
 import { Public } from '../../common/decorators/public.decorator';
 
 @ApiTags('Orders')
 @Controller('orders')
-@UseGuards(UnifiedAuthGuard, RolesGuard)
+@UseGuards(UnifiedAuthGuard, RolesGuard, VerifiedEmailGuard)
 @ApiBearerAuth('access-token')
 @ApiBearerAuth('admin-access-token')
 export class OrderController {
@@ -70,10 +97,16 @@ export class OrderController {
 
   constructor(
     private readonly orderService: OrderService,
-    private readonly monnifyService: MonnifyService,
+    private readonly refundService: RefundService,
+    private readonly webhookEventService: WebhookEventService,
+    private readonly orderDocumentService: OrderDocumentService,
+    private readonly shipmentService: ShipmentService,
+    @Inject(PAYMENT_GATEWAY)
+    private readonly paymentGateway: PaymentGateway,
   ) {}
 
   @Post()
+  @RequireVerifiedEmail()
   @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.WHOLESALER)
   @ApiOperation({
     summary: 'Create draft order',
@@ -92,12 +125,33 @@ export class OrderController {
     return this.orderService.createOrder(createOrderDto, userId);
   }
 
+  @Post('reorder')
+  @RequireVerifiedEmail()
+  @Roles(UserRole.WHOLESALER)
+  @ApiOperation({
+    summary: 'Create draft order from reorder suggestions',
+    description:
+      'Converts the current suggestions from GET /inventory/reorder-suggestions into a draft order in one call. Optionally restrict to specific SKUs.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Draft order created successfully',
+    type: DraftOrderResponseDto,
+  })
+  async createOrderFromReorderSuggestions(
+    @Body() dto: ConvertReorderSuggestionsDto,
+    @CurrentUserId() userId: string,
+  ): Promise<DraftOrderResponseDto> {
+    return this.orderService.createOrderFromReorderSuggestions(dto, userId);
+  }
+
   @Post(':orderNumber/initiate-payment')
+  @RequireVerifiedEmail()
   @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.WHOLESALER)
   @ApiOperation({
     summary: 'Initiate payment for draft order',
     description:
-      'Converts a DRAFT order to PENDING_PAYMENT with Monnify integration and virtual account generation',
+      'Converts a DRAFT order to PENDING_PAYMENT with Monnify integration and virtual account generation. With useWallet the wallet balance is applied first; an order the wallet covers in full is confirmed without an invoice',
   })
   @ApiParam({
     name: 'orderNumber',
@@ -119,10 +173,50 @@ export class OrderController {
     @Body() initiatePaymentDto: InitiatePaymentDto,
     @CurrentUserId() userId: string,
   ): Promise<PaymentResponseDto> {
-    return this.orderService.initiatePayment(orderNumber, userId);
+    return this.orderService.initiatePayment(
+      orderNumber,
+      userId,
+      initiatePaymentDto,
+    );
+  }
+
+  @Post(':orderNumber/confirm-on-credit')
+  @RequireVerifiedEmail()
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.WHOLESALER)
+  @ApiOperation({
+    summary: 'Confirm draft order on credit',
+    description:
+      'Confirms a DRAFT order against the wholesaler credit limit instead of taking payment. A credit invoice falls due after the wholesaler payment terms',
+  })
+  @ApiParam({
+    name: 'orderNumber',
+    description: 'Order number to confirm on credit',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Order confirmed on credit',
+    type: CreditConfirmationResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Credit not enabled, limit exceeded or order not a valid draft',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied or order belongs to another user',
+  })
+  @ApiNotFoundResponse({
+    description: 'Order not found',
+  })
+  async confirmOnCredit(
+    @Param('orderNumber') orderNumber: string,
+    @CurrentUserId() userId: string,
+  ): Promise<CreditConfirmationResponseDto> {
+    return this.orderService.confirmOnCredit(orderNumber, userId);
   }
 
   @Post(':orderNumber/reinitiate-payment')
+  @RequireVerifiedEmail()
   @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.WHOLESALER)
   @ApiOperation({
     summary: 'Reinitiate payment for expired orders',
@@ -181,7 +275,8 @@ export class OrderController {
   )
   @ApiOperation({
     summary: 'Verify payment status',
-    description: 'Checks Monnify payment status and updates order accordingly',
+    description:
+      'Checks payment status with the configured gateway and updates order accordingly',
   })
   @ApiParam({
     name: 'orderNumber',
@@ -260,6 +355,51 @@ export class OrderController {
     );
   }
 
+  @Post(':orderNumber/items/:itemId/shortfall')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.PROCUREMENT_OFFICER)
+  @ApiOperation({
+    summary: 'Record units of an order item that cannot be supplied',
+    description:
+      'Marks units as short (admin or assigned procurement officer). Credit orders have their invoice reduced; paid orders are refunded for the short units, to the original payment or the wallet. The item is marked DELIVERED or UNAVAILABLE if nothing else is owed, and the order completes once every unit still owed has been delivered',
+  })
+  @ApiParam({
+    name: 'orderNumber',
+    description: 'Order number',
+  })
+  @ApiParam({
+    name: 'itemId',
+    description: 'Order item ID',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Shortfall recorded',
+    type: ShortfallResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Order not being fulfilled, or more units than are still to be sent',
+  })
+  @ApiNotFoundResponse({ description: 'Order item not found' })
+  async recordShortfall(
+    @Param('orderNumber') orderNumber: string,
+    @Param('itemId') itemId: string,
+    @Body() recordShortfallDto: RecordShortfallDto,
+    @CurrentUserId() userId: string,
+  ): Promise<SuccessResponse<ShortfallResponseDto>> {
+    const shortfall = await this.orderService.recordShortfall(
+      orderNumber,
+      itemId,
+      recordShortfallDto,
+      userId,
+    );
+
+    return new SuccessResponse(
+      `Recorded ${recordShortfallDto.quantity} short unit(s)`,
+      shortfall,
+    );
+  }
+
   @Delete(':orderNumber/cancel')
   @UseGuards(UnifiedAuthGuard, RolesGuard)
   @Roles(
@@ -291,6 +431,402 @@ export class OrderController {
     return new SuccessResponse(result.message, result.data);
   }
 
+  @Post(':orderNumber/refunds')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Refund a paid order (Admin only)',
+    description:
+      'Refund the short units of items, or what was not delivered of cancelled items, or omit itemIds to refund the rest of the payment for a cancelled order. Gateway refunds complete when the payment gateway sends a SUCCESSFUL_REFUND webhook; wallet refunds complete at once',
+  })
+  @ApiParam({
+    name: 'orderNumber',
+    description: 'Order number to refund',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Refunds initiated, one per payment the amount is drawn from',
+    type: [RefundResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Order not paid, items not refundable, or amount exceeds what is left on its payments',
+  })
+  @ApiNotFoundResponse({ description: 'Order or order item not found' })
+  async createRefund(
+    @Param('orderNumber') orderNumber: string,
+    @Body() createRefundDto: CreateRefundDto,
+    @CurrentUserId() userId: string,
+  ): Promise<SuccessResponse<RefundResponseDto[]>> {
+    const refunds = await this.refundService.createRefund(
+      orderNumber,
+      createRefundDto,
+      userId,
+    );
+
+    return new SuccessResponse(
+      `Refund ${refunds.map((refund) => refund.refundReference).join(', ')} initiated`,
+      refunds,
+    );
+  }
+
+  @Get(':orderNumber/refunds')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'List refunds for an order (Admin only)',
+  })
+  @ApiParam({
+    name: 'orderNumber',
+    description: 'Order number',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Refunds retrieved successfully',
+    type: [RefundResponseDto],
+  })
+  @ApiNotFoundResponse({ description: 'Order not found' })
+  async getOrderRefunds(
+    @Param('orderNumber') orderNumber: string,
+  ): Promise<SuccessResponse<RefundResponseDto[]>> {
+    const refunds = await this.refundService.findOrderRefunds(orderNumber);
+
+    return new SuccessResponse(
+      `Found ${refunds.length} refund(s) for order ${orderNumber}`,
+      refunds,
+    );
+  }
+
+  @Post(':orderNumber/shipments')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.PROCUREMENT_OFFICER)
+  @ApiOperation({
+    summary: 'Create a shipment (Admin or assigned procurement officer)',
+    description:
+      'Group READY order items into a shipment. Items stay READY until the shipment is dispatched',
+  })
+  @ApiParam({ name: 'orderNumber', description: 'Order number' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Shipment created',
+    type: ShipmentResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Order not confirmed, or items not READY or already on a shipment',
+  })
+  @ApiNotFoundResponse({ description: 'Order or order item not found' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  async createShipment(
+    @Param('orderNumber') orderNumber: string,
+    @Body() createShipmentDto: CreateShipmentDto,
+    @CurrentUserId() userId: string,
+  ): Promise<SuccessResponse<ShipmentResponseDto>> {
+    const shipment = await this.shipmentService.createShipment(
+      orderNumber,
+      createShipmentDto,
+      userId,
+    );
+
+    return new SuccessResponse(
+      `Shipment ${shipment.shipmentNumber} created`,
+      shipment,
+    );
+  }
+
+  @Get(':orderNumber/shipments')
+  @Roles(
+    UserRole.ADMIN,
+    UserRole.SUPER_ADMIN,
+    UserRole.WHOLESALER,
+    UserRole.PROCUREMENT_OFFICER,
+  )
+  @ApiOperation({
+    summary: 'Track order shipments',
+    description:
+      'Shipments on the order with carrier details, proof of delivery and their tracking timelines',
+  })
+  @ApiParam({ name: 'orderNumber', description: 'Order number' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Shipments retrieved successfully',
+    type: [ShipmentResponseDto],
+  })
+  @ApiNotFoundResponse({ description: 'Order not found' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  async getOrderShipments(
+    @Param('orderNumber') orderNumber: string,
+    @CurrentUserId() userId: string,
+  ): Promise<SuccessResponse<ShipmentResponseDto[]>> {
+    const shipments = await this.shipmentService.findOrderShipments(
+      orderNumber,
+      userId,
+    );
+
+    return new SuccessResponse(
+      `Found ${shipments.length} shipment(s) for order ${orderNumber}`,
+      shipments,
+    );
+  }
+
+  @Get(':orderNumber/shipments/:shipmentNumber')
+  @Roles(
+    UserRole.ADMIN,
+    UserRole.SUPER_ADMIN,
+    UserRole.WHOLESALER,
+    UserRole.PROCUREMENT_OFFICER,
+  )
+  @ApiOperation({ summary: 'Get a shipment with its tracking timeline' })
+  @ApiParam({ name: 'orderNumber', description: 'Order number' })
+  @ApiParam({ name: 'shipmentNumber', description: 'Shipment number' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Shipment retrieved successfully',
+    type: ShipmentResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Order or shipment not found' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  async getShipment(
+    @Param('orderNumber') orderNumber: string,
+    @Param('shipmentNumber') shipmentNumber: string,
+    @CurrentUserId() userId: string,
+  ): Promise<SuccessResponse<ShipmentResponseDto>> {
+    const shipment = await this.shipmentService.findShipment(
+      orderNumber,
+      shipmentNumber,
+      userId,
+    );
+
+    return new SuccessResponse('Shipment retrieved successfully', shipment);
+  }
+
+  @Post(':orderNumber/shipments/:shipmentNumber/dispatch')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.PROCUREMENT_OFFICER)
+  @ApiOperation({
+    summary: 'Dispatch a shipment',
+    description:
+      'Record the carrier handover. The shipment items move to SHIPPED',
+  })
+  @ApiParam({ name: 'orderNumber', description: 'Order number' })
+  @ApiParam({ name: 'shipmentNumber', description: 'Shipment number' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Shipment dispatched',
+    type: ShipmentResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Shipment not PENDING, or no carrier or driver recorded',
+  })
+  @ApiNotFoundResponse({ description: 'Order or shipment not found' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  async dispatchShipment(
+    @Param('orderNumber') orderNumber: string,
+    @Param('shipmentNumber') shipmentNumber: string,
+    @Body() dispatchShipmentDto: DispatchShipmentDto,
+    @CurrentUserId() userId: string,
+  ): Promise<SuccessResponse<ShipmentResponseDto>> {
+    const shipment = await this.shipmentService.dispatchShipment(
+      orderNumber,
+      shipmentNumber,
+      dispatchShipmentDto,
+      userId,
+    );
+
+    return new SuccessResponse(
+      `Shipment ${shipmentNumber} dispatched`,
+      shipment,
+    );
+  }
+
+  @Post(':orderNumber/shipments/:shipmentNumber/events')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.PROCUREMENT_OFFICER)
+  @ApiOperation({
+    summary: 'Add a tracking update to a dispatched shipment',
+    description: 'The shipment moves to IN_TRANSIT',
+  })
+  @ApiParam({ name: 'orderNumber', description: 'Order number' })
+  @ApiParam({ name: 'shipmentNumber', description: 'Shipment number' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Tracking update recorded',
+    type: ShipmentResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Shipment is not on the road',
+  })
+  @ApiNotFoundResponse({ description: 'Order or shipment not found' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  async addShipmentEvent(
+    @Param('orderNumber') orderNumber: string,
+    @Param('shipmentNumber') shipmentNumber: string,
+    @Body() createShipmentEventDto: CreateShipmentEventDto,
+    @CurrentUserId() userId: string,
+  ): Promise<SuccessResponse<ShipmentResponseDto>> {
+    const shipment = await this.shipmentService.addTrackingEvent(
+      orderNumber,
+      shipmentNumber,
+      createShipmentEventDto,
+      userId,
+    );
+
+    return new SuccessResponse('Tracking update recorded', shipment);
+  }
+
+  @Post(':orderNumber/shipments/:shipmentNumber/deliver')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.PROCUREMENT_OFFICER)
+  @ApiOperation({
+    summary: 'Mark a shipment delivered',
+    description:
+      'Record proof of delivery. The shipment items move to DELIVERED and into the wholesaler inventory; the order completes once every item is delivered',
+  })
+  @ApiParam({ name: 'orderNumber', description: 'Order number' })
+  @ApiParam({ name: 'shipmentNumber', description: 'Shipment number' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        receivedBy: {
+          type: 'string',
+          description: 'Name of the person who received the goods',
+          example: 'Chinedu Okafor',
+        },
+        deliveredAt: {
+          type: 'string',
+          format: 'date-time',
+          description: 'Defaults to now',
+        },
+        location: { type: 'string', example: '12 Allen Avenue, Ikeja' },
+        proofOfDelivery: {
+          type: 'string',
+          format: 'binary',
+          description: 'Photo taken at handover (JPEG, PNG)',
+        },
+        signature: {
+          type: 'string',
+          format: 'binary',
+          description: 'Image of the recipient signature',
+        },
+      },
+      required: ['receivedBy', 'proofOfDelivery'],
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Shipment delivered',
+    type: ShipmentResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Shipment not dispatched, or proof of delivery missing',
+  })
+  @ApiNotFoundResponse({ description: 'Order or shipment not found' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  @UseInterceptors(
+    FileFieldsInterceptor([
+      { name: 'proofOfDelivery', maxCount: 1 },
+      { name: 'signature', maxCount: 1 },
+    ]),
+  )
+  async deliverShipment(
+    @Param('orderNumber') orderNumber: string,
+    @Param('shipmentNumber') shipmentNumber: string,
+    @Body() deliverShipmentDto: DeliverShipmentDto,
+    @UploadedFiles() files: ShipmentProofFiles,
+    @CurrentUserId() userId: string,
+  ): Promise<SuccessResponse<ShipmentResponseDto>> {
+    const shipment = await this.shipmentService.deliverShipment(
+      orderNumber,
+      shipmentNumber,
+      deliverShipmentDto,
+      files ?? {},
+      userId,
+    );
+
+    return new SuccessResponse(
+      `Shipment ${shipmentNumber} delivered`,
+      shipment,
+    );
+  }
+
+  @Post(':orderNumber/shipments/:shipmentNumber/fail')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.PROCUREMENT_OFFICER)
+  @ApiOperation({
+    summary: 'Record a failed delivery',
+    description:
+      'The shipment items go back to READY and can be put on a new shipment',
+  })
+  @ApiParam({ name: 'orderNumber', description: 'Order number' })
+  @ApiParam({ name: 'shipmentNumber', description: 'Shipment number' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Failed delivery recorded',
+    type: ShipmentResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Shipment is not on the road',
+  })
+  @ApiNotFoundResponse({ description: 'Order or shipment not found' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  async failShipment(
+    @Param('orderNumber') orderNumber: string,
+    @Param('shipmentNumber') shipmentNumber: string,
+    @Body() shipmentReasonDto: ShipmentReasonDto,
+    @CurrentUserId() userId: string,
+  ): Promise<SuccessResponse<ShipmentResponseDto>> {
+    const shipment = await this.shipmentService.failShipment(
+      orderNumber,
+      shipmentNumber,
+      shipmentReasonDto,
+      userId,
+    );
+
+    return new SuccessResponse(
+      `Failed delivery recorded for shipment ${shipmentNumber}`,
+      shipment,
+    );
+  }
+
+  @Post(':orderNumber/shipments/:shipmentNumber/cancel')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.PROCUREMENT_OFFICER)
+  @ApiOperation({
+    summary: 'Cancel a shipment before dispatch',
+    description: 'The shipment items stay READY',
+  })
+  @ApiParam({ name: 'orderNumber', description: 'Order number' })
+  @ApiParam({ name: 'shipmentNumber', description: 'Shipment number' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Shipment cancelled',
+    type: ShipmentResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Shipment has already been dispatched',
+  })
+  @ApiNotFoundResponse({ description: 'Order or shipment not found' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  async cancelShipment(
+    @Param('orderNumber') orderNumber: string,
+    @Param('shipmentNumber') shipmentNumber: string,
+    @Body() shipmentReasonDto: ShipmentReasonDto,
+    @CurrentUserId() userId: string,
+  ): Promise<SuccessResponse<ShipmentResponseDto>> {
+    const shipment = await this.shipmentService.cancelShipment(
+      orderNumber,
+      shipmentNumber,
+      shipmentReasonDto,
+      userId,
+    );
+
+    return new SuccessResponse(
+      `Shipment ${shipmentNumber} cancelled`,
+      shipment,
+    );
+  }
+
   @Patch(':orderNumber')
   @UseGuards(UnifiedAuthGuard, RolesGuard)
   @Roles(
@@ -328,6 +864,55 @@ export class OrderController {
     return new SuccessResponse(result.message, result.data);
   }
 
+  @Get(':orderNumber/invoice.pdf')
+  @Roles(
+    UserRole.ADMIN,
+    UserRole.SUPER_ADMIN,
+    UserRole.WHOLESALER,
+    UserRole.PROCUREMENT_OFFICER,
+  )
+  @ApiOperation({
+    summary: 'Download order invoice',
+    description:
+      'Proforma invoice while the order awaits payment; the numbered tax receipt once it is confirmed',
+  })
+  @ApiParam({ name: 'orderNumber', description: 'Order number' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Invoice PDF',
+    content: {
+      'application/pdf': {
+        schema: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Order was cancelled before payment',
+  })
+  @ApiNotFoundResponse({ description: 'Order not found' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  async downloadInvoice(
+    @Param('orderNumber') orderNumber: string,
+    @CurrentUserId() userId: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const invoice = await this.orderDocumentService.getInvoicePdf(
+      orderNumber,
+      userId,
+    );
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename=${invoice.filename}`,
+    );
+    res.send(invoice.content);
+  }
+
   @Get(':orderNumber')
   @Roles(
     UserRole.ADMIN,
@@ -434,7 +1019,7 @@ export class OrderController {
   @ApiOperation({
     summary: 'Manually trigger auto-assignment (Admin only)',
     description:
-      'Manually trigger auto-assignment for a specific order based on availability',
+      'Manually trigger auto-assignment for a specific order. Officers are ranked by the configured strategy and the scoring breakdown is returned',
   })
   @ApiParam({
     name: 'orderNumber',
@@ -491,7 +1076,8 @@ export class OrderController {
   @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.PROCUREMENT_OFFICER)
   @ApiOperation({
     summary: 'Get assignment status',
-    description: 'Gets the current assignment status of an order',
+    description:
+      'Gets the current assignment status of an order. Admins also see the auto-assignment scoring breakdown',
   })
   @ApiParam({
     name: 'orderNumber',
@@ -565,7 +1151,7 @@ export class OrderController {
   @ApiOperation({
     summary: 'Monnify payment webhook',
     description:
-      'Handles Monnify payment notifications with signature verification',
+      'Stores every Monnify payment notification and, once its signature is verified, queues it for processing',
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -587,74 +1173,57 @@ export class OrderController {
       clientIP: request.ip || request.connection?.remoteAddress,
     });
 
-    try {
-      // Step 1: Validate IP address (Best Practice #2)
-      const clientIP =
-        request.ip ||
-        request.connection?.remoteAddress ||
-        request.headers['x-forwarded-for'];
-      const isValidIP = await this.monnifyService.validateWebhookIP(clientIP);
-
-      if (!isValidIP) {
-        this.logger.warn(`Webhook rejected: Invalid IP ${clientIP}`);
-        throw new BadRequestException('Unauthorized IP address');
-      }
-
-      // Step 2: Verify webhook signature (Best Practice #1)
-      const isValidSignature = await this.monnifyService.verifyWebhook(
-        webhookData,
-        signature,
-      );
-      if (!isValidSignature) {
-        this.logger.warn('Webhook rejected: Invalid signature');
-        throw new BadRequestException('Invalid webhook signature');
-      }
-
-      // Step 3: Immediately respond with 200 (Best Practice #4)
-      // We'll process asynchronously to avoid timeouts
-      const processingPromise = this.orderService
-        .handleMonnifyWebhook(webhookData)
-        .catch((error) => {
-          this.logger.error(
-            'Async webhook processing failed:',
-            error.message,
-            error.stack,
-          );
-        });
-
-      // Don't await - respond immediately to prevent timeout
-      setImmediate(() => {
-        processingPromise;
-      });
+    // Step 1: Validate IP address (Best Practice #2)
+    const clientIP =
+      request.ip ||
+      request.connection?.remoteAddress ||
+      request.headers['x-forwarded-for'];
+    const isValidIP = await this.paymentGateway.validateWebhookIP(clientIP);
+
+    // Step 2: Verify webhook signature (Best Practice #1)
+    const isValidSignature =
+      isValidIP &&
+      (await this.paymentGateway.verifyWebhook(webhookData, signature));
+
+    let rejectionReason: string | undefined;
+    if (!isValidIP) {
+      rejectionReason = 'Unauthorized IP address';
+      this.logger.warn(`Webhook rejected: Invalid IP ${clientIP}`);
+    } else if (!isValidSignature) {
+      rejectionReason = 'Invalid webhook signature';
+      this.logger.warn('Webhook rejected: Invalid signature');
+    }
 
+    // Step 3: Store the raw event; rejected requests are kept but never processed
+    const { webhookEvent, duplicate } = await this.webhookEventService.receive({
+      provider: this.paymentGateway.name,
+      headers: request.headers,
+      payload: webhookData,
+      signatureValid: isValidSignature,
+      clientIp: clientIP,
+      rejectionReason,
+    });
+
+    // Still return 200 to prevent retries for validation errors
+    if (rejectionReason) {
       return {
-        success: true,
-        message: 'Webhook received and processing initiated',
-        data: {
-          eventType: webhookData.eventType,
-          transactionReference: webhookData.eventData?.transactionReference,
-          timestamp: new Date().toISOString(),
-        },
+        success: false,
+        message: rejectionReason,
       };
-    } catch (error) {
-      this.logger.error(
-        'Webhook processing error:',
-        error.message,
-        error.stack,
-      );
-
-      // Still return 200 to prevent retries for validation errors
-      if (
-        error.message.includes('Invalid webhook signature') ||
-        error.message.includes('Unauthorized IP')
-      ) {
-        return {
-          success: false,
-          message: error.message,
-        };
-      }
-
-      throw error;
     }
+
+    // Step 4: Respond immediately (Best Practice #4); the queue processes the stored event
+    return {
+      success: true,
+      message: duplicate
+        ? 'Webhook already received'
+        : 'Webhook received and processing initiated',
+      data: {
+        webhookEventId: webhookEvent.id,
+        eventType: webhookData.eventType,
+        transactionReference: webhookData.eventData?.transactionReference,
+        timestamp: new Date().toISOString(),
+      },
+    };
   }
 }
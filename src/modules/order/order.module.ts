@@ -1,13 +1,146 @@
 import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { OrderService } from './order.service';
 import { OrderController } from './order.controller';
+import { OfficerAssignmentService } from './officer-assignment.service';
+import { AssignmentSlaService } from './assignment-sla.service';
+import { RefundService } from './refund.service';
+import { PaymentReconciliationService } from './payment-reconciliation.service';
+import { WebhookEventService } from './webhook-event.service';
+import { OrderDocumentService } from './order-document.service';
+import { ShipmentService } from './shipment.service';
+import { AssignmentSlaProcessor } from './processors/assignment-sla.processor';
+import { PaymentReconciliationProcessor } from './processors/payment-reconciliation.processor';
+import { WebhookEventProcessor } from './processors/webhook-event.processor';
+import { OrderAssignmentListener } from './listeners/order-assignment.listener';
+import { OrderDocumentListener } from './listeners/order-document.listener';
+import { ASSIGNMENT_STRATEGY } from './interfaces/assignment-strategy.interface';
+import { RegionAwareAssignmentStrategy } from './strategies/region-aware-assignment.strategy';
+import { WorkloadAssignmentStrategy } from './strategies/workload-assignment.strategy';
 import { PrismaModule } from '../prisma/prisma.module';
 import { PaymentModule } from '../payment/payment.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { RegionModule } from '../region/region.module';
+import { EmailModule } from '../email/email.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { CreditModule } from '../credit/credit.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { StorageModule } from '../storage/storage.module';
+import { ORDER_ASSIGNMENT_QUEUE } from './types/assignment.types';
+import { PAYMENT_RECONCILIATION_QUEUE } from './types/payment-reconciliation.types';
+import {
+  WEBHOOK_EVENT_QUEUE,
+  WEBHOOK_EVENT_SETTINGS,
+} from './types/webhook-event.types';
 
 @Module({
-  imports: [PrismaModule, PaymentModule],
+  imports: [
+    PrismaModule,
+    PaymentModule,
+    InventoryModule,
+    RegionModule,
+    EmailModule,
+    OutboxModule,
+    CreditModule,
+    WalletModule,
+    StorageModule,
+    BullModule.registerQueueAsync({
+      name: ORDER_ASSIGNMENT_QUEUE,
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        redis: {
+          host: configService.get<string>('REDIS_HOST'),
+          port: configService.get<number>('REDIS_PORT'),
+          password: configService.get<string>('REDIS_PASSWORD'),
+        },
+        defaultJobOptions: {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: 10,
+          removeOnFail: 5,
+        },
+      }),
+      inject: [ConfigService],
+    }),
+    BullModule.registerQueueAsync({
+      name: PAYMENT_RECONCILIATION_QUEUE,
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        redis: {
+          host: configService.get<string>('REDIS_HOST'),
+          port: configService.get<number>('REDIS_PORT'),
+          password: configService.get<string>('REDIS_PASSWORD'),
+        },
+        defaultJobOptions: {
+          // No retries; the next scheduled sweep picks up where this one failed
+          attempts: 1,
+          removeOnComplete: 10,
+          removeOnFail: 5,
+        },
+      }),
+      inject: [ConfigService],
+    }),
+    BullModule.registerQueueAsync({
+      name: WEBHOOK_EVENT_QUEUE,
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        redis: {
+          host: configService.get<string>('REDIS_HOST'),
+          port: configService.get<number>('REDIS_PORT'),
+          password: configService.get<string>('REDIS_PASSWORD'),
+        },
+        defaultJobOptions: {
+          attempts: WEBHOOK_EVENT_SETTINGS.MAX_ATTEMPTS,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: 10,
+          removeOnFail: 5,
+        },
+      }),
+      inject: [ConfigService],
+    }),
+  ],
   controllers: [OrderController],
-  providers: [OrderService],
-  exports: [OrderService],
+  providers: [
+    OrderService,
+    OfficerAssignmentService,
+    AssignmentSlaService,
+    RefundService,
+    PaymentReconciliationService,
+    WebhookEventService,
+    OrderDocumentService,
+    ShipmentService,
+    AssignmentSlaProcessor,
+    PaymentReconciliationProcessor,
+    WebhookEventProcessor,
+    OrderAssignmentListener,
+    OrderDocumentListener,
+    RegionAwareAssignmentStrategy,
+    WorkloadAssignmentStrategy,
+    {
+      provide: ASSIGNMENT_STRATEGY,
+      useFactory: (
+        configService: ConfigService,
+        regionAware: RegionAwareAssignmentStrategy,
+        workload: WorkloadAssignmentStrategy,
+      ) =>
+        configService.get('AUTO_ASSIGN_STRATEGY', 'region_aware') ===
+        workload.name
+          ? workload
+          : regionAware,
+      inject: [
+        ConfigService,
+        RegionAwareAssignmentStrategy,
+        WorkloadAssignmentStrategy,
+      ],
+    },
+  ],
+  exports: [OrderService, PaymentReconciliationService, WebhookEventService],
 })
 export class OrderModule {}
@@ -1,4 +1,5 @@
 import {
+  Inject,
   Injectable,
   Logger,
   NotFoundException,
@@ -6,21 +7,66 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { MonnifyService } from '../payment/monnify.service';
+import {
+  CreateInvoiceResponse,
+  getTransferReference,
+  InvoiceStatusResponse,
+  PAYMENT_GATEWAY,
+} from '../payment/interfaces/payment-gateway.interface';
+import type { PaymentGateway } from '../payment/interfaces/payment-gateway.interface';
+import { StockLedgerService } from '../inventory/stock-ledger.service';
+import { WholesalerInventoryService } from '../inventory/wholesaler-inventory.service';
+import { InventoryForecastService } from '../inventory/inventory-forecast.service';
+import { ConvertReorderSuggestionsDto } from '../inventory/dto';
+import { STOCK_MOVEMENT_REASONS } from '../inventory/types/inventory.types';
+import { RegionService } from '../region/region.service';
+import { SystemConfigService } from '../system-config/system-config.service';
+import { OfficerAssignmentService } from './officer-assignment.service';
+import { AssignmentSlaService } from './assignment-sla.service';
+import { NotificationService } from '../email/services/notification.service';
+import { EmailEvent } from '../email/types/email.types';
+import { DomainEventsService } from '../events/domain-events.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { RefundService } from './refund.service';
+import { CreditAccountService } from '../credit/credit-account.service';
+import { CREDIT_REPAYMENT_REFERENCE_PREFIX } from '../credit/types/credit.types';
+import { WalletService } from '../wallet/wallet.service';
+import { RESERVED_ACCOUNT_PRODUCT_TYPE } from '../wallet/types/wallet.types';
+import {
+  DomainEventPayload,
+  OrderDomainEventName,
+  OrderEventData,
+  PaymentEventData,
+} from '../events/types/domain-events.types';
 import {
   CreateOrderDto,
+  InitiatePaymentDto,
   UpdateOrderItemStatusDto,
 } from './dto/create-order.dto';
 import {
   AssignOrderDto,
   AssignmentResponseDto,
   AssignmentResponseType,
+  AssignmentScoreDto,
   AssignmentStatusDto,
   BulkUpdateOrderItemsDto,
   BulkUpdateResultDto,
   UpdateAvailabilityDto,
   AvailabilityStatusDto,
 } from './dto/assignment.dto';
+import {
+  PAYMENT_RECONCILIATION_ACTOR,
+  PAYMENT_RECONCILIATION_OUTCOMES,
+  PaymentReconciliationResult,
+} from './types/payment-reconciliation.types';
+import { RecordShortfallDto, ShortfallResponseDto } from './dto/shortfall.dto';
+import { RefundResponseDto } from './dto/refund.dto';
+import {
+  ACTIVE_SHIPMENT_STATUSES,
+  IN_FLIGHT_SHIPMENT_STATUSES,
+  ItemFulfilmentChange,
+  SHIPPABLE_ORDER_STATUSES,
+} from './types/shipment.types';
 import {
   OrderStatus,
   OrderItemStatus,
@@ -28,7 +74,12 @@ import {
   PaymentStatus,
   UserRole,
   AssignmentStatus,
-  ProcurementOfficerStatus,
+  AssignmentAttemptOutcome,
+  Order,
+  Payment,
+  Prisma,
+  LedgerAccount,
+  WalletTransactionType,
 } from '@prisma/client';
 import { ConfigService } from '@nestjs/config';
 
@@ -38,8 +89,22 @@ export class OrderService {
 
   constructor(
     private readonly prismaService: PrismaService,
-    private readonly monnifyService: MonnifyService,
+    @Inject(PAYMENT_GATEWAY)
+    private readonly paymentGateway: PaymentGateway,
     private readonly configService: ConfigService,
+    private readonly stockLedgerService: StockLedgerService,
+    private readonly wholesalerInventoryService: WholesalerInventoryService,
+    private readonly inventoryForecastService: InventoryForecastService,
+    private readonly regionService: RegionService,
+    private readonly officerAssignmentService: OfficerAssignmentService,
+    private readonly assignmentSlaService: AssignmentSlaService,
+    private readonly notificationService: NotificationService,
+    private readonly systemConfigService: SystemConfigService,
+    private readonly domainEventsService: DomainEventsService,
+    private readonly outboxService: OutboxService,
+    private readonly refundService: RefundService,
+    private readonly creditAccountService: CreditAccountService,
+    private readonly walletService: WalletService,
   ) {}
 
   /**
@@ -69,11 +134,13 @@ export class OrderService {
       [OrderItemStatus.READY]: [
         OrderItemStatus.PAID,
         OrderItemStatus.SHIPPED,
+        OrderItemStatus.DELIVERED, // The last units fell short
         OrderItemStatus.CANCELLED,
         OrderItemStatus.UNAVAILABLE,
       ],
       [OrderItemStatus.SHIPPED]: [
         OrderItemStatus.PAID,
+        OrderItemStatus.READY, // Delivery failed and the goods came back
         OrderItemStatus.DELIVERED,
         OrderItemStatus.CANCELLED,
       ],
@@ -189,6 +256,10 @@ export class OrderService {
         );
       }
 
+      const minQuantity = await this.systemConfigService.get(
+        'MIN_ORDER_ITEM_QUANTITY',
+      );
+
       // Calculate total amount and validate quantities
       orderItemsData = items.map((item) => {
         const product = products.find((p) => p.id === item.productId);
@@ -205,9 +276,9 @@ export class OrderService {
         }
 
         // Validate minimum quantity
-        if (item.quantity < 10) {
+        if (item.quantity < minQuantity) {
           throw new BadRequestException(
-            `Minimum quantity is 10 for product ${product.name}. Requested: ${item.quantity}`,
+            `Minimum quantity is ${minQuantity} for product ${product.name}. Requested: ${item.quantity}`,
           );
         }
 
@@ -312,208 +383,201 @@ export class OrderService {
   }
 
   /**
-   * Initiate payment for draft order
-   * Converts DRAFT order to PENDING_PAYMENT with Monnify integration
+   * Create a draft order from the wholesaler's current reorder suggestions
    */
-  async initiatePayment(orderNumber: string, userId: string) {
-    // Get order and validate
-    const order = await this.prismaService.order.findUnique({
-      where: { orderNumber },
-      include: {
-        items: {
-          include: {
-            product: {
-              select: { id: true, name: true, quantity: true, price: true },
-            },
-          },
-        },
-        wholesaler: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
-        },
-      },
-    });
-
-    if (!order) {
-      throw new NotFoundException('Order not found');
-    }
-
-    // Get user and validate permissions
-    const user = await this.prismaService.user.findUnique({
-      where: { id: userId },
-      select: { id: true, role: true },
-    });
-
-    if (!user) {
-      throw new NotFoundException('User not found');
-    }
-
-    // Validate permissions to initiate payment
-    if (user.role === UserRole.WHOLESALER) {
-      if (order.wholesalerId !== userId) {
-        throw new ForbiddenException(
-          'You can only initiate payment for your own orders',
-        );
-      }
-    }
-    // Admins can initiate payment for any order
-
-    // Validate order status
-    if (order.status !== OrderStatus.DRAFT) {
-      throw new BadRequestException(
-        'Only DRAFT orders can be initiated for payment',
-      );
-    }
-
-    // Validate items exist and meet requirements
-    if (!order.items || order.items.length === 0) {
-      throw new BadRequestException(
-        'Cannot initiate payment for order with no items',
-      );
-    }
-
-    // Validate each item meets minimum quantity and check inventory
-    const inventoryErrors: string[] = [];
-    for (const item of order.items) {
-      if (item.quantity < 10) {
-        throw new BadRequestException(
-          `Item ${item.product.name} quantity (${item.quantity}) is below minimum required (10)`,
-        );
-      }
+  async createOrderFromReorderSuggestions(
+    dto: ConvertReorderSuggestionsDto,
+    userId: string,
+  ) {
+    const suggestions =
+      await this.inventoryForecastService.getReorderSuggestions(userId, dto);
 
-      // Check current inventory availability
-      if (item.product.quantity < item.quantity) {
-        inventoryErrors.push(
-          `Insufficient stock for ${item.product.name}. Available: ${item.product.quantity}, Requested: ${item.quantity}`,
-        );
-      }
-    }
+    const items = dto.productSkus
+      ? suggestions.items.filter((item) =>
+          dto.productSkus!.includes(item.productSku),
+        )
+      : suggestions.items;
 
-    if (inventoryErrors.length > 0) {
+    if (items.length === 0) {
       throw new BadRequestException(
-        `Inventory validation failed: ${inventoryErrors.join('; ')}`,
+        'There are no reorder suggestions to convert into an order',
       );
     }
 
-    // Recalculate totals with current prices
-    let totalAmount = 0;
-    const updatedItems: any[] = [];
-
-    for (const item of order.items) {
-      const currentPrice = item.product.price;
-      const lineTotal = item.quantity * Number(currentPrice);
-      totalAmount += lineTotal;
-
-      updatedItems.push({
-        id: item.id,
-        unitPrice: currentPrice,
-        lineTotal: lineTotal,
-      });
-    }
+    return this.createOrder(
+      {
+        items: items.map((item) => ({
+          productId: item.productId,
+          quantity: item.suggestedQuantity,
+        })),
+        deliveryAddress: dto.deliveryAddress,
+        customerNotes: dto.customerNotes,
+      },
+      userId,
+    );
+  }
 
-    if (totalAmount <= 0) {
-      throw new BadRequestException('Order total must be greater than 0');
-    }
+  /**
+   * Initiate payment for draft order
+   * Converts DRAFT order to PENDING_PAYMENT with Monnify integration. With
+   * useWallet the wallet balance is spent first and only the remainder is
+   * invoiced; an order the wallet covers in full is confirmed straight away.
+   */
+  async initiatePayment(
+    orderNumber: string,
+    userId: string,
+    initiatePaymentDto: InitiatePaymentDto = {},
+  ) {
+    const { order, totalAmount, updatedItems } =
+      await this.prepareDraftCheckout(orderNumber, userId, 'initiate payment');
 
-    // Validate delivery address is provided
-    if (!order.deliveryAddress) {
-      throw new BadRequestException(
-        'Delivery address is required for payment initiation',
-      );
-    }
+    const walletAmount = initiatePaymentDto.useWallet
+      ? Prisma.Decimal.min(
+          await this.walletService.getBalance(order.wholesalerId),
+          totalAmount,
+        )
+      : new Prisma.Decimal(0);
+    const amountDue = new Prisma.Decimal(totalAmount).minus(walletAmount);
 
+    let monnifyInvoice: CreateInvoiceResponse | null = null;
     try {
       // Generate new order number for payment
       const paymentOrderNumber = await this.generateOrderNumber('JOO-');
 
-      // Create Monnify invoice
-      const invoiceData = {
-        amount: totalAmount,
-        invoiceReference: paymentOrderNumber,
-        customerName: `${order.wholesaler.firstName} ${order.wholesaler.lastName}`,
-        customerEmail: order.wholesaler.email,
-        description: `Payment for Order ${paymentOrderNumber}`,
-        contractCode: this.configService.get('MONNIFY_CONTRACT_CODE'),
-        currencyCode: 'NGN',
-        expiryDate: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
-        paymentMethods: ['ACCOUNT_TRANSFER', 'CARD'],
-        redirectUrl:
-          this.configService.get('APP_BASE_URL') +
-          `/order/${paymentOrderNumber}/payment/success`,
-      };
+      // Create the gateway invoice for whatever the wallet does not cover
+      if (amountDue.gt(0)) {
+        const paymentExpiryMinutes = await this.systemConfigService.get(
+          'PAYMENT_EXPIRY_MINUTES',
+        );
+        const invoiceData = {
+          amount: amountDue.toNumber(),
+          invoiceReference: paymentOrderNumber,
+          customerName: `${order.wholesaler.firstName} ${order.wholesaler.lastName}`,
+          customerEmail: order.wholesaler.email,
+          description: `Payment for Order ${paymentOrderNumber}`,
+          contractCode: this.configService.get('MONNIFY_CONTRACT_CODE'),
+          currencyCode: 'NGN',
+          expiryDate: new Date(Date.now() + paymentExpiryMinutes * 60 * 1000),
+          paymentMethods: ['ACCOUNT_TRANSFER', 'CARD'],
+          redirectUrl:
+            this.configService.get('APP_BASE_URL') +
+            `/order/${paymentOrderNumber}/payment/success`,
+        };
 
-      const monnifyInvoice =
-        await this.monnifyService.createInvoice(invoiceData);
+        monnifyInvoice = await this.paymentGateway.createInvoice(invoiceData);
+      }
 
       // Prepare virtual accounts
-      const virtualAccounts = [
-        {
-          accountNumber: monnifyInvoice.responseBody.accountNumber,
-          accountName: monnifyInvoice.responseBody.accountName,
-          bankCode: monnifyInvoice.responseBody.bankCode,
-          bankName: monnifyInvoice.responseBody.bankName,
-        },
-      ];
+      const virtualAccounts = monnifyInvoice
+        ? [
+            {
+              accountNumber: monnifyInvoice.responseBody.accountNumber,
+              accountName: monnifyInvoice.responseBody.accountName,
+              bankCode: monnifyInvoice.responseBody.bankCode,
+              bankName: monnifyInvoice.responseBody.bankName,
+            },
+          ]
+        : [];
 
       // Parse expiry date from Monnify
-      const expiryDate = new Date(
-        monnifyInvoice.responseBody.expiryDate.replace(' ', 'T'),
-      );
+      const expiryDate = monnifyInvoice
+        ? new Date(monnifyInvoice.responseBody.expiryDate.replace(' ', 'T'))
+        : null;
 
       // Update order with payment details in transaction
-      await this.prismaService.$transaction(async (prisma) => {
-        // Update order
-        await prisma.order.update({
-          where: { id: order.id },
-          data: {
-            orderNumber: paymentOrderNumber,
-            status: OrderStatus.PENDING_PAYMENT,
-            subtotal: totalAmount,
-            totalAmount: totalAmount,
-            monnifyInvoiceRef: monnifyInvoice.responseBody.transactionReference,
-            virtualAccounts: virtualAccounts,
-            checkoutUrl: monnifyInvoice.responseBody.checkoutUrl,
-            paymentExpiresAt: expiryDate,
-          },
-        });
+      const outboxEventIds = await this.prismaService.$transaction(
+        async (prisma) => {
+          // Lock the order row so the same draft cannot be checked out twice
+          const current = await prisma.order.update({
+            where: { id: order.id },
+            data: { updatedAt: new Date() },
+          });
 
-        // Update item prices and totals
-        for (const item of updatedItems) {
-          await prisma.orderItem.update({
-            where: { id: item.id },
+          if (current.status !== OrderStatus.DRAFT) {
+            throw new BadRequestException(
+              'Only DRAFT orders can be checked out',
+            );
+          }
+
+          // Update order
+          await prisma.order.update({
+            where: { id: order.id },
             data: {
-              unitPrice: item.unitPrice,
-              lineTotal: item.lineTotal,
+              orderNumber: paymentOrderNumber,
+              status: OrderStatus.PENDING_PAYMENT,
+              subtotal: totalAmount,
+              totalAmount: totalAmount,
+              monnifyInvoiceRef:
+                monnifyInvoice?.responseBody.transactionReference ?? null,
+              virtualAccounts: virtualAccounts,
+              checkoutUrl: monnifyInvoice?.responseBody.checkoutUrl ?? null,
+              paymentExpiresAt: expiryDate,
             },
           });
-        }
-      });
 
-      // Reserve inventory
-      await this.reserveInventoryForOrder(order.items);
+          // Update item prices and totals
+          for (const item of updatedItems) {
+            await prisma.orderItem.update({
+              where: { id: item.id },
+              data: {
+                unitPrice: item.unitPrice,
+                lineTotal: item.lineTotal,
+              },
+            });
+          }
+
+          // Reserve inventory
+          await this.reserveInventoryForOrder(
+            order.items,
+            paymentOrderNumber,
+            prisma,
+          );
+
+          if (walletAmount.lte(0)) {
+            return [];
+          }
+
+          return this.payFromWallet(
+            prisma,
+            { ...order, orderNumber: paymentOrderNumber },
+            walletAmount,
+            userId,
+          );
+        },
+      );
+
+      // Notifications and auto-assignment run from the outbox relay
+      await this.outboxService.dispatch(outboxEventIds);
 
       this.logger.log(
-        `Payment initiated for order ${paymentOrderNumber} with Monnify invoice ${monnifyInvoice.responseBody.transactionReference}`,
+        monnifyInvoice
+          ? `Payment initiated for order ${paymentOrderNumber} with ${this.paymentGateway.name} invoice ${monnifyInvoice.responseBody.transactionReference}${walletAmount.gt(0) ? `; ${walletAmount.toFixed(2)} paid from wallet` : ''}`
+          : `Order ${paymentOrderNumber} paid in full from wallet`,
       );
 
       return {
         success: true,
-        message: 'Payment initiated successfully',
+        message: monnifyInvoice
+          ? 'Payment initiated successfully'
+          : 'Order paid from wallet',
         data: {
           order: {
             id: order.id,
             orderNumber: paymentOrderNumber,
             totalAmount: totalAmount,
-            status: OrderStatus.PENDING_PAYMENT,
+            status: monnifyInvoice
+              ? OrderStatus.PENDING_PAYMENT
+              : OrderStatus.CONFIRMED,
           },
           virtualAccounts: virtualAccounts,
-          checkoutUrl: monnifyInvoice.responseBody.checkoutUrl,
-          expiryDate: expiryDate.toISOString(),
-          invoiceReference: monnifyInvoice.responseBody.transactionReference,
+          checkoutUrl: monnifyInvoice?.responseBody.checkoutUrl ?? '',
+          expiryDate: expiryDate?.toISOString() ?? '',
+          invoiceReference:
+            monnifyInvoice?.responseBody.transactionReference ?? '',
+          ...(walletAmount.gt(0) && {
+            amountPaidFromWallet: Number(walletAmount),
+            amountDue: Number(amountDue),
+          }),
         },
       };
     } catch (error) {
@@ -521,10 +585,129 @@ export class OrderService {
         `Failed to initiate payment for order ${orderNumber}: ${error.message}`,
         error.stack,
       );
+
+      // Nothing was recorded against the invoice; close it so it cannot be paid
+      if (monnifyInvoice) {
+        const { invoiceReference } = monnifyInvoice.responseBody;
+        try {
+          await this.paymentGateway.cancelInvoice(invoiceReference);
+        } catch (cancelError) {
+          this.logger.warn(
+            `Failed to cancel invoice ${invoiceReference}: ${cancelError instanceof Error ? cancelError.message : String(cancelError)}`,
+          );
+        }
+      }
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
       throw new BadRequestException('Failed to initiate payment');
     }
   }
 
+  /**
+   * Confirm a draft order against the wholesaler's credit limit instead of
+   * taking payment. The order goes straight to CONFIRMED and a credit invoice
+   * falls due after the wholesaler's payment terms.
+   */
+  async confirmOnCredit(orderNumber: string, userId: string) {
+    const { order, totalAmount, updatedItems } =
+      await this.prepareDraftCheckout(orderNumber, userId, 'confirm on credit');
+
+    const creditOrderNumber = await this.generateOrderNumber('JOO-');
+
+    const { creditInvoice, outboxEventIds } =
+      await this.prismaService.$transaction(async (tx) => {
+        // Lock the order row so the same draft cannot be checked out twice
+        const current = await tx.order.update({
+          where: { id: order.id },
+          data: { updatedAt: new Date() },
+        });
+
+        if (current.status !== OrderStatus.DRAFT) {
+          throw new BadRequestException('Only DRAFT orders can be checked out');
+        }
+
+        const creditInvoice = await this.creditAccountService.reserveCredit(
+          tx,
+          {
+            id: order.id,
+            orderNumber: creditOrderNumber,
+            wholesalerId: order.wholesalerId,
+          },
+          new Prisma.Decimal(totalAmount),
+        );
+
+        await tx.order.update({
+          where: { id: order.id },
+          data: {
+            orderNumber: creditOrderNumber,
+            status: OrderStatus.CONFIRMED,
+            subtotal: totalAmount,
+            totalAmount: totalAmount,
+            confirmedAt: new Date(),
+          },
+        });
+
+        for (const item of updatedItems) {
+          await tx.orderItem.update({
+            where: { id: item.id },
+            data: {
+              unitPrice: item.unitPrice,
+              lineTotal: item.lineTotal,
+            },
+          });
+        }
+
+        // Items move on as if paid; the credit invoice tracks what is owed
+        await tx.orderItem.updateMany({
+          where: { orderId: order.id, status: OrderItemStatus.PENDING },
+          data: {
+            status: OrderItemStatus.PAID,
+            statusUpdatedAt: new Date(),
+            statusUpdatedBy: userId,
+          },
+        });
+
+        await this.reserveInventoryForOrder(order.items, creditOrderNumber, tx);
+
+        const eventOrder = await this.getOrderEventData(order.id, tx);
+        const outboxEventIds = await this.outboxService.add(
+          tx,
+          EmailEvent.ORDER_CONFIRMED,
+          order.id,
+          { order: eventOrder },
+        );
+
+        return { creditInvoice, outboxEventIds };
+      });
+
+    // Notifications and auto-assignment run from the outbox relay
+    await this.outboxService.dispatch(outboxEventIds);
+
+    this.logger.log(
+      `Order ${creditOrderNumber} confirmed on credit, due ${creditInvoice.dueDate.toISOString()}`,
+    );
+
+    return {
+      success: true,
+      message: 'Order confirmed on credit',
+      data: {
+        order: {
+          id: order.id,
+          orderNumber: creditOrderNumber,
+          totalAmount: totalAmount,
+          status: OrderStatus.CONFIRMED,
+        },
+        creditInvoice: {
+          id: creditInvoice.id,
+          amount: Number(creditInvoice.amount),
+          dueDate: creditInvoice.dueDate.toISOString(),
+        },
+      },
+    };
+  }
+
   /**
    * Reinitiate payment for expired PENDING_PAYMENT orders
    * Returns existing details if not expired, recreates order if expired
@@ -614,6 +797,16 @@ export class OrderService {
       };
     }
 
+    // Recreating the order would drop the payments recorded against it
+    const paymentCount = await this.prismaService.payment.count({
+      where: { orderId: order.id },
+    });
+    if (paymentCount > 0) {
+      throw new BadRequestException(
+        'Order has payments recorded against it; cancel it instead to return them',
+      );
+    }
+
     this.logger.log(
       `Payment for order ${orderNumber} has expired, recreating order`,
     );
@@ -621,20 +814,17 @@ export class OrderService {
     try {
       // Payment expired - need to recreate order
 
-      // 1. Release reserved inventory from expired order
-      await this.releaseInventoryForOrder(order.items);
-
-      // 2. Cancel expired Monnify invoice
+      // 1. Cancel expired Monnify invoice
       try {
         if (order.monnifyInvoiceRef) {
-          await this.monnifyService.cancelInvoice(order.monnifyInvoiceRef);
+          await this.paymentGateway.cancelInvoice(order.monnifyInvoiceRef);
         }
       } catch (error) {
         this.logger.warn(`Failed to cancel expired invoice: ${error.message}`);
         // Continue anyway as the invoice is expired
       }
 
-      // 3. Store order data before deletion
+      // 2. Store order data before deletion
       const orderData = {
         items: order.items.map((item) => ({
           productId: item.productId,
@@ -646,12 +836,23 @@ export class OrderService {
         wholesalerId: order.wholesalerId,
       };
 
-      // 4. Delete expired order
-      await this.prismaService.order.delete({
-        where: { id: order.id },
+      // 3. Release reserved inventory and delete expired order
+      await this.prismaService.$transaction(async (tx) => {
+        await this.releaseInventoryForOrder(
+          order.items.filter(
+            (item) => item.status !== OrderItemStatus.CANCELLED,
+          ),
+          order.orderNumber,
+          STOCK_MOVEMENT_REASONS.PAYMENT_EXPIRED,
+          tx,
+        );
+
+        await tx.order.delete({
+          where: { id: order.id },
+        });
       });
       const draftOrderNumber = await this.generateOrderNumber('DRAFT-');
-      // 5. Create new draft order
+      // 4. Create new draft order
       const newDraftOrder = await this.prismaService.order.create({
         data: {
           orderNumber: draftOrderNumber, // New draft order number}`,
@@ -692,7 +893,7 @@ export class OrderService {
         },
       });
 
-      // 6. Immediately initiate payment for new order
+      // 5. Immediately initiate payment for new order
       return await this.initiatePayment(newDraftOrder.orderNumber, userId);
     } catch (error) {
       this.logger.error(
@@ -704,7 +905,7 @@ export class OrderService {
   }
 
   /**
-   * Verify payment status from Monnify
+   * Verify payment status with the payment gateway
    */
   async verifyPayment(orderNumber: string, userId: string) {
     // Get user and their role
@@ -726,7 +927,6 @@ export class OrderService {
       where: { orderNumber },
       include: {
         wholesaler: true,
-        payments: true,
       },
     });
 
@@ -744,85 +944,43 @@ export class OrderService {
 
     try {
       // Use the orderNumber as the invoice reference, not the monnify transaction ref
-      const invoiceStatus = await this.monnifyService.getInvoiceStatus(
+      const invoiceStatus = await this.paymentGateway.getInvoiceStatus(
         order.orderNumber,
       );
-      if (invoiceStatus.responseBody.paymentStatus === 'PAID') {
-        // Check if payment already recorded
-        const existingPayment = order.payments.find(
-          (p) =>
-            p.monnifyInvoiceRef === order.monnifyInvoiceRef &&
-            p.status === PaymentStatus.COMPLETED,
-        );
-
-        if (!existingPayment) {
-          // Record the payment
-          await this.prismaService.payment.create({
-            data: {
-              orderId: order.id,
-              amount: invoiceStatus.responseBody.amountPaid,
-              paymentMethod: this.mapMonnifyPaymentMethod(
-                invoiceStatus.responseBody.paymentMethod,
-              ),
-              status: PaymentStatus.COMPLETED,
-              monnifyInvoiceRef:
-                invoiceStatus.responseBody.transactionReference,
-              paidAt: new Date(),
-            },
-          });
-
-          // Update order status
-          await this.prismaService.order.update({
-            where: { id: order.id },
-            data: { status: OrderStatus.CONFIRMED },
-          });
+      const invoice = invoiceStatus.responseBody;
 
-          // Auto-confirm order items for paid orders
-          await this.prismaService.orderItem.updateMany({
-            where: {
-              orderId: order.id,
-              status: OrderItemStatus.PENDING,
-            },
-            data: {
-              status: OrderItemStatus.PAID,
-              statusUpdatedAt: new Date(),
-              statusUpdatedBy: userId, // Use the actual user ID instead of 'system'
-            },
-          });
+      // Partial transfers are recorded too, so the order shows what is owed
+      if (invoice.amountPaid > 0) {
+        await this.recordInvoicePayment(order.id, invoice, userId);
+      }
 
-          // Trigger auto-assignment for paid orders
-          try {
-            await this.autoAssignOrder(order.orderNumber, userId);
-            this.logger.log(
-              `Auto-assignment triggered for order ${order.orderNumber}`,
-            );
-          } catch (autoAssignError) {
-            // Log but don't fail payment verification if auto-assignment fails
-            this.logger.warn(
-              `Auto-assignment failed for order ${order.orderNumber}: ${autoAssignError.message}`,
-            );
-          }
-        }
+      const { outstandingAmount } = await this.getPaymentTotals(
+        order.id,
+        order.totalAmount,
+      );
 
+      if (invoice.amountPaid > 0 && outstandingAmount.lte(0)) {
         return {
           success: true,
           message: 'Payment confirmed successfully',
           paymentDetails: {
-            transactionReference:
-              invoiceStatus.responseBody.transactionReference,
-            amountPaid: invoiceStatus.responseBody.amountPaid,
-            paidOn: invoiceStatus.responseBody.paidOn,
-            paymentMethod: invoiceStatus.responseBody.paymentMethod,
+            transactionReference: invoice.transactionReference,
+            amountPaid: invoice.amountPaid,
+            paidOn: invoice.paidOn,
+            paymentMethod: invoice.paymentMethod,
           },
         };
-      } else {
-        return {
-          success: false,
-          message: `Payment status: ${invoiceStatus.responseBody.paymentStatus}`,
-        };
       }
-    } catch (error) {
-      this.logger.error(
+
+      return {
+        success: false,
+        message:
+          invoice.amountPaid > 0
+            ? `Partial payment received; ${outstandingAmount.toFixed(2)} outstanding`
+            : `Payment status: ${invoice.paymentStatus}`,
+      };
+    } catch (error) {
+      this.logger.error(
         `Failed to verify payment for order ${orderNumber}: ${error.message}`,
         error.stack,
       );
@@ -830,6 +988,65 @@ export class OrderService {
     }
   }
 
+  /**
+   * Bring a PENDING_PAYMENT order in line with its gateway invoice.
+   *
+   * Records transfers whose webhook never arrived through the same path as
+   * the webhook, and expires the order once its invoice has lapsed unpaid.
+   * Anything paid towards an expired order goes to the wholesaler's wallet.
+   */
+  async reconcilePendingPayment(
+    orderId: string,
+  ): Promise<PaymentReconciliationResult> {
+    const order = await this.prismaService.order.findUniqueOrThrow({
+      where: { id: orderId },
+    });
+    const { orderNumber } = order;
+
+    if (order.status !== OrderStatus.PENDING_PAYMENT) {
+      return {
+        orderNumber,
+        outcome: PAYMENT_RECONCILIATION_OUTCOMES.UNCHANGED,
+      };
+    }
+
+    const invoiceStatus =
+      await this.paymentGateway.getInvoiceStatus(orderNumber);
+    const invoice = invoiceStatus.responseBody;
+
+    const { amountRecorded, orderConfirmed } = await this.recordInvoicePayment(
+      order.id,
+      invoice,
+      PAYMENT_RECONCILIATION_ACTOR,
+    );
+
+    if (amountRecorded.gt(0)) {
+      return {
+        orderNumber,
+        outcome: orderConfirmed
+          ? PAYMENT_RECONCILIATION_OUTCOMES.CONFIRMED
+          : PAYMENT_RECONCILIATION_OUTCOMES.PARTIALLY_PAID,
+        amountRecorded: Number(amountRecorded),
+      };
+    }
+
+    if (!order.paymentExpiresAt || order.paymentExpiresAt > new Date()) {
+      return {
+        orderNumber,
+        outcome: PAYMENT_RECONCILIATION_OUTCOMES.UNCHANGED,
+      };
+    }
+
+    const expired = await this.expireUnpaidOrder(order);
+
+    return {
+      orderNumber,
+      outcome: expired
+        ? PAYMENT_RECONCILIATION_OUTCOMES.EXPIRED
+        : PAYMENT_RECONCILIATION_OUTCOMES.UNCHANGED,
+    };
+  }
+
   /**
    * Update order item status (admin only)
    */
@@ -862,6 +1079,7 @@ export class OrderService {
           select: {
             id: true,
             name: true,
+            sku: true,
             thumbnail: true,
             images: true,
             brand: { select: { name: true } },
@@ -943,31 +1161,54 @@ export class OrderService {
       );
     }
 
-    const updatedItem = await this.prismaService.orderItem.update({
-      where: { id: itemId },
-      data: {
-        status: updateDto.status as OrderItemStatus,
-        processingNotes: updateDto.processingNotes,
-        statusUpdatedAt: new Date(),
-        statusUpdatedBy: userId,
-      },
-    });
+    const shipmentNumber = await this.findActiveShipmentNumber(itemId);
+    if (shipmentNumber) {
+      throw new BadRequestException(
+        `Order item is on shipment ${shipmentNumber}; update the shipment instead`,
+      );
+    }
 
-    // Release inventory if item is being cancelled
-    if (updateDto.status === OrderItemStatus.CANCELLED) {
-      await this.prismaService.product.update({
-        where: { id: orderItem.productId },
+    const updatedItem = await this.prismaService.$transaction(async (tx) => {
+      const item = await tx.orderItem.update({
+        where: { id: itemId },
         data: {
-          quantity: {
-            increment: orderItem.quantity,
-          },
+          status: updateDto.status as OrderItemStatus,
+          processingNotes: updateDto.processingNotes,
+          statusUpdatedAt: new Date(),
+          statusUpdatedBy: userId,
+          ...this.fulfilmentForStatus(orderItem, updateDto.status),
         },
       });
 
-      this.logger.log(
-        `Released ${orderItem.quantity} units of product ${orderItem.productId} back to inventory due to item cancellation`,
-      );
-    }
+      // Release inventory if item is being cancelled
+      if (updateDto.status === OrderItemStatus.CANCELLED) {
+        const [released] = this.undeliveredStock([orderItem]);
+        if (released) {
+          await this.releaseInventoryForOrder(
+            [released],
+            orderNumber,
+            STOCK_MOVEMENT_REASONS.ORDER_ITEM_CANCELLATION,
+            tx,
+          );
+
+          this.logger.log(
+            `Released ${released.quantity} units of product ${orderItem.productId} back to inventory due to item cancellation`,
+          );
+        }
+      }
+
+      // Delivered goods move into the wholesaler's own inventory
+      if (updateDto.status === OrderItemStatus.DELIVERED) {
+        await this.postDeliveryToWholesalerInventory(
+          orderItem.order,
+          orderItem,
+          item.fulfilledQuantity - orderItem.fulfilledQuantity,
+          tx,
+        );
+      }
+
+      return item;
+    });
 
     // Auto-transition order status based on item changes
     await this.updateOrderStatusBasedOnItems(orderItem.order.id, userId);
@@ -1143,55 +1384,85 @@ export class OrderService {
           continue;
         }
 
+        const shipmentNumber = await this.findActiveShipmentNumber(
+          updateItem.itemId,
+        );
+        if (shipmentNumber) {
+          results.push({
+            itemId: updateItem.itemId,
+            success: false,
+            message: `Order item is on shipment ${shipmentNumber}; update the shipment instead`,
+          });
+          continue;
+        }
+
         // Update the item
-        const updatedItem = await this.prismaService.orderItem.update({
-          where: { id: updateItem.itemId },
-          data: {
-            status: updateItem.status,
-            processingNotes:
-              updateItem.processingNotes || existingItem.processingNotes,
-            statusUpdatedAt: new Date(),
-            statusUpdatedBy: user.id,
-          },
-          include: {
-            product: {
-              select: {
-                id: true,
-                name: true,
-                thumbnail: true,
-                images: true,
-                brand: { select: { name: true } },
-                packSize: { select: { name: true } },
-                packType: { select: { name: true } },
-                price: true,
-                discount: true,
-                variant: { select: { id: true, name: true } },
-                subcategory: {
+        const updatedItem = await this.prismaService.$transaction(
+          async (tx) => {
+            const item = await tx.orderItem.update({
+              where: { id: updateItem.itemId },
+              data: {
+                status: updateItem.status,
+                processingNotes:
+                  updateItem.processingNotes || existingItem.processingNotes,
+                statusUpdatedAt: new Date(),
+                statusUpdatedBy: user.id,
+                ...this.fulfilmentForStatus(existingItem, updateItem.status),
+              },
+              include: {
+                product: {
                   select: {
+                    id: true,
                     name: true,
-                    category: { select: { name: true } },
+                    thumbnail: true,
+                    images: true,
+                    brand: { select: { name: true } },
+                    packSize: { select: { name: true } },
+                    packType: { select: { name: true } },
+                    price: true,
+                    discount: true,
+                    variant: { select: { id: true, name: true } },
+                    subcategory: {
+                      select: {
+                        name: true,
+                        category: { select: { name: true } },
+                      },
+                    },
                   },
                 },
               },
-            },
-          },
-        });
+            });
 
-        // Release inventory if item is being cancelled
-        if (updateItem.status === OrderItemStatus.CANCELLED) {
-          await this.prismaService.product.update({
-            where: { id: existingItem.productId },
-            data: {
-              quantity: {
-                increment: existingItem.quantity,
-              },
-            },
-          });
+            // Release inventory if item is being cancelled
+            if (updateItem.status === OrderItemStatus.CANCELLED) {
+              const [released] = this.undeliveredStock([existingItem]);
+              if (released) {
+                await this.releaseInventoryForOrder(
+                  [released],
+                  orderNumber,
+                  STOCK_MOVEMENT_REASONS.ORDER_ITEM_CANCELLATION,
+                  tx,
+                );
 
-          this.logger.log(
-            `Released ${existingItem.quantity} units of product ${existingItem.productId} back to inventory due to item cancellation`,
-          );
-        }
+                this.logger.log(
+                  `Released ${released.quantity} units of product ${existingItem.productId} back to inventory due to item cancellation`,
+                );
+              }
+            }
+
+            // Delivered goods move into the wholesaler's own inventory
+            if (updateItem.status === OrderItemStatus.DELIVERED) {
+              await this.postDeliveryToWholesalerInventory(
+                order,
+                existingItem,
+                item.fulfilledQuantity - existingItem.fulfilledQuantity,
+                tx,
+              );
+            }
+
+            return item;
+          },
+        );
 
         results.push({
           itemId: updateItem.itemId,
@@ -1304,6 +1575,14 @@ export class OrderService {
         payments: {
           where: { status: PaymentStatus.COMPLETED },
         },
+        creditInvoice: {
+          select: {
+            amount: true,
+            amountPaid: true,
+            dueDate: true,
+            status: true,
+          },
+        },
         createdBy: {
           select: { id: true, firstName: true, lastName: true },
         },
@@ -1328,6 +1607,11 @@ export class OrderService {
       }
     }
 
+    const paymentTotals = await this.getPaymentTotals(
+      order.id,
+      order.totalAmount,
+    );
+
     return {
       success: true,
       message: 'Order details retrieved successfully',
@@ -1336,6 +1620,11 @@ export class OrderService {
         procurementOfficerName: order.assignedProcurementOfficer
           ? `${order.assignedProcurementOfficer.firstName} ${order.assignedProcurementOfficer.lastName}`
           : null,
+        paymentSummary: {
+          amountPaid: Number(paymentTotals.amountPaid),
+          outstandingAmount: Number(paymentTotals.outstandingAmount),
+          overpaidAmount: Number(paymentTotals.overpaidAmount),
+        },
       },
     };
   }
@@ -1368,6 +1657,12 @@ export class OrderService {
     } else if (userRole === UserRole.PROCUREMENT_OFFICER) {
       // Procurement officers can see orders assigned to them
       where.assignedProcurementOfficerId = userId;
+    } else if (userRole === UserRole.ADMIN) {
+      // Region-scoped admins only see orders from wholesalers in their regions
+      const regionIds = await this.regionService.getAdminRegionIds(userId);
+      if (regionIds) {
+        where.wholesaler = this.wholesalerRegionFilter(regionIds);
+      }
     }
 
     // Apply additional filters
@@ -1461,7 +1756,9 @@ export class OrderService {
   }
 
   /**
-   * Handle Monnify webhook with proper duplicate prevention and processing
+   * Apply a stored Monnify webhook. Resends are filtered out by the webhook
+   * event store, and each handler tolerates replays of an event it has
+   * already applied.
    */
   async handleMonnifyWebhook(webhookData: any) {
     // Basic validation
@@ -1488,25 +1785,6 @@ export class OrderService {
       `Processing Monnify webhook: ${eventType} for transaction: ${transactionReference}`,
     );
 
-    // Step 1: Check for duplicate webhook processing using existing payment records
-    const existingPayment = await this.prismaService.payment.findFirst({
-      where: {
-        monnifyInvoiceRef: transactionReference,
-        status: PaymentStatus.COMPLETED,
-      },
-    });
-
-    if (existingPayment) {
-      this.logger.log(
-        `Duplicate webhook detected for transaction: ${transactionReference}. Already processed.`,
-      );
-      return {
-        success: true,
-        message: 'Webhook already processed',
-        processed: false,
-      };
-    }
-
     try {
       // Process the webhook based on event type
       let result;
@@ -1519,7 +1797,11 @@ export class OrderService {
           result = await this.processFailedTransaction(eventData);
           break;
         case 'SUCCESSFUL_REFUND':
-          result = await this.processRefund(eventData);
+        case 'FAILED_REFUND':
+          result = await this.refundService.handleRefundWebhook(
+            eventType,
+            eventData,
+          );
           break;
         default:
           this.logger.warn(`Unhandled webhook event type: ${eventType}`);
@@ -1553,6 +1835,20 @@ export class OrderService {
       return { success: false, message: 'Missing required webhook fields' };
     }
 
+    // Transfers into a wallet's reserved account are deposits, not order payments
+    if (eventData.product?.type === RESERVED_ACCOUNT_PRODUCT_TYPE) {
+      return this.walletService.handleDeposit(eventData);
+    }
+
+    // Repayments of credit accounts are paid through their own invoices
+    if (
+      String(eventData.paymentReference).startsWith(
+        CREDIT_REPAYMENT_REFERENCE_PREFIX,
+      )
+    ) {
+      return this.creditAccountService.handleRepaymentTransaction(eventData);
+    }
+
     const orderNumber = eventData.paymentReference; // This is the order number
     const transactionReference = eventData.transactionReference; // This is Monnify's transaction ID
 
@@ -1567,13 +1863,29 @@ export class OrderService {
       return { success: false, message: 'Order not found' };
     }
 
+    // Once a transfer has been recorded from the invoice total, later
+    // webhooks are settled against that total too so none is counted twice
+    if (await this.hasInvoiceTotalPayments(order.id)) {
+      const invoiceStatus = await this.paymentGateway.getInvoiceStatus(
+        order.orderNumber,
+      );
+      const { amountRecorded } = await this.recordInvoicePayment(
+        order.id,
+        invoiceStatus.responseBody,
+        'webhook',
+      );
+
+      return {
+        success: true,
+        message: 'Payment reconciled against the invoice total',
+        processed: amountRecorded.gt(0),
+      };
+    }
+
     // Check if payment already processed to prevent double processing
-    const existingPayment = await this.prismaService.payment.findFirst({
-      where: {
-        orderId: order.id,
-        monnifyInvoiceRef: transactionReference,
-        status: PaymentStatus.COMPLETED,
-      },
+    const transferReference = getTransferReference(eventData);
+    const existingPayment = await this.prismaService.payment.findUnique({
+      where: { transactionRef: transferReference },
     });
 
     if (existingPayment) {
@@ -1587,57 +1899,24 @@ export class OrderService {
       };
     }
 
-    // Process the payment
-    await this.prismaService.$transaction(async (tx) => {
-      // Record payment
-      await tx.payment.create({
-        data: {
-          orderId: order.id,
+    // Process the payment; follow-up events are written to the outbox in the same transaction
+    const outboxEventIds = await this.prismaService.$transaction((tx) =>
+      this.applyPayment(
+        tx,
+        order.id,
+        {
           amount: eventData.amountPaid || eventData.totalPayable || 0,
           paymentMethod: this.mapMonnifyPaymentMethod(eventData.paymentMethod),
           monnifyInvoiceRef: transactionReference,
-          status: PaymentStatus.COMPLETED,
+          transactionRef: transferReference,
           paidAt: new Date(eventData.paidOn),
         },
-      });
-
-      // Update order status
-      await tx.order.update({
-        where: { id: order.id },
-        data: { status: OrderStatus.CONFIRMED },
-      });
-
-      // Auto-confirm order items for paid orders (same as verify-payment)
-      await tx.orderItem.updateMany({
-        where: {
-          orderId: order.id,
-          status: OrderItemStatus.PENDING,
-        },
-        data: {
-          status: OrderItemStatus.PAID,
-          statusUpdatedAt: new Date(),
-          statusUpdatedBy: 'webhook', // Use 'webhook' identifier for webhook updates
-        },
-      });
-    });
+        'webhook', // Use 'webhook' identifier for webhook updates
+      ),
+    );
 
-    // Trigger auto-assignment if enabled (async - don't block webhook response)
-    setImmediate(async () => {
-      try {
-        const autoAssignEnabled =
-          this.configService.get('AUTO_ASSIGN_ENABLED', 'true') === 'true';
-        if (autoAssignEnabled) {
-          await this.autoAssignOrder(order.orderNumber, 'webhook-system');
-          this.logger.log(
-            `Auto-assignment triggered for order ${order.orderNumber}`,
-          );
-        }
-      } catch (autoAssignError) {
-        this.logger.error(
-          `Auto-assignment failed for order ${order.orderNumber}: ${autoAssignError.message}`,
-        );
-      }
-    });
+    // Notifications and auto-assignment run from the outbox relay
+    await this.outboxService.dispatch(outboxEventIds);
 
     this.logger.log(
       `Payment processed successfully for order ${order.orderNumber}`,
@@ -1658,6 +1937,26 @@ export class OrderService {
    * Process failed transaction webhook
    */
   private async processFailedTransaction(eventData: any) {
+    // A failed deposit never reaches the wallet
+    if (eventData.product?.type === RESERVED_ACCOUNT_PRODUCT_TYPE) {
+      this.logger.log(
+        `Failed wallet deposit to ${eventData.product.reference}: ${eventData.transactionReference}`,
+      );
+      return { success: true, message: 'Failed wallet deposit noted' };
+    }
+
+    // A failed repayment leaves the credit balance as it was
+    if (
+      String(eventData.paymentReference).startsWith(
+        CREDIT_REPAYMENT_REFERENCE_PREFIX,
+      )
+    ) {
+      this.logger.log(
+        `Failed credit repayment transfer for ${eventData.paymentReference}`,
+      );
+      return { success: true, message: 'Failed credit repayment noted' };
+    }
+
     const order = await this.prismaService.order.findFirst({
       where: { monnifyInvoiceRef: eventData.transactionReference },
     });
@@ -1669,6 +1968,22 @@ export class OrderService {
       return { success: false, message: 'Order not found' };
     }
 
+    // Replays of the same event must not record the attempt twice
+    const existingPayment = await this.prismaService.payment.findFirst({
+      where: {
+        monnifyInvoiceRef: eventData.transactionReference,
+        status: PaymentStatus.FAILED,
+      },
+    });
+
+    if (existingPayment) {
+      return {
+        success: true,
+        message: 'Failed payment already recorded',
+        processed: false,
+      };
+    }
+
     // Log the failed payment attempt
     await this.prismaService.payment.create({
       data: {
@@ -1692,24 +2007,6 @@ export class OrderService {
     };
   }
 
-  /**
-   * Process refund webhook
-   */
-  private async processRefund(eventData: any) {
-    // Handle refund processing
-    this.logger.log(
-      `Refund webhook received for transaction: ${eventData.transactionReference}`,
-    );
-
-    return {
-      success: true,
-      message: 'Refund webhook received',
-      data: {
-        transactionReference: eventData.transactionReference,
-      },
-    };
-  }
-
   /**
    * Map Monnify payment methods to our payment method enum
    */
@@ -1727,28 +2024,390 @@ export class OrderService {
   }
 
   /**
-   * Generate unique order number
-   */
-  private async generateOrderNumber(prefix: string = 'JOO-'): Promise<string> {
-    const timestamp = Date.now().toString().slice(-7);
-    const random = Math.floor(Math.random() * 1000)
-      .toString()
-      .padStart(3, '0');
-    return `${prefix}${timestamp}${random}`;
-  }
-
-  /**
-   * Auto-transition order status based on item statuses
+   * Validate a DRAFT order for checkout and price it at current prices
+   * @param action - What the caller is checking out for, used in error messages
    */
-  private async updateOrderStatusBasedOnItems(orderId: string, userId: string) {
+  private async prepareDraftCheckout(
+    orderNumber: string,
+    userId: string,
+    action: string,
+  ) {
+    // Get order and validate
     const order = await this.prismaService.order.findUnique({
-      where: { id: orderId },
-      include: { items: true },
+      where: { orderNumber },
+      include: {
+        items: {
+          include: {
+            product: {
+              select: { id: true, name: true, quantity: true, price: true },
+            },
+          },
+        },
+        wholesaler: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    // Get user and validate permissions
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    // Wholesalers can only check out their own orders; admins can check out any
+    if (user.role === UserRole.WHOLESALER) {
+      if (order.wholesalerId !== userId) {
+        throw new ForbiddenException(
+          `You can only ${action} for your own orders`,
+        );
+      }
+    }
+
+    // Validate order status
+    if (order.status !== OrderStatus.DRAFT) {
+      throw new BadRequestException('Only DRAFT orders can be checked out');
+    }
+
+    // Validate items exist and meet requirements
+    if (!order.items || order.items.length === 0) {
+      throw new BadRequestException(`Cannot ${action} for order with no items`);
+    }
+
+    // Validate each item meets minimum quantity and check inventory
+    const minQuantity = await this.systemConfigService.get(
+      'MIN_ORDER_ITEM_QUANTITY',
+    );
+    const inventoryErrors: string[] = [];
+    for (const item of order.items) {
+      if (item.quantity < minQuantity) {
+        throw new BadRequestException(
+          `Item ${item.product.name} quantity (${item.quantity}) is below minimum required (${minQuantity})`,
+        );
+      }
+
+      // Check current inventory availability
+      if (item.product.quantity < item.quantity) {
+        inventoryErrors.push(
+          `Insufficient stock for ${item.product.name}. Available: ${item.product.quantity}, Requested: ${item.quantity}`,
+        );
+      }
+    }
+
+    if (inventoryErrors.length > 0) {
+      throw new BadRequestException(
+        `Inventory validation failed: ${inventoryErrors.join('; ')}`,
+      );
+    }
+
+    // Recalculate totals with current prices
+    let totalAmount = 0;
+    const updatedItems: {
+      id: string;
+      unitPrice: Prisma.Decimal;
+      lineTotal: number;
+    }[] = [];
+
+    for (const item of order.items) {
+      const currentPrice = item.product.price;
+      if (currentPrice === null) {
+        throw new BadRequestException(
+          `Item ${item.product.name} has no price and cannot be checked out`,
+        );
+      }
+
+      const lineTotal = item.quantity * Number(currentPrice);
+      totalAmount += lineTotal;
+
+      updatedItems.push({
+        id: item.id,
+        unitPrice: currentPrice,
+        lineTotal: lineTotal,
+      });
+    }
+
+    if (totalAmount <= 0) {
+      throw new BadRequestException('Order total must be greater than 0');
+    }
+
+    // Validate delivery address is provided
+    if (!order.deliveryAddress) {
+      throw new BadRequestException(
+        `Delivery address is required to ${action}`,
+      );
+    }
+
+    return { order, totalAmount, updatedItems };
+  }
+
+  /**
+   * Generate unique order number
+   */
+  private async generateOrderNumber(prefix: string = 'JOO-'): Promise<string> {
+    const timestamp = Date.now().toString().slice(-7);
+    const random = Math.floor(Math.random() * 1000)
+      .toString()
+      .padStart(3, '0');
+    return `${prefix}${timestamp}${random}`;
+  }
+
+  /**
+   * Bring order items in line with the units delivered, on the road and
+   * short. Call inside the transaction that changes any of those, then
+   * updateOrderStatusBasedOnItems once it has committed.
+   * @throws BadRequestException if an item cannot make the resulting transition
+   */
+  async syncItemFulfilment(
+    tx: Prisma.TransactionClient,
+    order: { id: string; wholesalerId: string },
+    changes: ItemFulfilmentChange[],
+    processingNotes: string,
+    userId: string,
+  ): Promise<void> {
+    const orderItemIds = changes.map((change) => change.orderItemId);
+    const items = await tx.orderItem.findMany({
+      where: { id: { in: orderItemIds }, orderId: order.id },
+      include: { product: { select: { name: true, sku: true } } },
+    });
+
+    const inFlight = await tx.shipmentItem.groupBy({
+      by: ['orderItemId'],
+      where: {
+        orderItemId: { in: orderItemIds },
+        shipment: { status: { in: IN_FLIGHT_SHIPMENT_STATUSES } },
+      },
+      _sum: { quantity: true },
+    });
+
+    for (const item of items) {
+      const deliveredQuantity =
+        changes.find((change) => change.orderItemId === item.id)
+          ?.deliveredQuantity ?? 0;
+      const dispatchedQuantity =
+        inFlight.find((entry) => entry.orderItemId === item.id)?._sum
+          .quantity ?? 0;
+      const fulfilledQuantity = item.fulfilledQuantity + deliveredQuantity;
+      const fulfillableQuantity = item.quantity - item.shortQuantity;
+
+      let status = item.status;
+      if (fulfillableQuantity <= 0) {
+        status = OrderItemStatus.UNAVAILABLE;
+      } else if (fulfilledQuantity >= fulfillableQuantity) {
+        status = OrderItemStatus.DELIVERED;
+      } else if (
+        fulfilledQuantity + dispatchedQuantity >=
+        fulfillableQuantity
+      ) {
+        status = OrderItemStatus.SHIPPED;
+      } else if (item.status === OrderItemStatus.SHIPPED) {
+        // Some of it came back; the rest still has to go out
+        status = OrderItemStatus.READY;
+      }
+
+      if (
+        status !== item.status &&
+        !this.isValidOrderItemStatusTransition(item.status, status)
+      ) {
+        throw new BadRequestException(
+          `Order item ${item.id} is ${item.status} and cannot move to ${status}`,
+        );
+      }
+
+      await tx.orderItem.update({
+        where: { id: item.id },
+        data: {
+          status,
+          fulfilledQuantity,
+          processingNotes,
+          statusUpdatedAt: new Date(),
+          statusUpdatedBy: userId,
+        },
+      });
+
+      // Delivered goods move into the wholesaler's own inventory
+      if (deliveredQuantity > 0) {
+        await this.postDeliveryToWholesalerInventory(
+          order,
+          item,
+          deliveredQuantity,
+          tx,
+        );
+      }
+    }
+  }
+
+  /**
+   * Record units of an order item that cannot be supplied. Credit orders
+   * have their invoice reduced; paid orders are refunded for the shortfall.
+   * A refund that fails is logged and can be retried from the order's
+   * refunds.
+   */
+  async recordShortfall(
+    orderNumber: string,
+    itemId: string,
+    dto: RecordShortfallDto,
+    userId: string,
+  ): Promise<ShortfallResponseDto> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const orderItem = await this.prismaService.orderItem.findFirst({
+      where: { id: itemId, order: { orderNumber } },
+      include: { order: true },
+    });
+
+    if (!orderItem) {
+      throw new NotFoundException('Order item not found');
+    }
+
+    const { order } = orderItem;
+
+    if (
+      user.role === UserRole.PROCUREMENT_OFFICER &&
+      order.assignedProcurementOfficerId !== userId
+    ) {
+      throw new ForbiddenException(
+        'You can only update items for orders assigned to you',
+      );
+    }
+
+    if (!SHIPPABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new BadRequestException(
+        `Cannot record a shortfall on an order that is ${order.status}`,
+      );
+    }
+
+    const item = await this.prismaService.$transaction(async (tx) => {
+      // Lock the item so concurrent shortfalls and shipments see each other
+      const current = await tx.orderItem.update({
+        where: { id: itemId },
+        data: { updatedAt: new Date() },
+      });
+
+      if (
+        current.status === OrderItemStatus.CANCELLED ||
+        current.status === OrderItemStatus.UNAVAILABLE
+      ) {
+        throw new BadRequestException(
+          `Order item is ${current.status}; nothing is left to fall short`,
+        );
+      }
+
+      const onShipments = await tx.shipmentItem.aggregate({
+        where: {
+          orderItemId: itemId,
+          shipment: { status: { in: ACTIVE_SHIPMENT_STATUSES } },
+        },
+        _sum: { quantity: true },
+      });
+
+      const openQuantity =
+        current.quantity -
+        current.shortQuantity -
+        current.fulfilledQuantity -
+        (onShipments._sum.quantity ?? 0);
+
+      if (dto.quantity > openQuantity) {
+        throw new BadRequestException(
+          `Only ${openQuantity} unit(s) of this item are still to be sent; units delivered or on an active shipment cannot fall short`,
+        );
+      }
+
+      const shortened = await tx.orderItem.update({
+        where: { id: itemId },
+        data: { shortQuantity: { increment: dto.quantity } },
+      });
+
+      await this.syncItemFulfilment(
+        tx,
+        order,
+        [{ orderItemId: itemId }],
+        dto.reason,
+        userId,
+      );
+
+      await this.creditAccountService.reduceInvoiceForOrder(
+        tx,
+        order,
+        current.unitPrice.times(dto.quantity),
+        `shortfall:${itemId}:${shortened.shortQuantity}`,
+      );
+
+      return tx.orderItem.findUniqueOrThrow({ where: { id: itemId } });
+    });
+
+    await this.updateOrderStatusBasedOnItems(order.id, userId);
+
+    this.logger.log(
+      `Recorded ${dto.quantity} short unit(s) on order item ${itemId} of order ${orderNumber}`,
+    );
+
+    let refunds: RefundResponseDto[] = [];
+    const paid = await this.prismaService.payment.count({
+      where: { orderId: order.id, status: PaymentStatus.COMPLETED },
+    });
+
+    if (paid > 0) {
+      try {
+        refunds = await this.refundService.createRefund(
+          orderNumber,
+          {
+            reason: dto.reason,
+            itemIds: [itemId],
+            destination: dto.refundDestination,
+          },
+          userId,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to refund shortfall on order item ${itemId} of order ${orderNumber}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+
+    return {
+      orderItemId: item.id,
+      quantity: item.quantity,
+      fulfilledQuantity: item.fulfilledQuantity,
+      shortQuantity: item.shortQuantity,
+      status: item.status,
+      refunds,
+    };
+  }
+
+  /**
+   * Auto-transition order status based on item statuses
+   */
+  async updateOrderStatusBasedOnItems(orderId: string, userId: string) {
+    const order = await this.prismaService.order.findUnique({
+      where: { id: orderId },
+      include: { items: true },
     });
 
     if (!order) return;
 
     const items = order.items;
+    let status = order.status;
 
     // Auto-transition to IN_PROGRESS when any item status changes from PENDING
     // (regardless of assignment acceptance status - admins can start working on items)
@@ -1756,7 +2415,7 @@ export class OrderService {
       (item) => item.status !== OrderItemStatus.PENDING,
     );
 
-    if (order.status === OrderStatus.CONFIRMED && hasNonPendingItems) {
+    if (status === OrderStatus.CONFIRMED && hasNonPendingItems) {
       await this.prismaService.order.update({
         where: { id: orderId },
         data: { status: OrderStatus.IN_PROGRESS },
@@ -1764,11 +2423,11 @@ export class OrderService {
       this.logger.log(
         `Order ${order.orderNumber} auto-transitioned to IN_PROGRESS (item status changed)`,
       );
-      return;
+      status = OrderStatus.IN_PROGRESS;
     }
 
     // Also handle transition from ASSIGNED to IN_PROGRESS
-    if (order.status === OrderStatus.ASSIGNED && hasNonPendingItems) {
+    if (status === OrderStatus.ASSIGNED && hasNonPendingItems) {
       await this.prismaService.order.update({
         where: { id: orderId },
         data: { status: OrderStatus.IN_PROGRESS },
@@ -1776,21 +2435,37 @@ export class OrderService {
       this.logger.log(
         `Order ${order.orderNumber} auto-transitioned to IN_PROGRESS`,
       );
-      return;
+      status = OrderStatus.IN_PROGRESS;
     }
 
-    // Auto-transition to COMPLETED when all items are delivered
-    const allDelivered = items.every(
-      (item) => item.status === OrderItemStatus.DELIVERED,
+    // Auto-transition to COMPLETED once every unit still owed has been
+    // delivered; short, unavailable and cancelled units are not owed
+    const outstandingQuantity = items.reduce(
+      (total, item) =>
+        item.status === OrderItemStatus.CANCELLED ||
+        item.status === OrderItemStatus.UNAVAILABLE
+          ? total
+          : total +
+            Math.max(
+              item.quantity - item.shortQuantity - item.fulfilledQuantity,
+              0,
+            ),
+      0,
     );
-    if (allDelivered && order.status === OrderStatus.IN_PROGRESS) {
+    const anyFulfilled = items.some((item) => item.fulfilledQuantity > 0);
+    if (
+      outstandingQuantity === 0 &&
+      anyFulfilled &&
+      status === OrderStatus.IN_PROGRESS
+    ) {
       await this.prismaService.order.update({
         where: { id: orderId },
         data: { status: OrderStatus.COMPLETED },
       });
       this.logger.log(
-        `Order ${order.orderNumber} auto-completed - all items delivered`,
+        `Order ${order.orderNumber} auto-completed - all items fulfilled`,
       );
+      await this.publishOrderEvent(EmailEvent.ORDER_COMPLETED, orderId, {});
       return;
     }
 
@@ -1798,7 +2473,7 @@ export class OrderService {
     const allCancelled = items.every(
       (item) => item.status === OrderItemStatus.CANCELLED,
     );
-    if (allCancelled && order.status !== OrderStatus.CANCELLED) {
+    if (allCancelled && status !== OrderStatus.CANCELLED) {
       await this.prismaService.order.update({
         where: { id: orderId },
         data: {
@@ -1810,20 +2485,25 @@ export class OrderService {
       this.logger.log(
         `Order ${order.orderNumber} auto-cancelled - all items cancelled`,
       );
+      await this.publishOrderEvent(EmailEvent.ORDER_STATUS_CHANGED, orderId, {
+        previousStatus: status,
+        newStatus: OrderStatus.CANCELLED,
+      });
     }
   }
 
   /**
-   * Auto-assign order based on procurement officer availability
-   * Assigns to officer with least active orders
+   * Auto-assign order using the configured assignment strategy
+   * Orders with no eligible officer are left for manual assignment
    */
   async autoAssignOrder(
     orderNumber: string,
     triggeredByUserId: string,
   ): Promise<AssignmentStatusDto | null> {
     // Check if auto-assignment is enabled (you can make this configurable)
-    const autoAssignEnabled =
-      this.configService.get('AUTO_ASSIGN_ENABLED', 'true') === 'true';
+    const autoAssignEnabled = await this.systemConfigService.get(
+      'AUTO_ASSIGN_ENABLED',
+    );
     if (!autoAssignEnabled) {
       this.logger.log('Auto-assignment is disabled');
       return null;
@@ -1843,225 +2523,75 @@ export class OrderService {
     }
 
     // Only auto-assign confirmed, paid orders that aren't already assigned
-    if (order.status !== OrderStatus.CONFIRMED) {
-      this.logger.log(
-        `Order ${orderNumber} is not confirmed, skipping auto-assignment`,
-      );
-      return null;
-    }
-
-    if (order.payments.length === 0) {
-      this.logger.log(
-        `Order ${orderNumber} is not paid, skipping auto-assignment`,
-      );
-      return null;
-    }
-
-    if (order.assignedProcurementOfficerId) {
-      this.logger.log(
-        `Order ${orderNumber} already assigned, skipping auto-assignment`,
-      );
-      return null;
-    }
-
-    // Find available procurement officer with least workload
-    const availableOfficer = await this.findMostAvailableOfficer();
-
-    if (!availableOfficer) {
-      // Try to assign to any procurement officer (even unavailable ones)
-      const anyOfficer = await this.findAnyProcurementOfficer();
-
-      if (!anyOfficer) {
-        this.logger.warn('No procurement officers exist for auto-assignment');
-        return null;
-      }
-
-      // Assign to unavailable officer
-      const updatedOrder = await this.prismaService.order.update({
-        where: { orderNumber },
-        data: {
-          assignedProcurementOfficerId: anyOfficer.userId,
-          assignmentStatus: AssignmentStatus.PENDING_ACCEPTANCE,
-          assignedAt: new Date(),
-          assignmentNotes:
-            'Auto-assigned to unavailable officer due to no available officers',
-        },
-      });
-
-      this.logger.log(
-        `Order ${orderNumber} auto-assigned to unavailable officer ${anyOfficer.user.firstName} ${anyOfficer.user.lastName} (no available officers found)`,
-      );
-
-      return {
-        success: true,
-        message: 'Order auto-assigned successfully (no officers available)',
-        data: {
-          orderNumber: updatedOrder.orderNumber,
-          status: AssignmentStatus.PENDING_ACCEPTANCE,
-          procurementOfficerName: `${anyOfficer.user.firstName} ${anyOfficer.user.lastName}`,
-          assignedAt: updatedOrder.assignedAt!,
-        },
-      };
-    }
-
-    // Auto-assign the order
-    const updatedOrder = await this.prismaService.order.update({
-      where: { orderNumber },
-      data: {
-        assignedProcurementOfficerId: availableOfficer.userId,
-        assignmentStatus: AssignmentStatus.PENDING_ACCEPTANCE,
-        assignedAt: new Date(),
-        assignmentNotes: 'Auto-assigned based on availability',
-        assignmentResponseReason: null,
-      },
-    });
-
-    this.logger.log(
-      `Order ${orderNumber} auto-assigned to ${availableOfficer.user.firstName} ${availableOfficer.user.lastName} (${availableOfficer.activeOrdersCount} active orders)`,
-    );
-
-    return {
-      success: true,
-      message: 'Order auto-assigned successfully',
-      data: {
-        orderNumber: updatedOrder.orderNumber,
-        status: AssignmentStatus.PENDING_ACCEPTANCE,
-        procurementOfficerName: `${availableOfficer.user.firstName} ${availableOfficer.user.lastName}`,
-        assignedAt: updatedOrder.assignedAt!,
-        assignmentNotes: updatedOrder.assignmentNotes || undefined,
-      },
-    };
-  }
-
-  /**
-   * Find procurement officer with least active orders
-   * @param excludeUserId - User ID to exclude from selection (e.g., officer who rejected)
-   */
-  private async findMostAvailableOfficer(excludeUserId?: string) {
-    const officers =
-      await this.prismaService.procurementOfficerProfile.findMany({
-        include: {
-          user: {
-            include: {
-              assignedOrders: {
-                where: {
-                  status: {
-                    in: [OrderStatus.ASSIGNED, OrderStatus.IN_PROGRESS],
-                  },
-                  assignmentStatus: {
-                    in: [
-                      AssignmentStatus.PENDING_ACCEPTANCE,
-                      AssignmentStatus.ACCEPTED,
-                    ],
-                  },
-                },
-                select: { id: true },
-              },
-            },
-          },
-        },
-        where: {
-          user: {
-            status: 'ACTIVE', // User account must be active
-            ...(excludeUserId && { id: { not: excludeUserId } }),
-          },
-          // Officer must be available for new assignments
-          availabilityStatus: ProcurementOfficerStatus.AVAILABLE,
-          ...(excludeUserId && {
-            userId: {
-              not: excludeUserId,
-            },
-          }),
-        },
-      });
-
-    if (officers.length === 0) {
+    if (order.status !== OrderStatus.CONFIRMED) {
+      this.logger.log(
+        `Order ${orderNumber} is not confirmed, skipping auto-assignment`,
+      );
       return null;
     }
 
-    // Filter officers who haven't exceeded their maximum active orders
-    const availableOfficers = officers.filter((officer) => {
-      const activeOrders = officer.user.assignedOrders.length;
-      const maxOrders = officer.maxActiveOrders || 5; // Default to 5 if not set
-      return activeOrders < maxOrders;
-    });
-
-    if (availableOfficers.length === 0) {
-      this.logger.warn(
-        'No officers available - all have reached their maximum active orders',
+    if (order.payments.length === 0) {
+      this.logger.log(
+        `Order ${orderNumber} is not paid, skipping auto-assignment`,
       );
       return null;
     }
 
-    // Calculate workload and find least busy officer
-    const officersWithWorkload = availableOfficers.map((officer) => ({
-      ...officer,
-      activeOrdersCount: officer.user.assignedOrders.length,
-    }));
-
-    // Sort by active orders count (ascending), then by user ID for consistency
-    officersWithWorkload.sort((a, b) => {
-      if (a.activeOrdersCount !== b.activeOrdersCount) {
-        return a.activeOrdersCount - b.activeOrdersCount;
-      }
-      return a.user.id.localeCompare(b.user.id);
-    });
-
-    return officersWithWorkload[0];
-  }
+    if (order.assignedProcurementOfficerId) {
+      this.logger.log(
+        `Order ${orderNumber} already assigned, skipping auto-assignment`,
+      );
+      return null;
+    }
 
-  /**
-   * Find any procurement officer (including unavailable ones)
-   * Used as fallback when no available officers exist
-   */
-  private async findAnyProcurementOfficer() {
-    const officers =
-      await this.prismaService.procurementOfficerProfile.findMany({
-        include: {
-          user: {
-            include: {
-              assignedOrders: {
-                where: {
-                  status: {
-                    in: [OrderStatus.ASSIGNED, OrderStatus.IN_PROGRESS],
-                  },
-                  assignmentStatus: {
-                    in: [
-                      AssignmentStatus.PENDING_ACCEPTANCE,
-                      AssignmentStatus.ACCEPTED,
-                    ],
-                  },
-                },
-                select: { id: true },
-              },
-            },
-          },
-        },
-        where: {
-          user: {
-            status: 'ACTIVE', // User account must be active
-          },
-        },
-      });
+    // Rank eligible officers with the configured assignment strategy
+    const selection =
+      await this.officerAssignmentService.selectOfficer(orderNumber);
 
-    if (officers.length === 0) {
+    if (!selection) {
+      this.logger.warn(
+        `No eligible procurement officer for order ${orderNumber}; leaving it for manual assignment`,
+      );
       return null;
     }
 
-    // Sort by active orders count to pick the least busy one
-    const officersWithWorkload = officers.map((officer) => ({
-      ...officer,
-      activeOrdersCount: officer.user.assignedOrders.length,
-    }));
+    const { officer, score } = selection;
 
-    officersWithWorkload.sort((a, b) => {
-      if (a.activeOrdersCount !== b.activeOrdersCount) {
-        return a.activeOrdersCount - b.activeOrdersCount;
-      }
-      return a.user.id.localeCompare(b.user.id);
+    // Auto-assign the order
+    const updatedOrder = await this.prismaService.order.update({
+      where: { orderNumber },
+      data: {
+        assignedProcurementOfficerId: officer.userId,
+        assignmentStatus: AssignmentStatus.PENDING_ACCEPTANCE,
+        assignedAt: new Date(),
+        assignmentNotes: `Auto-assigned by ${score.strategy} strategy (score ${score.totalScore})`,
+        assignmentResponseReason: null,
+        assignmentScore: score as unknown as Prisma.InputJsonObject,
+      },
     });
 
-    return officersWithWorkload[0];
+    await this.openAssignmentAttempt(
+      updatedOrder,
+      officer.userId,
+      updatedOrder.assignedAt!,
+    );
+
+    this.logger.log(
+      `Order ${orderNumber} auto-assigned to ${score.officerName} (score ${score.totalScore}, ${officer.activeOrdersCount} active orders)`,
+    );
+
+    return {
+      success: true,
+      message: 'Order auto-assigned successfully',
+      data: {
+        orderNumber: updatedOrder.orderNumber,
+        status: AssignmentStatus.PENDING_ACCEPTANCE,
+        procurementOfficerName: score.officerName,
+        assignedAt: updatedOrder.assignedAt!,
+        assignmentNotes: updatedOrder.assignmentNotes || undefined,
+        scoring: score,
+      },
+    };
   }
 
   /**
@@ -2161,10 +2691,18 @@ export class OrderService {
           (isReassignment ? 'Reassigned by admin' : undefined),
         assignmentRespondedAt: null, // Reset response when reassigning
         assignmentResponseReason: null, // Reset response reason when reassigning
+        assignmentScore: Prisma.DbNull, // Manual assignments are not scored
         // Order status remains CONFIRMED until officer accepts
       },
     });
 
+    await this.openAssignmentAttempt(
+      updatedOrder,
+      assignDto.procurementOfficerId,
+      updatedOrder.assignedAt!,
+      isReassignment ? 'Reassigned by admin' : 'Assigned by admin',
+    );
+
     const assignmentStatus = isReassignment
       ? AssignmentStatus.REASSIGNED
       : AssignmentStatus.PENDING_ACCEPTANCE;
@@ -2267,6 +2805,14 @@ export class OrderService {
       data: updateData,
     });
 
+    await this.closePendingAssignmentAttempts(
+      order.id,
+      responseDto.response === AssignmentResponseType.ACCEPT
+        ? AssignmentAttemptOutcome.ACCEPTED
+        : AssignmentAttemptOutcome.REJECTED,
+      responseDto.reason,
+    );
+
     this.logger.log(
       `Order ${orderNumber} ${responseDto.response.toLowerCase()}ed by ${user.firstName} ${user.lastName}`,
     );
@@ -2321,17 +2867,18 @@ export class OrderService {
   ): Promise<void> {
     try {
       // Check if auto-assignment is enabled
-      const autoAssignEnabled =
-        this.configService.get('AUTO_ASSIGN_ENABLED', 'true') === 'true';
+      const autoAssignEnabled = await this.systemConfigService.get(
+        'AUTO_ASSIGN_ENABLED',
+      );
       if (!autoAssignEnabled) {
         this.logger.log(`Auto-reassignment disabled for order ${orderNumber}`);
         return;
       }
 
       // Check if auto-reassignment after rejection is enabled
-      const autoReassignEnabled =
-        this.configService.get('AUTO_REASSIGN_AFTER_REJECTION', 'true') ===
-        'true';
+      const autoReassignEnabled = await this.systemConfigService.get(
+        'AUTO_REASSIGN_AFTER_REJECTION',
+      );
       if (!autoReassignEnabled) {
         this.logger.log(
           `Auto-reassignment after rejection disabled for order ${orderNumber}`,
@@ -2340,9 +2887,7 @@ export class OrderService {
       }
 
       // Get maximum reassignment attempts
-      const maxReassignAttempts = parseInt(
-        this.configService.get('MAX_REASSIGN_ATTEMPTS', '3'),
-      );
+      const maxReassignAttempts = this.assignmentSlaService.maxAttempts;
 
       // Get the current state of the order to ensure it's still rejected
       const order = await this.prismaService.order.findUnique({
@@ -2359,28 +2904,6 @@ export class OrderService {
         return;
       }
 
-      // Count previous rejections by checking assignment notes
-      // This is a simple approach - in production, you might want a dedicated assignment history table
-      const assignmentNotesHistory = order.assignmentNotes || '';
-      const rejectionMatches = assignmentNotesHistory.match(
-        /Auto-reassigned after rejection/g,
-      );
-      const rejectionCount = rejectionMatches ? rejectionMatches.length : 0;
-
-      if (rejectionCount >= maxReassignAttempts) {
-        this.logger.warn(
-          `Order ${orderNumber} has reached maximum reassignment attempts (${maxReassignAttempts}). Manual intervention required.`,
-        );
-        // Mark order for manual intervention
-        await this.prismaService.order.update({
-          where: { orderNumber },
-          data: {
-            assignmentNotes: `${assignmentNotesHistory} | Maximum auto-reassignment attempts reached (${rejectionCount + 1}). Manual assignment required.`,
-          },
-        });
-        return;
-      }
-
       // Safety checks before reassignment
       if (order.assignmentStatus !== AssignmentStatus.REJECTED) {
         this.logger.log(
@@ -2410,32 +2933,73 @@ export class OrderService {
         return;
       }
 
-      // Find an available officer (excluding the one who rejected)
-      const availableOfficer =
-        await this.findMostAvailableOfficer(rejectedByUserId);
+      const rejectedBy = await this.prismaService.user.findUnique({
+        where: { id: rejectedByUserId },
+        select: { firstName: true, lastName: true },
+      });
+      const rejectedByName = `${rejectedBy?.firstName} ${rejectedBy?.lastName}`;
+
+      // Rejections and acceptance timeouts both count towards the limit
+      const failed = await this.getFailedAssignmentAttempts(order.id);
+      const failedAttempts = failed.length;
+
+      if (failedAttempts >= maxReassignAttempts) {
+        this.logger.warn(
+          `Order ${orderNumber} has reached maximum reassignment attempts (${maxReassignAttempts}). Manual intervention required.`,
+        );
+        await this.escalateAssignment(
+          order,
+          failedAttempts,
+          rejectedByName,
+          'Maximum auto-reassignment attempts reached',
+        );
+        return;
+      }
+
+      // Find an eligible officer (excluding officers who already declined)
+      const selection = await this.officerAssignmentService.selectOfficer(
+        orderNumber,
+        [rejectedByUserId, ...failed.map((attempt) => attempt.officerId)],
+      );
 
-      if (!availableOfficer) {
+      if (!selection) {
         this.logger.warn(
           `No available procurement officers for auto-reassignment of order ${orderNumber}`,
         );
+        await this.escalateAssignment(
+          order,
+          failedAttempts,
+          rejectedByName,
+          'No other eligible procurement officer',
+        );
         return;
       }
 
+      const { officer, score } = selection;
+
       // Auto-reassign the order
       const updatedOrder = await this.prismaService.order.update({
         where: { orderNumber },
         data: {
-          assignedProcurementOfficerId: availableOfficer.userId,
+          assignedProcurementOfficerId: officer.userId,
           assignmentStatus: AssignmentStatus.REASSIGNED,
           assignedAt: new Date(),
-          assignmentNotes: `${order.assignmentNotes || ''} | Auto-reassigned after rejection (attempt ${rejectionCount + 1}/${maxReassignAttempts})`,
+          assignmentNotes: `${order.assignmentNotes || ''} | Auto-reassigned after rejection (attempt ${failedAttempts}/${maxReassignAttempts})`,
           assignmentRespondedAt: null,
           assignmentResponseReason: null,
+          assignmentScore: score as unknown as Prisma.InputJsonObject,
         },
       });
 
+      await this.openAssignmentAttempt(
+        updatedOrder,
+        officer.userId,
+        updatedOrder.assignedAt!,
+        'Auto-reassigned after rejection',
+      );
+
       this.logger.log(
-        `Order ${orderNumber} auto-reassigned to ${availableOfficer.user.firstName} ${availableOfficer.user.lastName} after rejection (${availableOfficer.activeOrdersCount} active orders)`,
+        `Order ${orderNumber} auto-reassigned to ${score.officerName} after rejection (score ${score.totalScore}, ${officer.activeOrdersCount} active orders)`,
       );
 
       // Optional: Send notification to the new officer about the reassignment
@@ -2449,6 +3013,310 @@ export class OrderService {
     }
   }
 
+  /**
+   * Reassign an order whose officer did not respond within the acceptance SLA.
+   * Called by the order-assignment queue when an attempt's timer fires.
+   */
+  async handleAssignmentTimeout(attemptId: string): Promise<void> {
+    const attempt = await this.prismaService.orderAssignmentAttempt.findUnique({
+      where: { id: attemptId },
+      include: {
+        order: true,
+        officer: { select: { firstName: true, lastName: true } },
+      },
+    });
+
+    if (!attempt || attempt.outcome !== AssignmentAttemptOutcome.PENDING) {
+      this.logger.log(
+        `Assignment attempt ${attemptId} already closed, skipping timeout`,
+      );
+      return;
+    }
+
+    const { order } = attempt;
+    const officerName = `${attempt.officer.firstName} ${attempt.officer.lastName}`;
+    const windowMinutes = this.assignmentSlaService.acceptanceWindowMinutes;
+
+    // Record the non-response; the guard stops a concurrent accept/reject being overwritten
+    const { count } =
+      await this.prismaService.orderAssignmentAttempt.updateMany({
+        where: { id: attemptId, outcome: AssignmentAttemptOutcome.PENDING },
+        data: {
+          outcome: AssignmentAttemptOutcome.EXPIRED,
+          respondedAt: new Date(),
+          notes: `No response within ${windowMinutes} minutes`,
+        },
+      });
+
+    if (count === 0) {
+      return;
+    }
+
+    const stillWaiting =
+      order.assignedProcurementOfficerId === attempt.officerId &&
+      (order.assignmentStatus === AssignmentStatus.PENDING_ACCEPTANCE ||
+        order.assignmentStatus === AssignmentStatus.REASSIGNED);
+
+    if (!stillWaiting) {
+      return;
+    }
+
+    this.logger.warn(
+      `Order ${order.orderNumber} not accepted by ${officerName} within ${windowMinutes} minutes`,
+    );
+
+    const failed = await this.getFailedAssignmentAttempts(order.id);
+    const maxAttempts = this.assignmentSlaService.maxAttempts;
+
+    if (failed.length >= maxAttempts) {
+      await this.escalateAssignment(
+        order,
+        failed.length,
+        officerName,
+        `No officer accepted within ${windowMinutes} minutes after ${failed.length} attempt(s)`,
+      );
+      return;
+    }
+
+    const selection = await this.officerAssignmentService.selectOfficer(
+      order.orderNumber,
+      failed.map((failedAttempt) => failedAttempt.officerId),
+    );
+
+    if (!selection) {
+      await this.escalateAssignment(
+        order,
+        failed.length,
+        officerName,
+        'No other eligible procurement officer',
+      );
+      return;
+    }
+
+    const { officer, score } = selection;
+    const assignedAt = new Date();
+
+    // Only move the order if it is still waiting on the officer who timed out
+    const reassigned = await this.prismaService.order.updateMany({
+      where: {
+        id: order.id,
+        assignedProcurementOfficerId: attempt.officerId,
+        assignmentStatus: {
+          in: [
+            AssignmentStatus.PENDING_ACCEPTANCE,
+            AssignmentStatus.REASSIGNED,
+          ],
+        },
+      },
+      data: {
+        assignedProcurementOfficerId: officer.userId,
+        assignmentStatus: AssignmentStatus.REASSIGNED,
+        assignedAt,
+        assignmentNotes: `${order.assignmentNotes || ''} | Auto-reassigned after no response from ${officerName} (attempt ${failed.length}/${maxAttempts})`,
+        assignmentRespondedAt: null,
+        assignmentResponseReason: null,
+        assignmentScore: score as unknown as Prisma.InputJsonObject,
+      },
+    });
+
+    if (reassigned.count === 0) {
+      this.logger.log(
+        `Order ${order.orderNumber} changed while timing out, skipping reassignment`,
+      );
+      return;
+    }
+
+    await this.openAssignmentAttempt(
+      order,
+      officer.userId,
+      assignedAt,
+      `Auto-reassigned after no response from ${officerName}`,
+    );
+
+    this.logger.log(
+      `Order ${order.orderNumber} reassigned from ${officerName} to ${score.officerName} after acceptance timeout (score ${score.totalScore})`,
+    );
+  }
+
+  /**
+   * Record a new assignment attempt and start its acceptance timer.
+   * Any attempt still waiting on a response is superseded.
+   */
+  private async openAssignmentAttempt(
+    order: { id: string; orderNumber: string },
+    officerId: string,
+    assignedAt: Date,
+    notes?: string,
+  ) {
+    await this.closePendingAssignmentAttempts(
+      order.id,
+      AssignmentAttemptOutcome.SUPERSEDED,
+    );
+
+    const respondBy = this.assignmentSlaService.respondByFrom(assignedAt);
+    const attempt = await this.prismaService.orderAssignmentAttempt.create({
+      data: { orderId: order.id, officerId, assignedAt, respondBy, notes },
+    });
+
+    await this.assignmentSlaService.schedule(
+      { attemptId: attempt.id, orderNumber: order.orderNumber },
+      respondBy,
+    );
+
+    const officer = await this.prismaService.user.findUnique({
+      where: { id: officerId },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+      },
+    });
+    if (officer) {
+      await this.publishOrderEvent(EmailEvent.ORDER_ASSIGNED, order.id, {
+        officer: this.domainEventsService.toUserEventData(officer),
+      });
+    }
+
+    return attempt;
+  }
+
+  /**
+   * Close attempts still waiting on a response and cancel their timers
+   */
+  private async closePendingAssignmentAttempts(
+    orderId: string,
+    outcome: AssignmentAttemptOutcome,
+    notes?: string,
+  ): Promise<void> {
+    const pending = await this.prismaService.orderAssignmentAttempt.findMany({
+      where: { orderId, outcome: AssignmentAttemptOutcome.PENDING },
+      select: { id: true },
+    });
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    await this.prismaService.orderAssignmentAttempt.updateMany({
+      where: {
+        id: { in: pending.map((attempt) => attempt.id) },
+        outcome: AssignmentAttemptOutcome.PENDING,
+      },
+      data: { outcome, respondedAt: new Date(), ...(notes && { notes }) },
+    });
+
+    await Promise.all(
+      pending.map((attempt) => this.assignmentSlaService.cancel(attempt.id)),
+    );
+  }
+
+  /**
+   * Attempts the order's officers rejected or let expire
+   */
+  private async getFailedAssignmentAttempts(orderId: string) {
+    return this.prismaService.orderAssignmentAttempt.findMany({
+      where: {
+        orderId,
+        outcome: {
+          in: [
+            AssignmentAttemptOutcome.REJECTED,
+            AssignmentAttemptOutcome.EXPIRED,
+          ],
+        },
+      },
+      select: { officerId: true },
+    });
+  }
+
+  /**
+   * Unassign an order nobody accepted and alert the admins responsible for it
+   */
+  private async escalateAssignment(
+    order: {
+      id: string;
+      orderNumber: string;
+      wholesalerId: string;
+      totalAmount: Prisma.Decimal;
+      assignmentNotes: string | null;
+    },
+    attempts: number,
+    lastOfficerName: string,
+    reason: string,
+  ): Promise<void> {
+    await this.prismaService.order.update({
+      where: { id: order.id },
+      data: {
+        assignedProcurementOfficerId: null,
+        assignmentStatus: AssignmentStatus.UNASSIGNED,
+        assignmentScore: Prisma.DbNull,
+        assignmentNotes: `${order.assignmentNotes || ''} | Escalated to admins: ${reason}. Manual assignment required.`,
+      },
+    });
+
+    this.logger.warn(
+      `Order ${order.orderNumber} escalated to admins after ${attempts} attempt(s): ${reason}`,
+    );
+
+    try {
+      const wholesaler = await this.prismaService.user.findUnique({
+        where: { id: order.wholesalerId },
+        select: {
+          firstName: true,
+          lastName: true,
+          wholesalerProfile: { select: { regionId: true } },
+        },
+      });
+      const regionId = wholesaler?.wholesalerProfile?.regionId;
+
+      const admins = await this.prismaService.user.findMany({
+        where: {
+          role: { in: [UserRole.ADMIN, UserRole.SUPER_ADMIN] },
+          status: 'ACTIVE',
+        },
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+        },
+      });
+
+      // Region-scoped admins are only alerted about orders in their regions
+      const adminRegionIds = await Promise.all(
+        admins.map((admin) => this.regionService.getAdminRegionIds(admin.id)),
+      );
+      const recipients = admins.filter((_admin, index) => {
+        const regionIds = adminRegionIds[index];
+        return (
+          regionIds === null || (!!regionId && regionIds.includes(regionId))
+        );
+      });
+
+      await this.notificationService.notifyAssignmentEscalation(
+        recipients.map((admin) => ({
+          id: admin.id,
+          email: admin.email,
+          firstName: admin.firstName ?? '',
+          lastName: admin.lastName ?? '',
+        })),
+        {
+          orderNumber: order.orderNumber,
+          totalAmount: Number(order.totalAmount),
+          wholesalerName: `${wholesaler?.firstName} ${wholesaler?.lastName}`,
+          attempts,
+          lastOfficerName,
+          reason,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify admins about assignment escalation for order ${order.orderNumber}: ${error.message}`,
+      );
+    }
+  }
+
   /**
    * Get assignment status for an order
    */
@@ -2505,6 +3373,12 @@ export class OrderService {
         respondedAt: order.assignmentRespondedAt || undefined,
         assignmentNotes: order.assignmentNotes || undefined,
         responseReason: order.assignmentResponseReason || undefined,
+        // Scoring breakdown is for admins reviewing auto-assignment
+        scoring:
+          user.role === UserRole.PROCUREMENT_OFFICER
+            ? undefined
+            : (order.assignmentScore as unknown as AssignmentScoreDto) ||
+              undefined,
       },
     };
   }
@@ -2831,6 +3705,7 @@ export class OrderService {
             id: true,
             productId: true,
             quantity: true,
+            fulfilledQuantity: true,
             status: true,
           },
         },
@@ -2875,6 +3750,13 @@ export class OrderService {
       throw new BadRequestException('Order is already cancelled');
     }
 
+    // Items cancelled individually have already returned their stock, and
+    // delivered units belong to the wholesaler
+    const itemsToRelease = order.items.filter(
+      (item) => item.status !== OrderItemStatus.CANCELLED,
+    );
+    const stockToRelease = this.undeliveredStock(itemsToRelease);
+
     try {
       await this.prismaService.$transaction(async (tx) => {
         // Handle different cancellation logic based on order status
@@ -2897,25 +3779,33 @@ export class OrderService {
             break;
 
           case OrderStatus.PENDING_PAYMENT:
-            // Cancel Monnify invoice and release inventory
+            // Cancel the gateway invoice and release inventory
             if (order.monnifyInvoiceRef) {
               try {
-                await this.monnifyService.cancelInvoice(
+                await this.paymentGateway.cancelInvoice(
                   order.monnifyInvoiceRef,
                 );
                 this.logger.log(
-                  `Monnify invoice cancelled for order ${orderNumber}`,
+                  `Payment invoice cancelled for order ${orderNumber}`,
                 );
               } catch (error) {
                 this.logger.warn(
-                  `Failed to cancel Monnify invoice for order ${orderNumber}: ${error.message}`,
+                  `Failed to cancel payment invoice for order ${orderNumber}: ${error.message}`,
                 );
-                // Continue with cancellation even if Monnify fails
+                // Continue with cancellation even if the gateway fails
               }
             }
 
+            // Return anything already paid, from the wallet or by transfer
+            await this.returnPaymentsToWallet(tx, order);
+
             // Release reserved inventory for PENDING_PAYMENT orders
-            await this.releaseInventoryForOrder(order.items);
+            await this.releaseInventoryForOrder(
+              stockToRelease,
+              orderNumber,
+              STOCK_MOVEMENT_REASONS.ORDER_CANCELLATION,
+              tx,
+            );
 
             // Update all order items to CANCELLED status
             await tx.orderItem.updateMany({
@@ -2940,7 +3830,15 @@ export class OrderService {
 
           default:
             // For other statuses (CONFIRMED, ASSIGNED, etc.) - release inventory and mark as cancelled
-            await this.releaseInventoryForOrder(order.items);
+            await this.releaseInventoryForOrder(
+              stockToRelease,
+              orderNumber,
+              STOCK_MOVEMENT_REASONS.ORDER_CANCELLATION,
+              tx,
+            );
+
+            // Orders confirmed on credit are no longer owed
+            await this.creditAccountService.voidInvoiceForOrder(tx, order);
 
             // Update all order items to CANCELLED status
             await tx.orderItem.updateMany({
@@ -2965,6 +3863,15 @@ export class OrderService {
         }
       });
 
+      // Draft orders are deleted outright, so there is nothing to announce
+      if (order.status !== OrderStatus.DRAFT) {
+        await this.publishOrderEvent(
+          EmailEvent.ORDER_STATUS_CHANGED,
+          order.id,
+          { previousStatus: order.status, newStatus: OrderStatus.CANCELLED },
+        );
+      }
+
       // Create comprehensive audit log for cancellation/deletion
       const auditLog = {
         orderNumber,
@@ -2987,9 +3894,9 @@ export class OrderService {
           inventoryReleased:
             order.status === OrderStatus.DRAFT
               ? [] // No inventory to release for draft orders
-              : order.items.map((item) => ({
+              : itemsToRelease.map((item) => ({
                   productId: item.productId,
-                  quantityReleased: item.quantity,
+                  quantityReleased: item.quantity - item.fulfilledQuantity,
                   itemStatus: {
                     from: item.status,
                     to: OrderItemStatus.CANCELLED,
@@ -3174,6 +4081,10 @@ export class OrderService {
       }
     }
 
+    const minQuantity = await this.systemConfigService.get(
+      'MIN_ORDER_ITEM_QUANTITY',
+    );
+
     try {
       const result = await this.prismaService.$transaction(async (tx) => {
         let needsRecalculation = false;
@@ -3219,9 +4130,9 @@ export class OrderService {
               }
 
               // Validate minimum quantity
-              if (itemData.quantity < 10) {
+              if (itemData.quantity < minQuantity) {
                 throw new BadRequestException(
-                  `Minimum quantity is 10. Requested: ${itemData.quantity}`,
+                  `Minimum quantity is ${minQuantity}. Requested: ${itemData.quantity}`,
                 );
               }
 
@@ -3292,9 +4203,9 @@ export class OrderService {
               }
 
               // Validate minimum quantity
-              if (itemData.quantity < 10) {
+              if (itemData.quantity < minQuantity) {
                 throw new BadRequestException(
-                  `Minimum quantity is 10. Requested: ${itemData.quantity}`,
+                  `Minimum quantity is ${minQuantity}. Requested: ${itemData.quantity}`,
                 );
               }
 
@@ -3485,6 +4396,20 @@ export class OrderService {
       throw new ForbiddenException('Only admins can access dashboard');
     }
 
+    // Region-scoped admins only see orders and users in their regions
+    const regionIds = await this.regionService.getAdminRegionIds(userId);
+    const orderScope = regionIds
+      ? { wholesaler: this.wholesalerRegionFilter(regionIds) }
+      : {};
+    const userScope = regionIds
+      ? {
+          OR: [
+            { wholesalerProfile: { regionId: { in: regionIds } } },
+            { procurementOfficerProfile: { regionId: { in: regionIds } } },
+          ],
+        }
+      : {};
+
     // Execute all queries in parallel for better performance
     const [
       activeOrders,
@@ -3497,6 +4422,7 @@ export class OrderService {
       // 1. Get active orders (confirmed status upwards, excluding pending_payment)
       this.prismaService.order.findMany({
         where: {
+          ...orderScope,
           status: {
             in: [
               OrderStatus.CONFIRMED,
@@ -3555,7 +4481,7 @@ export class OrderService {
         where:
           userRole === UserRole.SUPER_ADMIN
             ? {} // Super admin sees all
-            : { role: { not: UserRole.SUPER_ADMIN } }, // Admin doesn't see super admins
+            : { ...userScope, role: { not: UserRole.SUPER_ADMIN } }, // Admin doesn't see super admins
         select: {
           id: true,
           firstName: true,
@@ -3571,7 +4497,7 @@ export class OrderService {
 
       // 3. Get total revenue from completed orders
       this.prismaService.order.aggregate({
-        where: { status: OrderStatus.COMPLETED },
+        where: { ...orderScope, status: OrderStatus.COMPLETED },
         _sum: {
           totalAmount: true,
         },
@@ -3579,7 +4505,7 @@ export class OrderService {
 
       // 4. Get completed orders count
       this.prismaService.order.count({
-        where: { status: OrderStatus.COMPLETED },
+        where: { ...orderScope, status: OrderStatus.COMPLETED },
       }),
 
       // 5. Get live products count
@@ -3591,7 +4517,7 @@ export class OrderService {
       }),
 
       // 6. Get all users count
-      this.prismaService.user.count(),
+      this.prismaService.user.count({ where: userScope }),
     ]);
 
     // Transform active orders to include procurement officer names
@@ -3619,48 +4545,630 @@ export class OrderService {
   }
 
   /**
-   * Reserve inventory for order items
-   * Reduces product quantities when order is created
+   * Snapshot an order for domain event payloads
    */
-  private async reserveInventoryForOrder(
-    orderItems: { productId: string; quantity: number }[],
+  private async getOrderEventData(
+    orderId: string,
+    db: Prisma.TransactionClient = this.prismaService,
+  ): Promise<OrderEventData> {
+    const order = await db.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: {
+        id: true,
+        orderNumber: true,
+        status: true,
+        totalAmount: true,
+        createdAt: true,
+        items: { select: { id: true } },
+        wholesaler: {
+          select: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+            role: true,
+          },
+        },
+      },
+    });
+
+    return {
+      ...order,
+      totalAmount: Number(order.totalAmount),
+      createdAt: order.createdAt.toISOString(),
+      wholesaler: this.domainEventsService.toUserEventData(order.wholesaler),
+    };
+  }
+
+  /**
+   * Publish an order event. Call only after the change has been committed;
+   * failures are logged because the order change itself already succeeded.
+   */
+  private async publishOrderEvent<E extends OrderDomainEventName>(
+    event: E,
+    orderId: string,
+    payload: Omit<DomainEventPayload<E>, 'order'>,
   ): Promise<void> {
-    for (const item of orderItems) {
-      await this.prismaService.product.update({
-        where: { id: item.productId },
+    try {
+      const order = await this.getOrderEventData(orderId);
+      this.domainEventsService.publish(event, {
+        ...payload,
+        order,
+      } as DomainEventPayload<E>);
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish ${event} for order ${orderId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Money received for an order. REFUNDED payments still count as received;
+   * refunds are tracked on their own records.
+   */
+  private async getPaymentTotals(
+    orderId: string,
+    totalAmount: Prisma.Decimal,
+    db: Prisma.TransactionClient = this.prismaService,
+  ): Promise<{
+    amountPaid: Prisma.Decimal;
+    outstandingAmount: Prisma.Decimal;
+    overpaidAmount: Prisma.Decimal;
+  }> {
+    const { _sum } = await db.payment.aggregate({
+      where: {
+        orderId,
+        status: { in: [PaymentStatus.COMPLETED, PaymentStatus.REFUNDED] },
+      },
+      _sum: { amount: true },
+    });
+    const amountPaid = _sum.amount ?? new Prisma.Decimal(0);
+
+    return {
+      amountPaid,
+      outstandingAmount: Prisma.Decimal.max(totalAmount.minus(amountPaid), 0),
+      overpaidAmount: Prisma.Decimal.max(amountPaid.minus(totalAmount), 0),
+    };
+  }
+
+  /**
+   * Money received through the gateway invoice, leaving out wallet payments
+   */
+  private async getGatewayAmountPaid(
+    orderId: string,
+    db: Prisma.TransactionClient = this.prismaService,
+  ): Promise<Prisma.Decimal> {
+    const { _sum } = await db.payment.aggregate({
+      where: {
+        orderId,
+        status: { in: [PaymentStatus.COMPLETED, PaymentStatus.REFUNDED] },
+        OR: [
+          { paymentMethod: null },
+          { paymentMethod: { not: PaymentMethod.WALLET } },
+        ],
+      },
+      _sum: { amount: true },
+    });
+
+    return _sum.amount ?? new Prisma.Decimal(0);
+  }
+
+  /**
+   * Whether transfers were recorded from the invoice total, by payment
+   * verification or reconciliation, rather than one by one from webhooks
+   */
+  private async hasInvoiceTotalPayments(orderId: string): Promise<boolean> {
+    const count = await this.prismaService.payment.count({
+      where: {
+        orderId,
+        transactionRef: null,
+        status: { in: [PaymentStatus.COMPLETED, PaymentStatus.REFUNDED] },
+      },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Record a received payment and reconcile the order against it.
+   *
+   * The order is confirmed only once received payments cover its total, so a
+   * partial transfer leaves it in PENDING_PAYMENT. Anything paid beyond the
+   * total is credited to the wholesaler.
+   * @returns Outbox event IDs to dispatch once the transaction commits
+   */
+  private async applyPayment(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    paymentData: Pick<
+      Prisma.PaymentUncheckedCreateInput,
+      | 'amount'
+      | 'paymentMethod'
+      | 'monnifyInvoiceRef'
+      | 'transactionRef'
+      | 'paidAt'
+    >,
+    updatedBy: string,
+  ): Promise<string[]> {
+    // Lock the order row so concurrent payments are reconciled one at a time
+    const order = await tx.order.update({
+      where: { id: orderId },
+      data: { updatedAt: new Date() },
+    });
+
+    const payment = await tx.payment.create({
+      data: {
+        ...paymentData,
+        orderId,
+        status: PaymentStatus.COMPLETED,
+      },
+    });
+
+    const { outstandingAmount, overpaidAmount } = await this.getPaymentTotals(
+      orderId,
+      order.totalAmount,
+      tx,
+    );
+
+    // Only the part of this payment beyond the total is new credit
+    const excessAmount = Prisma.Decimal.min(payment.amount, overpaidAmount);
+    if (excessAmount.gt(0)) {
+      await this.creditOverpayment(tx, order, payment, excessAmount);
+    }
+
+    const awaitingPayment =
+      order.status === OrderStatus.DRAFT ||
+      order.status === OrderStatus.PENDING_PAYMENT;
+
+    if (outstandingAmount.gt(0)) {
+      this.logger.log(
+        `Partial payment of ${payment.amount.toFixed(2)} for order ${order.orderNumber}; ${outstandingAmount.toFixed(2)} outstanding`,
+      );
+    }
+
+    if (!awaitingPayment || outstandingAmount.gt(0)) {
+      return this.recordPaymentEvents(tx, orderId, payment, false);
+    }
+
+    // Update order status
+    await tx.order.update({
+      where: { id: orderId },
+      data: { status: OrderStatus.CONFIRMED },
+    });
+
+    // Auto-confirm order items for paid orders
+    await tx.orderItem.updateMany({
+      where: {
+        orderId,
+        status: OrderItemStatus.PENDING,
+      },
+      data: {
+        status: OrderItemStatus.PAID,
+        statusUpdatedAt: new Date(),
+        statusUpdatedBy: updatedBy,
+      },
+    });
+
+    return this.recordPaymentEvents(tx, orderId, payment, true);
+  }
+
+  /**
+   * Record what the gateway says was paid into the order's invoice beyond the
+   * payments already held, then dispatch the resulting events. The gateway
+   * only reports the invoice total, so the payment has no transfer reference.
+   */
+  private async recordInvoicePayment(
+    orderId: string,
+    invoice: InvoiceStatusResponse['responseBody'],
+    recordedBy: string,
+  ): Promise<{ amountRecorded: Prisma.Decimal; orderConfirmed: boolean }> {
+    const result = await this.prismaService.$transaction(async (tx) => {
+      // Lock the order row so a webhook for the same transfer waits its turn
+      const order = await tx.order.update({
+        where: { id: orderId },
+        data: { updatedAt: new Date() },
+      });
+
+      // Transfers already recorded from webhooks count toward the invoice
+      const amountPaid = await this.getGatewayAmountPaid(order.id, tx);
+      const unrecordedAmount = new Prisma.Decimal(invoice.amountPaid).minus(
+        amountPaid,
+      );
+
+      if (unrecordedAmount.lte(0)) {
+        return {
+          amountRecorded: new Prisma.Decimal(0),
+          orderConfirmed: false,
+          outboxEventIds: [],
+        };
+      }
+
+      const outboxEventIds = await this.applyPayment(
+        tx,
+        order.id,
+        {
+          amount: unrecordedAmount,
+          paymentMethod: this.mapMonnifyPaymentMethod(invoice.paymentMethod),
+          monnifyInvoiceRef: invoice.transactionReference,
+          paidAt: invoice.paidOn
+            ? new Date(invoice.paidOn.replace(' ', 'T'))
+            : new Date(),
+        },
+        recordedBy,
+      );
+
+      const { status } = await tx.order.findUniqueOrThrow({
+        where: { id: order.id },
+        select: { status: true },
+      });
+
+      return {
+        amountRecorded: unrecordedAmount,
+        orderConfirmed:
+          order.status !== OrderStatus.CONFIRMED &&
+          status === OrderStatus.CONFIRMED,
+        outboxEventIds,
+      };
+    });
+
+    // Notifications and auto-assignment run from the outbox relay
+    await this.outboxService.dispatch(result.outboxEventIds);
+
+    return {
+      amountRecorded: result.amountRecorded,
+      orderConfirmed: result.orderConfirmed,
+    };
+  }
+
+  /**
+   * Cancel an unpaid order whose invoice has lapsed, return its reserved
+   * stock and put any part payment in the wallet
+   * @returns false if the order was paid or moved on in the meantime
+   */
+  private async expireUnpaidOrder(
+    order: Pick<Order, 'id' | 'orderNumber'>,
+  ): Promise<boolean> {
+    // Close the invoice first so no transfer can land on a cancelled order.
+    // Invoices are keyed by order number.
+    try {
+      await this.paymentGateway.cancelInvoice(order.orderNumber);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to cancel expired invoice for order ${order.orderNumber}: ${error.message}`,
+      );
+    }
+
+    const expired = await this.prismaService.$transaction(async (tx) => {
+      // Lock the order row; a payment may have landed since the invoice check
+      const current = await tx.order.update({
+        where: { id: order.id },
+        data: { updatedAt: new Date() },
+        include: { items: true },
+      });
+
+      if (current.status !== OrderStatus.PENDING_PAYMENT) {
+        return false;
+      }
+
+      // Whatever was paid towards the order goes to the wallet
+      await this.returnPaymentsToWallet(tx, current);
+
+      // Items cancelled individually have already returned their stock
+      await this.releaseInventoryForOrder(
+        current.items.filter(
+          (item) => item.status !== OrderItemStatus.CANCELLED,
+        ),
+        current.orderNumber,
+        STOCK_MOVEMENT_REASONS.PAYMENT_EXPIRED,
+        tx,
+      );
+
+      await tx.orderItem.updateMany({
+        where: {
+          orderId: current.id,
+          status: { not: OrderItemStatus.CANCELLED },
+        },
         data: {
-          quantity: {
-            decrement: item.quantity,
-          },
+          status: OrderItemStatus.CANCELLED,
+          statusUpdatedAt: new Date(),
+          statusUpdatedBy: PAYMENT_RECONCILIATION_ACTOR,
         },
       });
 
-      this.logger.debug(
-        `Reserved ${item.quantity} units for product ${item.productId}`,
+      await tx.order.update({
+        where: { id: current.id },
+        data: { status: OrderStatus.CANCELLED },
+      });
+
+      return true;
+    });
+
+    if (expired) {
+      this.logger.log(
+        `Order ${order.orderNumber} expired unpaid; reserved stock released and payments returned to wallet`,
       );
+      await this.publishOrderEvent(EmailEvent.ORDER_STATUS_CHANGED, order.id, {
+        previousStatus: OrderStatus.PENDING_PAYMENT,
+        newStatus: OrderStatus.CANCELLED,
+      });
     }
+
+    return expired;
   }
 
   /**
-   * Release inventory for order items
-   * Restores product quantities when order is cancelled
+   * Add an overpayment to the wholesaler's wallet
    */
-  private async releaseInventoryForOrder(
-    orderItems: { productId: string; quantity: number }[],
+  private async creditOverpayment(
+    tx: Prisma.TransactionClient,
+    order: Pick<Order, 'id' | 'orderNumber' | 'wholesalerId'>,
+    payment: Payment,
+    amount: Prisma.Decimal,
   ): Promise<void> {
-    for (const item of orderItems) {
-      await this.prismaService.product.update({
-        where: { id: item.productId },
-        data: {
-          quantity: {
-            increment: item.quantity,
-          },
+    await this.walletService.credit(tx, order.wholesalerId, {
+      type: WalletTransactionType.OVERPAYMENT,
+      amount,
+      counterAccount: LedgerAccount.ORDER_RECEIPTS,
+      reference: `overpayment:${payment.id}`,
+      description: `Overpayment on order ${order.orderNumber}`,
+      orderId: order.id,
+      paymentId: payment.id,
+    });
+
+    this.logger.log(
+      `Credited overpayment of ${amount.toFixed(2)} on order ${order.orderNumber} to wholesaler ${order.wholesalerId}`,
+    );
+  }
+
+  /**
+   * Pay part or all of an order from the wholesaler's wallet and reconcile
+   * the order against it
+   * @returns Outbox event IDs to dispatch once the transaction commits
+   */
+  private async payFromWallet(
+    tx: Prisma.TransactionClient,
+    order: Pick<Order, 'id' | 'orderNumber' | 'wholesalerId'>,
+    amount: Prisma.Decimal,
+    paidBy: string,
+  ): Promise<string[]> {
+    const walletTransaction = await this.walletService.debit(
+      tx,
+      order.wholesalerId,
+      {
+        type: WalletTransactionType.ORDER_PAYMENT,
+        amount,
+        counterAccount: LedgerAccount.ORDER_RECEIPTS,
+        reference: `order-payment:${order.orderNumber}`,
+        description: `Payment for order ${order.orderNumber}`,
+        orderId: order.id,
+      },
+    );
+
+    // The wallet transaction reference stands in for a gateway reference
+    const outboxEventIds = await this.applyPayment(
+      tx,
+      order.id,
+      {
+        amount,
+        paymentMethod: PaymentMethod.WALLET,
+        monnifyInvoiceRef: walletTransaction.reference,
+        transactionRef: walletTransaction.reference,
+        paidAt: walletTransaction.createdAt,
+      },
+      paidBy,
+    );
+
+    await tx.walletTransaction.update({
+      where: { id: walletTransaction.id },
+      data: {
+        payment: {
+          connect: { transactionRef: walletTransaction.reference },
         },
+      },
+    });
+
+    return outboxEventIds;
+  }
+
+  /**
+   * Put what was paid towards an unpaid order that will not go ahead, from
+   * the wallet or by transfer, into the wallet. Call inside the transaction
+   * that cancels the order.
+   */
+  private async returnPaymentsToWallet(
+    tx: Prisma.TransactionClient,
+    order: Pick<Order, 'id' | 'orderNumber' | 'wholesalerId'>,
+  ): Promise<void> {
+    const payments = await tx.payment.findMany({
+      where: { orderId: order.id, status: PaymentStatus.COMPLETED },
+    });
+
+    for (const payment of payments) {
+      await this.walletService.credit(tx, order.wholesalerId, {
+        type: WalletTransactionType.REFUND,
+        amount: payment.amount,
+        counterAccount: LedgerAccount.ORDER_RECEIPTS,
+        reference: `order-payment-return:${payment.id}`,
+        description: `Returned from cancelled order ${order.orderNumber}`,
+        orderId: order.id,
+        paymentId: payment.id,
+      });
+
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { status: PaymentStatus.REFUNDED },
       });
+    }
+  }
+
+  /**
+   * Write the payment event, and the order confirmation if the payment
+   * completed the order, to the outbox
+   * @returns Outbox event IDs to dispatch once the transaction commits
+   */
+  private async recordPaymentEvents(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    payment: Payment,
+    orderConfirmed: boolean,
+  ): Promise<string[]> {
+    const order = await this.getOrderEventData(orderId, tx);
+    const paymentData: PaymentEventData = {
+      transactionReference: payment.monnifyInvoiceRef,
+      amount: Number(payment.amount),
+      paymentMethod: payment.paymentMethod,
+      paidAt: (payment.paidAt ?? new Date()).toISOString(),
+    };
+
+    const outboxEventIds = await this.outboxService.add(
+      tx,
+      EmailEvent.PAYMENT_RECEIVED,
+      orderId,
+      { order, payment: paymentData },
+    );
 
-      this.logger.debug(
-        `Released ${item.quantity} units for product ${item.productId}`,
+    if (orderConfirmed) {
+      outboxEventIds.push(
+        ...(await this.outboxService.add(
+          tx,
+          EmailEvent.ORDER_CONFIRMED,
+          orderId,
+          { order },
+        )),
       );
     }
+
+    return outboxEventIds;
+  }
+
+  /**
+   * Shipment currently holding an item; the item's status follows it
+   */
+  private async findActiveShipmentNumber(
+    orderItemId: string,
+  ): Promise<string | null> {
+    const shipmentItem = await this.prismaService.shipmentItem.findFirst({
+      where: {
+        orderItemId,
+        shipment: { status: { in: ACTIVE_SHIPMENT_STATUSES } },
+      },
+      select: { shipment: { select: { shipmentNumber: true } } },
+    });
+
+    return shipmentItem?.shipment.shipmentNumber ?? null;
+  }
+
+  /**
+   * Post delivered units of an order item to the wholesaler's inventory
+   */
+  private async postDeliveryToWholesalerInventory(
+    order: { id: string; wholesalerId: string },
+    item: { product: { name: string; sku: string } },
+    quantity: number,
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    if (quantity <= 0) {
+      return;
+    }
+
+    await this.wholesalerInventoryService.recordDelivery(
+      {
+        wholesalerUserId: order.wholesalerId,
+        orderId: order.id,
+        productName: item.product.name,
+        productSku: item.product.sku,
+        quantity,
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Quantities that follow a manual status change: delivering an item
+   * fulfils whatever is not short, and marking it unavailable makes whatever
+   * is not delivered short
+   */
+  private fulfilmentForStatus(
+    item: {
+      quantity: number;
+      fulfilledQuantity: number;
+      shortQuantity: number;
+    },
+    status: OrderItemStatus,
+  ): { fulfilledQuantity?: number; shortQuantity?: number } {
+    if (status === OrderItemStatus.DELIVERED) {
+      return {
+        fulfilledQuantity: Math.max(
+          item.quantity - item.shortQuantity,
+          item.fulfilledQuantity,
+        ),
+      };
+    }
+
+    if (status === OrderItemStatus.UNAVAILABLE) {
+      return { shortQuantity: item.quantity - item.fulfilledQuantity };
+    }
+
+    return {};
+  }
+
+  /**
+   * Reserve inventory for order items
+   * Reduces product quantities through the stock ledger when payment is initiated
+   */
+  private async reserveInventoryForOrder(
+    orderItems: { productId: string; quantity: number }[],
+    orderNumber: string,
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    await this.stockLedgerService.reserveForOrder(orderItems, orderNumber, tx);
+
+    this.logger.debug(
+      `Reserved inventory for ${orderItems.length} item(s) on order ${orderNumber}`,
+    );
+  }
+
+  /**
+   * Release inventory for order items
+   * Restores product quantities through the stock ledger when order is cancelled
+   */
+  private async releaseInventoryForOrder(
+    orderItems: { productId: string; quantity: number }[],
+    orderNumber: string,
+    reason: string,
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    await this.stockLedgerService.releaseForOrder(
+      orderItems,
+      orderNumber,
+      reason,
+      tx,
+    );
+
+    this.logger.debug(
+      `Released inventory for ${orderItems.length} item(s) on order ${orderNumber}`,
+    );
+  }
+
+  /**
+   * Units of each item still held for the order; delivered units have
+   * already moved into the wholesaler's inventory
+   */
+  private undeliveredStock(
+    items: { productId: string; quantity: number; fulfilledQuantity: number }[],
+  ): { productId: string; quantity: number }[] {
+    return items
+      .map((item) => ({
+        productId: item.productId,
+        quantity: item.quantity - item.fulfilledQuantity,
+      }))
+      .filter((item) => item.quantity > 0);
+  }
+
+  /**
+   * Match orders placed by wholesalers in any of the given regions
+   */
+  private wholesalerRegionFilter(regionIds: string[]) {
+    return { wholesalerProfile: { regionId: { in: regionIds } } };
   }
 }
@@ -0,0 +1,287 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import {
+  OrderStatus,
+  PaymentReconciliationReport,
+  PaymentReconciliationStatus,
+  PaymentReconciliationTrigger,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaginatedResponse } from '../../common/dto/paginated-response.dto';
+import { OrderService } from './order.service';
+import {
+  PaymentReconciliationReportQueryDto,
+  PaymentReconciliationReportResponseDto,
+} from './dto/payment-reconciliation.dto';
+import {
+  PAYMENT_RECONCILIATION_JOBS,
+  PAYMENT_RECONCILIATION_OUTCOMES,
+  PAYMENT_RECONCILIATION_QUEUE,
+  PAYMENT_RECONCILIATION_SETTINGS,
+  PaymentReconciliationJobData,
+  PaymentReconciliationOutcome,
+  PaymentReconciliationResult,
+} from './types/payment-reconciliation.types';
+
+// Report counter incremented for each outcome
+const OUTCOME_COUNTERS: Partial<
+  Record<
+    PaymentReconciliationOutcome,
+    keyof Pick<
+      PaymentReconciliationReport,
+      | 'ordersConfirmed'
+      | 'partialPayments'
+      | 'ordersExpired'
+      | 'needsReview'
+      | 'failures'
+    >
+  >
+> = {
+  [PAYMENT_RECONCILIATION_OUTCOMES.CONFIRMED]: 'ordersConfirmed',
+  [PAYMENT_RECONCILIATION_OUTCOMES.PARTIALLY_PAID]: 'partialPayments',
+  [PAYMENT_RECONCILIATION_OUTCOMES.EXPIRED]: 'ordersExpired',
+  [PAYMENT_RECONCILIATION_OUTCOMES.NEEDS_REVIEW]: 'needsReview',
+  [PAYMENT_RECONCILIATION_OUTCOMES.FAILED]: 'failures',
+};
+
+/**
+ * Sweeps PENDING_PAYMENT orders against the payment gateway.
+ *
+ * Catches payments whose webhook never arrived and expires orders whose
+ * invoice lapsed unpaid. Every run writes a report of the orders it touched.
+ */
+@Injectable()
+export class PaymentReconciliationService implements OnModuleInit {
+  private readonly logger = new Logger(PaymentReconciliationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly orderService: OrderService,
+    @InjectQueue(PAYMENT_RECONCILIATION_QUEUE)
+    private readonly reconciliationQueue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      // Fixed jobId keeps a single repeatable job across restarts
+      await this.reconciliationQueue.add(
+        PAYMENT_RECONCILIATION_JOBS.RECONCILE,
+        {} satisfies PaymentReconciliationJobData,
+        {
+          jobId: PAYMENT_RECONCILIATION_JOBS.RECONCILE,
+          repeat: { cron: PAYMENT_RECONCILIATION_SETTINGS.CRON },
+          removeOnComplete: 5,
+          removeOnFail: 5,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule payment reconciliation job: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Queue a run outside the schedule
+   * @returns The report the run will fill in
+   */
+  async queueRun(
+    userId: string,
+  ): Promise<PaymentReconciliationReportResponseDto> {
+    const report = await this.prisma.paymentReconciliationReport.create({
+      data: {
+        trigger: PaymentReconciliationTrigger.MANUAL,
+        triggeredById: userId,
+      },
+    });
+
+    try {
+      await this.reconciliationQueue.add(
+        PAYMENT_RECONCILIATION_JOBS.RECONCILE,
+        { reportId: report.id } satisfies PaymentReconciliationJobData,
+        { jobId: `reconcile:${report.id}` },
+      );
+    } catch (error) {
+      await this.prisma.paymentReconciliationReport.update({
+        where: { id: report.id },
+        data: {
+          status: PaymentReconciliationStatus.FAILED,
+          error: `Could not queue run: ${error.message}`,
+        },
+      });
+      throw error;
+    }
+
+    return this.toResponse(report);
+  }
+
+  /**
+   * Reconcile every PENDING_PAYMENT order old enough to have missed its
+   * webhook
+   * @param reportId - Report of a manual run; scheduled runs create their own
+   */
+  async run(reportId?: string): Promise<PaymentReconciliationReport> {
+    const report = reportId
+      ? await this.prisma.paymentReconciliationReport.update({
+          where: { id: reportId },
+          data: {
+            status: PaymentReconciliationStatus.RUNNING,
+            startedAt: new Date(),
+          },
+        })
+      : await this.prisma.paymentReconciliationReport.create({
+          data: {
+            trigger: PaymentReconciliationTrigger.SCHEDULED,
+            status: PaymentReconciliationStatus.RUNNING,
+            startedAt: new Date(),
+          },
+        });
+
+    const counts = {
+      ordersChecked: 0,
+      ordersConfirmed: 0,
+      partialPayments: 0,
+      ordersExpired: 0,
+      needsReview: 0,
+      failures: 0,
+    };
+    const entries: PaymentReconciliationResult[] = [];
+    const cutoff = new Date(
+      Date.now() - PAYMENT_RECONCILIATION_SETTINGS.MIN_ORDER_AGE_MS,
+    );
+    let cursor: string | undefined;
+
+    try {
+      for (;;) {
+        const batch = await this.prisma.order.findMany({
+          where: {
+            status: OrderStatus.PENDING_PAYMENT,
+            updatedAt: { lt: cutoff },
+          },
+          take: PAYMENT_RECONCILIATION_SETTINGS.BATCH_SIZE,
+          ...(cursor && { skip: 1, cursor: { id: cursor } }),
+          orderBy: { id: 'asc' },
+          select: { id: true, orderNumber: true },
+        });
+
+        if (batch.length === 0) break;
+        cursor = batch[batch.length - 1].id;
+
+        // One at a time to stay well inside the gateway's rate limits
+        for (const order of batch) {
+          const result = await this.reconcileOrder(order);
+
+          counts.ordersChecked++;
+          const counter = OUTCOME_COUNTERS[result.outcome];
+          if (counter) {
+            counts[counter]++;
+            entries.push(result);
+          }
+        }
+      }
+    } catch (error) {
+      await this.prisma.paymentReconciliationReport.update({
+        where: { id: report.id },
+        data: {
+          ...counts,
+          entries: entries as unknown as Prisma.InputJsonArray,
+          status: PaymentReconciliationStatus.FAILED,
+          error: error instanceof Error ? error.message : String(error),
+          completedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+
+    this.logger.log(
+      `Payment reconciliation checked ${counts.ordersChecked} order(s): ${counts.ordersConfirmed} confirmed, ${counts.partialPayments} partially paid, ${counts.ordersExpired} expired, ${counts.needsReview} for review, ${counts.failures} failed`,
+    );
+
+    return this.prisma.paymentReconciliationReport.update({
+      where: { id: report.id },
+      data: {
+        ...counts,
+        entries: entries as unknown as Prisma.InputJsonArray,
+        status: PaymentReconciliationStatus.COMPLETED,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  async findAll(
+    query: PaymentReconciliationReportQueryDto,
+  ): Promise<PaginatedResponse<PaymentReconciliationReportResponseDto>> {
+    const { page = 1, limit = 10, status, trigger } = query;
+
+    const where: Prisma.PaymentReconciliationReportWhereInput = {
+      ...(status && { status }),
+      ...(trigger && { trigger }),
+    };
+
+    const [reports, total] = await Promise.all([
+      this.prisma.paymentReconciliationReport.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.paymentReconciliationReport.count({ where }),
+    ]);
+
+    return new PaginatedResponse(
+      reports.map((report) => this.toResponse(report)),
+      page,
+      limit,
+      total,
+    );
+  }
+
+  async findOne(id: string): Promise<PaymentReconciliationReportResponseDto> {
+    const report = await this.prisma.paymentReconciliationReport.findUnique({
+      where: { id },
+    });
+
+    if (!report) {
+      throw new NotFoundException('Reconciliation report not found');
+    }
+
+    return this.toResponse(report);
+  }
+
+  /**
+   * Reconcile one order; errors are reported rather than ending the run
+   */
+  private async reconcileOrder(order: {
+    id: string;
+    orderNumber: string;
+  }): Promise<PaymentReconciliationResult> {
+    try {
+      return await this.orderService.reconcilePendingPayment(order.id);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to reconcile payment for order ${order.orderNumber}: ${error.message}`,
+      );
+      return {
+        orderNumber: order.orderNumber,
+        outcome: PAYMENT_RECONCILIATION_OUTCOMES.FAILED,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private toResponse(
+    report: PaymentReconciliationReport,
+  ): PaymentReconciliationReportResponseDto {
+    return {
+      ...report,
+      entries: report.entries as unknown as PaymentReconciliationResult[],
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import type { Job } from 'bull';
+import { OrderService } from '../order.service';
+import {
+  AcceptanceTimeoutJobData,
+  ORDER_ASSIGNMENT_JOBS,
+  ORDER_ASSIGNMENT_QUEUE,
+} from '../types/assignment.types';
+
+@Processor(ORDER_ASSIGNMENT_QUEUE)
+export class AssignmentSlaProcessor {
+  private readonly logger = new Logger(AssignmentSlaProcessor.name);
+
+  constructor(private readonly orderService: OrderService) {}
+
+  @Process(ORDER_ASSIGNMENT_JOBS.ACCEPTANCE_TIMEOUT)
+  async handleAcceptanceTimeout(job: Job<AcceptanceTimeoutJobData>) {
+    try {
+      this.logger.log(
+        `Processing acceptance timeout job: ${job.id} - order ${job.data.orderNumber}`,
+      );
+      await this.orderService.handleAssignmentTimeout(job.data.attemptId);
+    } catch (error) {
+      this.logger.error(
+        `Acceptance timeout job failed: ${job.id} - ${error.message}`,
+        error.stack,
+      );
+      throw error; // Let Bull handle retries
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import type { Job } from 'bull';
+import { PaymentReconciliationService } from '../payment-reconciliation.service';
+import {
+  PAYMENT_RECONCILIATION_JOBS,
+  PAYMENT_RECONCILIATION_QUEUE,
+  PaymentReconciliationJobData,
+} from '../types/payment-reconciliation.types';
+
+@Processor(PAYMENT_RECONCILIATION_QUEUE)
+export class PaymentReconciliationProcessor {
+  private readonly logger = new Logger(PaymentReconciliationProcessor.name);
+
+  constructor(
+    private readonly reconciliationService: PaymentReconciliationService,
+  ) {}
+
+  @Process(PAYMENT_RECONCILIATION_JOBS.RECONCILE)
+  async handleReconcile(job: Job<PaymentReconciliationJobData>) {
+    try {
+      this.logger.log(`Processing payment reconciliation job: ${job.id}`);
+      const report = await this.reconciliationService.run(job.data.reportId);
+      return { reportId: report.id };
+    } catch (error) {
+      this.logger.error(
+        `Payment reconciliation job failed: ${job.id} - ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import type { Job } from 'bull';
+import { WebhookEventService } from '../webhook-event.service';
+import {
+  WEBHOOK_EVENT_JOBS,
+  WEBHOOK_EVENT_QUEUE,
+  WebhookEventJobData,
+} from '../types/webhook-event.types';
+
+@Processor(WEBHOOK_EVENT_QUEUE)
+export class WebhookEventProcessor {
+  private readonly logger = new Logger(WebhookEventProcessor.name);
+
+  constructor(private readonly webhookEventService: WebhookEventService) {}
+
+  @Process(WEBHOOK_EVENT_JOBS.PROCESS)
+  async handleProcess(job: Job<WebhookEventJobData>) {
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+    try {
+      await this.webhookEventService.process(
+        job.data.webhookEventId,
+        finalAttempt,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Webhook event job failed: ${job.id} - ${error.message}`,
+        error.stack,
+      );
+      throw error; // Let Bull handle retries
+    }
+  }
+
+  @Process(WEBHOOK_EVENT_JOBS.SWEEP)
+  async handleSweep(job: Job) {
+    try {
+      return { requeued: await this.webhookEventService.sweep() };
+    } catch (error) {
+      this.logger.error(
+        `Webhook sweep job failed: ${job.id} - ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,582 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  LedgerAccount,
+  OrderItem,
+  OrderItemStatus,
+  OrderStatus,
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+  Prisma,
+  RefundDestination,
+  RefundStatus,
+  WalletTransactionType,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  MonnifyRefundWebhookData,
+  PAYMENT_GATEWAY,
+} from '../payment/interfaces/payment-gateway.interface';
+import type { PaymentGateway } from '../payment/interfaces/payment-gateway.interface';
+import { WalletService } from '../wallet/wallet.service';
+import { CreateRefundDto, RefundResponseDto } from './dto/refund.dto';
+
+const refundInclude = {
+  items: true,
+  order: { select: { orderNumber: true } },
+  payment: { select: { monnifyInvoiceRef: true } },
+} satisfies Prisma.RefundInclude;
+
+type RefundWithRelations = Prisma.RefundGetPayload<{
+  include: typeof refundInclude;
+}>;
+
+type RefundItemAmount = { orderItemId: string; amount: Prisma.Decimal };
+
+// The part of a refund drawn from one payment
+interface RefundAllocation {
+  paymentId: string;
+  amount: Prisma.Decimal;
+  items: RefundItemAmount[];
+}
+
+/**
+ * Refunds against completed payments. An order paid in several transfers is
+ * refunded with one refund per payment the amount is drawn from.
+ *
+ * A refund row is written before the gateway is called so concurrent requests
+ * see the amount as taken; the gateway confirms the outcome with a refund
+ * webhook. Wallet payments, and refunds sent to the wallet, complete
+ * straight away.
+ * The payment moves to REFUNDED once completed refunds cover its amount.
+ */
+@Injectable()
+export class RefundService {
+  private readonly logger = new Logger(RefundService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    @Inject(PAYMENT_GATEWAY)
+    private readonly paymentGateway: PaymentGateway,
+    private readonly walletService: WalletService,
+  ) {}
+
+  /**
+   * Refund the units of specific items that will not be delivered, or
+   * whatever is left of the payments when the order has been cancelled.
+   * The amount is taken from the order's payments newest first, with one
+   * refund per payment it draws on.
+   */
+  async createRefund(
+    orderNumber: string,
+    createRefundDto: CreateRefundDto,
+    userId: string,
+  ): Promise<RefundResponseDto[]> {
+    const order = await this.prismaService.order.findUnique({
+      where: { orderNumber },
+      include: { items: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Order ${orderNumber} not found`);
+    }
+
+    const {
+      itemIds,
+      reason,
+      destination = RefundDestination.ORIGINAL_PAYMENT,
+    } = createRefundDto;
+
+    if (!itemIds && order.status !== OrderStatus.CANCELLED) {
+      throw new BadRequestException(
+        'Only cancelled orders can be refunded in full; refund individual items instead',
+      );
+    }
+
+    const refunds = await this.prismaService.$transaction(async (tx) => {
+      // Lock the order row so concurrent refunds cannot exceed its payments
+      await tx.order.update({
+        where: { id: order.id },
+        data: { updatedAt: new Date() },
+      });
+
+      const payments = await tx.payment.findMany({
+        where: { orderId: order.id, status: PaymentStatus.COMPLETED },
+        include: {
+          refunds: { where: { status: { not: RefundStatus.FAILED } } },
+          walletTransactions: {
+            where: { type: WalletTransactionType.OVERPAYMENT },
+            select: { amount: true },
+          },
+        },
+        orderBy: { paidAt: 'desc' },
+      });
+
+      if (payments.length === 0) {
+        throw new BadRequestException(
+          'Order has no completed payment to refund',
+        );
+      }
+
+      // Overpayments were already credited to the wallet
+      const refundable = payments.map((payment) => ({
+        payment,
+        remaining: [...payment.refunds, ...payment.walletTransactions].reduce(
+          (balance, paidOut) => balance.minus(paidOut.amount),
+          payment.amount,
+        ),
+      }));
+
+      const remaining = refundable.reduce(
+        (total, entry) => total.plus(entry.remaining),
+        new Prisma.Decimal(0),
+      );
+
+      let items: RefundItemAmount[] = [];
+      if (itemIds) {
+        // Items can be refunded more than once as shortfalls are recorded
+        const refundedByItem = await tx.refundItem.groupBy({
+          by: ['orderItemId'],
+          where: {
+            orderItemId: { in: itemIds },
+            refund: { status: { not: RefundStatus.FAILED } },
+          },
+          _sum: { amount: true },
+        });
+
+        items = itemIds.map((itemId) => {
+          const item = order.items.find((orderItem) => orderItem.id === itemId);
+
+          if (!item) {
+            throw new NotFoundException(
+              `Order item ${itemId} not found in order ${orderNumber}`,
+            );
+          }
+
+          const itemRefundable = this.refundableAmount(item);
+          if (itemRefundable.lte(0)) {
+            throw new BadRequestException(
+              `Order item ${itemId} is ${item.status}; only cancelled items or units recorded as short can be refunded`,
+            );
+          }
+
+          const refunded =
+            refundedByItem.find((entry) => entry.orderItemId === itemId)?._sum
+              .amount ?? new Prisma.Decimal(0);
+          if (refunded.gte(itemRefundable)) {
+            throw new BadRequestException(
+              `Order item ${itemId} has already been refunded`,
+            );
+          }
+
+          return {
+            orderItemId: item.id,
+            amount: itemRefundable.minus(refunded),
+          };
+        });
+      }
+
+      const amount = itemIds
+        ? items.reduce(
+            (total, item) => total.plus(item.amount),
+            new Prisma.Decimal(0),
+          )
+        : remaining;
+
+      if (amount.lte(0)) {
+        throw new BadRequestException(
+          `Nothing left to refund for order ${orderNumber}`,
+        );
+      }
+
+      if (amount.gt(remaining)) {
+        throw new BadRequestException(
+          `Refund of ${amount.toFixed(2)} exceeds the ${remaining.toFixed(2)} still refundable on this order's payments`,
+        );
+      }
+
+      const allocations = this.allocateRefund(refundable, amount, items);
+      const baseReference = `RF-${orderNumber}-${Date.now()}`;
+
+      const created: RefundWithRelations[] = [];
+      for (const [index, allocation] of allocations.entries()) {
+        created.push(
+          await tx.refund.create({
+            data: {
+              orderId: order.id,
+              paymentId: allocation.paymentId,
+              refundReference:
+                allocations.length > 1
+                  ? `${baseReference}-${index + 1}`
+                  : baseReference,
+              amount: allocation.amount,
+              reason,
+              destination,
+              initiatedById: userId,
+              items: { create: allocation.items },
+            },
+            include: refundInclude,
+          }),
+        );
+      }
+
+      return created.map((refund) => ({
+        refund,
+        payment: payments.find((payment) => payment.id === refund.paymentId)!,
+      }));
+    });
+
+    const responses: RefundResponseDto[] = [];
+    let failure: Error | null = null;
+    for (const { refund, payment } of refunds) {
+      try {
+        responses.push(
+          this.toResponse(
+            await this.submitRefund(refund, payment, orderNumber, userId),
+          ),
+        );
+      } catch (error) {
+        // Submit the rest; each refund is recorded on its own
+        failure ??= error instanceof Error ? error : new Error(String(error));
+      }
+    }
+
+    if (failure) {
+      throw failure;
+    }
+
+    return responses;
+  }
+
+  async findOrderRefunds(orderNumber: string): Promise<RefundResponseDto[]> {
+    const order = await this.prismaService.order.findUnique({
+      where: { orderNumber },
+      select: { id: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Order ${orderNumber} not found`);
+    }
+
+    const refunds = await this.prismaService.refund.findMany({
+      where: { orderId: order.id },
+      include: refundInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return refunds.map((refund) => this.toResponse(refund));
+  }
+
+  /**
+   * Apply a SUCCESSFUL_REFUND or FAILED_REFUND webhook
+   */
+  async handleRefundWebhook(
+    eventType: string,
+    eventData: MonnifyRefundWebhookData,
+  ) {
+    const refundReference = eventData.refundReference;
+
+    if (!refundReference) {
+      this.logger.error('Refund webhook missing refundReference');
+      return { success: false, message: 'Missing refund reference' };
+    }
+
+    const refund = await this.prismaService.refund.findUnique({
+      where: { refundReference },
+      include: refundInclude,
+    });
+
+    if (!refund) {
+      this.logger.warn(`Refund not found for reference: ${refundReference}`);
+      return { success: false, message: 'Refund not found' };
+    }
+
+    if (refund.status === RefundStatus.COMPLETED) {
+      this.logger.log(`Refund ${refundReference} already completed`);
+      return {
+        success: true,
+        message: 'Refund already processed',
+        processed: false,
+      };
+    }
+
+    const updated =
+      eventType === 'SUCCESSFUL_REFUND'
+        ? await this.completeRefund(
+            refund.id,
+            eventData.completedOn
+              ? new Date(eventData.completedOn)
+              : new Date(),
+            eventData,
+          )
+        : await this.failRefund(
+            refund.id,
+            eventData.comment || eventData.refundReason || 'Refund failed',
+            eventData,
+          );
+
+    this.logger.log(
+      `Refund ${refundReference} for order ${refund.order.orderNumber} marked ${updated.status}`,
+    );
+
+    return {
+      success: true,
+      message: `Refund ${updated.status.toLowerCase()}`,
+      data: {
+        orderNumber: refund.order.orderNumber,
+        refundReference,
+        amount: Number(refund.amount),
+        status: updated.status,
+      },
+    };
+  }
+
+  /**
+   * Send a refund to the gateway, or complete it at once when the money goes
+   * back to the wallet. Marked FAILED only when the gateway rejects it;
+   * otherwise it stays PENDING until the refund webhook arrives.
+   */
+  private async submitRefund(
+    refund: RefundWithRelations,
+    payment: Payment,
+    orderNumber: string,
+    userId: string,
+  ): Promise<RefundWithRelations> {
+    if (
+      payment.paymentMethod === PaymentMethod.WALLET ||
+      refund.destination === RefundDestination.WALLET
+    ) {
+      const completed = await this.completeRefund(refund.id, new Date());
+      this.logger.log(
+        `Refund ${refund.refundReference} of ${refund.amount.toFixed(2)} for order ${orderNumber} returned to wallet by ${userId}`,
+      );
+      return completed;
+    }
+
+    try {
+      const response = await this.paymentGateway.initiateRefund({
+        transactionReference: payment.monnifyInvoiceRef,
+        refundReference: refund.refundReference,
+        refundAmount: Number(refund.amount),
+        refundReason: refund.reason,
+        customerNote: `Refund ${orderNumber}`,
+      });
+
+      const { refundStatus } = response.responseBody;
+      if (refundStatus === 'COMPLETED') {
+        return await this.completeRefund(refund.id, new Date());
+      }
+      if (refundStatus === 'FAILED') {
+        return await this.failRefund(refund.id, response.responseBody.comment);
+      }
+    } catch (error) {
+      if (!this.isGatewayRejection(error)) {
+        // The gateway may still have the refund; its webhook settles it
+        this.logger.warn(
+          `Refund ${refund.refundReference} for order ${orderNumber} left pending; gateway unreachable: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        return refund;
+      }
+
+      // Release the amount; a late SUCCESSFUL_REFUND webhook still completes it
+      await this.failRefund(refund.id, error.message);
+      throw error;
+    }
+
+    this.logger.log(
+      `Refund ${refund.refundReference} of ${refund.amount.toFixed(2)} initiated for order ${orderNumber} by ${userId}`,
+    );
+
+    return refund;
+  }
+
+  /**
+   * Whether the gateway answered and turned the refund down, as opposed to
+   * a timeout, an outage or an auth failure
+   */
+  private isGatewayRejection(error: unknown): error is HttpException {
+    if (!(error instanceof HttpException)) {
+      return false;
+    }
+
+    const status: HttpStatus = error.getStatus();
+    return (
+      status >= HttpStatus.BAD_REQUEST &&
+      status < HttpStatus.INTERNAL_SERVER_ERROR &&
+      status !== HttpStatus.UNAUTHORIZED &&
+      status !== HttpStatus.REQUEST_TIMEOUT &&
+      status !== HttpStatus.TOO_MANY_REQUESTS
+    );
+  }
+
+  /**
+   * Split a refund over payments in order, along with the items it covers.
+   * An item straddling two payments is split between their refunds.
+   */
+  private allocateRefund(
+    refundable: { payment: Payment; remaining: Prisma.Decimal }[],
+    amount: Prisma.Decimal,
+    items: RefundItemAmount[],
+  ): RefundAllocation[] {
+    const itemQueue = items.map((item) => ({ ...item }));
+    const allocations: RefundAllocation[] = [];
+    let left = amount;
+
+    for (const { payment, remaining } of refundable) {
+      if (left.lte(0)) {
+        break;
+      }
+
+      const take = Prisma.Decimal.min(remaining, left);
+      if (take.lte(0)) {
+        continue;
+      }
+
+      const allocationItems: RefundItemAmount[] = [];
+      let itemsLeft = take;
+      while (itemsLeft.gt(0) && itemQueue.length > 0) {
+        const item = itemQueue[0];
+        const share = Prisma.Decimal.min(item.amount, itemsLeft);
+
+        allocationItems.push({ orderItemId: item.orderItemId, amount: share });
+        item.amount = item.amount.minus(share);
+        itemsLeft = itemsLeft.minus(share);
+
+        if (item.amount.lte(0)) {
+          itemQueue.shift();
+        }
+      }
+
+      allocations.push({
+        paymentId: payment.id,
+        amount: take,
+        items: allocationItems,
+      });
+      left = left.minus(take);
+    }
+
+    return allocations;
+  }
+
+  private async completeRefund(
+    refundId: string,
+    completedAt: Date,
+    webhookData?: MonnifyRefundWebhookData,
+  ): Promise<RefundWithRelations> {
+    return this.prismaService.$transaction(async (tx) => {
+      const refund = await tx.refund.update({
+        where: { id: refundId },
+        data: {
+          status: RefundStatus.COMPLETED,
+          completedAt,
+          failureReason: null,
+          ...(webhookData && {
+            webhookData: webhookData as unknown as Prisma.InputJsonObject,
+          }),
+        },
+        include: refundInclude,
+      });
+
+      const [payment, completed] = await Promise.all([
+        tx.payment.findUniqueOrThrow({
+          where: { id: refund.paymentId },
+          include: { order: { select: { wholesalerId: true } } },
+        }),
+        tx.refund.aggregate({
+          where: {
+            paymentId: refund.paymentId,
+            status: RefundStatus.COMPLETED,
+          },
+          _sum: { amount: true },
+        }),
+      ]);
+
+      if (
+        payment.paymentMethod === PaymentMethod.WALLET ||
+        refund.destination === RefundDestination.WALLET
+      ) {
+        await this.walletService.credit(tx, payment.order.wholesalerId, {
+          type: WalletTransactionType.REFUND,
+          amount: refund.amount,
+          counterAccount: LedgerAccount.REFUNDS,
+          reference: `refund:${refund.refundReference}`,
+          description: `Refund ${refund.refundReference} for order ${refund.order.orderNumber}`,
+          orderId: refund.orderId,
+          paymentId: payment.id,
+          refundId: refund.id,
+        });
+      }
+
+      if (completed._sum.amount?.gte(payment.amount)) {
+        await tx.payment.update({
+          where: { id: payment.id },
+          data: { status: PaymentStatus.REFUNDED },
+        });
+        this.logger.log(
+          `Payment ${payment.monnifyInvoiceRef} fully refunded for order ${refund.order.orderNumber}`,
+        );
+      }
+
+      return refund;
+    });
+  }
+
+  private async failRefund(
+    refundId: string,
+    failureReason: string,
+    webhookData?: MonnifyRefundWebhookData,
+  ): Promise<RefundWithRelations> {
+    return this.prismaService.refund.update({
+      where: { id: refundId },
+      data: {
+        status: RefundStatus.FAILED,
+        failureReason,
+        ...(webhookData && {
+          webhookData: webhookData as unknown as Prisma.InputJsonObject,
+        }),
+      },
+      include: refundInclude,
+    });
+  }
+
+  /**
+   * Value of the units of an item that will not be delivered. A cancelled
+   * item owes whatever was not delivered before it was cancelled.
+   */
+  private refundableAmount(item: OrderItem): Prisma.Decimal {
+    const units =
+      item.status === OrderItemStatus.CANCELLED
+        ? item.quantity - item.fulfilledQuantity
+        : item.shortQuantity;
+
+    return Prisma.Decimal.min(item.unitPrice.times(units), item.lineTotal);
+  }
+
+  private toResponse(refund: RefundWithRelations): RefundResponseDto {
+    return {
+      id: refund.id,
+      refundReference: refund.refundReference,
+      orderNumber: refund.order.orderNumber,
+      transactionReference: refund.payment.monnifyInvoiceRef,
+      amount: Number(refund.amount),
+      reason: refund.reason,
+      status: refund.status,
+      destination: refund.destination,
+      items: refund.items.map((item) => ({
+        orderItemId: item.orderItemId,
+        amount: Number(item.amount),
+      })),
+      failureReason: refund.failureReason,
+      createdAt: refund.createdAt,
+      completedAt: refund.completedAt,
+    };
+  }
+}
@@ -0,0 +1,618 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Order,
+  OrderItemStatus,
+  Prisma,
+  ShipmentStatus,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CloudinaryService } from '../storage/cloudinary.service';
+import { OrderService } from './order.service';
+import {
+  CreateShipmentDto,
+  CreateShipmentEventDto,
+  DeliverShipmentDto,
+  DispatchShipmentDto,
+  ShipmentReasonDto,
+  ShipmentResponseDto,
+} from './dto/shipment.dto';
+import {
+  ACTIVE_SHIPMENT_STATUSES,
+  IN_FLIGHT_SHIPMENT_STATUSES,
+  ItemFulfilmentChange,
+  SHIPMENT_NUMBER_PREFIX,
+  SHIPMENT_PROOF_FOLDER,
+  SHIPPABLE_ORDER_STATUSES,
+  ShipmentProofFiles,
+} from './types/shipment.types';
+
+const shipmentInclude = {
+  order: { select: { orderNumber: true } },
+  items: {
+    include: {
+      orderItem: {
+        select: {
+          id: true,
+          status: true,
+          product: { select: { name: true } },
+        },
+      },
+    },
+  },
+  events: { orderBy: { occurredAt: 'asc' } },
+} satisfies Prisma.ShipmentInclude;
+
+type ShipmentWithRelations = Prisma.ShipmentGetPayload<{
+  include: typeof shipmentInclude;
+}>;
+
+/**
+ * Shipments of order items to the wholesaler.
+ *
+ * Officers group units of READY items into a shipment and move it through
+ * dispatch to delivery. An item can go out over several shipments; it
+ * becomes SHIPPED once all its units are on the road and DELIVERED once
+ * they have arrived, and a delivery needs a photo taken at handover. Each status change and tracking update
+ * is an event on the shipment's timeline, which the wholesaler can follow.
+ */
+@Injectable()
+export class ShipmentService {
+  private readonly logger = new Logger(ShipmentService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly cloudinaryService: CloudinaryService,
+    private readonly orderService: OrderService,
+  ) {}
+
+  async createShipment(
+    orderNumber: string,
+    createShipmentDto: CreateShipmentDto,
+    userId: string,
+  ): Promise<ShipmentResponseDto> {
+    const order = await this.findOrder(orderNumber, userId, true);
+    const { items: requested, notes, ...carrier } = createShipmentDto;
+    const orderItemIds = requested.map((item) => item.orderItemId);
+
+    if (new Set(orderItemIds).size !== orderItemIds.length) {
+      throw new BadRequestException('Each order item can only be listed once');
+    }
+
+    if (!SHIPPABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new BadRequestException(
+        `Order ${orderNumber} is ${order.status}; only confirmed orders can be shipped`,
+      );
+    }
+
+    const shipment = await this.prismaService.$transaction(async (tx) => {
+      // Lock the order so concurrent requests cannot ship an item twice
+      await tx.order.update({
+        where: { id: order.id },
+        data: { updatedAt: new Date() },
+      });
+
+      const items = await tx.orderItem.findMany({
+        where: { id: { in: orderItemIds }, orderId: order.id },
+        include: {
+          shipmentItems: {
+            where: { shipment: { status: { in: ACTIVE_SHIPMENT_STATUSES } } },
+            select: { quantity: true },
+          },
+        },
+      });
+
+      const shipmentItems = requested.map(
+        ({ orderItemId: itemId, quantity }) => {
+          const item = items.find((orderItem) => orderItem.id === itemId);
+
+          if (!item) {
+            throw new NotFoundException(
+              `Order item ${itemId} not found in order ${orderNumber}`,
+            );
+          }
+
+          if (item.status !== OrderItemStatus.READY) {
+            throw new BadRequestException(
+              `Order item ${itemId} is ${item.status}; only READY items can be shipped`,
+            );
+          }
+
+          // Units not yet delivered, short or on another shipment
+          const available =
+            item.quantity -
+            item.fulfilledQuantity -
+            item.shortQuantity -
+            item.shipmentItems.reduce(
+              (total, shipmentItem) => total + shipmentItem.quantity,
+              0,
+            );
+
+          if (available <= 0) {
+            throw new BadRequestException(
+              `Order item ${itemId} has no units left to ship`,
+            );
+          }
+
+          if (quantity !== undefined && quantity > available) {
+            throw new BadRequestException(
+              `Only ${available} unit(s) of order item ${itemId} are left to ship`,
+            );
+          }
+
+          return { orderItemId: itemId, quantity: quantity ?? available };
+        },
+      );
+
+      const shipmentCount = await tx.shipment.count({
+        where: { orderId: order.id },
+      });
+
+      return tx.shipment.create({
+        data: {
+          shipmentNumber: `${SHIPMENT_NUMBER_PREFIX}${orderNumber}-${shipmentCount + 1}`,
+          orderId: order.id,
+          ...carrier,
+          notes,
+          createdById: userId,
+          items: {
+            create: shipmentItems,
+          },
+          events: {
+            create: {
+              status: ShipmentStatus.PENDING,
+              description: `Packed ${orderItemIds.length} item(s) for dispatch`,
+              recordedById: userId,
+            },
+          },
+        },
+        include: shipmentInclude,
+      });
+    });
+
+    this.logger.log(
+      `Shipment ${shipment.shipmentNumber} created for order ${orderNumber} by ${userId}`,
+    );
+
+    return this.toResponse(shipment);
+  }
+
+  /**
+   * Shipments on an order with their tracking timelines
+   */
+  async findOrderShipments(
+    orderNumber: string,
+    userId: string,
+  ): Promise<ShipmentResponseDto[]> {
+    const order = await this.findOrder(orderNumber, userId, false);
+
+    const shipments = await this.prismaService.shipment.findMany({
+      where: { orderId: order.id },
+      include: shipmentInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return shipments.map((shipment) => this.toResponse(shipment));
+  }
+
+  async findShipment(
+    orderNumber: string,
+    shipmentNumber: string,
+    userId: string,
+  ): Promise<ShipmentResponseDto> {
+    const order = await this.findOrder(orderNumber, userId, false);
+    const shipment = await this.findOrderShipment(order, shipmentNumber);
+
+    return this.toResponse(shipment);
+  }
+
+  /**
+   * Hand a shipment to the carrier; its items become SHIPPED
+   */
+  async dispatchShipment(
+    orderNumber: string,
+    shipmentNumber: string,
+    dispatchShipmentDto: DispatchShipmentDto,
+    userId: string,
+  ): Promise<ShipmentResponseDto> {
+    const order = await this.findOrder(orderNumber, userId, true);
+    const shipment = await this.findOrderShipment(order, shipmentNumber);
+    const { dispatchedAt, location, ...carrier } = dispatchShipmentDto;
+
+    const carrierName = carrier.carrier ?? shipment.carrier;
+    if (!carrierName && !(carrier.driverName ?? shipment.driverName)) {
+      throw new BadRequestException(
+        'Record a carrier or driver before dispatching',
+      );
+    }
+
+    const occurredAt = dispatchedAt ? new Date(dispatchedAt) : new Date();
+
+    await this.prismaService.$transaction(async (tx) => {
+      await this.lockShipment(tx, shipment.id, [ShipmentStatus.PENDING]);
+
+      await tx.shipment.update({
+        where: { id: shipment.id },
+        data: {
+          ...carrier,
+          status: ShipmentStatus.DISPATCHED,
+          dispatchedAt: occurredAt,
+          events: {
+            create: {
+              status: ShipmentStatus.DISPATCHED,
+              description: carrierName
+                ? `Dispatched with ${carrierName}`
+                : 'Dispatched',
+              location,
+              occurredAt,
+              recordedById: userId,
+            },
+          },
+        },
+      });
+
+      await this.orderService.syncItemFulfilment(
+        tx,
+        order,
+        this.itemChanges(shipment, false),
+        `Dispatched on shipment ${shipmentNumber}`,
+        userId,
+      );
+    });
+
+    await this.orderService.updateOrderStatusBasedOnItems(order.id, userId);
+
+    this.logger.log(`Shipment ${shipmentNumber} dispatched by ${userId}`);
+
+    return this.toResponse(await this.findOrderShipment(order, shipmentNumber));
+  }
+
+  /**
+   * Add a progress update to a shipment on the road
+   */
+  async addTrackingEvent(
+    orderNumber: string,
+    shipmentNumber: string,
+    createShipmentEventDto: CreateShipmentEventDto,
+    userId: string,
+  ): Promise<ShipmentResponseDto> {
+    const order = await this.findOrder(orderNumber, userId, true);
+    const shipment = await this.findOrderShipment(order, shipmentNumber);
+    const { description, location, occurredAt } = createShipmentEventDto;
+
+    await this.prismaService.$transaction(async (tx) => {
+      await this.lockShipment(tx, shipment.id, IN_FLIGHT_SHIPMENT_STATUSES);
+
+      await tx.shipment.update({
+        where: { id: shipment.id },
+        data: {
+          status: ShipmentStatus.IN_TRANSIT,
+          events: {
+            create: {
+              status: ShipmentStatus.IN_TRANSIT,
+              description,
+              location,
+              occurredAt: occurredAt ? new Date(occurredAt) : undefined,
+              recordedById: userId,
+            },
+          },
+        },
+      });
+    });
+
+    return this.toResponse(await this.findOrderShipment(order, shipmentNumber));
+  }
+
+  /**
+   * Record the handover with proof of delivery; the items become DELIVERED
+   * and move into the wholesaler's inventory
+   */
+  async deliverShipment(
+    orderNumber: string,
+    shipmentNumber: string,
+    deliverShipmentDto: DeliverShipmentDto,
+    files: ShipmentProofFiles,
+    userId: string,
+  ): Promise<ShipmentResponseDto> {
+    const order = await this.findOrder(orderNumber, userId, true);
+    const shipment = await this.findOrderShipment(order, shipmentNumber);
+    const [photo] = files.proofOfDelivery ?? [];
+    const [signature] = files.signature ?? [];
+
+    if (!photo) {
+      throw new BadRequestException('A proof of delivery photo is required');
+    }
+
+    if (!IN_FLIGHT_SHIPMENT_STATUSES.includes(shipment.status)) {
+      throw new BadRequestException(
+        `Shipment ${shipmentNumber} is ${shipment.status}; only dispatched shipments can be delivered`,
+      );
+    }
+
+    const proof = await this.uploadProof(photo, `${shipmentNumber}-proof`);
+    const signed = signature
+      ? await this.uploadProof(signature, `${shipmentNumber}-signature`)
+      : null;
+
+    const { receivedBy, deliveredAt, location } = deliverShipmentDto;
+    const occurredAt = deliveredAt ? new Date(deliveredAt) : new Date();
+
+    await this.prismaService.$transaction(async (tx) => {
+      await this.lockShipment(tx, shipment.id, IN_FLIGHT_SHIPMENT_STATUSES);
+
+      await tx.shipment.update({
+        where: { id: shipment.id },
+        data: {
+          status: ShipmentStatus.DELIVERED,
+          deliveredAt: occurredAt,
+          receivedBy,
+          proofOfDeliveryUrl: proof.secureUrl,
+          proofOfDeliveryPublicId: proof.publicId,
+          signatureUrl: signed?.secureUrl,
+          signaturePublicId: signed?.publicId,
+          events: {
+            create: {
+              status: ShipmentStatus.DELIVERED,
+              description: `Delivered; received by ${receivedBy}`,
+              location,
+              occurredAt,
+              recordedById: userId,
+            },
+          },
+        },
+      });
+
+      await this.orderService.syncItemFulfilment(
+        tx,
+        order,
+        this.itemChanges(shipment, true),
+        `Delivered on shipment ${shipmentNumber}`,
+        userId,
+      );
+    });
+
+    // Completes the order once every item has been delivered
+    await this.orderService.updateOrderStatusBasedOnItems(order.id, userId);
+
+    this.logger.log(
+      `Shipment ${shipmentNumber} delivered to ${receivedBy}; recorded by ${userId}`,
+    );
+
+    return this.toResponse(await this.findOrderShipment(order, shipmentNumber));
+  }
+
+  /**
+   * Record a failed delivery; the items go back to READY so they can be
+   * shipped again
+   */
+  async failShipment(
+    orderNumber: string,
+    shipmentNumber: string,
+    shipmentReasonDto: ShipmentReasonDto,
+    userId: string,
+  ): Promise<ShipmentResponseDto> {
+    const order = await this.findOrder(orderNumber, userId, true);
+    const shipment = await this.findOrderShipment(order, shipmentNumber);
+
+    await this.prismaService.$transaction(async (tx) => {
+      await this.lockShipment(tx, shipment.id, IN_FLIGHT_SHIPMENT_STATUSES);
+
+      await tx.shipment.update({
+        where: { id: shipment.id },
+        data: {
+          status: ShipmentStatus.FAILED,
+          events: {
+            create: {
+              status: ShipmentStatus.FAILED,
+              description: `Delivery failed: ${shipmentReasonDto.reason}`,
+              recordedById: userId,
+            },
+          },
+        },
+      });
+
+      await this.orderService.syncItemFulfilment(
+        tx,
+        order,
+        this.itemChanges(shipment, false),
+        `Returned from shipment ${shipmentNumber}: ${shipmentReasonDto.reason}`,
+        userId,
+      );
+    });
+
+    this.logger.warn(
+      `Shipment ${shipmentNumber} failed: ${shipmentReasonDto.reason}`,
+    );
+
+    return this.toResponse(await this.findOrderShipment(order, shipmentNumber));
+  }
+
+  /**
+   * Call off a shipment that has not left; its items stay READY
+   */
+  async cancelShipment(
+    orderNumber: string,
+    shipmentNumber: string,
+    shipmentReasonDto: ShipmentReasonDto,
+    userId: string,
+  ): Promise<ShipmentResponseDto> {
+    const order = await this.findOrder(orderNumber, userId, true);
+    const shipment = await this.findOrderShipment(order, shipmentNumber);
+
+    await this.prismaService.$transaction(async (tx) => {
+      await this.lockShipment(tx, shipment.id, [ShipmentStatus.PENDING]);
+
+      await tx.shipment.update({
+        where: { id: shipment.id },
+        data: {
+          status: ShipmentStatus.CANCELLED,
+          events: {
+            create: {
+              status: ShipmentStatus.CANCELLED,
+              description: `Cancelled: ${shipmentReasonDto.reason}`,
+              recordedById: userId,
+            },
+          },
+        },
+      });
+    });
+
+    return this.toResponse(await this.findOrderShipment(order, shipmentNumber));
+  }
+
+  /**
+   * Lock a shipment row and check it is in one of the expected statuses
+   */
+  private async lockShipment(
+    tx: Prisma.TransactionClient,
+    shipmentId: string,
+    expected: ShipmentStatus[],
+  ): Promise<void> {
+    const shipment = await tx.shipment.update({
+      where: { id: shipmentId },
+      data: { updatedAt: new Date() },
+      select: { shipmentNumber: true, status: true },
+    });
+
+    if (!expected.includes(shipment.status)) {
+      throw new BadRequestException(
+        `Shipment ${shipment.shipmentNumber} is ${shipment.status}; expected ${expected.join(' or ')}`,
+      );
+    }
+  }
+
+  private async uploadProof(file: Express.Multer.File, publicId: string) {
+    try {
+      return await this.cloudinaryService.uploadFile(
+        file.buffer,
+        {
+          folder: SHIPMENT_PROOF_FOLDER,
+          publicId,
+          resourceType: 'image',
+          tags: ['proof-of-delivery'],
+        },
+        file.originalname,
+      );
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to upload proof of delivery: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Load an order and check the user may see it, or with manage set, run
+   * its shipments
+   */
+  private async findOrder(
+    orderNumber: string,
+    userId: string,
+    manage: boolean,
+  ): Promise<Order> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const order = await this.prismaService.order.findUnique({
+      where: { orderNumber },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (user.role === UserRole.WHOLESALER) {
+      if (manage) {
+        throw new ForbiddenException(
+          'Only admins or assigned procurement officers can manage shipments',
+        );
+      }
+      if (order.wholesalerId !== userId) {
+        throw new ForbiddenException('You can only view your own orders');
+      }
+    } else if (
+      user.role === UserRole.PROCUREMENT_OFFICER &&
+      order.assignedProcurementOfficerId !== userId
+    ) {
+      throw new ForbiddenException('You can only view orders assigned to you');
+    }
+
+    return order;
+  }
+
+  private async findOrderShipment(
+    order: Order,
+    shipmentNumber: string,
+  ): Promise<ShipmentWithRelations> {
+    const shipment = await this.prismaService.shipment.findFirst({
+      where: { shipmentNumber, orderId: order.id },
+      include: shipmentInclude,
+    });
+
+    if (!shipment) {
+      throw new NotFoundException(
+        `Shipment ${shipmentNumber} not found on order ${order.orderNumber}`,
+      );
+    }
+
+    return shipment;
+  }
+
+  // Delivered shipments hand over all their units
+  private itemChanges(
+    shipment: ShipmentWithRelations,
+    delivered: boolean,
+  ): ItemFulfilmentChange[] {
+    return shipment.items.map((item) => ({
+      orderItemId: item.orderItemId,
+      deliveredQuantity: delivered ? item.quantity : undefined,
+    }));
+  }
+
+  private toResponse(shipment: ShipmentWithRelations): ShipmentResponseDto {
+    return {
+      id: shipment.id,
+      shipmentNumber: shipment.shipmentNumber,
+      orderNumber: shipment.order.orderNumber,
+      status: shipment.status,
+      carrier: shipment.carrier,
+      waybillNumber: shipment.waybillNumber,
+      driverName: shipment.driverName,
+      driverPhone: shipment.driverPhone,
+      vehicleNumber: shipment.vehicleNumber,
+      notes: shipment.notes,
+      dispatchedAt: shipment.dispatchedAt,
+      deliveredAt: shipment.deliveredAt,
+      receivedBy: shipment.receivedBy,
+      proofOfDeliveryUrl: shipment.proofOfDeliveryUrl,
+      signatureUrl: shipment.signatureUrl,
+      items: shipment.items.map((item) => ({
+        orderItemId: item.orderItemId,
+        productName: item.orderItem.product.name,
+        quantity: item.quantity,
+        status: item.orderItem.status,
+      })),
+      events: shipment.events.map((event) => ({
+        status: event.status,
+        description: event.description,
+        location: event.location,
+        occurredAt: event.occurredAt,
+      })),
+      createdAt: shipment.createdAt,
+    };
+  }
+}
@@ -0,0 +1,152 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AssignmentContext,
+  AssignmentScoreComponent,
+  AssignmentStrategy,
+  OfficerCandidate,
+  OfficerScore,
+} from '../interfaces/assignment-strategy.interface';
+
+const WEIGHTS = {
+  REGION: 40,
+  SPECIALIZATION: 30,
+  WORKLOAD: 20,
+  ORDER_VALUE: 10,
+};
+
+/**
+ * Prefers officers in the wholesaler's region whose specializations cover the
+ * order's categories, then spreads load. Officers whose maxOrderValue is close
+ * to the order total score higher, which keeps high-limit officers free for
+ * large orders.
+ */
+@Injectable()
+export class RegionAwareAssignmentStrategy implements AssignmentStrategy {
+  readonly name = 'region_aware' as const;
+
+  score(context: AssignmentContext, candidate: OfficerCandidate): OfficerScore {
+    const components = [
+      this.scoreRegion(context, candidate),
+      this.scoreSpecialization(context, candidate),
+      this.scoreWorkload(candidate),
+      this.scoreOrderValue(context, candidate),
+    ];
+
+    return {
+      candidate,
+      totalScore: round(
+        components.reduce((sum, component) => sum + component.score, 0),
+      ),
+      components,
+    };
+  }
+
+  private scoreRegion(
+    context: AssignmentContext,
+    candidate: OfficerCandidate,
+  ): AssignmentScoreComponent {
+    const maxScore = WEIGHTS.REGION;
+
+    if (!context.wholesalerRegionId || !candidate.regionId) {
+      return {
+        criterion: 'region',
+        score: maxScore / 2,
+        maxScore,
+        detail: !context.wholesalerRegionId
+          ? 'Wholesaler has no region'
+          : 'Officer has no region',
+      };
+    }
+
+    const matches = context.wholesalerRegionId === candidate.regionId;
+    return {
+      criterion: 'region',
+      score: matches ? maxScore : 0,
+      maxScore,
+      detail: matches
+        ? "Officer is in the wholesaler's region"
+        : "Officer is outside the wholesaler's region",
+    };
+  }
+
+  private scoreSpecialization(
+    context: AssignmentContext,
+    candidate: OfficerCandidate,
+  ): AssignmentScoreComponent {
+    const maxScore = WEIGHTS.SPECIALIZATION;
+
+    if (
+      context.categories.length === 0 ||
+      candidate.specializations.length === 0
+    ) {
+      return {
+        criterion: 'specialization',
+        score: maxScore / 2,
+        maxScore,
+        detail:
+          candidate.specializations.length === 0
+            ? 'Officer has no specializations'
+            : 'Order has no categories',
+      };
+    }
+
+    const specializations = new Set(
+      candidate.specializations.map((s) => s.trim().toLowerCase()),
+    );
+    const covered = context.categories.filter((category) =>
+      specializations.has(category.trim().toLowerCase()),
+    );
+
+    return {
+      criterion: 'specialization',
+      score: round((maxScore * covered.length) / context.categories.length),
+      maxScore,
+      detail: `Covers ${covered.length} of ${context.categories.length} order categories${
+        covered.length > 0 ? ` (${covered.join(', ')})` : ''
+      }`,
+    };
+  }
+
+  private scoreWorkload(candidate: OfficerCandidate): AssignmentScoreComponent {
+    const maxScore = WEIGHTS.WORKLOAD;
+    const spare = 1 - candidate.activeOrdersCount / candidate.maxActiveOrders;
+
+    return {
+      criterion: 'workload',
+      score: round(maxScore * Math.max(spare, 0)),
+      maxScore,
+      detail: `${candidate.activeOrdersCount} of ${candidate.maxActiveOrders} active orders`,
+    };
+  }
+
+  private scoreOrderValue(
+    context: AssignmentContext,
+    candidate: OfficerCandidate,
+  ): AssignmentScoreComponent {
+    const maxScore = WEIGHTS.ORDER_VALUE;
+
+    if (!candidate.maxOrderValue || candidate.maxOrderValue.lte(0)) {
+      return {
+        criterion: 'orderValue',
+        score: maxScore / 2,
+        maxScore,
+        detail: 'Officer has no order value limit',
+      };
+    }
+
+    const utilisation = context.totalAmount
+      .div(candidate.maxOrderValue)
+      .toNumber();
+
+    return {
+      criterion: 'orderValue',
+      score: round(maxScore * Math.min(utilisation, 1)),
+      maxScore,
+      detail: `Order total ${context.totalAmount.toFixed(2)} within limit ${candidate.maxOrderValue.toFixed(2)}`,
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,36 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AssignmentContext,
+  AssignmentStrategy,
+  OfficerCandidate,
+  OfficerScore,
+} from '../interfaces/assignment-strategy.interface';
+
+/**
+ * Original behaviour: the officer with the fewest active orders wins
+ */
+@Injectable()
+export class WorkloadAssignmentStrategy implements AssignmentStrategy {
+  readonly name = 'availability_based' as const;
+
+  score(
+    _context: AssignmentContext,
+    candidate: OfficerCandidate,
+  ): OfficerScore {
+    const score =
+      Math.round((100 / (1 + candidate.activeOrdersCount)) * 100) / 100;
+
+    return {
+      candidate,
+      totalScore: score,
+      components: [
+        {
+          criterion: 'workload',
+          score,
+          maxScore: 100,
+          detail: `${candidate.activeOrdersCount} of ${candidate.maxActiveOrders} active orders`,
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,15 @@
+export const ORDER_ASSIGNMENT_QUEUE = 'order-assignment';
+
+export const ORDER_ASSIGNMENT_JOBS = {
+  ACCEPTANCE_TIMEOUT: 'acceptance-timeout',
+} as const;
+
+export const ASSIGNMENT_SLA_DEFAULTS = {
+  ACCEPTANCE_WINDOW_MINUTES: 60,
+  MAX_ATTEMPTS: 3,
+};
+
+export interface AcceptanceTimeoutJobData {
+  attemptId: string;
+  orderNumber: string;
+}
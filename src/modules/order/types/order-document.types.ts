@@ -0,0 +1,32 @@
+import { OrderStatus } from '@prisma/client';
+
+// Cloudinary folder for generated invoice and receipt PDFs
+export const ORDER_DOCUMENT_FOLDER = 'order-documents';
+
+export const ORDER_DOCUMENT_PREFIXES = {
+  // Followed by the order number; one proforma per order, reissued on request
+  PROFORMA_INVOICE: 'PRO-',
+  // Followed by the year and a gapless sequence, e.g. INV-2026-000001
+  TAX_RECEIPT: 'INV-',
+} as const;
+
+// Digits in the sequence part of a tax receipt number
+export const TAX_RECEIPT_SEQUENCE_DIGITS = 6;
+
+// Orders that can only have a proforma; every other live status gets a receipt
+export const PROFORMA_ORDER_STATUSES: OrderStatus[] = [
+  OrderStatus.DRAFT,
+  OrderStatus.PENDING_PAYMENT,
+];
+
+export interface OrderDocumentFile {
+  filename: string;
+  content: Buffer;
+}
+
+// Seller block printed at the top of every document
+export interface InvoiceIssuer {
+  name: string;
+  address?: string;
+  tin?: string;
+}
@@ -0,0 +1,46 @@
+// Bull queue for the payment reconciliation sweep
+export const PAYMENT_RECONCILIATION_QUEUE = 'payment-reconciliation';
+
+export const PAYMENT_RECONCILIATION_JOBS = {
+  RECONCILE: 'reconcile',
+} as const;
+
+export const PAYMENT_RECONCILIATION_SETTINGS = {
+  // Every 15 minutes
+  CRON: '*/15 * * * *',
+  // Leave freshly initiated orders to the webhook
+  MIN_ORDER_AGE_MS: 10 * 60 * 1000,
+  BATCH_SIZE: 50,
+} as const;
+
+// Recorded as statusUpdatedBy on changes made by the sweep
+export const PAYMENT_RECONCILIATION_ACTOR = 'payment-reconciliation';
+
+export interface PaymentReconciliationJobData {
+  // Set for manual runs, whose report is created when they are queued
+  reportId?: string;
+}
+
+export const PAYMENT_RECONCILIATION_OUTCOMES = {
+  // Missed payment recorded and the order confirmed
+  CONFIRMED: 'CONFIRMED',
+  // Missed payment recorded but the order is still short
+  PARTIALLY_PAID: 'PARTIALLY_PAID',
+  // Invoice lapsed unpaid; order cancelled and stock released
+  EXPIRED: 'EXPIRED',
+  // Gateway and ledger disagree in a way the sweep will not settle alone
+  NEEDS_REVIEW: 'NEEDS_REVIEW',
+  // Still awaiting payment, or settled elsewhere since the sweep started
+  UNCHANGED: 'UNCHANGED',
+  FAILED: 'FAILED',
+} as const;
+
+export type PaymentReconciliationOutcome =
+  (typeof PAYMENT_RECONCILIATION_OUTCOMES)[keyof typeof PAYMENT_RECONCILIATION_OUTCOMES];
+
+export interface PaymentReconciliationResult {
+  orderNumber: string;
+  outcome: PaymentReconciliationOutcome;
+  amountRecorded?: number;
+  message?: string;
+}
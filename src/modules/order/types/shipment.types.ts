@@ -0,0 +1,38 @@
+import { OrderStatus, ShipmentStatus } from '@prisma/client';
+
+// Cloudinary folder for proof-of-delivery photos and signatures
+export const SHIPMENT_PROOF_FOLDER = 'proof-of-delivery';
+
+// Followed by the order number and the shipment's position on the order
+export const SHIPMENT_NUMBER_PREFIX = 'SHP-';
+
+// Orders whose items can be put on a shipment
+export const SHIPPABLE_ORDER_STATUSES: OrderStatus[] = [
+  OrderStatus.CONFIRMED,
+  OrderStatus.ASSIGNED,
+  OrderStatus.IN_PROGRESS,
+];
+
+// Shipments that still hold their items; an item can be on one at a time
+export const ACTIVE_SHIPMENT_STATUSES: ShipmentStatus[] = [
+  ShipmentStatus.PENDING,
+  ShipmentStatus.DISPATCHED,
+  ShipmentStatus.IN_TRANSIT,
+];
+
+// Shipments with the carrier, which can take tracking updates
+export const IN_FLIGHT_SHIPMENT_STATUSES: ShipmentStatus[] = [
+  ShipmentStatus.DISPATCHED,
+  ShipmentStatus.IN_TRANSIT,
+];
+
+export interface ShipmentProofFiles {
+  proofOfDelivery?: Express.Multer.File[];
+  signature?: Express.Multer.File[];
+}
+
+// What changed for an order item; items are re-evaluated even without a delivery
+export interface ItemFulfilmentChange {
+  orderItemId: string;
+  deliveredQuantity?: number;
+}
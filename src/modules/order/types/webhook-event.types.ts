@@ -0,0 +1,32 @@
+// Bull queue that processes stored payment webhooks
+export const WEBHOOK_EVENT_QUEUE = 'webhook-events';
+
+export const WEBHOOK_EVENT_JOBS = {
+  PROCESS: 'process',
+  SWEEP: 'sweep',
+} as const;
+
+export const WEBHOOK_EVENT_SETTINGS = {
+  // Processing attempts before an event is marked FAILED
+  MAX_ATTEMPTS: 5,
+  // Re-queue events whose job was lost (e.g. crash right after storing)
+  SWEEP_CRON: '* * * * *',
+  STALE_AFTER_MS: 2 * 60 * 1000,
+  SWEEP_BATCH_SIZE: 100,
+} as const;
+
+// Headers never written to the event store
+export const REDACTED_WEBHOOK_HEADERS = ['authorization', 'cookie'];
+
+export interface WebhookEventJobData {
+  webhookEventId: string;
+}
+
+export interface InboundWebhook {
+  provider: string;
+  headers: Record<string, unknown>;
+  payload: unknown;
+  signatureValid: boolean;
+  clientIp?: string;
+  rejectionReason?: string;
+}
@@ -0,0 +1,356 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import * as crypto from 'crypto';
+import { Prisma, WebhookEvent, WebhookEventStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaginatedResponse } from '../../common/dto/paginated-response.dto';
+import { OrderService } from './order.service';
+import { WebhookEventQueryDto } from './dto/webhook-event.dto';
+import {
+  getTransferReference,
+  MonnifyWebhookData,
+} from '../payment/interfaces/payment-gateway.interface';
+import {
+  InboundWebhook,
+  REDACTED_WEBHOOK_HEADERS,
+  WEBHOOK_EVENT_JOBS,
+  WEBHOOK_EVENT_QUEUE,
+  WEBHOOK_EVENT_SETTINGS,
+  WebhookEventJobData,
+} from './types/webhook-event.types';
+
+/**
+ * Store of inbound payment webhooks.
+ *
+ * Every request is written as received before anything acts on it. Verified
+ * events are keyed so gateway resends are recognised, and a Bull worker runs
+ * the handler from the stored row with retries. Rejected requests are kept
+ * for inspection but never processed.
+ */
+@Injectable()
+export class WebhookEventService implements OnModuleInit {
+  private readonly logger = new Logger(WebhookEventService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly orderService: OrderService,
+    @InjectQueue(WEBHOOK_EVENT_QUEUE) private readonly webhookQueue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      // Fixed jobId keeps a single repeatable job across restarts
+      await this.webhookQueue.add(
+        WEBHOOK_EVENT_JOBS.SWEEP,
+        {},
+        {
+          jobId: WEBHOOK_EVENT_JOBS.SWEEP,
+          repeat: { cron: WEBHOOK_EVENT_SETTINGS.SWEEP_CRON },
+          removeOnComplete: 5,
+          removeOnFail: 5,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule webhook sweep job: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Store an inbound webhook and queue it for processing
+   * @returns The stored event, or the earlier copy if this is a resend
+   */
+  async receive(
+    inbound: InboundWebhook,
+  ): Promise<{ webhookEvent: WebhookEvent; duplicate: boolean }> {
+    const { eventType } = this.parsePayload(inbound.payload);
+    const data = {
+      provider: inbound.provider,
+      eventType,
+      headers: this.redactHeaders(inbound.headers),
+      payload: (inbound.payload ?? {}) as Prisma.InputJsonValue,
+      signatureValid: inbound.signatureValid,
+      clientIp: inbound.clientIp,
+    };
+
+    if (!inbound.signatureValid) {
+      const webhookEvent = await this.prisma.webhookEvent.create({
+        data: {
+          ...data,
+          status: WebhookEventStatus.REJECTED,
+          lastError: inbound.rejectionReason,
+        },
+      });
+      return { webhookEvent, duplicate: false };
+    }
+
+    const eventKey = this.eventKey(inbound.provider, inbound.payload);
+
+    try {
+      const webhookEvent = await this.prisma.webhookEvent.create({
+        data: { ...data, eventKey },
+      });
+      await this.enqueue(webhookEvent.id, `webhook:${webhookEvent.id}`);
+
+      return { webhookEvent, duplicate: false };
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== 'P2002'
+      ) {
+        throw error;
+      }
+
+      const webhookEvent = await this.prisma.webhookEvent.findUniqueOrThrow({
+        where: { eventKey },
+      });
+      this.logger.log(
+        `Duplicate webhook ${eventKey}; already stored as ${webhookEvent.id} (${webhookEvent.status})`,
+      );
+
+      return { webhookEvent, duplicate: true };
+    }
+  }
+
+  /**
+   * Run the handler for one stored event
+   * @param finalAttempt - Mark the event FAILED instead of PENDING if the handler throws
+   */
+  async process(webhookEventId: string, finalAttempt: boolean): Promise<void> {
+    const webhookEvent = await this.prisma.webhookEvent.findUnique({
+      where: { id: webhookEventId },
+    });
+
+    if (
+      !webhookEvent ||
+      webhookEvent.status === WebhookEventStatus.PROCESSED ||
+      webhookEvent.status === WebhookEventStatus.REJECTED
+    ) {
+      return;
+    }
+
+    let result: { success: boolean; message: string };
+    try {
+      result = (await this.orderService.handleMonnifyWebhook(
+        webhookEvent.payload,
+      )) as { success: boolean; message: string };
+    } catch (error) {
+      await this.prisma.webhookEvent.update({
+        where: { id: webhookEventId },
+        data: {
+          attempts: { increment: 1 },
+          lastError: error instanceof Error ? error.message : String(error),
+          status: finalAttempt
+            ? WebhookEventStatus.FAILED
+            : WebhookEventStatus.PENDING,
+        },
+      });
+
+      if (finalAttempt) {
+        this.logger.error(
+          `Webhook event ${webhookEventId} (${webhookEvent.eventType}) failed permanently: ${error.message}`,
+        );
+      }
+      throw error;
+    }
+
+    // The handler declines events it cannot act on, e.g. an unknown order;
+    // retrying will not help, so they go straight to FAILED for a replay
+    await this.prisma.webhookEvent.update({
+      where: { id: webhookEventId },
+      data: {
+        status: result.success
+          ? WebhookEventStatus.PROCESSED
+          : WebhookEventStatus.FAILED,
+        attempts: { increment: 1 },
+        lastError: result.success ? null : result.message,
+        result: result as unknown as Prisma.InputJsonObject,
+        processedAt: result.success ? new Date() : null,
+      },
+    });
+
+    if (!result.success) {
+      this.logger.warn(
+        `Webhook event ${webhookEventId} (${webhookEvent.eventType}) not applied: ${result.message}`,
+      );
+    }
+  }
+
+  /**
+   * Re-queue PENDING events that have not been processed within the grace
+   * period
+   */
+  async sweep(): Promise<number> {
+    const stale = await this.prisma.webhookEvent.findMany({
+      where: {
+        status: WebhookEventStatus.PENDING,
+        updatedAt: {
+          lt: new Date(Date.now() - WEBHOOK_EVENT_SETTINGS.STALE_AFTER_MS),
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: WEBHOOK_EVENT_SETTINGS.SWEEP_BATCH_SIZE,
+      select: { id: true },
+    });
+
+    for (const { id } of stale) {
+      await this.enqueue(id, `webhook:${id}`);
+    }
+
+    if (stale.length > 0) {
+      this.logger.warn(`Re-queued ${stale.length} stale webhook event(s)`);
+    }
+
+    return stale.length;
+  }
+
+  async findAll(
+    query: WebhookEventQueryDto,
+  ): Promise<PaginatedResponse<WebhookEvent>> {
+    const { page = 1, limit = 10, status, eventType, provider } = query;
+
+    const where: Prisma.WebhookEventWhereInput = {
+      ...(status && { status }),
+      ...(eventType && { eventType }),
+      ...(provider && { provider }),
+    };
+
+    const [events, total] = await Promise.all([
+      this.prisma.webhookEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.webhookEvent.count({ where }),
+    ]);
+
+    return new PaginatedResponse(events, page, limit, total);
+  }
+
+  async findOne(webhookEventId: string): Promise<WebhookEvent> {
+    const webhookEvent = await this.prisma.webhookEvent.findUnique({
+      where: { id: webhookEventId },
+    });
+
+    if (!webhookEvent) {
+      throw new NotFoundException('Webhook event not found');
+    }
+
+    return webhookEvent;
+  }
+
+  /**
+   * Put a failed or stuck event back on the processing queue
+   */
+  async replay(webhookEventId: string): Promise<WebhookEvent> {
+    const webhookEvent = await this.findOne(webhookEventId);
+
+    if (webhookEvent.status === WebhookEventStatus.PROCESSED) {
+      throw new BadRequestException('Webhook event has already been processed');
+    }
+
+    if (webhookEvent.status === WebhookEventStatus.REJECTED) {
+      throw new BadRequestException(
+        'Webhook event failed verification and cannot be replayed',
+      );
+    }
+
+    const updated = await this.prisma.webhookEvent.update({
+      where: { id: webhookEventId },
+      data: { status: WebhookEventStatus.PENDING },
+    });
+
+    // A fresh jobId so Bull does not dedupe against the exhausted job
+    await this.enqueue(
+      webhookEventId,
+      `webhook:${webhookEventId}:replay:${Date.now()}`,
+    );
+
+    return updated;
+  }
+
+  private async enqueue(webhookEventId: string, jobId: string): Promise<void> {
+    try {
+      await this.webhookQueue.add(
+        WEBHOOK_EVENT_JOBS.PROCESS,
+        { webhookEventId } satisfies WebhookEventJobData,
+        { jobId },
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to queue webhook event ${webhookEventId}; the sweep will retry: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Gateways resend a notification until it is acknowledged. Refunds are
+   * keyed by their reference and transfers by the same reference payments
+   * are recorded under; anything else is keyed by its body.
+   */
+  private eventKey(provider: string, payload: unknown): string {
+    const { eventType, eventData } = this.parsePayload(payload);
+    const { refundReference, transactionReference } = eventData;
+
+    if (eventType && typeof refundReference === 'string' && refundReference) {
+      return `${provider}:${eventType}:${refundReference}`;
+    }
+
+    if (
+      eventType &&
+      typeof transactionReference === 'string' &&
+      transactionReference
+    ) {
+      // Every transfer into an invoice shares its transaction reference
+      const reference = getTransferReference(
+        eventData as Pick<
+          MonnifyWebhookData,
+          'transactionReference' | 'paymentSourceInformation'
+        >,
+      );
+      return `${provider}:${eventType}:${reference}`;
+    }
+
+    const digest = crypto
+      .createHash('sha256')
+      .update(JSON.stringify(payload ?? null))
+      .digest('hex');
+    return `${provider}:sha256:${digest}`;
+  }
+
+  private parsePayload(payload: unknown): {
+    eventType: string | null;
+    eventData: Record<string, unknown>;
+  } {
+    const body = (
+      payload && typeof payload === 'object' ? payload : {}
+    ) as Record<string, unknown>;
+
+    return {
+      eventType: typeof body.eventType === 'string' ? body.eventType : null,
+      eventData:
+        body.eventData && typeof body.eventData === 'object'
+          ? (body.eventData as Record<string, unknown>)
+          : {},
+    };
+  }
+
+  private redactHeaders(
+    headers: Record<string, unknown>,
+  ): Prisma.InputJsonObject {
+    return Object.fromEntries(
+      Object.entries(headers).filter(
+        ([name]) => !REDACTED_WEBHOOK_HEADERS.includes(name.toLowerCase()),
+      ),
+    ) as Prisma.InputJsonObject;
+  }
+}
@@ -0,0 +1,2 @@
+export * from './outbox-query.dto';
+export * from './outbox-event-response.dto';
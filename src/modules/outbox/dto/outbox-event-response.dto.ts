@@ -0,0 +1,44 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OutboxStatus } from '@prisma/client';
+
+export class OutboxEventResponseDto {
+  @ApiProperty({ description: 'Outbox event ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Event type', example: 'order.confirmed' })
+  eventType: string;
+
+  @ApiProperty({
+    description:
+      "Listener the event is delivered to; '*' for events relayed to every listener",
+    example: 'order-assignment',
+  })
+  listener: string;
+
+  @ApiProperty({ description: 'ID of the record the event belongs to' })
+  aggregateId: string;
+
+  @ApiProperty({ description: 'Event payload relayed to listeners' })
+  payload: unknown;
+
+  @ApiProperty({ enum: OutboxStatus, example: OutboxStatus.FAILED })
+  status: OutboxStatus;
+
+  @ApiProperty({ description: 'Relay attempts so far', example: 5 })
+  attempts: number;
+
+  @ApiPropertyOptional({
+    description: 'Error from the last failed attempt',
+    nullable: true,
+  })
+  lastError: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  publishedAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
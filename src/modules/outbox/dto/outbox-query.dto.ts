@@ -0,0 +1,45 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { OutboxStatus } from '@prisma/client';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+
+export class OutboxQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    enum: OutboxStatus,
+    description: 'Filter by relay status (case-insensitive)',
+    example: 'failed',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      return value.toUpperCase();
+    }
+    return value;
+  })
+  @IsEnum(OutboxStatus)
+  status?: OutboxStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by event type',
+    example: 'order.confirmed',
+  })
+  @IsOptional()
+  @IsString()
+  eventType?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by listener',
+    example: 'order-assignment',
+  })
+  @IsOptional()
+  @IsString()
+  listener?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by the ID of the record the event belongs to',
+  })
+  @IsOptional()
+  @IsString()
+  aggregateId?: string;
+}
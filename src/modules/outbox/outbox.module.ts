@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { OutboxService } from './outbox.service';
+import { OutboxProcessor } from './processors/outbox.processor';
+import { PrismaModule } from '../prisma/prisma.module';
+import { OUTBOX_QUEUE, OUTBOX_SETTINGS } from './types/outbox.types';
+
+@Module({
+  imports: [
+    PrismaModule,
+    BullModule.registerQueueAsync({
+      name: OUTBOX_QUEUE,
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        redis: {
+          host: configService.get<string>('REDIS_HOST'),
+          port: configService.get<number>('REDIS_PORT'),
+          password: configService.get<string>('REDIS_PASSWORD'),
+        },
+        defaultJobOptions: {
+          attempts: OUTBOX_SETTINGS.MAX_ATTEMPTS,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: 10,
+          removeOnFail: 5,
+        },
+      }),
+      inject: [ConfigService],
+    }),
+  ],
+  providers: [OutboxService, OutboxProcessor],
+  exports: [OutboxService],
+})
+export class OutboxModule {}
@@ -0,0 +1,251 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { OutboxEvent, OutboxStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaginatedResponse } from '../../common/dto/paginated-response.dto';
+import { DomainEventPayload } from '../events/types/domain-events.types';
+import { OutboxQueryDto } from './dto';
+import {
+  OUTBOX_JOBS,
+  OUTBOX_LISTENERS,
+  OUTBOX_QUEUE,
+  OUTBOX_SETTINGS,
+  OutboxEventName,
+  OutboxListenerName,
+  OutboxRelayJobData,
+  outboxChannel,
+} from './types/outbox.types';
+
+/**
+ * Transactional outbox.
+ *
+ * Services write events with add() inside the transaction that changes
+ * state, then call dispatch() once it commits. Each event is stored as one
+ * row per listener, so a listener that fails is retried on its own. A Bull
+ * worker relays each row to its listener; a periodic sweep re-queues rows
+ * whose job was lost. Delivery is at-least-once, so listeners must tolerate
+ * repeats.
+ */
+@Injectable()
+export class OutboxService implements OnModuleInit {
+  private readonly logger = new Logger(OutboxService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventEmitter: EventEmitter2,
+    @InjectQueue(OUTBOX_QUEUE) private readonly outboxQueue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      // Fixed jobId keeps a single repeatable job across restarts
+      await this.outboxQueue.add(
+        OUTBOX_JOBS.SWEEP,
+        {},
+        {
+          jobId: OUTBOX_JOBS.SWEEP,
+          repeat: { cron: OUTBOX_SETTINGS.SWEEP_CRON },
+          removeOnComplete: 5,
+          removeOnFail: 5,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule outbox sweep job: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Record an event for each of its listeners in the caller's transaction
+   * @returns Outbox event IDs to pass to dispatch() after commit
+   */
+  async add<E extends OutboxEventName>(
+    tx: Prisma.TransactionClient,
+    event: E,
+    aggregateId: string,
+    payload: DomainEventPayload<E>,
+  ): Promise<string[]> {
+    const listeners: readonly OutboxListenerName[] = OUTBOX_LISTENERS[event];
+    const outboxEvents = await tx.outboxEvent.createManyAndReturn({
+      data: listeners.map((listener) => ({
+        eventType: event,
+        listener,
+        aggregateId,
+        payload: payload as unknown as Prisma.InputJsonObject,
+      })),
+      select: { id: true },
+    });
+
+    return outboxEvents.map((outboxEvent) => outboxEvent.id);
+  }
+
+  /**
+   * Queue committed events for relay. Failures are only logged; the sweep
+   * picks up anything that could not be queued.
+   */
+  async dispatch(outboxEventIds: string[]): Promise<void> {
+    for (const outboxEventId of outboxEventIds) {
+      await this.enqueue(outboxEventId, `outbox:${outboxEventId}`);
+    }
+  }
+
+  /**
+   * Deliver one outbox row to its listener
+   * @param finalAttempt - Mark the row FAILED instead of PENDING if delivery fails
+   */
+  async relay(outboxEventId: string, finalAttempt: boolean): Promise<void> {
+    const outboxEvent = await this.prisma.outboxEvent.findUnique({
+      where: { id: outboxEventId },
+    });
+
+    if (!outboxEvent || outboxEvent.status === OutboxStatus.PUBLISHED) {
+      return;
+    }
+
+    try {
+      await this.eventEmitter.emitAsync(
+        outboxChannel(
+          outboxEvent.eventType as OutboxEventName,
+          outboxEvent.listener as OutboxListenerName,
+        ),
+        outboxEvent.payload,
+      );
+    } catch (error) {
+      await this.prisma.outboxEvent.update({
+        where: { id: outboxEventId },
+        data: {
+          attempts: { increment: 1 },
+          lastError: error instanceof Error ? error.message : String(error),
+          status: finalAttempt ? OutboxStatus.FAILED : OutboxStatus.PENDING,
+        },
+      });
+
+      if (finalAttempt) {
+        this.logger.error(
+          `Outbox event ${outboxEventId} (${outboxEvent.eventType} to ${outboxEvent.listener}) failed permanently: ${error.message}`,
+        );
+      }
+      throw error;
+    }
+
+    await this.prisma.outboxEvent.update({
+      where: { id: outboxEventId },
+      data: {
+        status: OutboxStatus.PUBLISHED,
+        publishedAt: new Date(),
+        attempts: { increment: 1 },
+        lastError: null,
+      },
+    });
+  }
+
+  /**
+   * Re-queue PENDING rows that have not been relayed within the grace period
+   */
+  async sweep(): Promise<number> {
+    const stale = await this.prisma.outboxEvent.findMany({
+      where: {
+        status: OutboxStatus.PENDING,
+        createdAt: {
+          lt: new Date(Date.now() - OUTBOX_SETTINGS.STALE_AFTER_MS),
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: OUTBOX_SETTINGS.SWEEP_BATCH_SIZE,
+      select: { id: true },
+    });
+
+    await this.dispatch(stale.map((outboxEvent) => outboxEvent.id));
+
+    if (stale.length > 0) {
+      this.logger.warn(`Re-queued ${stale.length} stale outbox event(s)`);
+    }
+
+    return stale.length;
+  }
+
+  async findAll(
+    query: OutboxQueryDto,
+  ): Promise<PaginatedResponse<OutboxEvent>> {
+    const {
+      page = 1,
+      limit = 10,
+      status,
+      eventType,
+      listener,
+      aggregateId,
+    } = query;
+
+    const where: Prisma.OutboxEventWhereInput = {
+      ...(status && { status }),
+      ...(eventType && { eventType }),
+      ...(listener && { listener }),
+      ...(aggregateId && { aggregateId }),
+    };
+
+    const [events, total] = await Promise.all([
+      this.prisma.outboxEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.outboxEvent.count({ where }),
+    ]);
+
+    return new PaginatedResponse(events, page, limit, total);
+  }
+
+  /**
+   * Put an unpublished event back on the relay queue
+   */
+  async replay(outboxEventId: string): Promise<OutboxEvent> {
+    const outboxEvent = await this.prisma.outboxEvent.findUnique({
+      where: { id: outboxEventId },
+    });
+
+    if (!outboxEvent) {
+      throw new NotFoundException('Outbox event not found');
+    }
+
+    if (outboxEvent.status === OutboxStatus.PUBLISHED) {
+      throw new BadRequestException('Outbox event has already been published');
+    }
+
+    const updated = await this.prisma.outboxEvent.update({
+      where: { id: outboxEventId },
+      data: { status: OutboxStatus.PENDING },
+    });
+
+    // A fresh jobId so Bull does not dedupe against the exhausted job
+    await this.enqueue(
+      outboxEventId,
+      `outbox:${outboxEventId}:replay:${Date.now()}`,
+    );
+
+    return updated;
+  }
+
+  private async enqueue(outboxEventId: string, jobId: string): Promise<void> {
+    try {
+      await this.outboxQueue.add(
+        OUTBOX_JOBS.RELAY,
+        { outboxEventId } satisfies OutboxRelayJobData,
+        { jobId },
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to queue outbox event ${outboxEventId}; the sweep will retry: ${error.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import type { Job } from 'bull';
+import { OutboxService } from '../outbox.service';
+import {
+  OUTBOX_JOBS,
+  OUTBOX_QUEUE,
+  OutboxRelayJobData,
+} from '../types/outbox.types';
+
+@Processor(OUTBOX_QUEUE)
+export class OutboxProcessor {
+  private readonly logger = new Logger(OutboxProcessor.name);
+
+  constructor(private readonly outboxService: OutboxService) {}
+
+  @Process(OUTBOX_JOBS.RELAY)
+  async handleRelay(job: Job<OutboxRelayJobData>) {
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+    try {
+      await this.outboxService.relay(job.data.outboxEventId, finalAttempt);
+    } catch (error) {
+      this.logger.error(
+        `Outbox relay job failed: ${job.id} - ${error.message}`,
+        error.stack,
+      );
+      throw error; // Let Bull handle retries
+    }
+  }
+
+  @Process(OUTBOX_JOBS.SWEEP)
+  async handleSweep(job: Job) {
+    try {
+      return { requeued: await this.outboxService.sweep() };
+    } catch (error) {
+      this.logger.error(
+        `Outbox sweep job failed: ${job.id} - ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+}
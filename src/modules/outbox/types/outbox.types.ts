@@ -0,0 +1,51 @@
+import { EmailEvent } from '../../email/types/email.types';
+
+// Bull queue that relays outbox rows to the event emitter
+export const OUTBOX_QUEUE = 'outbox';
+
+export const OUTBOX_JOBS = {
+  RELAY: 'relay',
+  SWEEP: 'sweep',
+} as const;
+
+export const OUTBOX_SETTINGS = {
+  // Relay attempts before a row is marked FAILED
+  MAX_ATTEMPTS: 5,
+  // Re-queue rows whose relay job was lost (e.g. crash right after commit)
+  SWEEP_CRON: '* * * * *',
+  STALE_AFTER_MS: 60 * 1000,
+  SWEEP_BATCH_SIZE: 100,
+} as const;
+
+/**
+ * Listeners of each outbox event. Every listener gets its own outbox row, so
+ * a failing listener is retried and dead-lettered without re-running the
+ * others.
+ */
+export const OUTBOX_LISTENERS = {
+  [EmailEvent.ORDER_CONFIRMED]: [
+    'order-assignment',
+    'order-confirmation-email',
+  ],
+  [EmailEvent.PAYMENT_RECEIVED]: ['payment-received-email'],
+} as const;
+
+export type OutboxEventName = keyof typeof OUTBOX_LISTENERS;
+
+export type OutboxListenerName<E extends OutboxEventName = OutboxEventName> =
+  (typeof OUTBOX_LISTENERS)[E][number];
+
+/**
+ * Event name the relay emits a row under; listeners subscribe to it with
+ * @OnEvent
+ */
+export function outboxChannel<E extends OutboxEventName>(
+  event: E,
+  listener: OutboxListenerName<E>,
+): string {
+  return `outbox:${event}:${listener}`;
+}
+
+export interface OutboxRelayJobData {
+  outboxEventId: string;
+}
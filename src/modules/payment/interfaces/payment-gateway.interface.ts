@@ -0,0 +1,223 @@
+/**
+ * Contract for payment providers.
+ *
+ * Request and response shapes follow Monnify's API, which was the first
+ * provider; other gateways translate to and from them. Webhooks are posted in
+ * the same shape, signed with the gateway's own secret.
+ */
+export const PAYMENT_GATEWAY = 'PAYMENT_GATEWAY';
+
+export type PaymentGatewayName = 'monnify' | 'mock';
+
+export interface CreateInvoiceRequest {
+  amount: number;
+  invoiceReference: string;
+  description: string;
+  customerName: string;
+  customerEmail: string;
+  contractCode: string;
+  currencyCode: string;
+  expiryDate: Date;
+  paymentMethods: string[];
+  redirectUrl: string;
+}
+
+export interface CreateInvoiceResponse {
+  requestSuccessful: boolean;
+  responseMessage: string;
+  responseCode: string;
+  responseBody: {
+    amount: number;
+    invoiceReference: string;
+    invoiceStatus: string;
+    description: string;
+    contractCode: string;
+    customerEmail: string;
+    customerName: string;
+    expiryDate: string;
+    createdBy: string;
+    createdOn: string;
+    checkoutUrl: string;
+    accountNumber: string;
+    accountName: string;
+    bankName: string;
+    bankCode: string;
+    redirectUrl: string;
+    transactionReference: string;
+    metaData: any;
+  };
+}
+
+export interface InvoiceStatusResponse {
+  requestSuccessful: boolean;
+  responseMessage: string;
+  responseCode: string;
+  responseBody: {
+    transactionReference: string;
+    invoiceReference: string;
+    amount: number;
+    invoiceStatus: string;
+    paymentStatus: string;
+    amountPaid: number;
+    paidOn: string;
+    paymentMethod: string;
+  };
+}
+
+export interface InitiateRefundRequest {
+  transactionReference: string;
+  refundReference: string;
+  refundAmount: number;
+  refundReason: string;
+  customerNote: string;
+}
+
+export interface InitiateRefundResponse {
+  requestSuccessful: boolean;
+  responseMessage: string;
+  responseCode: string;
+  responseBody: {
+    refundReference: string;
+    transactionReference: string;
+    refundReason: string;
+    customerNote: string;
+    refundAmount: number;
+    refundType: string;
+    refundStatus: string;
+    refundStrategy: string;
+    comment: string;
+    createdOn: string;
+    currency: string;
+  };
+}
+
+export interface CreateReservedAccountRequest {
+  accountReference: string;
+  accountName: string;
+  customerName: string;
+  customerEmail: string;
+  currencyCode: string;
+}
+
+export interface ReservedAccount {
+  bankCode: string;
+  bankName: string;
+  accountNumber: string;
+  accountName: string;
+}
+
+export interface ReservedAccountResponse {
+  requestSuccessful: boolean;
+  responseMessage: string;
+  responseCode: string;
+  responseBody: {
+    contractCode: string;
+    accountReference: string;
+    accountName: string;
+    currencyCode: string;
+    customerEmail: string;
+    customerName: string;
+    accounts: ReservedAccount[];
+    collectionChannel: string;
+    reservationReference: string;
+    reservedAccountType: string;
+    status: string;
+    createdOn: string;
+  };
+}
+
+export interface MonnifyWebhookData {
+  transactionReference: string;
+  paymentReference: string;
+  amountPaid: number;
+  totalPayable: number;
+  paidOn: string;
+  paymentStatus: string;
+  paymentMethod: string;
+  product: {
+    type: string;
+    reference: string;
+  };
+  paymentDescription: string;
+  transactionHash: string;
+  customer: {
+    name: string;
+    email: string;
+  };
+  // Bank transfers only; the session ID tells transfers into one invoice apart
+  paymentSourceInformation?: Array<{
+    sessionId: string;
+    amountPaid: number;
+    accountName?: string;
+    accountNumber?: string;
+    bankCode?: string;
+  }>;
+}
+
+/**
+ * Reference of a single transfer. Every transfer into an invoice carries
+ * the invoice's transaction reference, so bank transfers are told apart by
+ * their session ID.
+ */
+export function getTransferReference(
+  eventData: Pick<
+    MonnifyWebhookData,
+    'transactionReference' | 'paymentSourceInformation'
+  >,
+): string {
+  const sessionId = eventData.paymentSourceInformation?.[0]?.sessionId;
+
+  return sessionId
+    ? `${eventData.transactionReference}:${sessionId}`
+    : eventData.transactionReference;
+}
+
+export interface MonnifyRefundWebhookData {
+  refundReference: string;
+  transactionReference: string;
+  refundStatus: string;
+  refundAmount: number;
+  refundReason?: string;
+  customerNote?: string;
+  comment?: string;
+  completedOn?: string;
+}
+
+export interface PaymentGateway {
+  readonly name: PaymentGatewayName;
+
+  /**
+   * Create an invoice with a virtual account and checkout URL
+   */
+  createInvoice(
+    invoiceData: CreateInvoiceRequest,
+  ): Promise<CreateInvoiceResponse>;
+
+  getInvoiceStatus(invoiceReference: string): Promise<InvoiceStatusResponse>;
+
+  /**
+   * Best effort; resolves false instead of throwing when cancellation fails
+   */
+  cancelInvoice(invoiceReference: string): Promise<boolean>;
+
+  verifyWebhook(webhookData: any, signature: string): Promise<boolean>;
+
+  validateWebhookIP(clientIP: string): boolean;
+
+  /**
+   * Refund all or part of a completed transaction; the outcome may arrive
+   * later as a refund webhook
+   */
+  initiateRefund(
+    refundData: InitiateRefundRequest,
+  ): Promise<InitiateRefundResponse>;
+
+  /**
+   * Reserve permanent bank accounts for a customer. Transfers into them are
+   * posted as SUCCESSFUL_TRANSACTION webhooks with product type
+   * RESERVED_ACCOUNT. Reserving an existing reference returns its accounts.
+   */
+  createReservedAccount(
+    accountData: CreateReservedAccountRequest,
+  ): Promise<ReservedAccountResponse>;
+}
@@ -0,0 +1,358 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import {
+  CreateInvoiceRequest,
+  CreateInvoiceResponse,
+  CreateReservedAccountRequest,
+  InitiateRefundRequest,
+  InitiateRefundResponse,
+  InvoiceStatusResponse,
+  MonnifyRefundWebhookData,
+  MonnifyWebhookData,
+  PaymentGateway,
+  ReservedAccountResponse,
+} from './interfaces/payment-gateway.interface';
+
+interface MockInvoice {
+  invoice: CreateInvoiceResponse['responseBody'];
+  status: 'PENDING' | 'PAID' | 'CANCELLED';
+  amountPaid: number;
+  paidOn: string | null;
+}
+
+interface MockRefund {
+  request: InitiateRefundRequest;
+  createdOn: string;
+}
+
+export interface SignedMockWebhook<T> {
+  payload: { eventType: string; eventData: T };
+  signature: string;
+}
+
+/**
+ * In-memory gateway for local development and e2e tests.
+ *
+ * Invoices, refunds and reserved accounts live only in this process.
+ * simulateTransfer(), simulateDeposit() and simulateRefundCompletion() return
+ * webhook bodies signed the same way Monnify signs them, ready to POST to the
+ * webhook endpoint.
+ */
+@Injectable()
+export class MockPaymentGateway implements PaymentGateway {
+  readonly name = 'mock';
+
+  private readonly logger = new Logger(MockPaymentGateway.name);
+  private readonly invoices = new Map<string, MockInvoice>();
+  private readonly refunds = new Map<string, MockRefund>();
+  private readonly reservedAccounts = new Map<
+    string,
+    ReservedAccountResponse['responseBody']
+  >();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  createInvoice(
+    invoiceData: CreateInvoiceRequest,
+  ): Promise<CreateInvoiceResponse> {
+    const transactionReference = this.generateReference('MOCK');
+    const invoice: CreateInvoiceResponse['responseBody'] = {
+      amount: invoiceData.amount,
+      invoiceReference: invoiceData.invoiceReference,
+      invoiceStatus: 'PENDING',
+      description: invoiceData.description,
+      contractCode: invoiceData.contractCode,
+      customerEmail: invoiceData.customerEmail,
+      customerName: invoiceData.customerName,
+      expiryDate: this.formatDate(invoiceData.expiryDate),
+      createdBy: 'mock-gateway',
+      createdOn: this.formatDate(new Date()),
+      checkoutUrl: `http://localhost/mock-checkout/${invoiceData.invoiceReference}`,
+      accountNumber: crypto.randomInt(1000000000, 9999999999).toString(),
+      accountName: invoiceData.customerName,
+      bankName: 'Mock Bank',
+      bankCode: '000',
+      redirectUrl: invoiceData.redirectUrl,
+      transactionReference,
+      metaData: {},
+    };
+
+    this.invoices.set(invoiceData.invoiceReference, {
+      invoice,
+      status: 'PENDING',
+      amountPaid: 0,
+      paidOn: null,
+    });
+
+    this.logger.log(`Mock invoice created: ${invoiceData.invoiceReference}`);
+
+    return Promise.resolve({
+      requestSuccessful: true,
+      responseMessage: 'success',
+      responseCode: '0',
+      responseBody: invoice,
+    });
+  }
+
+  getInvoiceStatus(invoiceReference: string): Promise<InvoiceStatusResponse> {
+    const mockInvoice = this.findInvoice(invoiceReference);
+    const paid = mockInvoice.status === 'PAID';
+
+    return Promise.resolve({
+      requestSuccessful: true,
+      responseMessage: 'success',
+      responseCode: '0',
+      responseBody: {
+        transactionReference: mockInvoice.invoice.transactionReference,
+        invoiceReference,
+        amount: mockInvoice.invoice.amount,
+        invoiceStatus: mockInvoice.status,
+        paymentStatus: paid ? 'PAID' : 'PENDING',
+        amountPaid: mockInvoice.amountPaid,
+        paidOn: mockInvoice.paidOn ?? '',
+        paymentMethod: paid ? 'ACCOUNT_TRANSFER' : '',
+      },
+    });
+  }
+
+  cancelInvoice(invoiceReference: string): Promise<boolean> {
+    const mockInvoice = this.invoices.get(invoiceReference);
+
+    if (!mockInvoice || mockInvoice.status !== 'PENDING') {
+      return Promise.resolve(false);
+    }
+
+    mockInvoice.status = 'CANCELLED';
+    return Promise.resolve(true);
+  }
+
+  verifyWebhook(webhookData: any, signature: string): Promise<boolean> {
+    if (!signature) {
+      return Promise.resolve(false);
+    }
+
+    return Promise.resolve(this.sign(webhookData) === signature);
+  }
+
+  validateWebhookIP(): boolean {
+    return true;
+  }
+
+  initiateRefund(
+    refundData: InitiateRefundRequest,
+  ): Promise<InitiateRefundResponse> {
+    const createdOn = this.formatDate(new Date());
+    this.refunds.set(refundData.refundReference, {
+      request: refundData,
+      createdOn,
+    });
+
+    return Promise.resolve({
+      requestSuccessful: true,
+      responseMessage: 'success',
+      responseCode: '0',
+      responseBody: {
+        ...refundData,
+        refundType: 'PARTIAL_REFUND',
+        refundStatus: 'PENDING',
+        refundStrategy: 'MERCHANT_WALLET',
+        comment: '',
+        createdOn,
+        currency: 'NGN',
+      },
+    });
+  }
+
+  createReservedAccount(
+    accountData: CreateReservedAccountRequest,
+  ): Promise<ReservedAccountResponse> {
+    let reservedAccount = this.reservedAccounts.get(
+      accountData.accountReference,
+    );
+
+    if (!reservedAccount) {
+      reservedAccount = {
+        contractCode: 'mock-contract',
+        accountReference: accountData.accountReference,
+        accountName: accountData.accountName,
+        currencyCode: accountData.currencyCode,
+        customerEmail: accountData.customerEmail,
+        customerName: accountData.customerName,
+        accounts: [
+          {
+            bankCode: '000',
+            bankName: 'Mock Bank',
+            accountNumber: crypto.randomInt(1000000000, 9999999999).toString(),
+            accountName: accountData.accountName,
+          },
+        ],
+        collectionChannel: 'RESERVED_ACCOUNT',
+        reservationReference: this.generateReference('MOCKRSV'),
+        reservedAccountType: 'GENERAL',
+        status: 'ACTIVE',
+        createdOn: this.formatDate(new Date()),
+      };
+      this.reservedAccounts.set(accountData.accountReference, reservedAccount);
+      this.logger.log(
+        `Mock reserved account created: ${accountData.accountReference}`,
+      );
+    }
+
+    return Promise.resolve({
+      requestSuccessful: true,
+      responseMessage: 'success',
+      responseCode: '0',
+      responseBody: reservedAccount,
+    });
+  }
+
+  /**
+   * Pay into an invoice's virtual account. Defaults to the outstanding
+   * amount; pass a smaller or larger amount to simulate under/overpayment.
+   * As with Monnify, every transfer carries the invoice's transaction
+   * reference and only its session ID is its own.
+   */
+  simulateTransfer(
+    invoiceReference: string,
+    amount?: number,
+  ): SignedMockWebhook<MonnifyWebhookData> {
+    const mockInvoice = this.findInvoice(invoiceReference);
+
+    if (mockInvoice.status === 'CANCELLED') {
+      throw new HttpException('Invoice is cancelled', HttpStatus.BAD_REQUEST);
+    }
+
+    const amountPaid =
+      amount ??
+      Math.max(mockInvoice.invoice.amount - mockInvoice.amountPaid, 0);
+    const paidOn = this.formatDate(new Date());
+
+    mockInvoice.amountPaid += amountPaid;
+    mockInvoice.paidOn = paidOn;
+    if (mockInvoice.amountPaid >= mockInvoice.invoice.amount) {
+      mockInvoice.status = 'PAID';
+    }
+
+    return this.signed('SUCCESSFUL_TRANSACTION', {
+      transactionReference: mockInvoice.invoice.transactionReference,
+      paymentReference: invoiceReference,
+      amountPaid,
+      totalPayable: mockInvoice.invoice.amount,
+      paidOn,
+      paymentStatus: 'PAID',
+      paymentMethod: 'ACCOUNT_TRANSFER',
+      product: { type: 'INVOICE', reference: invoiceReference },
+      paymentDescription: mockInvoice.invoice.description,
+      transactionHash: crypto.randomBytes(32).toString('hex'),
+      customer: {
+        name: mockInvoice.invoice.customerName,
+        email: mockInvoice.invoice.customerEmail,
+      },
+      paymentSourceInformation: [
+        {
+          sessionId: this.generateReference('MOCKSESSION'),
+          amountPaid,
+          accountName: mockInvoice.invoice.customerName,
+          accountNumber: crypto.randomInt(1000000000, 9999999999).toString(),
+          bankCode: '000',
+        },
+      ],
+    });
+  }
+
+  /**
+   * Transfer into a reserved account. Every deposit gets its own transaction
+   * reference.
+   */
+  simulateDeposit(
+    accountReference: string,
+    amount: number,
+  ): SignedMockWebhook<MonnifyWebhookData> {
+    const reservedAccount = this.reservedAccounts.get(accountReference);
+
+    if (!reservedAccount) {
+      throw new HttpException(
+        'Reserved account not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return this.signed('SUCCESSFUL_TRANSACTION', {
+      transactionReference: this.generateReference('MOCK'),
+      paymentReference: this.generateReference('MOCKDEP'),
+      amountPaid: amount,
+      totalPayable: amount,
+      paidOn: this.formatDate(new Date()),
+      paymentStatus: 'PAID',
+      paymentMethod: 'ACCOUNT_TRANSFER',
+      product: { type: 'RESERVED_ACCOUNT', reference: accountReference },
+      paymentDescription: `Deposit to ${reservedAccount.accountName}`,
+      transactionHash: crypto.randomBytes(32).toString('hex'),
+      customer: {
+        name: reservedAccount.customerName,
+        email: reservedAccount.customerEmail,
+      },
+    });
+  }
+
+  /**
+   * Complete a refund started with initiateRefund()
+   */
+  simulateRefundCompletion(
+    refundReference: string,
+  ): SignedMockWebhook<MonnifyRefundWebhookData> {
+    const mockRefund = this.refunds.get(refundReference);
+
+    if (!mockRefund) {
+      throw new HttpException('Refund not found', HttpStatus.NOT_FOUND);
+    }
+
+    return this.signed('SUCCESSFUL_REFUND', {
+      refundReference,
+      transactionReference: mockRefund.request.transactionReference,
+      refundStatus: 'COMPLETED',
+      refundAmount: mockRefund.request.refundAmount,
+      refundReason: mockRefund.request.refundReason,
+      customerNote: mockRefund.request.customerNote,
+      completedOn: this.formatDate(new Date()),
+    });
+  }
+
+  private findInvoice(invoiceReference: string): MockInvoice {
+    const mockInvoice = this.invoices.get(invoiceReference);
+
+    if (!mockInvoice) {
+      throw new HttpException('Invoice not found', HttpStatus.NOT_FOUND);
+    }
+
+    return mockInvoice;
+  }
+
+  private signed<T>(eventType: string, eventData: T): SignedMockWebhook<T> {
+    const payload = { eventType, eventData };
+    return { payload, signature: this.sign(payload) };
+  }
+
+  private sign(webhookData: unknown): string {
+    return crypto
+      .createHmac(
+        'sha512',
+        this.configService.get<string>(
+          'payment.mockWebhookSecret',
+          'mock-webhook-secret',
+        ),
+      )
+      .update(JSON.stringify(webhookData))
+      .digest('hex');
+  }
+
+  private generateReference(prefix: string): string {
+    return `${prefix}|${Date.now()}|${crypto.randomBytes(4).toString('hex')}`;
+  }
+
+  // Monnify's "yyyy-MM-dd HH:mm:ss" format
+  private formatDate(date: Date): string {
+    return date.toISOString().replace('T', ' ').slice(0, 19);
+  }
+}
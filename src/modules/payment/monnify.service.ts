@@ -3,81 +3,16 @@ import { ConfigService } from '@nestjs/config';
 import axios, { AxiosInstance } from 'axios';
 import * as crypto from 'crypto';
 import { MonnifyConfig } from '../../config/monnify.config';
-
-export interface CreateInvoiceRequest {
-  amount: number;
-  invoiceReference: string;
-  description: string;
-  customerName: string;
-  customerEmail: string;
-  contractCode: string;
-  currencyCode: string;
-  expiryDate: Date;
-  paymentMethods: string[];
-  redirectUrl: string;
-}
-
-export interface CreateInvoiceResponse {
-  requestSuccessful: boolean;
-  responseMessage: string;
-  responseCode: string;
-  responseBody: {
-    amount: number;
-    invoiceReference: string;
-    invoiceStatus: string;
-    description: string;
-    contractCode: string;
-    customerEmail: string;
-    customerName: string;
-    expiryDate: string;
-    createdBy: string;
-    createdOn: string;
-    checkoutUrl: string;
-    accountNumber: string;
-    accountName: string;
-    bankName: string;
-    bankCode: string;
-    redirectUrl: string;
-    transactionReference: string;
-    metaData: any;
-  };
-}
-
-export interface InvoiceStatusResponse {
-  requestSuccessful: boolean;
-  responseMessage: string;
-  responseCode: string;
-  responseBody: {
-    transactionReference: string;
-    invoiceReference: string;
-    amount: number;
-    invoiceStatus: string;
-    paymentStatus: string;
-    amountPaid: number;
-    paidOn: string;
-    paymentMethod: string;
-  };
-}
-
-export interface MonnifyWebhookData {
-  transactionReference: string;
-  paymentReference: string;
-  amountPaid: number;
-  totalPayable: number;
-  paidOn: string;
-  paymentStatus: string;
-  paymentMethod: string;
-  product: {
-    type: string;
-    reference: string;
-  };
-  paymentDescription: string;
-  transactionHash: string;
-  customer: {
-    name: string;
-    email: string;
-  };
-}
+import {
+  CreateInvoiceRequest,
+  CreateInvoiceResponse,
+  CreateReservedAccountRequest,
+  InitiateRefundRequest,
+  InitiateRefundResponse,
+  InvoiceStatusResponse,
+  PaymentGateway,
+  ReservedAccountResponse,
+} from './interfaces/payment-gateway.interface';
 
 interface AuthResponse {
   requestSuccessful: boolean;
@@ -90,7 +25,9 @@ interface AuthResponse {
 }
 
 @Injectable()
-export class MonnifyService {
+export class MonnifyService implements PaymentGateway {
+  readonly name = 'monnify';
+
   private readonly logger = new Logger(MonnifyService.name);
   private readonly httpClient: AxiosInstance;
   private accessToken: string | null = null;
@@ -384,6 +321,114 @@ export class MonnifyService {
     }
   }
 
+  /**
+   * Refund all or part of a completed transaction.
+   * Monnify confirms the outcome later with a SUCCESSFUL_REFUND webhook.
+   */
+  async initiateRefund(
+    refundData: InitiateRefundRequest,
+  ): Promise<InitiateRefundResponse> {
+    const token = await this.authenticate();
+
+    try {
+      const response = await this.httpClient.post<InitiateRefundResponse>(
+        '/api/v1/refunds/initiate-refund',
+        {
+          ...refundData,
+          // Monnify limits the note shown to the customer to 16 characters
+          customerNote: refundData.customerNote.slice(0, 16),
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      );
+
+      if (!response.data.requestSuccessful) {
+        throw new HttpException(
+          response.data.responseMessage,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      this.logger.log(
+        `Refund initiated: ${refundData.refundReference} for transaction ${refundData.transactionReference}`,
+      );
+      return response.data;
+    } catch (error) {
+      this.logger.error('Failed to initiate refund:', error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Reserve permanent accounts for a customer across all partner banks.
+   * Monnify rejects a second reservation for the same reference, so an
+   * existing reservation is looked up instead.
+   */
+  async createReservedAccount(
+    accountData: CreateReservedAccountRequest,
+  ): Promise<ReservedAccountResponse> {
+    const token = await this.authenticate();
+    const contractCode = this.configService.get<string>(
+      'MONNIFY_CONTRACT_CODE',
+    );
+
+    if (!contractCode) {
+      throw new HttpException(
+        'Monnify contract code not configured',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+
+    const headers = { Authorization: `Bearer ${token}` };
+
+    try {
+      const response = await this.httpClient.post<ReservedAccountResponse>(
+        '/api/v2/bank-transfer/reserved-accounts',
+        {
+          accountReference: accountData.accountReference,
+          accountName: accountData.accountName,
+          currencyCode: accountData.currencyCode || 'NGN',
+          contractCode,
+          customerEmail: accountData.customerEmail,
+          customerName: accountData.customerName,
+          getAllAvailableBanks: true,
+        },
+        { headers },
+      );
+
+      if (!response.data.requestSuccessful) {
+        throw new HttpException(
+          response.data.responseMessage,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      this.logger.log(
+        `Reserved account created: ${accountData.accountReference}`,
+      );
+      return response.data;
+    } catch (error) {
+      try {
+        const existing = await this.httpClient.get<ReservedAccountResponse>(
+          `/api/v2/bank-transfer/reserved-accounts/${accountData.accountReference}`,
+          { headers },
+        );
+
+        if (existing.data.requestSuccessful) {
+          return existing.data;
+        }
+      } catch {
+        // Report the original failure below
+      }
+
+      this.logger.error('Failed to create reserved account:', error.message);
+      throw error;
+    }
+  }
+
   /**
    * Verify Monnify webhook signature
    * Implements SHA-512 HMAC signature verification as per Monnify documentation
@@ -1,10 +1,29 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MonnifyService } from './monnify.service';
+import { MockPaymentGateway } from './mock-payment.gateway';
+import { PAYMENT_GATEWAY } from './interfaces/payment-gateway.interface';
+import type { PaymentConfig } from '../../config/payment.config';
 
 @Module({
   imports: [ConfigModule],
-  providers: [MonnifyService],
-  exports: [MonnifyService],
+  providers: [
+    MonnifyService,
+    MockPaymentGateway,
+    {
+      provide: PAYMENT_GATEWAY,
+      useFactory: (
+        configService: ConfigService,
+        monnify: MonnifyService,
+        mock: MockPaymentGateway,
+      ) =>
+        configService.get<PaymentConfig['gateway']>('payment.gateway') ===
+        mock.name
+          ? mock
+          : monnify,
+      inject: [ConfigService, MonnifyService, MockPaymentGateway],
+    },
+  ],
+  exports: [PAYMENT_GATEWAY, MonnifyService, MockPaymentGateway],
 })
 export class PaymentModule {}
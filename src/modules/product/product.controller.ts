@@ -49,6 +49,11 @@ import {
   BulkUploadResultDto,
 } from './dto';
 import { BulkDeleteResultDto } from '../../common/dto';
+import { StockLedgerService } from '../inventory/stock-ledger.service';
+import {
+  StockMovementQueryDto,
+  StockMovementResponseDto,
+} from '../inventory/dto';
 import {
   BulkProductCreationDto,
   BulkProductCreationResponse,
@@ -108,6 +113,7 @@ export class ProductController {
   constructor(
     private readonly productService: ProductService,
     private readonly bulkUploadService: BulkProductUploadService,
+    private readonly stockLedgerService: StockLedgerService,
     // private readonly bulkProductCreationService: BulkProductCreationService,
   ) {}
 
@@ -327,6 +333,38 @@ export class ProductController {
     );
   }
 
+  @Get(':id/stock-movements')
+  @UseGuards(UnifiedAuthGuard, RolesGuard)
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  @ApiBearerAuth('admin-access-token')
+  @ApiOperation({
+    summary: 'Get product stock movements',
+    description:
+      'Retrieve the stock ledger for a product, newest first. Every change to the product quantity is recorded here.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Stock movements retrieved successfully',
+    type: PaginatedResponse,
+  })
+  @ApiNotFoundResponse({ description: 'Product not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Admin access required' })
+  async getStockMovements(
+    @Param('id') id: string,
+    @Query() query: StockMovementQueryDto,
+  ): Promise<SuccessResponse<PaginatedResponse<StockMovementResponseDto>>> {
+    const result = await this.stockLedgerService.getProductMovements(id, query);
+    return new SuccessResponse(
+      ResponseMessages.foundItems(
+        result.data.length,
+        'stock movement',
+        result.meta.totalItems,
+      ),
+      result,
+    );
+  }
+
   @Patch(':id')
   @UseGuards(UnifiedAuthGuard, RolesGuard)
   @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
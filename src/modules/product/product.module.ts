@@ -7,9 +7,16 @@ import { PrismaModule } from '../prisma/prisma.module';
 import { AuditModule } from '../audit/audit.module';
 import { StorageModule } from '../storage/storage.module';
 import { CacheModule } from '../cache/cache.module';
+import { InventoryModule } from '../inventory/inventory.module';
 
 @Module({
-  imports: [PrismaModule, AuditModule, StorageModule, CacheModule],
+  imports: [
+    PrismaModule,
+    AuditModule,
+    StorageModule,
+    CacheModule,
+    InventoryModule,
+  ],
   controllers: [ProductController],
   providers: [ProductService, BulkProductUploadService],
   exports: [ProductService, BulkProductUploadService],
@@ -5,8 +5,10 @@ import {
   ConflictException,
   Logger,
 } from '@nestjs/common';
-import { Prisma } from '@prisma/client';
+import { Prisma, StockMovementType } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { StockLedgerService } from '../inventory/stock-ledger.service';
+import { STOCK_MOVEMENT_REASONS } from '../inventory/types/inventory.types';
 import { AuditService } from '../audit/audit.service';
 import { CacheInvalidationService } from '../cache/cache-invalidation.service';
 import { CacheService } from '../cache/cache.service';
@@ -32,6 +34,7 @@ export class ProductService {
     private auditLog: AuditService,
     private cacheInvalidationService: CacheInvalidationService,
     private cacheService: CacheService,
+    private stockLedgerService: StockLedgerService,
   ) {}
 
   /**
@@ -198,6 +201,7 @@ export class ProductService {
       barcode: providedBarcode,
       images,
       thumbnail,
+      quantity,
       ...rest
     } = createProductDto;
 
@@ -289,54 +293,73 @@ export class ProductService {
     }
 
     try {
-      const product = await this.prisma.product.create({
-        data: {
-          name,
-          sku,
-          // barcode field removed from schema but generation kept for future
-          brandId,
-          subcategoryId,
-          manufacturerId,
-          variantId,
-          packSizeId,
-          packTypeId,
-          ...rest,
-          images: uploadedImageUrls,
-          thumbnail: uploadedThumbnailUrl,
-          createdBy: userId,
-          updatedBy: userId,
-        },
-        include: {
-          brand: {
-            select: {
-              id: true,
-              name: true,
-              manufacturer: { select: { name: true, id: true } },
-            },
-          },
-          variant: {
-            select: { id: true, name: true, description: true },
+      const product = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.product.create({
+          data: {
+            name,
+            sku,
+            // barcode field removed from schema but generation kept for future
+            brandId,
+            subcategoryId,
+            manufacturerId,
+            variantId,
+            packSizeId,
+            packTypeId,
+            ...rest,
+            images: uploadedImageUrls,
+            thumbnail: uploadedThumbnailUrl,
+            createdBy: userId,
+            updatedBy: userId,
           },
-          subcategory: {
-            select: {
-              id: true,
-              name: true,
-              slug: true,
-              category: {
-                select: { id: true, name: true, slug: true },
+          include: {
+            brand: {
+              select: {
+                id: true,
+                name: true,
+                manufacturer: { select: { name: true, id: true } },
               },
             },
+            variant: {
+              select: { id: true, name: true, description: true },
+            },
+            subcategory: {
+              select: {
+                id: true,
+                name: true,
+                slug: true,
+                category: {
+                  select: { id: true, name: true, slug: true },
+                },
+              },
+            },
+            manufacturer: {
+              select: { id: true, name: true },
+            },
+            packSize: {
+              select: { id: true, name: true },
+            },
+            packType: {
+              select: { id: true, name: true },
+            },
           },
-          manufacturer: {
-            select: { id: true, name: true },
-          },
-          packSize: {
-            select: { id: true, name: true },
-          },
-          packType: {
-            select: { id: true, name: true },
-          },
-        },
+        });
+
+        // Opening stock goes through the ledger
+        if (quantity > 0) {
+          await this.stockLedgerService.recordMovement(
+            {
+              productId: created.id,
+              type: StockMovementType.IN,
+              quantity,
+              reason: STOCK_MOVEMENT_REASONS.PRODUCT_CREATED,
+              reference: sku,
+              createdBy: userId,
+            },
+            tx,
+          );
+        }
+
+        return { ...created, quantity: quantity ?? 0 };
       });
 
       // Log audit
@@ -536,6 +559,7 @@ export class ProductService {
       deleteImages,
       thumbnail,
       deleteThumbnail,
+      quantity,
       ...rest
     } = updateProductDto;
 
@@ -736,48 +760,63 @@ export class ProductService {
     }
 
     try {
-      const product = await this.prisma.product.update({
-        where: { id },
-        data: {
-          ...(name && { name }),
-          ...(sku && { sku }),
-          ...(manufacturerId && { manufacturerId }),
-          ...rest,
-          images: updatedImages,
-          thumbnail: updatedThumbnail,
-          updatedBy: userId,
-        },
-        include: {
-          brand: {
-            select: {
-              id: true,
-              name: true,
-              manufacturer: { select: { name: true, id: true } },
+      const product = await this.prisma.$transaction(async (tx) => {
+        // Manual quantity changes are recorded as ledger adjustments
+        if (quantity !== undefined) {
+          await this.stockLedgerService.adjustTo(
+            id,
+            quantity,
+            {
+              reason: STOCK_MOVEMENT_REASONS.MANUAL_ADJUSTMENT,
+              createdBy: userId,
             },
+            tx,
+          );
+        }
+
+        return tx.product.update({
+          where: { id },
+          data: {
+            ...(name && { name }),
+            ...(sku && { sku }),
+            ...(manufacturerId && { manufacturerId }),
+            ...rest,
+            images: updatedImages,
+            thumbnail: updatedThumbnail,
+            updatedBy: userId,
           },
-          variant: {
-            select: { id: true, name: true, description: true },
-          },
-          subcategory: {
-            select: {
-              id: true,
-              name: true,
-              slug: true,
-              category: {
-                select: { id: true, name: true, slug: true },
+          include: {
+            brand: {
+              select: {
+                id: true,
+                name: true,
+                manufacturer: { select: { name: true, id: true } },
               },
             },
+            variant: {
+              select: { id: true, name: true, description: true },
+            },
+            subcategory: {
+              select: {
+                id: true,
+                name: true,
+                slug: true,
+                category: {
+                  select: { id: true, name: true, slug: true },
+                },
+              },
+            },
+            manufacturer: {
+              select: { id: true, name: true },
+            },
+            packSize: {
+              select: { id: true, name: true },
+            },
+            packType: {
+              select: { id: true, name: true },
+            },
           },
-          manufacturer: {
-            select: { id: true, name: true },
-          },
-          packSize: {
-            select: { id: true, name: true },
-          },
-          packType: {
-            select: { id: true, name: true },
-          },
-        },
+        });
       });
 
       // Log audit
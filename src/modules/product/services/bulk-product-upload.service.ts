@@ -1,11 +1,13 @@
 import { Injectable, BadRequestException, Logger } from '@nestjs/common';
-import { Prisma } from '@prisma/client';
+import { Prisma, StockMovementType } from '@prisma/client';
 import csvParser from 'csv-parser';
 import { Readable } from 'stream';
 import { PrismaService } from '../../prisma/prisma.service';
 import { CloudinaryService } from '../../storage/cloudinary.service';
 import { CacheInvalidationService } from '../../cache/cache-invalidation.service';
 import { AuditService } from '../../audit/audit.service';
+import { StockLedgerService } from '../../inventory/stock-ledger.service';
+import { STOCK_MOVEMENT_REASONS } from '../../inventory/types/inventory.types';
 import { StringUtils } from '../../../common/utils/helpers.utils';
 import {
   ProductUploadRowDto,
@@ -38,6 +40,7 @@ export class BulkProductUploadService {
     private cloudinaryService: CloudinaryService,
     private cacheInvalidationService: CacheInvalidationService,
     private auditService: AuditService,
+    private stockLedgerService: StockLedgerService,
   ) {}
 
   /**
@@ -336,31 +339,48 @@ export class BulkProductUploadService {
         return [];
       })();
 
-      // Create product
-      const product = await this.prisma.product.create({
-        data: {
-          name: productData.product_name,
-          description: productData.product_description,
-          sku: sku,
-          price: productData.price
-            ? new Prisma.Decimal(productData.price)
-            : null,
-          discount: productData.discount
-            ? new Prisma.Decimal(productData.discount)
-            : null,
-          quantity: productData.quantity,
-          status: 'QUEUE', // Default as specified
-          images: images,
-          thumbnail: productData.product_thumbnail,
-          brandId: brand!.id,
-          variantId: variant!.id,
-          subcategoryId: subcategory?.id,
-          manufacturerId: manufacturer!.id,
-          packSizeId: packSize!.id,
-          packTypeId: packType!.id,
-          createdBy: userId,
-          updatedBy: userId,
-        },
+      // Create product; uploaded stock is posted through the ledger
+      const product = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.product.create({
+          data: {
+            name: productData.product_name,
+            description: productData.product_description,
+            sku: sku,
+            price: productData.price
+              ? new Prisma.Decimal(productData.price)
+              : null,
+            discount: productData.discount
+              ? new Prisma.Decimal(productData.discount)
+              : null,
+            status: 'QUEUE', // Default as specified
+            images: images,
+            thumbnail: productData.product_thumbnail,
+            brandId: brand!.id,
+            variantId: variant!.id,
+            subcategoryId: subcategory?.id,
+            manufacturerId: manufacturer!.id,
+            packSizeId: packSize!.id,
+            packTypeId: packType!.id,
+            createdBy: userId,
+            updatedBy: userId,
+          },
+        });
+
+        if (productData.quantity > 0) {
+          await this.stockLedgerService.recordMovement(
+            {
+              productId: created.id,
+              type: StockMovementType.IN,
+              quantity: productData.quantity,
+              reason: STOCK_MOVEMENT_REASONS.BULK_UPLOAD,
+              reference: sku,
+              createdBy: userId,
+            },
+            tx,
+          );
+        }
+
+        return created;
       });
 
       // Update stats
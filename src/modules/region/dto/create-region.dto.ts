@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateRegionDto {
+  @ApiProperty({
+    description: 'Region name',
+    example: 'Lagos',
+    maxLength: 100,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description:
+      'Unique region code, referenced by admin region assignments (ISO 3166-2 style)',
+    example: 'NG-LA',
+    maxLength: 20,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(20)
+  @Matches(/^[A-Za-z0-9-]+$/, {
+    message: 'code may only contain letters, numbers and hyphens',
+  })
+  code: string;
+
+  @ApiProperty({
+    description: 'Country the region belongs to',
+    example: 'Nigeria',
+    maxLength: 100,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  country: string;
+
+  @ApiPropertyOptional({
+    description: 'State or province',
+    example: 'Lagos State',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  state?: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether the region is active',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,4 @@
+export * from './create-region.dto';
+export * from './update-region.dto';
+export * from './region-query.dto';
+export * from './region-response.dto';
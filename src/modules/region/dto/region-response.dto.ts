@@ -0,0 +1,50 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RegionResponseDto {
+  @ApiProperty({
+    description: 'Region unique identifier',
+    example: 'cuid_example_region_id',
+  })
+  id: string;
+
+  @ApiProperty({ description: 'Region name', example: 'Lagos' })
+  name: string;
+
+  @ApiProperty({ description: 'Region code', example: 'NG-LA' })
+  code: string;
+
+  @ApiProperty({ description: 'Country', example: 'Nigeria' })
+  country: string;
+
+  @ApiPropertyOptional({
+    description: 'State or province',
+    example: 'Lagos State',
+    nullable: true,
+  })
+  state: string | null;
+
+  @ApiProperty({ description: 'Whether the region is active', example: true })
+  isActive: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Number of linked manufacturers, wholesalers and officers',
+    example: { manufacturers: 4, wholesalers: 32, procurementOfficers: 3 },
+  })
+  _count?: {
+    manufacturers: number;
+    wholesalers: number;
+    procurementOfficers: number;
+  };
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateRegionDto } from './create-region.dto';
+
+export class UpdateRegionDto extends PartialType(CreateRegionDto) {}
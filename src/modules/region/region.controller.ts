@@ -0,0 +1,150 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { RegionService } from './region.service';
+import {
+  CreateRegionDto,
+  UpdateRegionDto,
+  RegionQueryDto,
+  RegionResponseDto,
+} from './dto';
+import { UnifiedAuthGuard } from '../../common/guards/unified-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { UserRole } from '../../common/enums';
+import { SuccessResponse } from '../../common/dto';
+import { ResponseMessages } from '../../common/utils/response-messages.util';
+
+@ApiTags('Regions')
+@Controller('regions')
+@UseGuards(UnifiedAuthGuard, RolesGuard)
+@Roles(UserRole.SUPER_ADMIN)
+@ApiBearerAuth('admin-access-token')
+export class RegionController {
+  constructor(private readonly regionService: RegionService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create region (Super Admin only)',
+    description:
+      'Create a region that manufacturers, wholesalers, procurement officers and admins can be assigned to',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Region created successfully',
+    type: RegionResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Region with this name or code already exists',
+  })
+  async create(@Body() createRegionDto: CreateRegionDto) {
+    const region = await this.regionService.create(createRegionDto);
+
+    return new SuccessResponse(
+      ResponseMessages.created('Region', region.name),
+      region,
+    );
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get all regions (Super Admin only)',
+    description: 'Retrieve regions with optional filtering and pagination',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Regions retrieved successfully',
+    type: [RegionResponseDto],
+  })
+  async findAll(@Query() query: RegionQueryDto) {
+    const result = await this.regionService.findAll(query);
+
+    return new SuccessResponse(
+      ResponseMessages.foundItems(
+        result.data.length,
+        'region',
+        result.meta.totalItems,
+      ),
+      result,
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get region by ID (Super Admin only)' })
+  @ApiParam({ name: 'id', description: 'Region ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Region retrieved successfully',
+    type: RegionResponseDto,
+  })
+  async findOne(@Param('id') id: string) {
+    const region = await this.regionService.findOne(id);
+
+    return new SuccessResponse(
+      ResponseMessages.retrieved('Region', region.name),
+      region,
+    );
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update region (Super Admin only)',
+    description:
+      'Update a region. Changing the code also updates admin region assignments',
+  })
+  @ApiParam({ name: 'id', description: 'Region ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Region updated successfully',
+    type: RegionResponseDto,
+  })
+  async update(
+    @Param('id') id: string,
+    @Body() updateRegionDto: UpdateRegionDto,
+  ) {
+    const region = await this.regionService.update(id, updateRegionDto);
+
+    return new SuccessResponse(
+      ResponseMessages.updated('Region', region.name),
+      region,
+    );
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete region (Super Admin only)',
+    description:
+      'Delete a region that has no linked manufacturers, wholesalers or procurement officers',
+  })
+  @ApiParam({ name: 'id', description: 'Region ID' })
+  @ApiResponse({ status: 200, description: 'Region deleted successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Region is still in use',
+  })
+  async remove(@Param('id') id: string) {
+    const region = await this.regionService.findOne(id);
+    await this.regionService.remove(id);
+
+    return new SuccessResponse(
+      ResponseMessages.deleted('Region', region.name),
+      null,
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { RegionService } from './region.service';
+import { RegionController } from './region.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [RegionController],
+  providers: [RegionService],
+  exports: [RegionService],
+})
+export class RegionModule {}
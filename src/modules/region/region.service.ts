@@ -0,0 +1,213 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaginatedResponse } from '../../common/dto/paginated-response.dto';
+import {
+  CreateRegionDto,
+  RegionQueryDto,
+  RegionResponseDto,
+  UpdateRegionDto,
+} from './dto';
+
+@Injectable()
+export class RegionService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  private readonly regionInclude = {
+    _count: {
+      select: {
+        manufacturers: true,
+        wholesalers: true,
+        procurementOfficers: true,
+      },
+    },
+  } satisfies Prisma.RegionInclude;
+
+  async create(createRegionDto: CreateRegionDto): Promise<RegionResponseDto> {
+    const name = createRegionDto.name.trim();
+    const code = createRegionDto.code.trim().toUpperCase();
+
+    await this.ensureUnique(name, code);
+
+    return this.prisma.region.create({
+      data: {
+        ...createRegionDto,
+        name,
+        code,
+        country: createRegionDto.country.trim(),
+        state: createRegionDto.state?.trim(),
+      },
+      include: this.regionInclude,
+    });
+  }
+
+  async findAll(
+    query: RegionQueryDto,
+  ): Promise<PaginatedResponse<RegionResponseDto>> {
+    const { page = 1, limit = 10, search, country, isActive } = query;
+
+    const where: Prisma.RegionWhereInput = {
+      ...(country && { country: { equals: country, mode: 'insensitive' } }),
+      ...(isActive !== undefined && { isActive }),
+      ...(search && {
+        OR: [
+          { name: { contains: search, mode: 'insensitive' } },
+          { code: { contains: search, mode: 'insensitive' } },
+          { state: { contains: search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const [regions, total] = await Promise.all([
+      this.prisma.region.findMany({
+        where,
+        include: this.regionInclude,
+        orderBy: { name: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.region.count({ where }),
+    ]);
+
+    return new PaginatedResponse(regions, page, limit, total);
+  }
+
+  async findOne(id: string): Promise<RegionResponseDto> {
+    const region = await this.prisma.region.findUnique({
+      where: { id },
+      include: this.regionInclude,
+    });
+
+    if (!region) {
+      throw new NotFoundException('Region not found');
+    }
+
+    return region;
+  }
+
+  async update(
+    id: string,
+    updateRegionDto: UpdateRegionDto,
+  ): Promise<RegionResponseDto> {
+    const region = await this.findOne(id);
+
+    const name = updateRegionDto.name?.trim();
+    const code = updateRegionDto.code?.trim().toUpperCase();
+
+    await this.ensureUnique(name, code, id);
+
+    return this.prisma.$transaction(async (tx) => {
+      // Admin assignments reference regions by code, so keep them in step
+      if (code && code !== region.code) {
+        await tx.$executeRaw`
+          UPDATE "admin_profiles"
+          SET "assignedRegions" = array_replace("assignedRegions", ${region.code}, ${code})
+          WHERE ${region.code} = ANY("assignedRegions")
+        `;
+      }
+
+      return tx.region.update({
+        where: { id },
+        data: {
+          ...updateRegionDto,
+          name,
+          code,
+          country: updateRegionDto.country?.trim(),
+          state: updateRegionDto.state?.trim(),
+        },
+        include: this.regionInclude,
+      });
+    });
+  }
+
+  async remove(id: string): Promise<void> {
+    const region = await this.findOne(id);
+    const { manufacturers, wholesalers, procurementOfficers } = region._count!;
+
+    if (manufacturers + wholesalers + procurementOfficers > 0) {
+      throw new BadRequestException(
+        `Cannot delete region ${region.code}. It is linked to ${manufacturers} manufacturer(s), ${wholesalers} wholesaler(s) and ${procurementOfficers} procurement officer(s). Deactivate it instead.`,
+      );
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.$executeRaw`
+        UPDATE "admin_profiles"
+        SET "assignedRegions" = array_remove("assignedRegions", ${region.code})
+        WHERE ${region.code} = ANY("assignedRegions")
+      `,
+      this.prisma.region.delete({ where: { id } }),
+    ]);
+  }
+
+  /**
+   * Resolve the regions an admin is restricted to.
+   *
+   * Returns null when the user is not region-scoped (SUPER_ADMIN, non-admins
+   * and ADMINs without assigned regions). Assignments may hold region codes
+   * or IDs; both resolve to region IDs. An ADMIN whose assignments match no
+   * region gets an empty list and therefore sees nothing.
+   */
+  async getAdminRegionIds(userId: string): Promise<string[] | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        role: true,
+        adminProfile: { select: { assignedRegions: true } },
+      },
+    });
+
+    const assignedRegions = user?.adminProfile?.assignedRegions ?? [];
+    if (user?.role !== UserRole.ADMIN || assignedRegions.length === 0) {
+      return null;
+    }
+
+    const regions = await this.prisma.region.findMany({
+      where: {
+        OR: [
+          { code: { in: assignedRegions.map((code) => code.toUpperCase()) } },
+          { id: { in: assignedRegions } },
+        ],
+      },
+      select: { id: true },
+    });
+
+    return regions.map((region) => region.id);
+  }
+
+  private async ensureUnique(
+    name?: string,
+    code?: string,
+    excludeId?: string,
+  ): Promise<void> {
+    if (!name && !code) {
+      return;
+    }
+
+    const existing = await this.prisma.region.findFirst({
+      where: {
+        OR: [
+          ...(name
+            ? [{ name: { equals: name, mode: 'insensitive' as const } }]
+            : []),
+          ...(code ? [{ code }] : []),
+        ],
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+      select: { name: true, code: true },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        existing.code === code
+          ? `Region with code "${code}" already exists`
+          : `Region "${name}" already exists`,
+      );
+    }
+  }
+}
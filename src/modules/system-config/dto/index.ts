@@ -0,0 +1,2 @@
+export * from './update-system-config.dto';
+export * from './system-config-response.dto';
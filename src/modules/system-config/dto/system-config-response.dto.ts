@@ -0,0 +1,29 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type { SystemConfigSource } from '../types/system-config.types';
+
+export class SystemConfigEntryDto {
+  @ApiProperty({ description: 'Setting key', example: 'AUTO_ASSIGN_ENABLED' })
+  key: string;
+
+  @ApiProperty({ description: 'Effective value', example: true })
+  value: unknown;
+
+  @ApiProperty({ description: 'Built-in default value', example: true })
+  defaultValue: unknown;
+
+  @ApiProperty({
+    description: 'Where the effective value comes from',
+    enum: ['database', 'environment', 'default'],
+    example: 'database',
+  })
+  source: SystemConfigSource;
+
+  @ApiProperty({ description: 'What the setting controls' })
+  description: string;
+
+  @ApiPropertyOptional({
+    description: 'When the stored value was last changed',
+    nullable: true,
+  })
+  updatedAt: Date | null;
+}
@@ -0,0 +1,71 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsInt, IsNumber, IsOptional } from 'class-validator';
+
+/**
+ * Partial update of runtime settings. Ranges are enforced by the
+ * SystemConfig key schemas so they stay in one place.
+ */
+export class UpdateSystemConfigDto {
+  @ApiPropertyOptional({
+    description: 'Assign paid orders to procurement officers automatically',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  AUTO_ASSIGN_ENABLED?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Offer an order to the next eligible officer after a rejection or expiry',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  AUTO_REASSIGN_AFTER_REJECTION?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Minimum units per order line item',
+    example: 10,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  MIN_ORDER_ITEM_QUANTITY?: number;
+
+  @ApiPropertyOptional({
+    description: 'Minutes a payment invoice stays open',
+    example: 1440,
+    minimum: 15,
+  })
+  @IsOptional()
+  @IsInt()
+  PAYMENT_EXPIRY_MINUTES?: number;
+
+  @ApiPropertyOptional({
+    description: 'Default cache lifetime in seconds for cached endpoints',
+    example: 300,
+    minimum: 10,
+  })
+  @IsOptional()
+  @IsInt()
+  CACHE_DEFAULT_TTL_SECONDS?: number;
+
+  @ApiPropertyOptional({
+    description: 'VAT rate in percent included in order prices',
+    example: 7.5,
+    minimum: 0,
+    maximum: 100,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  VAT_RATE_PERCENT?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Require two-factor authentication for all admin logins. SUPER_ADMIN only',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  ADMIN_TWO_FACTOR_REQUIRED?: boolean;
+}
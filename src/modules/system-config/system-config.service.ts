@@ -0,0 +1,217 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AdminAction,
+  Prisma,
+  ResourceType,
+  SystemConfig,
+} from '@prisma/client';
+import type { Request } from 'express';
+import * as Joi from 'joi';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheService } from '../cache/cache.service';
+import { SystemConfigEntryDto, UpdateSystemConfigDto } from './dto';
+import {
+  SYSTEM_CONFIG_CACHE_PREFIX,
+  SYSTEM_CONFIG_CACHE_TTL_SECONDS,
+  SYSTEM_CONFIG_DEFINITIONS,
+  SYSTEM_CONFIG_KEYS,
+  SystemConfigKey,
+  SystemConfigValues,
+} from './types/system-config.types';
+
+/**
+ * Runtime settings stored in the SystemConfig table.
+ *
+ * Each key has a schema and a default; until an admin stores a value the
+ * matching environment variable (if any) applies. Reads go through Redis so
+ * hot paths such as order creation do not hit the database.
+ */
+@Injectable()
+export class SystemConfigService {
+  private readonly logger = new Logger(SystemConfigService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Effective value of a setting
+   */
+  async get<K extends SystemConfigKey>(key: K): Promise<SystemConfigValues[K]> {
+    const cacheKey = SYSTEM_CONFIG_CACHE_PREFIX + key;
+    const cached = await this.cacheService.get<{
+      value: SystemConfigValues[K];
+    }>(cacheKey);
+    if (cached) {
+      return cached.value;
+    }
+
+    const stored = await this.prisma.systemConfig.findUnique({
+      where: { key },
+    });
+    const { value } = this.toEntry(key, stored);
+
+    try {
+      await this.cacheService.set(
+        cacheKey,
+        { value },
+        { ex: SYSTEM_CONFIG_CACHE_TTL_SECONDS },
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to cache system config ${key}: ${error.message}`,
+      );
+    }
+
+    return value as SystemConfigValues[K];
+  }
+
+  /**
+   * All known settings with their effective value and where it comes from
+   */
+  async getAll(): Promise<SystemConfigEntryDto[]> {
+    const stored = await this.prisma.systemConfig.findMany({
+      where: { key: { in: SYSTEM_CONFIG_KEYS } },
+    });
+
+    return SYSTEM_CONFIG_KEYS.map((key) =>
+      this.toEntry(
+        key,
+        stored.find((config) => config.key === key),
+      ),
+    );
+  }
+
+  /**
+   * Store new values and record each change in the admin audit log
+   */
+  async update(
+    updateDto: UpdateSystemConfigDto,
+    adminId: string,
+    request?: Request,
+  ): Promise<SystemConfigEntryDto[]> {
+    const updates = (
+      Object.entries(updateDto) as [SystemConfigKey, unknown][]
+    ).filter(([, value]) => value !== undefined);
+
+    if (updates.length === 0) {
+      throw new BadRequestException('No system config values provided');
+    }
+
+    const validated = updates.map(
+      ([key, value]) => [key, this.validate(key, value)] as const,
+    );
+
+    const current = await this.getAll();
+    const changed = validated.filter(([key, value]) => {
+      const entry = current.find((item) => item.key === key)!;
+      return entry.source !== 'database' || entry.value !== value;
+    });
+
+    if (changed.length > 0) {
+      await this.prisma.$transaction(async (tx) => {
+        for (const [key, value] of changed) {
+          const previous = current.find((item) => item.key === key)!;
+
+          await tx.systemConfig.upsert({
+            where: { key },
+            create: { key, value },
+            update: { value },
+          });
+
+          await tx.adminAuditLog.create({
+            data: {
+              adminId,
+              action: AdminAction.SYSTEM_CONFIG,
+              resource: ResourceType.SYSTEM_CONFIG,
+              resourceId: key,
+              oldData: {
+                value: previous.value as Prisma.InputJsonValue,
+                source: previous.source,
+              },
+              newData: { value },
+              ipAddress: request?.ip || null,
+              userAgent: request?.get('User-Agent') || null,
+            },
+          });
+        }
+      });
+
+      await this.cacheService.del(
+        changed.map(([key]) => SYSTEM_CONFIG_CACHE_PREFIX + key),
+      );
+
+      this.logger.log(
+        `System config updated by ${adminId}: ${changed
+          .map(([key, value]) => `${key}=${value}`)
+          .join(', ')}`,
+      );
+    }
+
+    return this.getAll();
+  }
+
+  private validate<K extends SystemConfigKey>(
+    key: K,
+    value: unknown,
+  ): SystemConfigValues[K] {
+    const { error, value: result } = this.check(key, value, false);
+
+    if (error) {
+      throw new BadRequestException(`Invalid ${key}: ${error.message}`);
+    }
+
+    return result as SystemConfigValues[K];
+  }
+
+  private check(
+    key: SystemConfigKey,
+    value: unknown,
+    convert: boolean,
+  ): { error?: Joi.ValidationError; value: unknown } {
+    const schema: Joi.Schema<unknown> = SYSTEM_CONFIG_DEFINITIONS[key].schema;
+    const result = schema.validate(value, { convert });
+    return { error: result.error, value: result.value as unknown };
+  }
+
+  private toEntry(
+    key: SystemConfigKey,
+    stored?: SystemConfig | null,
+  ): SystemConfigEntryDto {
+    const definition = SYSTEM_CONFIG_DEFINITIONS[key];
+    const entry = {
+      key,
+      defaultValue: definition.defaultValue,
+      description: definition.description,
+      updatedAt: stored?.updatedAt ?? null,
+    };
+
+    if (stored) {
+      const { error, value } = this.check(key, stored.value, false);
+      if (!error) {
+        return { ...entry, value, source: 'database' };
+      }
+      this.logger.warn(
+        `Ignoring invalid stored value for ${key}: ${error.message}`,
+      );
+    }
+
+    const envValue = definition.envKey
+      ? this.configService.get<string>(definition.envKey)
+      : undefined;
+    if (envValue !== undefined && envValue !== '') {
+      const { error, value } = this.check(key, envValue, true);
+      if (!error) {
+        return { ...entry, value, source: 'environment' };
+      }
+      this.logger.warn(
+        `Ignoring invalid ${definition.envKey} environment value: ${error.message}`,
+      );
+    }
+
+    return { ...entry, value: definition.defaultValue, source: 'default' };
+  }
+}
@@ -0,0 +1,87 @@
+import * as Joi from 'joi';
+
+// Prefix for cached SystemConfig values in Redis
+export const SYSTEM_CONFIG_CACHE_PREFIX = 'system-config:';
+export const SYSTEM_CONFIG_CACHE_TTL_SECONDS = 300;
+
+export interface SystemConfigValues {
+  AUTO_ASSIGN_ENABLED: boolean;
+  AUTO_REASSIGN_AFTER_REJECTION: boolean;
+  MIN_ORDER_ITEM_QUANTITY: number;
+  PAYMENT_EXPIRY_MINUTES: number;
+  CACHE_DEFAULT_TTL_SECONDS: number;
+  VAT_RATE_PERCENT: number;
+  ADMIN_TWO_FACTOR_REQUIRED: boolean;
+}
+
+export type SystemConfigKey = keyof SystemConfigValues;
+
+export type SystemConfigSource = 'database' | 'environment' | 'default';
+
+export interface SystemConfigDefinition<T> {
+  description: string;
+  schema: Joi.Schema<T>;
+  defaultValue: T;
+  // Environment variable used until an admin stores a value
+  envKey?: string;
+}
+
+export const SYSTEM_CONFIG_DEFINITIONS: {
+  [K in SystemConfigKey]: SystemConfigDefinition<SystemConfigValues[K]>;
+} = {
+  AUTO_ASSIGN_ENABLED: {
+    description:
+      'Assign paid orders to procurement officers automatically instead of waiting for an admin',
+    schema: Joi.boolean(),
+    defaultValue: true,
+    envKey: 'AUTO_ASSIGN_ENABLED',
+  },
+  AUTO_REASSIGN_AFTER_REJECTION: {
+    description:
+      'Offer an order to the next eligible officer when an assignment is rejected or expires',
+    schema: Joi.boolean(),
+    defaultValue: true,
+    envKey: 'AUTO_REASSIGN_AFTER_REJECTION',
+  },
+  MIN_ORDER_ITEM_QUANTITY: {
+    description: 'Minimum units that can be ordered per line item',
+    schema: Joi.number().integer().min(1).max(10000),
+    defaultValue: 10,
+  },
+  PAYMENT_EXPIRY_MINUTES: {
+    description: 'How long a payment invoice stays open before it expires',
+    schema: Joi.number()
+      .integer()
+      .min(15)
+      .max(7 * 24 * 60),
+    defaultValue: 24 * 60,
+    envKey: 'PAYMENT_EXPIRY_MINUTES',
+  },
+  CACHE_DEFAULT_TTL_SECONDS: {
+    description:
+      'Cache lifetime for cached endpoints that do not set their own TTL',
+    schema: Joi.number()
+      .integer()
+      .min(10)
+      .max(24 * 60 * 60),
+    defaultValue: 300,
+    envKey: 'CACHE_DEFAULT_TTL_SECONDS',
+  },
+  VAT_RATE_PERCENT: {
+    description:
+      'VAT rate included in order prices, shown on invoices and receipts. Issued receipts keep the rate they were issued at',
+    schema: Joi.number().min(0).max(100),
+    defaultValue: 7.5,
+    envKey: 'VAT_RATE_PERCENT',
+  },
+  ADMIN_TWO_FACTOR_REQUIRED: {
+    description:
+      'Require two-factor authentication for every ADMIN and SUPER_ADMIN login. Admins who have not enrolled are walked through it at their next login. Only a SUPER_ADMIN can change this',
+    schema: Joi.boolean(),
+    defaultValue: false,
+  },
+};
+
+export const SYSTEM_CONFIG_KEYS = Object.keys(
+  SYSTEM_CONFIG_DEFINITIONS,
+) as SystemConfigKey[];
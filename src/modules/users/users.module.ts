@@ -6,9 +6,10 @@ import { PrismaModule } from '../prisma/prisma.module';
 import { StorageModule } from '../storage/storage.module';
 import { AuditModule } from '../audit/audit.module';
 import { EmailModule } from '../email/email.module';
+import { RegionModule } from '../region/region.module';
 
 @Module({
-  imports: [StorageModule, AuditModule, EmailModule],
+  imports: [StorageModule, AuditModule, EmailModule, RegionModule],
   controllers: [UsersController],
   providers: [UsersService],
   exports: [UsersService],
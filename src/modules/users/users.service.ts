@@ -11,7 +11,10 @@ import { PrismaService } from '../prisma/prisma.service';
 import { generatePasswordResetToken } from '../../common/utils/token.util';
 import { AuditService } from '../audit/audit.service';
 import { EmailService } from '../email/services/email.service';
+import { EmailEvent } from '../email/types/email.types';
+import { DomainEventsService } from '../events/domain-events.service';
 import { CacheService } from '../cache/cache.service';
+import { RegionService } from '../region/region.service';
 import { ConfigService } from '@nestjs/config';
 import { PaginationDto, PaginatedResponse } from '../../common/dto';
 import {
@@ -41,6 +44,8 @@ export class UsersService {
     private emailService: EmailService,
     private configService: ConfigService,
     private cacheService: CacheService,
+    private regionService: RegionService,
+    private domainEventsService: DomainEventsService,
   ) {}
 
   // ================================
@@ -101,6 +106,21 @@ export class UsersService {
     }
     if (status) where.status = status;
 
+    // Region-scoped ADMINs only see wholesalers and officers in their regions
+    const regionIds = currentUserId
+      ? await this.regionService.getAdminRegionIds(currentUserId)
+      : null;
+    if (regionIds) {
+      where.AND = [
+        {
+          OR: [
+            { wholesalerProfile: { regionId: { in: regionIds } } },
+            { procurementOfficerProfile: { regionId: { in: regionIds } } },
+          ],
+        },
+      ];
+    }
+
     // Apply search
     if (search) {
       where.OR = [
@@ -269,41 +289,42 @@ export class UsersService {
       };
     }
 
-    const user = await this.prisma.user.create({
-      data: userData,
-      include: { profile: true, adminProfile: true },
-    });
-
     // Generate password reset token
-    const { token: resetToken, expiresAt } = generatePasswordResetToken(72); // 72 hours validity for initial password setup
+    const setupExpiresInHours = 72; // 72 hours validity for initial password setup
+    const { token: resetToken, expiresAt } =
+      generatePasswordResetToken(setupExpiresInHours);
+
+    const user = await this.prisma.$transaction(async (tx) => {
+      const createdUser = await tx.user.create({
+        data: userData,
+        include: { profile: true, adminProfile: true },
+      });
 
-    // Store password reset token
-    await this.prisma.passwordReset.create({
-      data: {
-        email: user.email,
-        token: resetToken,
-        expiresAt,
-      },
+      // Store password reset token
+      await tx.passwordReset.create({
+        data: {
+          email: createdUser.email,
+          token: resetToken,
+          expiresAt,
+        },
+      });
+
+      return createdUser;
     });
 
     // Generate reset URL
     const resetUrl = `${this.configService.get('email.baseUrl')}/reset-password?token=${resetToken}`;
 
-    // Send password setup email
-    try {
-      await this.emailService.sendTemplateEmail({
-        to: user.email,
-        templateAlias: 'password-reset',
-        variables: {
-          firstName: user.firstName || 'User',
-          resetUrl,
-          platformName: 'JOOAV ERP',
-        },
-      });
-    } catch (error) {
-      // Log email error but don't fail user creation
-      console.error('Failed to send password setup email:', error);
-    }
+    // Send welcome and password setup emails
+    const userEventData = this.domainEventsService.toUserEventData(user);
+    this.domainEventsService.publish(EmailEvent.USER_REGISTERED, {
+      user: userEventData,
+    });
+    this.domainEventsService.publish(EmailEvent.PASSWORD_RESET, {
+      user: userEventData,
+      resetToken,
+      expiresInHours: setupExpiresInHours,
+    });
 
     // Log user creation
     await this.auditService.logUserAction(
@@ -0,0 +1,89 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { LedgerDirection, WalletTransactionType } from '@prisma/client';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+
+export class WalletTransactionQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    enum: WalletTransactionType,
+    description: 'Filter by transaction type (case-insensitive)',
+    example: 'deposit',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      return value.toUpperCase();
+    }
+    return value;
+  })
+  @IsEnum(WalletTransactionType)
+  type?: WalletTransactionType;
+}
+
+export class WalletResponseDto {
+  @ApiProperty({ description: 'Wallet ID' })
+  id: string;
+
+  @ApiProperty({ example: 125000 })
+  balance: number;
+
+  @ApiProperty({
+    description: 'Reference the reserved accounts are registered under',
+    example: 'WAL-wholesaler_uuid',
+  })
+  accountReference: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Bank accounts that fund the wallet; null until the gateway has reserved them',
+    nullable: true,
+  })
+  reservedAccounts: unknown;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class WalletTransactionResponseDto {
+  @ApiProperty({ description: 'Wallet transaction ID' })
+  id: string;
+
+  @ApiProperty({
+    enum: WalletTransactionType,
+    example: WalletTransactionType.DEPOSIT,
+  })
+  type: WalletTransactionType;
+
+  @ApiProperty({
+    enum: LedgerDirection,
+    description: 'CREDIT adds to the balance, DEBIT takes from it',
+    example: LedgerDirection.CREDIT,
+  })
+  direction: LedgerDirection;
+
+  @ApiProperty({ example: 50000 })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Balance after this transaction',
+    example: 125000,
+  })
+  balanceAfter: number;
+
+  @ApiProperty({ example: 'deposit:MNFY|20260101|000001' })
+  reference: string;
+
+  @ApiProperty({ example: 'Transfer to reserved account' })
+  description: string;
+
+  @ApiPropertyOptional({
+    description: 'Order the transaction relates to',
+    example: 'JOO-1234567890',
+    nullable: true,
+  })
+  orderNumber: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
@@ -0,0 +1,5 @@
+export * from './wallet.service';
+export * from './wallet.controller';
+export * from './wallet.module';
+export * from './types/wallet.types';
+export * from './dto/wallet.dto';
@@ -0,0 +1,23 @@
+import { LedgerAccount, Prisma, WalletTransactionType } from '@prisma/client';
+
+// Reserved account references for wallets start with this, followed by the
+// wholesaler profile ID
+export const WALLET_ACCOUNT_REFERENCE_PREFIX = 'WAL-';
+
+// Product type on transfers into a reserved account, as opposed to INVOICE
+export const RESERVED_ACCOUNT_PRODUCT_TYPE = 'RESERVED_ACCOUNT';
+
+/**
+ * One movement on a wallet. The wallet side is implied by credit() or
+ * debit(); the other side of the double entry goes to counterAccount.
+ */
+export interface WalletPosting {
+  type: WalletTransactionType;
+  amount: Prisma.Decimal;
+  counterAccount: LedgerAccount;
+  reference: string; // Idempotency key; a repeated reference is not posted again
+  description: string;
+  orderId?: string;
+  paymentId?: string;
+  refundId?: string;
+}
@@ -0,0 +1,78 @@
+import { Controller, Get, HttpStatus, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { WalletService } from './wallet.service';
+import {
+  WalletResponseDto,
+  WalletTransactionQueryDto,
+  WalletTransactionResponseDto,
+} from './dto/wallet.dto';
+import { SuccessResponse } from '../../common/dto/api-response.dto';
+import { PaginatedResponse } from '../../common/dto/paginated-response.dto';
+import { CurrentUserId } from '../../common/decorators/current-user.decorator';
+import { UnifiedAuthGuard } from '../../common/guards/unified-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+
+@ApiTags('Wallet')
+@Controller('wallet')
+@UseGuards(UnifiedAuthGuard, RolesGuard)
+@Roles(UserRole.WHOLESALER)
+@ApiBearerAuth('access-token')
+export class WalletController {
+  constructor(private readonly walletService: WalletService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get my wallet',
+    description:
+      'Balance and the reserved bank accounts that fund the wallet. Accounts are reserved on first request',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Wallet retrieved successfully',
+    type: WalletResponseDto,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Wholesaler access required' })
+  async getWallet(
+    @CurrentUserId() userId: string,
+  ): Promise<SuccessResponse<WalletResponseDto>> {
+    const wallet = await this.walletService.getWallet(userId);
+    return new SuccessResponse('Wallet retrieved successfully', wallet);
+  }
+
+  @Get('transactions')
+  @ApiOperation({
+    summary: 'List my wallet transactions',
+    description:
+      'Deposits, refunds, overpayments and order payments, newest first',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Wallet transactions retrieved successfully',
+    type: [WalletTransactionResponseDto],
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Wholesaler access required' })
+  async findTransactions(
+    @CurrentUserId() userId: string,
+    @Query() query: WalletTransactionQueryDto,
+  ): Promise<SuccessResponse<PaginatedResponse<WalletTransactionResponseDto>>> {
+    const transactions = await this.walletService.findTransactions(
+      userId,
+      query,
+    );
+    return new SuccessResponse(
+      'Wallet transactions retrieved successfully',
+      transactions,
+    );
+  }
+}
@@ -0,0 +1,402 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  LedgerAccount,
+  LedgerDirection,
+  Prisma,
+  UserRole,
+  Wallet,
+  WalletTransaction,
+  WalletTransactionType,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaginatedResponse } from '../../common/dto/paginated-response.dto';
+import {
+  MonnifyWebhookData,
+  PAYMENT_GATEWAY,
+} from '../payment/interfaces/payment-gateway.interface';
+import type { PaymentGateway } from '../payment/interfaces/payment-gateway.interface';
+import {
+  WalletResponseDto,
+  WalletTransactionQueryDto,
+  WalletTransactionResponseDto,
+} from './dto/wallet.dto';
+import {
+  WALLET_ACCOUNT_REFERENCE_PREFIX,
+  WalletPosting,
+} from './types/wallet.types';
+
+type WalletTransactionWithOrder = WalletTransaction & {
+  order: { orderNumber: string } | null;
+};
+
+/**
+ * Wholesaler wallets.
+ *
+ * Each wallet has bank accounts reserved at the payment gateway; transfers
+ * into them are deposits. Refunds and overpayments are credited here, and
+ * orders can be paid from the balance. Every movement is a wallet
+ * transaction with a balanced pair of ledger entries, and the cached
+ * balance is updated under a row lock in the same database transaction.
+ */
+@Injectable()
+export class WalletService {
+  private readonly logger = new Logger(WalletService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    @Inject(PAYMENT_GATEWAY)
+    private readonly paymentGateway: PaymentGateway,
+  ) {}
+
+  /**
+   * A wholesaler's wallet, reserving its bank accounts on first use
+   * @param wholesalerUserId - The wholesaler's user ID
+   */
+  async getWallet(wholesalerUserId: string): Promise<WalletResponseDto> {
+    const user = await this.findWholesalerUser(wholesalerUserId);
+    let wallet = await this.ensureWallet(wholesalerUserId);
+
+    if (!wallet.reservedAccounts) {
+      const customerName = `${user.firstName} ${user.lastName}`;
+
+      try {
+        const reservation = await this.paymentGateway.createReservedAccount({
+          accountReference: wallet.accountReference,
+          accountName: customerName,
+          customerName,
+          customerEmail: user.email,
+          currencyCode: 'NGN',
+        });
+
+        wallet = await this.prismaService.wallet.update({
+          where: { id: wallet.id },
+          data: {
+            reservedAccounts: reservation.responseBody.accounts.map(
+              (account) => ({
+                accountNumber: account.accountNumber,
+                accountName: account.accountName,
+                bankCode: account.bankCode,
+                bankName: account.bankName,
+              }),
+            ),
+          },
+        });
+      } catch (error) {
+        // The balance is still usable; reservation is retried on the next read
+        this.logger.warn(
+          `Failed to reserve accounts for wallet ${wallet.accountReference}: ${error.message}`,
+        );
+      }
+    }
+
+    return this.toWalletResponse(wallet);
+  }
+
+  async findTransactions(
+    wholesalerUserId: string,
+    query: WalletTransactionQueryDto,
+  ): Promise<PaginatedResponse<WalletTransactionResponseDto>> {
+    const { page = 1, limit = 10, type } = query;
+
+    await this.findWholesalerUser(wholesalerUserId);
+
+    const where: Prisma.WalletTransactionWhereInput = {
+      wallet: { wholesaler: { userId: wholesalerUserId } },
+      ...(type && { type }),
+    };
+
+    const [transactions, total] = await Promise.all([
+      this.prismaService.walletTransaction.findMany({
+        where,
+        include: { order: { select: { orderNumber: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prismaService.walletTransaction.count({ where }),
+    ]);
+
+    return new PaginatedResponse(
+      transactions.map((transaction) =>
+        this.toTransactionResponse(transaction),
+      ),
+      page,
+      limit,
+      total,
+    );
+  }
+
+  /**
+   * Spendable balance; 0 for a wholesaler without a wallet
+   * @param wholesalerUserId - The wholesaler's user ID
+   */
+  async getBalance(
+    wholesalerUserId: string,
+    db: Prisma.TransactionClient = this.prismaService,
+  ): Promise<Prisma.Decimal> {
+    const wallet = await db.wallet.findFirst({
+      where: { wholesaler: { userId: wholesalerUserId } },
+      select: { balance: true },
+    });
+
+    return wallet?.balance ?? new Prisma.Decimal(0);
+  }
+
+  /**
+   * Add money to a wholesaler's wallet. Call inside the transaction that
+   * records where the money came from.
+   * @returns The wallet transaction, or the earlier one if the reference was already posted
+   */
+  async credit(
+    tx: Prisma.TransactionClient,
+    wholesalerUserId: string,
+    posting: WalletPosting,
+  ): Promise<WalletTransaction> {
+    const wallet = await this.lockWallet(tx, wholesalerUserId);
+    return this.post(tx, wallet, LedgerDirection.CREDIT, posting);
+  }
+
+  /**
+   * Take money from a wholesaler's wallet. Call inside the transaction that
+   * records what it pays for.
+   * @throws BadRequestException if the balance does not cover the amount
+   */
+  async debit(
+    tx: Prisma.TransactionClient,
+    wholesalerUserId: string,
+    posting: WalletPosting,
+  ): Promise<WalletTransaction> {
+    const wallet = await this.lockWallet(tx, wholesalerUserId);
+    return this.post(tx, wallet, LedgerDirection.DEBIT, posting);
+  }
+
+  /**
+   * Credit a transfer into a wallet's reserved account
+   */
+  async handleDeposit(eventData: MonnifyWebhookData) {
+    const accountReference = eventData.product?.reference;
+    const wallet = accountReference
+      ? await this.prismaService.wallet.findUnique({
+          where: { accountReference },
+        })
+      : null;
+
+    if (!wallet) {
+      this.logger.warn(
+        `Wallet not found for reserved account: ${accountReference} (transaction: ${eventData.transactionReference})`,
+      );
+      return { success: false, message: 'Wallet not found' };
+    }
+
+    const reference = `deposit:${eventData.transactionReference}`;
+    const amount = new Prisma.Decimal(eventData.amountPaid || 0);
+
+    const result = await this.prismaService.$transaction(async (tx) => {
+      // Lock the wallet row so a resent webhook waits and then sees it posted
+      const locked = await tx.wallet.update({
+        where: { id: wallet.id },
+        data: { updatedAt: new Date() },
+      });
+
+      const existing = await tx.walletTransaction.findUnique({
+        where: { reference },
+      });
+      if (existing) {
+        return { posted: false as const, transaction: existing };
+      }
+
+      const transaction = await this.post(tx, locked, LedgerDirection.CREDIT, {
+        type: WalletTransactionType.DEPOSIT,
+        amount,
+        counterAccount: LedgerAccount.GATEWAY_CLEARING,
+        reference,
+        description: 'Transfer to reserved account',
+      });
+
+      return { posted: true as const, transaction };
+    });
+
+    if (!result.posted) {
+      return {
+        success: true,
+        message: 'Wallet deposit already processed',
+        processed: false,
+      };
+    }
+
+    this.logger.log(
+      `Deposit of ${amount.toFixed(2)} credited to wallet ${wallet.accountReference}; balance ${result.transaction.balanceAfter.toFixed(2)}`,
+    );
+
+    return {
+      success: true,
+      message: 'Wallet deposit processed successfully',
+      data: {
+        accountReference: wallet.accountReference,
+        amount: Number(amount),
+        transactionReference: eventData.transactionReference,
+      },
+    };
+  }
+
+  /**
+   * Write a wallet transaction and its ledger entries, and move the cached
+   * balance. The wallet row must already be locked.
+   */
+  private async post(
+    tx: Prisma.TransactionClient,
+    wallet: Wallet,
+    direction: LedgerDirection,
+    posting: WalletPosting,
+  ): Promise<WalletTransaction> {
+    if (posting.amount.lte(0)) {
+      throw new BadRequestException('Wallet amounts must be positive');
+    }
+
+    const existing = await tx.walletTransaction.findUnique({
+      where: { reference: posting.reference },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const balanceAfter =
+      direction === LedgerDirection.CREDIT
+        ? wallet.balance.plus(posting.amount)
+        : wallet.balance.minus(posting.amount);
+
+    if (balanceAfter.lt(0)) {
+      throw new BadRequestException(
+        `Insufficient wallet balance: ${wallet.balance.toFixed(2)} available, ${posting.amount.toFixed(2)} required`,
+      );
+    }
+
+    await tx.wallet.update({
+      where: { id: wallet.id },
+      data: { balance: balanceAfter },
+    });
+
+    const counterDirection =
+      direction === LedgerDirection.CREDIT
+        ? LedgerDirection.DEBIT
+        : LedgerDirection.CREDIT;
+
+    return tx.walletTransaction.create({
+      data: {
+        walletId: wallet.id,
+        type: posting.type,
+        direction,
+        amount: posting.amount,
+        balanceAfter,
+        reference: posting.reference,
+        description: posting.description,
+        orderId: posting.orderId,
+        paymentId: posting.paymentId,
+        refundId: posting.refundId,
+        ledgerEntries: {
+          create: [
+            {
+              account: LedgerAccount.WALLET,
+              walletId: wallet.id,
+              direction,
+              amount: posting.amount,
+            },
+            {
+              account: posting.counterAccount,
+              direction: counterDirection,
+              amount: posting.amount,
+            },
+          ],
+        },
+      },
+    });
+  }
+
+  /**
+   * Create the wallet if needed and lock its row for the rest of the
+   * transaction
+   */
+  private async lockWallet(
+    tx: Prisma.TransactionClient,
+    wholesalerUserId: string,
+  ): Promise<Wallet> {
+    const wallet = await this.ensureWallet(wholesalerUserId, tx);
+
+    return tx.wallet.update({
+      where: { id: wallet.id },
+      data: { updatedAt: new Date() },
+    });
+  }
+
+  private async ensureWallet(
+    wholesalerUserId: string,
+    db: Prisma.TransactionClient = this.prismaService,
+  ): Promise<Wallet> {
+    const wholesaler = await db.wholesaler.upsert({
+      where: { userId: wholesalerUserId },
+      create: { userId: wholesalerUserId },
+      update: {},
+      select: { id: true },
+    });
+
+    return db.wallet.upsert({
+      where: { wholesalerId: wholesaler.id },
+      create: {
+        wholesalerId: wholesaler.id,
+        accountReference: `${WALLET_ACCOUNT_REFERENCE_PREFIX}${wholesaler.id}`,
+      },
+      update: {},
+    });
+  }
+
+  private async findWholesalerUser(userId: string) {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        role: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+      },
+    });
+
+    if (!user || user.role !== UserRole.WHOLESALER) {
+      throw new NotFoundException('Wholesaler not found');
+    }
+
+    return user;
+  }
+
+  private toWalletResponse(wallet: Wallet): WalletResponseDto {
+    return {
+      id: wallet.id,
+      balance: Number(wallet.balance),
+      accountReference: wallet.accountReference,
+      reservedAccounts: wallet.reservedAccounts,
+      updatedAt: wallet.updatedAt,
+    };
+  }
+
+  private toTransactionResponse(
+    transaction: WalletTransactionWithOrder,
+  ): WalletTransactionResponseDto {
+    return {
+      id: transaction.id,
+      type: transaction.type,
+      direction: transaction.direction,
+      amount: Number(transaction.amount),
+      balanceAfter: Number(transaction.balanceAfter),
+      reference: transaction.reference,
+      description: transaction.description,
+      orderNumber: transaction.order?.orderNumber ?? null,
+      createdAt: transaction.createdAt,
+    };
+  }
+}
@@ -0,0 +1,421 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import * as argon2 from 'argon2';
+import { ProductStatus, UserRole } from '@prisma/client';
+import { AppModule } from './../src/app.module';
+import { PrismaService } from './../src/modules/prisma/prisma.service';
+import { MockPaymentGateway } from './../src/modules/payment/mock-payment.gateway';
+
+// Needs the test database and Redis; payments go through the mock gateway
+process.env.PAYMENT_GATEWAY = 'mock';
+
+const RUN_ID = Date.now().toString();
+const PASSWORD = 'Password123!';
+
+interface OrderDetails {
+  orderNumber: string;
+  status: string;
+  paymentSummary: {
+    amountPaid: number;
+    outstandingAmount: number;
+    overpaidAmount: number;
+  };
+}
+
+const dataOf = <T>(response: request.Response): T =>
+  (response.body as { data: T }).data;
+
+describe('Order payment flow (e2e)', () => {
+  let app: INestApplication<App>;
+  let prisma: PrismaService;
+  let gateway: MockPaymentGateway;
+  let accessToken: string;
+  let adminToken: string;
+  let productId: string;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transformOptions: { enableImplicitConversion: false },
+      }),
+    );
+    await app.init();
+
+    prisma = app.get(PrismaService);
+    gateway = app.get(MockPaymentGateway);
+
+    const password = await argon2.hash(PASSWORD);
+
+    const wholesaler = await prisma.user.create({
+      data: {
+        email: `wholesaler-${RUN_ID}@e2e.test`,
+        password,
+        firstName: 'E2E',
+        lastName: 'Wholesaler',
+        role: UserRole.WHOLESALER,
+        emailVerified: true,
+        profile: { create: {} },
+        wholesalerProfile: { create: {} },
+      },
+    });
+
+    await prisma.user.create({
+      data: {
+        email: `officer-${RUN_ID}@e2e.test`,
+        password,
+        firstName: 'E2E',
+        lastName: 'Officer',
+        role: UserRole.PROCUREMENT_OFFICER,
+        procurementOfficerProfile: {
+          create: { employeeId: `E2E-${RUN_ID}` },
+        },
+      },
+    });
+
+    const admin = await prisma.user.create({
+      data: {
+        email: `admin-${RUN_ID}@e2e.test`,
+        password,
+        firstName: 'E2E',
+        lastName: 'Admin',
+        role: UserRole.ADMIN,
+        emailVerified: true,
+        adminProfile: { create: {} },
+      },
+    });
+
+    const audit = { createdBy: wholesaler.id, updatedBy: wholesaler.id };
+    const manufacturer = await prisma.manufacturer.create({
+      data: { name: `E2E Manufacturer ${RUN_ID}`, ...audit },
+    });
+    const brand = await prisma.brand.create({
+      data: {
+        name: `E2E Brand ${RUN_ID}`,
+        manufacturerId: manufacturer.id,
+        ...audit,
+      },
+    });
+    const variant = await prisma.variant.create({
+      data: { name: 'Original', brandId: brand.id, ...audit },
+    });
+    const packSize = await prisma.packSize.create({
+      data: { name: '500g', variantId: variant.id, ...audit },
+    });
+    const packType = await prisma.packType.create({
+      data: { name: 'Carton', variantId: variant.id, ...audit },
+    });
+    const product = await prisma.product.create({
+      data: {
+        name: `E2E Product ${RUN_ID}`,
+        sku: `E2E-${RUN_ID}`,
+        manufacturerId: manufacturer.id,
+        brandId: brand.id,
+        variantId: variant.id,
+        packSizeId: packSize.id,
+        packTypeId: packType.id,
+        price: 1500,
+        quantity: 1000,
+        status: ProductStatus.LIVE,
+        ...audit,
+      },
+    });
+    productId = product.id;
+
+    const login = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: wholesaler.email, password: PASSWORD })
+      .expect(200);
+    accessToken = dataOf<{ accessToken: string }>(login).accessToken;
+
+    const adminLogin = await request(app.getHttpServer())
+      .post('/admin/auth/login')
+      .send({ email: admin.email, password: PASSWORD })
+      .expect(200);
+    adminToken = dataOf<{ accessToken: string }>(adminLogin).accessToken;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const getOrder = async (orderNumber: string): Promise<OrderDetails> => {
+    const response = await request(app.getHttpServer())
+      .get(`/orders/${orderNumber}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+    return dataOf<OrderDetails>(response);
+  };
+
+  // Create a draft and initiate payment; returns the new JOO- order number,
+  // which is also the invoice reference at the gateway
+  const placeOrder = async (): Promise<string> => {
+    const draft = await request(app.getHttpServer())
+      .post('/orders')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        items: [{ productId, quantity: 10 }],
+        deliveryAddress: '1 Test Street, Lagos',
+      })
+      .expect(201);
+    const { orderNumber: draftNumber } = dataOf<{ orderNumber: string }>(draft);
+
+    const payment = await request(app.getHttpServer())
+      .post(`/orders/${draftNumber}/initiate-payment`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({})
+      .expect(201);
+    return dataOf<{ order: { orderNumber: string } }>(payment).order
+      .orderNumber;
+  };
+
+  // Webhooks are stored and processed by the queue worker, and assignment
+  // is relayed through the outbox queue, so wait for the order to settle
+  const waitForOrder = async (
+    orderNumber: string,
+    settled: (order: OrderDetails) => boolean,
+    description: string,
+  ): Promise<OrderDetails> => {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const order = await getOrder(orderNumber);
+      if (settled(order)) {
+        return order;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+    throw new Error(`Order ${orderNumber} never ${description}`);
+  };
+
+  const waitForStatus = (
+    orderNumber: string,
+    status: string,
+  ): Promise<OrderDetails> =>
+    waitForOrder(
+      orderNumber,
+      (order) => order.status === status,
+      `reached ${status}`,
+    );
+
+  const waitForAmountPaid = (
+    orderNumber: string,
+    amountPaid: number,
+  ): Promise<OrderDetails> =>
+    waitForOrder(
+      orderNumber,
+      (order) => order.paymentSummary.amountPaid === amountPaid,
+      `had ${amountPaid} paid`,
+    );
+
+  it('takes a draft order through payment to assignment', async () => {
+    const orderNumber = await placeOrder();
+
+    const { payload, signature } = gateway.simulateTransfer(orderNumber);
+
+    await request(app.getHttpServer())
+      .post('/orders/webhook/monnify')
+      .set('monnify-signature', signature)
+      .send(payload)
+      .expect(201);
+
+    const order = await waitForStatus(orderNumber, 'ASSIGNED');
+    expect(order.paymentSummary.outstandingAmount).toBe(0);
+    expect(order.paymentSummary.overpaidAmount).toBe(0);
+  }, 30000);
+
+  const sendWebhook = async (
+    webhook: ReturnType<MockPaymentGateway['simulateTransfer']>,
+  ) => {
+    await request(app.getHttpServer())
+      .post('/orders/webhook/monnify')
+      .set('monnify-signature', webhook.signature)
+      .send(webhook.payload)
+      .expect(201);
+  };
+
+  it('confirms an underpaid order once the rest is paid', async () => {
+    const orderNumber = await placeOrder();
+    const { paymentSummary } = await getOrder(orderNumber);
+    const total = paymentSummary.outstandingAmount;
+
+    await sendWebhook(gateway.simulateTransfer(orderNumber, 6000));
+
+    const partial = await waitForAmountPaid(orderNumber, 6000);
+    expect(partial.status).toBe('PENDING_PAYMENT');
+    expect(partial.paymentSummary.outstandingAmount).toBe(total - 6000);
+
+    // Both transfers carry the invoice's transaction reference
+    await sendWebhook(gateway.simulateTransfer(orderNumber));
+
+    const order = await waitForStatus(orderNumber, 'ASSIGNED');
+    expect(order.paymentSummary.amountPaid).toBe(total);
+    expect(order.paymentSummary.outstandingAmount).toBe(0);
+  }, 30000);
+
+  it('records the rest of an underpaid order on payment verification', async () => {
+    const orderNumber = await placeOrder();
+
+    await sendWebhook(gateway.simulateTransfer(orderNumber, 6000));
+    await waitForAmountPaid(orderNumber, 6000);
+
+    // The rest arrives without a webhook
+    gateway.simulateTransfer(orderNumber);
+
+    const verification = await request(app.getHttpServer())
+      .post(`/orders/${orderNumber}/verify-payment`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(201);
+    expect((verification.body as { success: boolean }).success).toBe(true);
+
+    const order = await waitForStatus(orderNumber, 'ASSIGNED');
+    expect(order.paymentSummary.outstandingAmount).toBe(0);
+    expect(order.paymentSummary.overpaidAmount).toBe(0);
+  }, 30000);
+
+  it('records a replayed transfer once', async () => {
+    const orderNumber = await placeOrder();
+    const webhook = gateway.simulateTransfer(orderNumber, 6000);
+
+    await sendWebhook(webhook);
+    await sendWebhook(webhook);
+
+    const order = await waitForAmountPaid(orderNumber, 6000);
+    expect(order.status).toBe('PENDING_PAYMENT');
+
+    // The resend is recognised when stored, so it is never queued
+    const events = await prisma.webhookEvent.findMany({
+      where: {
+        eventKey: {
+          startsWith: `${gateway.name}:SUCCESSFUL_TRANSACTION:${webhook.payload.eventData.transactionReference}`,
+        },
+      },
+    });
+    expect(events).toHaveLength(1);
+  }, 30000);
+
+  it('credits an overpayment to the wholesaler', async () => {
+    const orderNumber = await placeOrder();
+    const { paymentSummary } = await getOrder(orderNumber);
+    const total = paymentSummary.outstandingAmount;
+
+    await sendWebhook(gateway.simulateTransfer(orderNumber, total + 2500));
+
+    const order = await waitForStatus(orderNumber, 'ASSIGNED');
+    expect(order.paymentSummary.outstandingAmount).toBe(0);
+    expect(order.paymentSummary.overpaidAmount).toBe(2500);
+  }, 30000);
+
+  it('returns a part payment to the wallet when an unpaid order is cancelled', async () => {
+    const orderNumber = await placeOrder();
+
+    await sendWebhook(gateway.simulateTransfer(orderNumber, 6000));
+    await waitForAmountPaid(orderNumber, 6000);
+
+    await request(app.getHttpServer())
+      .delete(`/orders/${orderNumber}/cancel`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    const returned = await prisma.walletTransaction.findMany({
+      where: { order: { orderNumber }, type: 'REFUND' },
+    });
+    expect(returned.map((entry) => Number(entry.amount))).toEqual([6000]);
+  }, 30000);
+
+  it('leaves an overpayment already in the wallet out of a full refund', async () => {
+    const orderNumber = await placeOrder();
+    const { paymentSummary } = await getOrder(orderNumber);
+    const total = paymentSummary.outstandingAmount;
+
+    await sendWebhook(gateway.simulateTransfer(orderNumber, total + 2500));
+    await waitForStatus(orderNumber, 'ASSIGNED');
+
+    await request(app.getHttpServer())
+      .delete(`/orders/${orderNumber}/cancel`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    const response = await request(app.getHttpServer())
+      .post(`/orders/${orderNumber}/refunds`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ reason: 'Order cancelled' })
+      .expect(201);
+    const refunds = dataOf<{ amount: number }[]>(response);
+    expect(refunds.reduce((sum, refund) => sum + refund.amount, 0)).toBe(total);
+  }, 30000);
+
+  it('returns only undelivered units to stock when an item is cancelled', async () => {
+    const orderNumber = await placeOrder();
+    await sendWebhook(gateway.simulateTransfer(orderNumber));
+    await waitForStatus(orderNumber, 'ASSIGNED');
+
+    // Four of the ten units went out on an earlier shipment
+    const item = await prisma.orderItem.findFirstOrThrow({
+      where: { order: { orderNumber } },
+    });
+    await prisma.orderItem.update({
+      where: { id: item.id },
+      data: { status: 'READY', fulfilledQuantity: 4 },
+    });
+    const before = await prisma.product.findUniqueOrThrow({
+      where: { id: productId },
+    });
+
+    await request(app.getHttpServer())
+      .patch(`/orders/${orderNumber}/items/${item.id}/status`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+
+    const after = await prisma.product.findUniqueOrThrow({
+      where: { id: productId },
+    });
+    expect(after.quantity - before.quantity).toBe(6);
+  }, 30000);
+
+  it('stores and applies each transfer into one invoice', async () => {
+    const orderNumber = await placeOrder();
+    const first = gateway.simulateTransfer(orderNumber, 4000);
+    const second = gateway.simulateTransfer(orderNumber, 3000);
+
+    await sendWebhook(first);
+    await sendWebhook(second);
+
+    const order = await waitForAmountPaid(orderNumber, 7000);
+    expect(order.status).toBe('PENDING_PAYMENT');
+
+    // Both carry the invoice's transaction reference; neither is a resend
+    const events = await prisma.webhookEvent.findMany({
+      where: {
+        eventKey: {
+          startsWith: `${gateway.name}:SUCCESSFUL_TRANSACTION:${first.payload.eventData.transactionReference}`,
+        },
+      },
+    });
+    expect(events).toHaveLength(2);
+  }, 30000);
+
+  it('ignores webhooks with a bad signature', async () => {
+    const orderNumber = await placeOrder();
+    const { payload } = gateway.simulateTransfer(orderNumber);
+
+    // Acknowledged so the gateway stops retrying, but never applied
+    const response = await request(app.getHttpServer())
+      .post('/orders/webhook/monnify')
+      .set('monnify-signature', 'not-a-signature')
+      .send(payload)
+      .expect(201);
+    expect((response.body as { success: boolean }).success).toBe(false);
+
+    const order = await getOrder(orderNumber);
+    expect(order.status).toBe('PENDING_PAYMENT');
+  });
+});